@@ -14,6 +14,16 @@ export const EDITOR_CONFIG = {
   /** 拖拽/吸附相关配置 */
   DRAG: {
     SNAP_THRESHOLD: 5,
+    /** 吸附参考线最多参考的元素数量（取距离选区最近的元素） */
+    GUIDELINE_LIMIT: 100,
+  },
+
+  /** 视口裁剪与远景简化 */
+  VIRTUALIZATION: {
+    /** 可视区域外额外渲染的边距（屏幕像素），同时作为重新计算可见元素的步长 */
+    MARGIN: 400,
+    /** 缩放比例低于该值时，图片、文字等以占位块代替 */
+    LOD_ZOOM: 0.3,
   },
 
   /** 图片自动排版配置 */
@@ -22,6 +32,46 @@ export const EDITOR_CONFIG = {
     MAX_ROW_WIDTH: 3000,
   },
 
+  /** Frame 自动布局的默认值 */
+  AUTO_LAYOUT: {
+    GAP: 16,
+    PADDING: 16,
+  },
+
+  /** 撤销/重做配置 */
+  HISTORY: {
+    /** 最多保留的历史记录条数 */
+    LIMIT: 100,
+  },
+
+  /** 剪贴板配置 */
+  CLIPBOARD: {
+    /** 粘贴/复制时的偏移量 */
+    PASTE_OFFSET: 20,
+  },
+
+  /** 手绘工具配置 */
+  DRAW: {
+    /** 默认笔画颜色 */
+    STROKE: '#1f1f1f',
+    /** 默认基础线宽 */
+    STROKE_WIDTH: 4,
+    /** RDP 简化容差（屏幕像素，按缩放换算为世界坐标） */
+    SIMPLIFY_TOLERANCE: 1.5,
+  },
+
+  /** 协作状态（光标、选区）配置 */
+  PRESENCE: {
+    /** 状态广播的最小间隔（毫秒） */
+    THROTTLE: 50,
+    /** 心跳间隔（毫秒） */
+    HEARTBEAT: 5000,
+    /** 超过该时长未收到消息的参与者视为已离开（毫秒） */
+    TIMEOUT: 15000,
+    /** 参与者颜色 */
+    COLORS: ['#f5222d', '#fa8c16', '#52c41a', '#13c2c2', '#2f54eb', '#722ed1', '#eb2f96', '#a0d911'],
+  },
+
   /** 元素尺寸限制 */
   ELEMENT: {
     MIN_WIDTH: 10,
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { EditorEngine } from '../engine/EditorEngine';
+import type { Element } from '../engine/types';
+import { CollabSession } from './CollabSession';
+import { InMemoryNetwork } from './transports/InMemoryTransport';
+
+type Pick = (queueLength: number) => number;
+
+/** 固定种子的伪随机下标，保证乱序结果可复现 */
+function seededPick(seed: number): Pick {
+  let state = seed;
+  return (queueLength) => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state % queueLength;
+  };
+}
+
+const ORDERS: [string, () => Pick][] = [
+  ['in send order', () => () => 0],
+  ['in reverse order', () => (queueLength) => queueLength - 1],
+  ['shuffled', () => seededPick(7)],
+  ['shuffled (another seed)', () => seededPick(2024)],
+];
+
+function setup() {
+  const network = new InMemoryNetwork({ autoFlush: false });
+  const a = new EditorEngine();
+  const b = new EditorEngine();
+  new CollabSession(a, { transport: network.connect(), clientId: 'a' }).start();
+  new CollabSession(b, { transport: network.connect(), clientId: 'b' }).start();
+  network.flush();
+  return { network, a, b };
+}
+
+const sorted = (elements: Element[]) => [...elements].sort((x, y) => (x.id < y.id ? -1 : x.id > y.id ? 1 : 0));
+
+function expectConverged(a: EditorEngine, b: EditorEngine) {
+  expect(sorted(b.getState().elements)).toEqual(sorted(a.getState().elements));
+}
+
+const getElement = (engine: EditorEngine, id: string) =>
+  engine.getState().elements.find(el => el.id === id);
+
+const rect = { type: 'rectangle', x: 10, y: 10, width: 50, height: 50 } as const;
+const frame = (x: number) => ({ type: 'frame', x, y: 0, width: 200, height: 200 }) as const;
+
+describe.each(ORDERS)('CollabSession with messages delivered %s', (_, createPick) => {
+  it('converges on concurrent moves of the same element', () => {
+    const { network, a, b } = setup();
+    const id = a.addElement(rect);
+    network.flush(createPick());
+
+    a.moveElements([id], 100, 0);
+    b.moveElements([id], 0, 200);
+    a.moveElements([id], 5, 5);
+    network.flush(createPick());
+
+    expectConverged(a, b);
+    const { x, y } = getElement(a, id)!;
+    // 位置整体同步：结果是其中一方的完整位置，而不是两者的混合
+    expect([{ x: 115, y: 15 }, { x: 10, y: 210 }]).toContainEqual({ x, y });
+  });
+
+  it('converges on concurrent edits of different fields', () => {
+    const { network, a, b } = setup();
+    const id = a.addElement(rect);
+    network.flush(createPick());
+
+    a.moveElements([id], 100, 0);
+    b.updateElement(id, { width: 80, style: { backgroundColor: '#ff0000' } });
+    network.flush(createPick());
+
+    expectConverged(a, b);
+    expect(getElement(a, id)).toMatchObject({ x: 110, width: 80, style: { backgroundColor: '#ff0000' } });
+  });
+
+  it('converges on concurrent reparents through handleDrag', () => {
+    const { network, a, b } = setup();
+    const left = a.addElement(frame(0));
+    const right = a.addElement(frame(300));
+    const id = a.addElement({ ...rect, x: 10, y: 300 });
+    network.flush(createPick());
+
+    a.handleDrag([id], [50, -250], { x: 60, y: 60 });
+    b.handleDrag([id], [350, -250], { x: 360, y: 60 });
+    network.flush(createPick());
+
+    expectConverged(a, b);
+    const parentId = getElement(a, id)!.parentId;
+    expect([left, right]).toContain(parentId);
+    const other = parentId === left ? right : left;
+    expect(getElement(a, parentId!)!.children).toContain(id);
+    expect(getElement(a, other)!.children || []).not.toContain(id);
+  });
+
+  it('hides an element moved into a frame that was deleted concurrently', () => {
+    const { network, a, b } = setup();
+    const frameId = a.addElement(frame(0));
+    const id = a.addElement({ ...rect, x: 10, y: 300 });
+    network.flush(createPick());
+
+    a.deleteElements([frameId]);
+    b.handleDrag([id], [50, -250], { x: 60, y: 60 });
+    expect(getElement(b, id)!.parentId).toBe(frameId);
+    network.flush(createPick());
+
+    expect(getElement(a, frameId)).toBeUndefined();
+    expect(getElement(b, frameId)).toBeUndefined();
+    // 删除优先：B 移入已删除 Frame 的元素在两端都随之隐藏
+    expect(getElement(b, id)).toBeUndefined();
+    expect(getElement(a, id)).toBeUndefined();
+  });
+
+  it('lets a delete win over a concurrent edit', () => {
+    const { network, a, b } = setup();
+    const id = a.addElement(rect);
+    const kept = b.addElement({ ...rect, x: 300 });
+    network.flush(createPick());
+
+    a.deleteElements([id]);
+    b.moveElements([id], 40, 40);
+    b.updateElement(kept, { height: 120 });
+    network.flush(createPick());
+
+    expectConverged(a, b);
+    expect(getElement(a, id)).toBeUndefined();
+    expect(getElement(a, kept)!.height).toBe(120);
+  });
+
+  it('keeps remote edits when undoing a local change', () => {
+    const { network, a, b } = setup();
+    const id = a.addElement(rect);
+    network.flush(createPick());
+
+    a.updateElement(id, { width: 90 });
+    network.flush(createPick());
+    b.moveElements([id], 0, 300);
+    network.flush(createPick());
+
+    a.undo();
+    network.flush(createPick());
+    expectConverged(a, b);
+    expect(getElement(a, id)).toMatchObject({ y: 310, width: 50 });
+
+    a.redo();
+    network.flush(createPick());
+    expectConverged(a, b);
+    expect(getElement(a, id)).toMatchObject({ y: 310, width: 90 });
+  });
+
+  it('does not restore an element deleted remotely when undoing', () => {
+    const { network, a, b } = setup();
+    const id = a.addElement(rect);
+    network.flush(createPick());
+
+    a.moveElements([id], 100, 0);
+    network.flush(createPick());
+    b.deleteElements([id]);
+    network.flush(createPick());
+
+    a.undo();
+    network.flush(createPick());
+    expectConverged(a, b);
+    expect(getElement(a, id)).toBeUndefined();
+  });
+});
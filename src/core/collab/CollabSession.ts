@@ -0,0 +1,86 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { EditorEngine } from '../engine/EditorEngine';
+import type { Element } from '../engine/types';
+import { LWWDocument } from './LWWDocument';
+import type { CollabMessage, CollabOptions, CollabTransport } from './types';
+
+/**
+ * CollabSession - 将 EditorEngine 的元素列表接入 CRDT 文档并通过传输层同步
+ *
+ * - 本地：订阅引擎状态，把元素列表的变化转换为字段写入并广播；
+ * - 远端：合并收到的写入，将 CRDT 推导出的元素列表应用回引擎（不记录历史）。
+ * 本地的每次提交都会立即写入文档，因此引擎状态与文档状态始终一致。
+ */
+export class CollabSession {
+  public readonly clientId: string;
+  private readonly engine: EditorEngine;
+  private readonly transport: CollabTransport;
+  private readonly doc: LWWDocument;
+  private lastElements: Element[] = [];
+  private cleanups: (() => void)[] = [];
+
+  constructor(engine: EditorEngine, { transport, clientId = uuidv4() }: CollabOptions) {
+    this.engine = engine;
+    this.transport = transport;
+    this.clientId = clientId;
+    this.doc = new LWWDocument(clientId);
+  }
+
+  public get isActive(): boolean {
+    return this.cleanups.length > 0;
+  }
+
+  /**
+   * 开始同步：广播本地已有的元素，并向其他客户端请求完整状态
+   */
+  public start() {
+    if (this.isActive) return;
+
+    this.cleanups.push(
+      this.transport.subscribe(message => this.handleMessage(message)),
+      this.engine.subscribe(state => this.commit(state.elements)),
+    );
+    this.commit(this.engine.getState().elements);
+    this.transport.send({ type: 'sync-request', clientId: this.clientId });
+  }
+
+  /**
+   * 停止同步（不关闭传输层）
+   */
+  public stop() {
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+  }
+
+  /** 当前 CRDT 文档 */
+  public getDocument(): LWWDocument {
+    return this.doc;
+  }
+
+  private commit(elements: Element[]) {
+    if (elements === this.lastElements) return;
+    const ops = this.doc.commitLocalChanges(this.lastElements, elements);
+    this.lastElements = elements;
+    if (ops.length > 0) {
+      this.transport.send({ type: 'ops', clientId: this.clientId, ops });
+    }
+  }
+
+  private handleMessage(message: CollabMessage) {
+    if (message.clientId === this.clientId) return;
+
+    switch (message.type) {
+      case 'sync-request':
+        this.transport.send({ type: 'ops', clientId: this.clientId, ops: this.doc.getSnapshot() });
+        break;
+      case 'ops': {
+        const changedIds = this.doc.apply(message.ops);
+        if (changedIds.size === 0) return;
+        // 先更新基准，引擎通知时不会把远端变化当作本地编辑再次广播
+        this.lastElements = this.doc.getElements();
+        this.engine.applyRemoteElements(this.lastElements);
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import type { Element, ElementType } from '../engine/types';
+import type { CRDTOperation, LWWTimestamp } from './types';
+
+interface Register {
+  value?: unknown;
+  ts: LWWTimestamp;
+}
+
+interface Placement {
+  parentId?: string;
+  x: number;
+  y: number;
+}
+
+interface CachedElement {
+  base: Element;
+  key: string;
+  element: Element;
+}
+
+/** 删除标记字段 */
+const DELETED_FIELD = 'deleted';
+/**
+ * 位置字段：parentId 与 x / y 作为一个寄存器整体写入，
+ * 这样并发重设父级时，坐标总是相对于最终胜出的父级
+ */
+const PLACEMENT_FIELD = 'placement';
+const STYLE_PREFIX = 'style.';
+/** 不进入寄存器的字段：id 是键，children 由 parentId 推导 */
+const SKIPPED_FIELDS = new Set(['id', 'children', 'style', 'parentId', 'x', 'y']);
+const CONTAINER_TYPES: ElementType[] = ['frame', 'group'];
+
+/**
+ * 比较两个时间戳，a 更新时返回正数
+ */
+export function compareTimestamps(a: LWWTimestamp, b: LWWTimestamp): number {
+  if (a.counter !== b.counter) return a.counter - b.counter;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+const isEqual = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+/**
+ * 将元素展开为寄存器字段
+ */
+function toFields(el: Element): Map<string, unknown> {
+  const fields = new Map<string, unknown>();
+  const placement: Placement = { x: el.x, y: el.y };
+  if (el.parentId) placement.parentId = el.parentId;
+  fields.set(PLACEMENT_FIELD, placement);
+
+  (Object.keys(el) as (keyof Element)[]).forEach(key => {
+    if (!SKIPPED_FIELDS.has(key) && el[key] !== undefined) fields.set(key, el[key]);
+  });
+  if (el.style) {
+    Object.entries(el.style).forEach(([key, value]) => {
+      if (value !== undefined) fields.set(STYLE_PREFIX + key, value);
+    });
+  }
+  return fields;
+}
+
+/**
+ * LWWDocument - 基于 LWW 寄存器的元素文档 CRDT
+ *
+ * 每个元素是一组「最后写入者胜出」的字段寄存器，合并操作幂等、可交换，
+ * 因此无论消息以何种顺序到达，所有客户端最终得到相同的元素列表：
+ * - 删除是一个普通字段（墓碑），删除元素的后代随之隐藏，即「删除优先于并发移动」；
+ * - children 不直接同步，而是由 parentId 推导，兄弟元素按 (zIndex, id) 排序；
+ * - 并发重设父级形成环时，环上最后一次重设父级的元素移到根画布。
+ */
+export class LWWDocument {
+  public readonly clientId: string;
+  private clock = 0;
+  private registers = new Map<string, Map<string, Register>>();
+  private cache = new Map<string, CachedElement>();
+  private dirtyIds = new Set<string>();
+  private elements: Element[] = [];
+  private needsMaterialize = false;
+
+  constructor(clientId: string) {
+    this.clientId = clientId;
+  }
+
+  /**
+   * 合并一批操作（本地或远端），返回字段值实际发生变化的元素 ID
+   */
+  public apply(ops: CRDTOperation[]): Set<string> {
+    const changedIds = new Set<string>();
+    ops.forEach(op => {
+      this.clock = Math.max(this.clock, op.ts.counter);
+
+      let fields = this.registers.get(op.id);
+      if (!fields) {
+        fields = new Map();
+        this.registers.set(op.id, fields);
+      }
+      const current = fields.get(op.field);
+      if (current && compareTimestamps(op.ts, current.ts) <= 0) return;
+
+      const register: Register = { ts: op.ts };
+      if ('value' in op && op.value !== undefined) register.value = op.value;
+      fields.set(op.field, register);
+      if (!current || !isEqual(current.value, register.value)) changedIds.add(op.id);
+    });
+
+    changedIds.forEach(id => this.dirtyIds.add(id));
+    if (changedIds.size > 0) this.needsMaterialize = true;
+    return changedIds;
+  }
+
+  /**
+   * 比较本地编辑前后的元素列表，生成并应用对应的操作
+   * 同一次提交的所有操作共用一个时间戳
+   */
+  public commitLocalChanges(prev: Element[], next: Element[]): CRDTOperation[] {
+    if (prev === next) return [];
+
+    const ts: LWWTimestamp = { counter: this.clock + 1, clientId: this.clientId };
+    const ops: CRDTOperation[] = [];
+    const prevMap = new Map(prev.map(el => [el.id, el]));
+
+    next.forEach(el => {
+      const before = prevMap.get(el.id);
+      prevMap.delete(el.id);
+      if (before === el) return;
+
+      if (!before) ops.push({ id: el.id, field: DELETED_FIELD, value: false, ts });
+      const beforeFields = before ? toFields(before) : new Map<string, unknown>();
+      const afterFields = toFields(el);
+
+      afterFields.forEach((value, field) => {
+        if (!isEqual(beforeFields.get(field), value)) ops.push({ id: el.id, field, value, ts });
+      });
+      beforeFields.forEach((_, field) => {
+        if (!afterFields.has(field)) ops.push({ id: el.id, field, ts });
+      });
+    });
+    prevMap.forEach((_, id) => ops.push({ id, field: DELETED_FIELD, value: true, ts }));
+
+    if (ops.length > 0) this.apply(ops);
+    return ops;
+  }
+
+  /**
+   * 以操作形式导出全部状态（包括墓碑），用于新客户端同步
+   */
+  public getSnapshot(): CRDTOperation[] {
+    const ops: CRDTOperation[] = [];
+    this.registers.forEach((fields, id) => {
+      fields.forEach((register, field) => {
+        ops.push('value' in register ? { id, field, value: register.value, ts: register.ts } : { id, field, ts: register.ts });
+      });
+    });
+    return ops;
+  }
+
+  /**
+   * 当前可见的元素列表：父级排在子级之前，未变化的元素保持引用不变
+   */
+  public getElements(): Element[] {
+    if (this.needsMaterialize) {
+      this.elements = this.materialize();
+      this.needsMaterialize = false;
+    }
+    return this.elements;
+  }
+
+  private getBase(id: string): Element | null {
+    const fields = this.registers.get(id);
+    if (!fields || fields.get(DELETED_FIELD)?.value !== false || !fields.has('type')) return null;
+
+    const cached = this.cache.get(id);
+    if (cached && !this.dirtyIds.has(id)) return cached.base;
+
+    const base: Record<string, unknown> = { id };
+    const style: Record<string, unknown> = {};
+    fields.forEach(({ value }, field) => {
+      if (value === undefined || field === DELETED_FIELD) return;
+      if (field === PLACEMENT_FIELD) {
+        Object.assign(base, value as Placement);
+      } else if (field.startsWith(STYLE_PREFIX)) {
+        style[field.slice(STYLE_PREFIX.length)] = value;
+      } else {
+        base[field] = value;
+      }
+    });
+    if (Object.keys(style).length > 0) base.style = style;
+    return base as unknown as Element;
+  }
+
+  private materialize(): Element[] {
+    const bases = new Map<string, Element>();
+    this.registers.forEach((_, id) => {
+      const base = this.getBase(id);
+      if (base) bases.set(id, base);
+    });
+
+    // 1. 打破并发重设父级产生的环
+    const detached = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    bases.forEach((_, startId) => {
+      const path: string[] = [];
+      let id: string | undefined = startId;
+      while (id && bases.has(id) && !state.has(id)) {
+        state.set(id, 'visiting');
+        path.push(id);
+        id = detached.has(id) ? undefined : bases.get(id)!.parentId;
+      }
+      if (id && state.get(id) === 'visiting') {
+        const cycle = path.slice(path.indexOf(id));
+        const latest = cycle.reduce((a, b) =>
+          compareTimestamps(this.getPlacementTs(a), this.getPlacementTs(b)) >= 0 ? a : b
+        );
+        detached.add(latest);
+      }
+      path.forEach(member => state.set(member, 'done'));
+    });
+
+    // 2. 父级被删除（或尚未同步）的元素不可见
+    const visible = new Map<string, boolean>();
+    const isVisible = (id: string): boolean => {
+      if (visible.has(id)) return visible.get(id)!;
+      const base = bases.get(id);
+      let result = !!base;
+      if (base?.parentId && !detached.has(id)) {
+        const parent = bases.get(base.parentId);
+        result = !!parent && CONTAINER_TYPES.includes(parent.type) && isVisible(base.parentId);
+      }
+      visible.set(id, result);
+      return result;
+    };
+
+    const childrenOf = new Map<string, string[]>();
+    const roots: string[] = [];
+    bases.forEach((base, id) => {
+      if (!isVisible(id)) return;
+      const parentId = detached.has(id) ? undefined : base.parentId;
+      if (!parentId) {
+        roots.push(id);
+      } else {
+        childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), id]);
+      }
+    });
+
+    const byZIndex = (a: string, b: string) =>
+      (bases.get(a)!.zIndex - bases.get(b)!.zIndex) || (a < b ? -1 : a > b ? 1 : 0);
+
+    // 3. 按层级顺序输出，复用未变化的元素对象
+    const result: Element[] = [];
+    const nextCache = new Map<string, CachedElement>();
+    const visit = (id: string) => {
+      const base = bases.get(id)!;
+      const children = (childrenOf.get(id) || []).sort(byZIndex);
+      const isContainer = CONTAINER_TYPES.includes(base.type);
+      const key = `${detached.has(id) ? 1 : 0}|${isContainer ? children.join(',') : ''}`;
+
+      const cached = this.cache.get(id);
+      let element: Element;
+      if (cached && cached.base === base && cached.key === key) {
+        element = cached.element;
+      } else {
+        element = { ...base };
+        if (detached.has(id)) delete element.parentId;
+        if (isContainer) element.children = children;
+      }
+      nextCache.set(id, { base, key, element });
+      result.push(element);
+      children.forEach(visit);
+    };
+    roots.sort(byZIndex).forEach(visit);
+
+    this.cache = nextCache;
+    this.dirtyIds.clear();
+    return result;
+  }
+
+  private getPlacementTs(id: string): LWWTimestamp {
+    return this.registers.get(id)!.get(PLACEMENT_FIELD)!.ts;
+  }
+}
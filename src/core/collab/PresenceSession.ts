@@ -0,0 +1,210 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { EditorEngine } from '../engine/EditorEngine';
+import type { Point, Viewport } from '../engine/types';
+import { EDITOR_CONFIG } from '../../constants/editor';
+import type { CollabMessage, CollabOptions, CollabTransport, PresenceState, PresenceUser, RemotePresence } from './types';
+
+/** 视口差异小于该值时视为相同（跟随时视图回写的舍入误差） */
+const VIEWPORT_EPSILON = 1;
+
+/**
+ * 参与者状态快照，每次变化都会生成新的对象
+ */
+export interface PresenceSnapshot {
+  peers: RemotePresence[];
+  /** 正在跟随的参与者 */
+  followingId: string | null;
+}
+
+/**
+ * 根据 clientId 选取一个稳定的颜色
+ */
+export function getPresenceColor(clientId: string): string {
+  const colors = EDITOR_CONFIG.PRESENCE.COLORS;
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) >>> 0;
+  }
+  return colors[hash % colors.length];
+}
+
+function isSameViewport(a: Viewport, b: Viewport): boolean {
+  return Math.abs(a.x - b.x) < VIEWPORT_EPSILON
+    && Math.abs(a.y - b.y) < VIEWPORT_EPSILON
+    && Math.abs(a.zoom - b.zoom) < 1e-3;
+}
+
+/**
+ * PresenceSession - 协作参与者的实时状态（光标、选区、视口）
+ *
+ * 与 CollabSession 共用传输层，但状态不进入文档：
+ * - 本地选区与视口变化、光标移动时节流广播，并定期发送心跳；
+ * - 超时未收到消息的参与者视为离开；
+ * - 跟随模式下，被跟随者的视口通过 engine.setViewport 同步到本地，本地主动平移或缩放时自动退出跟随。
+ */
+export class PresenceSession {
+  public readonly clientId: string;
+  private readonly engine: EditorEngine;
+  private readonly transport: CollabTransport;
+  private readonly user: PresenceUser;
+  private cursor: Point | null = null;
+  private peers = new Map<string, RemotePresence>();
+  private followingId: string | null = null;
+  /** 跟随时最近一次写入引擎的视口 */
+  private followedViewport: Viewport | null = null;
+  private snapshot: PresenceSnapshot = { peers: [], followingId: null };
+  private listeners = new Set<() => void>();
+  private cleanups: (() => void)[] = [];
+  private lastBroadcastAt = 0;
+  private broadcastTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(engine: EditorEngine, { transport, clientId = uuidv4(), user }: CollabOptions) {
+    this.engine = engine;
+    this.transport = transport;
+    this.clientId = clientId;
+    this.user = {
+      name: user?.name || `User ${clientId.slice(0, 4)}`,
+      color: user?.color || getPresenceColor(clientId),
+    };
+  }
+
+  public start() {
+    if (this.cleanups.length > 0) return;
+
+    let { selectedIds, viewport } = this.engine.getState();
+    const heartbeat = setInterval(() => {
+      this.broadcast();
+      this.removeStalePeers();
+    }, EDITOR_CONFIG.PRESENCE.HEARTBEAT);
+
+    this.cleanups.push(
+      this.transport.subscribe(message => this.handleMessage(message)),
+      this.engine.subscribe(state => {
+        if (state.viewport !== viewport && this.followedViewport && !isSameViewport(state.viewport, this.followedViewport)) {
+          this.follow(null);
+        }
+        if (state.selectedIds !== selectedIds || state.viewport !== viewport) {
+          ({ selectedIds, viewport } = state);
+          this.scheduleBroadcast();
+        }
+      }),
+      () => clearInterval(heartbeat),
+    );
+    this.broadcast();
+  }
+
+  public stop() {
+    if (this.cleanups.length === 0) return;
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+    if (this.broadcastTimer) clearTimeout(this.broadcastTimer);
+    this.broadcastTimer = null;
+    this.transport.send({ type: 'presence-leave', clientId: this.clientId });
+    this.peers.clear();
+    this.followingId = null;
+    this.followedViewport = null;
+    this.emit();
+  }
+
+  /**
+   * 更新本地光标的世界坐标，离开画布时传入 null
+   */
+  public updateCursor(cursor: Point | null) {
+    this.cursor = cursor;
+    this.scheduleBroadcast();
+  }
+
+  public getLocalUser(): PresenceUser {
+    return this.user;
+  }
+
+  /**
+   * 跟随指定参与者的视口，传入 null 退出跟随
+   */
+  public follow(clientId: string | null) {
+    const target = clientId ? this.peers.get(clientId) : undefined;
+    this.followingId = target ? target.clientId : null;
+    this.followedViewport = null;
+    if (target) this.applyFollowedViewport(target.viewport);
+    this.emit();
+  }
+
+  public getSnapshot = (): PresenceSnapshot => this.snapshot;
+
+  public subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  private getLocalState(): PresenceState {
+    const { selectedIds, viewport } = this.engine.getState();
+    return { clientId: this.clientId, user: this.user, cursor: this.cursor, selectedIds, viewport };
+  }
+
+  private broadcast() {
+    this.lastBroadcastAt = Date.now();
+    this.transport.send({ type: 'presence', clientId: this.clientId, presence: this.getLocalState() });
+  }
+
+  /**
+   * 节流广播：距上次广播不足 THROTTLE 时延迟到窗口结束，期间的多次变化只发送最后一次
+   */
+  private scheduleBroadcast() {
+    if (this.broadcastTimer) return;
+    const wait = EDITOR_CONFIG.PRESENCE.THROTTLE - (Date.now() - this.lastBroadcastAt);
+    if (wait <= 0) {
+      this.broadcast();
+      return;
+    }
+    this.broadcastTimer = setTimeout(() => {
+      this.broadcastTimer = null;
+      this.broadcast();
+    }, wait);
+  }
+
+  private handleMessage(message: CollabMessage) {
+    if (message.clientId === this.clientId) return;
+
+    switch (message.type) {
+      case 'sync-request':
+        this.broadcast();
+        break;
+      case 'presence': {
+        const presence = { ...message.presence, lastSeen: Date.now() };
+        this.peers.set(message.clientId, presence);
+        if (this.followingId === message.clientId) this.applyFollowedViewport(presence.viewport);
+        this.emit();
+        break;
+      }
+      case 'presence-leave':
+        if (this.peers.delete(message.clientId)) {
+          if (this.followingId === message.clientId) this.followingId = null;
+          this.emit();
+        }
+        break;
+    }
+  }
+
+  private applyFollowedViewport(viewport: Viewport) {
+    this.followedViewport = viewport;
+    this.engine.setViewport(viewport);
+  }
+
+  private removeStalePeers() {
+    const deadline = Date.now() - EDITOR_CONFIG.PRESENCE.TIMEOUT;
+    let changed = false;
+    this.peers.forEach((peer, id) => {
+      if (peer.lastSeen >= deadline) return;
+      this.peers.delete(id);
+      if (this.followingId === id) this.followingId = null;
+      changed = true;
+    });
+    if (changed) this.emit();
+  }
+
+  private emit() {
+    if (!this.followingId) this.followedViewport = null;
+    this.snapshot = { peers: [...this.peers.values()], followingId: this.followingId };
+    this.listeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,16 @@
+export { CollabSession } from './CollabSession';
+export { PresenceSession, getPresenceColor, type PresenceSnapshot } from './PresenceSession';
+export { LWWDocument, compareTimestamps } from './LWWDocument';
+export { InMemoryNetwork, InMemoryTransport } from './transports/InMemoryTransport';
+export { BroadcastChannelTransport } from './transports/BroadcastChannelTransport';
+export { WebSocketTransport } from './transports/WebSocketTransport';
+export type {
+  LWWTimestamp,
+  CRDTOperation,
+  CollabMessage,
+  CollabTransport,
+  CollabOptions,
+  PresenceUser,
+  PresenceState,
+  RemotePresence,
+} from './types';
@@ -0,0 +1,27 @@
+import type { CollabMessage, CollabTransport } from '../types';
+
+/**
+ * BroadcastChannelTransport - 同源的多个标签页之间同步
+ * 可作为 WebSocket 服务的本地替代，便于在没有服务端时体验协作
+ */
+export class BroadcastChannelTransport implements CollabTransport {
+  private readonly channel: BroadcastChannel;
+
+  constructor(channelName: string) {
+    this.channel = new BroadcastChannel(channelName);
+  }
+
+  public send(message: CollabMessage) {
+    this.channel.postMessage(message);
+  }
+
+  public subscribe(handler: (message: CollabMessage) => void): () => void {
+    const listener = (event: MessageEvent<CollabMessage>) => handler(event.data);
+    this.channel.addEventListener('message', listener);
+    return () => this.channel.removeEventListener('message', listener);
+  }
+
+  public close() {
+    this.channel.close();
+  }
+}
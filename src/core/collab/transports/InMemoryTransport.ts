@@ -0,0 +1,102 @@
+import type { CollabMessage, CollabTransport } from '../types';
+
+type Handler = (message: CollabMessage) => void;
+
+interface PendingDelivery {
+  target: InMemoryTransport;
+  message: CollabMessage;
+}
+
+/**
+ * InMemoryTransport - 连接到 InMemoryNetwork 的一个端点
+ */
+export class InMemoryTransport implements CollabTransport {
+  private readonly network: InMemoryNetwork;
+  private handlers = new Set<Handler>();
+
+  constructor(network: InMemoryNetwork) {
+    this.network = network;
+  }
+
+  public send(message: CollabMessage) {
+    this.network.broadcast(this, message);
+  }
+
+  public subscribe(handler: Handler): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  public close() {
+    this.handlers.clear();
+    this.network.disconnect(this);
+  }
+
+  /** 由网络调用，将消息交给订阅者 */
+  public deliver(message: CollabMessage) {
+    this.handlers.forEach(handler => handler(message));
+  }
+}
+
+/**
+ * InMemoryNetwork - 同一页面内的模拟网络，用于测试与演示
+ * autoFlush 为 false 时消息暂存在队列中，调用 flush() 才送达，可用于模拟并发与网络延迟
+ */
+export class InMemoryNetwork {
+  private readonly autoFlush: boolean;
+  private peers = new Set<InMemoryTransport>();
+  private queue: PendingDelivery[] = [];
+  private flushScheduled = false;
+
+  constructor({ autoFlush = true }: { autoFlush?: boolean } = {}) {
+    this.autoFlush = autoFlush;
+  }
+
+  /** 创建一个新的端点 */
+  public connect(): InMemoryTransport {
+    const transport = new InMemoryTransport(this);
+    this.peers.add(transport);
+    return transport;
+  }
+
+  public disconnect(transport: InMemoryTransport) {
+    this.peers.delete(transport);
+    this.queue = this.queue.filter(delivery => delivery.target !== transport);
+  }
+
+  public broadcast(sender: InMemoryTransport, message: CollabMessage) {
+    // 模拟序列化，避免端点之间共享对象引用
+    const payload = JSON.parse(JSON.stringify(message)) as CollabMessage;
+    this.peers.forEach(target => {
+      if (target !== sender) this.queue.push({ target, message: payload });
+    });
+
+    if (this.autoFlush && !this.flushScheduled) {
+      this.flushScheduled = true;
+      queueMicrotask(() => {
+        this.flushScheduled = false;
+        this.flush();
+      });
+    }
+  }
+
+  /** 尚未送达的消息数量 */
+  public get pendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * 送达所有排队的消息（包括送达过程中新产生的消息），返回送达数量
+   * @param pick 返回下一条送达的消息在队列中的下标，用于模拟乱序到达；默认按发送顺序
+   */
+  public flush(pick: (queueLength: number) => number = () => 0): number {
+    let delivered = 0;
+    while (this.queue.length > 0) {
+      const index = Math.min(Math.max(Math.floor(pick(this.queue.length)), 0), this.queue.length - 1);
+      const { target, message } = this.queue.splice(index, 1)[0];
+      target.deliver(message);
+      delivered++;
+    }
+    return delivered;
+  }
+}
@@ -0,0 +1,45 @@
+import type { CollabMessage, CollabTransport } from '../types';
+
+/**
+ * WebSocketTransport - 通过 WebSocket 中继服务同步
+ * 服务端只需将收到的每条消息转发给同一房间内的其他连接；连接建立前发送的消息会排队
+ */
+export class WebSocketTransport implements CollabTransport {
+  private readonly socket: WebSocket;
+  private pending: string[] = [];
+
+  constructor(urlOrSocket: string | WebSocket) {
+    this.socket = typeof urlOrSocket === 'string' ? new WebSocket(urlOrSocket) : urlOrSocket;
+    this.socket.addEventListener('open', () => {
+      this.pending.forEach(data => this.socket.send(data));
+      this.pending = [];
+    });
+  }
+
+  public send(message: CollabMessage) {
+    const data = JSON.stringify(message);
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(data);
+    } else if (this.socket.readyState === WebSocket.CONNECTING) {
+      this.pending.push(data);
+    }
+  }
+
+  public subscribe(handler: (message: CollabMessage) => void): () => void {
+    const listener = (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      try {
+        handler(JSON.parse(event.data) as CollabMessage);
+      } catch (error) {
+        console.warn('[Collab] Ignored malformed message:', error);
+      }
+    };
+    this.socket.addEventListener('message', listener);
+    return () => this.socket.removeEventListener('message', listener);
+  }
+
+  public close() {
+    this.pending = [];
+    this.socket.close();
+  }
+}
@@ -0,0 +1,83 @@
+import type { Point, Viewport } from '../engine/types';
+
+/**
+ * Lamport 时间戳：counter 越大越新，相同时按 clientId 字典序决定先后
+ */
+export interface LWWTimestamp {
+  counter: number;
+  clientId: string;
+}
+
+/**
+ * 对单个元素字段（LWW 寄存器）的一次写入
+ * - field 为 Element 的顶层字段，style 的子字段写作 `style.fill` 形式；
+ * - 特殊字段 `deleted` 表示元素是否被删除（墓碑）；
+ * - 不带 value 表示清除该字段。
+ */
+export interface CRDTOperation {
+  id: string;
+  field: string;
+  value?: unknown;
+  ts: LWWTimestamp;
+}
+
+/** 协作参与者 */
+export interface PresenceUser {
+  name: string;
+  /** 光标与选区的颜色 */
+  color: string;
+}
+
+/**
+ * 参与者的实时状态（不进入文档）
+ */
+export interface PresenceState {
+  clientId: string;
+  user: PresenceUser;
+  /** 光标的世界坐标，光标离开画布时为 null */
+  cursor: Point | null;
+  selectedIds: string[];
+  viewport: Viewport;
+}
+
+/** 其他参与者的状态 */
+export interface RemotePresence extends PresenceState {
+  /** 最近一次收到该参与者消息的时间戳（毫秒） */
+  lastSeen: number;
+}
+
+/**
+ * 协作消息
+ * - ops：一批字段写入；
+ * - sync-request：新加入的客户端请求完整状态，其他客户端以 ops 与 presence 回复；
+ * - presence / presence-leave：参与者状态更新与离开。
+ */
+export type CollabMessage =
+  | { type: 'ops'; clientId: string; ops: CRDTOperation[] }
+  | { type: 'sync-request'; clientId: string }
+  | { type: 'presence'; clientId: string; presence: PresenceState }
+  | { type: 'presence-leave'; clientId: string };
+
+/**
+ * 传输层：负责在客户端之间广播协作消息
+ * 不要求消息有序或只送达一次，文档合并是幂等且可交换的
+ */
+export interface CollabTransport {
+  /** 向其他客户端广播消息（不会回送给自己） */
+  send: (message: CollabMessage) => void;
+  /** 订阅来自其他客户端的消息，返回取消订阅函数 */
+  subscribe: (handler: (message: CollabMessage) => void) => () => void;
+  /** 断开连接 */
+  close: () => void;
+}
+
+/**
+ * 协作配置
+ */
+export interface CollabOptions {
+  transport: CollabTransport;
+  /** 客户端 ID，默认随机生成 */
+  clientId?: string;
+  /** 当前参与者，用于在其他客户端显示光标与名称；颜色默认根据 clientId 生成 */
+  user?: Partial<PresenceUser>;
+}
@@ -1,17 +1,32 @@
-import { useRef, useCallback, useState, useImperativeHandle } from 'react';
+import { useRef, useCallback, useMemo, useState, useImperativeHandle } from 'react';
 import InfiniteViewer from 'react-infinite-viewer';
 import { useEngineInstance } from '../../react/context/useEngineInstance';
 import { useEditorEngine } from '../../react/hooks/useEditorEngine';
 import { InternalToolbar } from './parts/InternalToolbar';
 import { InternalFloatingToolbar } from './parts/InternalFloatingToolbar';
-import { BaseRender, MoveableManager, SelectoManager, useSelectionBoundingBox } from '../rendering';
-import { exportSelectedFrameAsImage } from '../../../utils/exportUtils';
+import { PresenceLayer } from './parts/PresenceLayer';
+import { PresenceAvatars } from './parts/PresenceAvatars';
+import { LayersPanel } from './parts/LayersPanel';
+import { CommandConsole } from './parts/CommandConsole';
+import { BaseRender, MoveableManager, SelectoManager, useSelectionBoundingBox, VisibleElementsContext, LevelOfDetailContext } from '../rendering';
+import { exportSelectedFrameAsImage, type ExportFormat } from '../../../utils/exportUtils';
+import { exportSelectionAsSVG, exportElementsAsSVG } from '../../../utils/svgExportUtils';
+import { downloadFramesAsPdf } from '../../../utils/pdfExportUtils';
+import { readSystemClipboard, writeSystemClipboard } from '../../utils/clipboardUtils';
 import { useCoordinateSystem } from '../../react/hooks/useCoordinateSystem';
-import type { Element, EditorDataExport } from '../../engine';
+import type { Element, EditorDataExport, PathPoint, DocumentPatch } from '../../engine';
+import { getStrokeOutlinePathData } from '../../utils/pathUtils';
+import { EDITOR_CONFIG } from '../../../constants/editor';
 import type { EditorAPI } from './EditorAPI';
-import { useCreatingGesture } from './hooks/useCreatingGesture';
+import { useCreatingGesture, type CreatingPreview } from './hooks/useCreatingGesture';
+import { useDrawingGesture } from './hooks/useDrawingGesture';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { useDataSync } from './hooks/useDataSync';
+import { useAutosave } from './hooks/useAutosave';
+import { useCollaboration } from './hooks/useCollaboration';
+import { useViewportCulling } from './hooks/useViewportCulling';
+import type { PersistenceOptions, SaveState } from '../../storage';
+import type { CollabOptions } from '../../collab';
 import './CoreEditor.css';
 
 
@@ -27,6 +42,18 @@ export interface CoreEditorProps {
   };
   /** 数据变化回调 */
   onDataChange?: (data: EditorDataExport) => void;
+  /** 增量修改回调：每个操作结束后给出变化的元素，适合持久化或同步大文档 */
+  onPatch?: (patch: DocumentPatch) => void;
+  /** 本地持久化：自动保存并在挂载时恢复（已保存的数据优先于 initialData） */
+  persistence?: PersistenceOptions;
+  /** 保存状态变化回调 */
+  onSaveStateChange?: (state: SaveState) => void;
+  /** 多人协作：通过传输层与其他客户端实时同步元素 */
+  collaboration?: CollabOptions;
+  /** 是否显示图层面板 */
+  showLayersPanel?: boolean;
+  /** 是否显示命令控制台 */
+  showCommandConsole?: boolean;
 }
 
 /**
@@ -36,12 +63,19 @@ export function CoreEditor({
   initialData, 
   apiRef, 
   slots,
-  onDataChange 
+  onDataChange,
+  onPatch,
+  persistence,
+  onSaveStateChange,
+  collaboration,
+  showLayersPanel = false,
+  showCommandConsole = false,
 }: CoreEditorProps) {
   const viewerRef = useRef<InfiniteViewer>(null);
   const engine = useEngineInstance();
   
-  const [creatingPreview, setCreatingPreview] = useState<{ x: number, y: number, width: number, height: number } | null>(null);
+  const [creatingPreview, setCreatingPreview] = useState<CreatingPreview | null>(null);
+  const [drawingPreview, setDrawingPreview] = useState<PathPoint[] | null>(null);
   const [zoom, setZoom] = useState(1);
 
   // 1. 订阅状态
@@ -54,6 +88,13 @@ export function CoreEditor({
   // 2. 坐标系统
   const { screenToWorld, worldToScreen } = useCoordinateSystem(zoom, viewport.x, viewport.y);
 
+  // 2.1 本地持久化（自动保存与恢复）
+  const autosave = useAutosave({ engine, elements, persistence, onSaveStateChange });
+
+  // 2.2 多人协作
+  const { presence, peers, followingId } = useCollaboration({ engine, collaboration, viewerRef, screenToWorld, setZoom });
+  const followingColor = peers.find(peer => peer.clientId === followingId)?.user.color;
+
   // 3. 暴露 API
   useImperativeHandle(apiRef, () => ({
     addElement: (el) => engine.addElement(el),
@@ -61,6 +102,24 @@ export function CoreEditor({
     deleteSelected: () => engine.deleteElements(selectedIds),
     getElements: () => engine.getState().elements,
     getSelectedElements: () => engine.getState().elements.filter(el => selectedIds.includes(el.id)),
+    copy: async () => {
+      const text = engine.copySelection();
+      if (text) await writeSystemClipboard(text);
+    },
+    cut: async () => {
+      const text = engine.cutSelection();
+      if (text) await writeSystemClipboard(text);
+    },
+    paste: async () => {
+      const text = await readSystemClipboard();
+      return engine.paste(text ?? undefined);
+    },
+    duplicate: () => engine.duplicateSelection(),
+    undo: () => engine.undo(),
+    redo: () => engine.redo(),
+    canUndo: () => engine.canUndo(),
+    canRedo: () => engine.canRedo(),
+    clearHistory: () => engine.clearHistory(),
     setZoom: (z) => {
       viewerRef.current?.setZoom(z);
       setZoom(z);
@@ -85,19 +144,48 @@ export function CoreEditor({
       }
       return null;
     },
+    exportSelectionAsSVG: () => exportSelectionAsSVG(selectedIds, elements),
+    exportElementsAsSVG: (ids) => exportElementsAsSVG(ids, elements),
+    exportFramesAsPdf: (frameIds) => downloadFramesAsPdf(elements, frameIds ?? selectedIds),
     importData: (data) => engine.importData(data),
+    getRevision: () => engine.getRevision(),
+    applyPatch: (patch) => engine.applyPatch(patch),
+    getSaveState: autosave.getSaveState,
+    saveNow: autosave.saveNow,
+    listRevisions: autosave.listRevisions,
+    restoreRevision: autosave.restoreRevision,
+    execute: (command, payload) => engine.execute(command, payload),
+    runScript: (script) => engine.runScript(script),
+    on: (event, handler) => engine.on(event, handler),
+    before: (hook, handler) => engine.before(hook, handler),
     getEngine: () => engine,
-  }), [engine, selectedIds, elements]);
+  }), [engine, selectedIds, elements, autosave]);
 
   // 4. Data change & Initial Import
-  useDataSync({ engine, elements, viewport, initialData, onDataChange });
+  useDataSync({ engine, elements, viewport, initialData, onDataChange, onPatch });
 
   // 5. Creating Gesture
   useCreatingGesture({ engine, activeTool, interaction, screenToWorld, viewerRef, setCreatingPreview });
+  useDrawingGesture({ engine, activeTool, screenToWorld, viewerRef, setDrawingPreview });
 
   // 6. Keyboard Shortcuts
   useKeyboardShortcuts({ engine, selectedIds });
 
+  // 7. 视口裁剪与远景简化
+  const { visibleIds, isLowDetail } = useViewportCulling({
+    engine,
+    elements,
+    selectedIds,
+    editingId: interaction.editingId,
+    viewport,
+    zoom,
+    viewerRef,
+  });
+  const rootElements = useMemo(
+    () => elements.filter(el => !el.parentId && (!visibleIds || visibleIds.has(el.id))),
+    [elements, visibleIds]
+  );
+
   // 8. 选区包围盒
   const selectionBoundingBox = useSelectionBoundingBox();
 
@@ -109,7 +197,10 @@ export function CoreEditor({
   }, [engine]);
 
   return (
-    <div className="infinite-editor">
+    <div
+      className={followingColor ? 'infinite-editor following' : 'infinite-editor'}
+      style={followingColor ? { '--following-color': followingColor } as React.CSSProperties : undefined}
+    >
       <InternalToolbar extra={slots?.toolbarExtra} />
       
       <InfiniteViewer
@@ -127,20 +218,50 @@ export function CoreEditor({
         <div className="editor-viewport">
           <div className="grid-background" style={{ '--zoom': zoom } as React.CSSProperties} />
           <div className="elements-layer">
-            {elements.filter(el => !el.parentId).map((element) => (
-              <BaseRender key={element.id} element={element} />
-            ))}
+            <VisibleElementsContext.Provider value={visibleIds}>
+              <LevelOfDetailContext.Provider value={isLowDetail}>
+                {rootElements.map((element) => (
+                  <BaseRender key={element.id} element={element} />
+                ))}
+              </LevelOfDetailContext.Provider>
+            </VisibleElementsContext.Provider>
           </div>
-          {creatingPreview && (
+          {creatingPreview && (activeTool === 'line' || activeTool === 'arrow' || activeTool === 'connector' ? (
+            <svg className="creating-preview-line">
+              <line
+                x1={creatingPreview.from.x}
+                y1={creatingPreview.from.y}
+                x2={creatingPreview.to.x}
+                y2={creatingPreview.to.y}
+              />
+            </svg>
+          ) : (
             <div className="creating-preview" style={{ left: creatingPreview.x, top: creatingPreview.y, width: creatingPreview.width, height: creatingPreview.height }} />
+          ))}
+
+          {drawingPreview && (
+            <svg className="drawing-preview">
+              <path
+                d={getStrokeOutlinePathData(drawingPreview, EDITOR_CONFIG.DRAW.STROKE_WIDTH)}
+                fill={EDITOR_CONFIG.DRAW.STROKE}
+              />
+            </svg>
           )}
 
+          {peers.length > 0 && <PresenceLayer peers={peers} elements={elements} zoom={zoom} />}
+
           {activeTool === 'select' && (
             <MoveableManager zoom={zoom} />
           )}
         </div>
       </InfiniteViewer>
 
+      {showLayersPanel && <LayersPanel />}
+
+      {showCommandConsole && <CommandConsole />}
+
+      {presence && <PresenceAvatars peers={peers} followingId={followingId} onFollow={id => presence.follow(id)} />}
+
       {!interaction.isInteracting && selectionBoundingBox && (() => {
         const screenPos = worldToScreen(selectionBoundingBox.centerX, selectionBoundingBox.y);
         const selectedElement = selectedIds.length === 1 ? elements.find(el => el.id === selectedIds[0]) : undefined;
@@ -149,7 +270,9 @@ export function CoreEditor({
             x={screenPos.x} 
             y={screenPos.y}
             element={selectedElement}
-            onExport={() => exportSelectedFrameAsImage(selectedIds[0], elements)}
+            onExport={(format: ExportFormat) => format === 'svg'
+              ? exportSelectionAsSVG(selectedIds, elements)
+              : exportSelectedFrameAsImage(selectedIds[0], elements)}
             extra={slots?.floatingToolbarExtra?.(selectedElement)}
           />
         );
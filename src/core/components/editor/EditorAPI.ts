@@ -1,5 +1,9 @@
-import type { Element, EditorDataExport } from '../../engine/types';
-import { EditorEngine } from '../../engine/EditorEngine';
+import type { Element, ImportResult, SchemaValidationResult } from '../../engine/types';
+import { EditorEngine, type EditorDataExport } from '../../engine/EditorEngine';
+import type { CommandInvocation, CommandResult } from '../../engine/modules/CommandManager';
+import type { DocumentPatch } from '../../engine/modules/PatchManager';
+import type { EditorEventName, EditorEventHandler, EditorBeforeHookName, EditorBeforeHookMap } from '../../engine/modules/EventManager';
+import type { SaveState, StorageRevisionInfo } from '../../storage';
 
 /**
  * EditorAPI - 业务层操作编辑器的命令式接口
@@ -17,6 +21,28 @@ export interface EditorAPI {
   /** 获取当前选中的元素列表 */
   getSelectedElements: () => Element[];
 
+  // --- 剪贴板 ---
+  /** 复制选中元素到剪贴板（同时写入系统剪贴板） */
+  copy: () => Promise<void>;
+  /** 剪切选中元素 */
+  cut: () => Promise<void>;
+  /** 从剪贴板粘贴，返回新元素 ID 列表 */
+  paste: () => Promise<string[]>;
+  /** 原地复制选中元素，返回新元素 ID 列表 */
+  duplicate: () => string[];
+
+  // --- 历史记录 ---
+  /** 撤销上一步 */
+  undo: () => void;
+  /** 重做上一步 */
+  redo: () => void;
+  /** 是否可以撤销 */
+  canUndo: () => boolean;
+  /** 是否可以重做 */
+  canRedo: () => boolean;
+  /** 清空历史记录 */
+  clearHistory: () => void;
+
   // --- 视口控制 ---
   /** 设置缩放比例 (0.1 - 5) */
   setZoom: (zoom: number) => void;
@@ -28,8 +54,43 @@ export interface EditorAPI {
   // --- 业务功能 ---
   /** 导出当前选中的元素（如果是 Frame/Text）为图片 DataURL */
   exportSelectionAsImage: () => Promise<string | null>;
-  /** 导入编辑器数据 */
-  importData: (data: EditorDataExport) => void;
+  /** 导出当前选中的元素（单个 Frame 或任意选区）为 SVG 并下载，返回 SVG 文本 */
+  exportSelectionAsSVG: () => Promise<string | null>;
+  /** 将指定元素导出为 SVG 文本（不触发下载） */
+  exportElementsAsSVG: (ids: string[]) => Promise<string>;
+  /**
+   * 导出多页 PDF 并下载：每个 Frame 一页，页面尺寸等于 Frame 尺寸
+   * @param frameIds 要导出的 Frame，默认为选中的 Frame；均未选中时导出所有顶层 Frame
+   */
+  exportFramesAsPdf: (frameIds?: string[]) => Promise<Blob | null>;
+  /** 导入编辑器数据：旧版本文档会自动迁移（返回值的 migrations 列出应用的迁移），校验失败时不修改当前文档 */
+  importData: (data: EditorDataExport) => ImportResult;
+  /** 当前文档修订号（每条增量修改加 1） */
+  getRevision: () => number;
+  /** 应用增量修改（baseRevision 需等于当前修订号），失败时不修改当前文档 */
+  applyPatch: (patch: DocumentPatch) => SchemaValidationResult;
+
+  // --- 持久化（需配置 persistence） ---
+  /** 获取当前保存状态 */
+  getSaveState: () => SaveState;
+  /** 立即保存，内容未变化时返回 null */
+  saveNow: () => Promise<StorageRevisionInfo | null>;
+  /** 列出已保存的修订版本（从新到旧） */
+  listRevisions: () => Promise<StorageRevisionInfo[]>;
+  /** 恢复到指定的修订版本 */
+  restoreRevision: (revisionId: string) => Promise<boolean>;
+
+  // --- 命令 ---
+  /** 执行命令，如 execute('element.create', { type: 'rectangle', x: 0, y: 0, width: 100, height: 100 }) */
+  execute: (command: string, payload?: Record<string, unknown>) => CommandResult;
+  /** 依次执行命令脚本，遇到失败的命令时停止 */
+  runScript: (script: CommandInvocation[]) => CommandResult[];
+
+  // --- 事件 ---
+  /** 订阅引擎事件（elementAdded、elementsUpdated、selectionChanged 等），返回取消订阅函数 */
+  on: <K extends EditorEventName>(event: K, handler: EditorEventHandler<K>) => () => void;
+  /** 注册操作前钩子，返回 false 取消操作或返回修改后的元素，返回注销函数 */
+  before: <K extends EditorBeforeHookName>(hook: K, handler: EditorBeforeHookMap[K]) => () => void;
 
   // --- 底层访问 ---
   /** 获取底层引擎实例（非必要不建议直接使用） */
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { EditorEngine } from '../../../engine/EditorEngine';
+import type { Element } from '../../../engine';
+import type { PersistenceOptions, SaveState, StorageRevisionInfo } from '../../../storage';
+
+const DEFAULT_MAX_REVISIONS = 20;
+const DEFAULT_DEBOUNCE = 1000;
+
+interface UseAutosaveProps {
+  engine: EditorEngine;
+  elements: Element[];
+  persistence?: PersistenceOptions;
+  onSaveStateChange?: (state: SaveState) => void;
+}
+
+const toError = (error: unknown) => error instanceof Error ? error : new Error(String(error));
+
+/**
+ * 自动保存：挂载时恢复最新的修订版本，之后在元素变化时防抖保存
+ * 元素与上次保存相同时（例如只平移、缩放了视口）不会产生新的修订版本
+ */
+export function useAutosave({
+  engine,
+  elements,
+  persistence,
+  onSaveStateChange,
+}: UseAutosaveProps) {
+  const saveStateRef = useRef<SaveState>({ status: 'idle', lastSavedAt: null });
+  /** 已完成恢复的文档 ID */
+  const [restoredId, setRestoredId] = useState<string | null>(null);
+  /** 上次保存的元素 JSON，视口不参与比较 */
+  const lastSavedJsonRef = useRef<string | null>(null);
+  /** 串行化保存请求，保证修订版本的顺序 */
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+  const onSaveStateChangeRef = useRef(onSaveStateChange);
+
+  useEffect(() => {
+    onSaveStateChangeRef.current = onSaveStateChange;
+  }, [onSaveStateChange]);
+
+  const adapter = persistence?.adapter;
+  const documentId = persistence?.documentId;
+  const maxRevisions = persistence?.maxRevisions ?? DEFAULT_MAX_REVISIONS;
+  const debounce = persistence?.debounce ?? DEFAULT_DEBOUNCE;
+  const restoreOnMount = persistence?.restoreOnMount ?? true;
+  /** 恢复完成前不自动保存，避免用空文档覆盖已保存的数据 */
+  const ready = !!adapter && !!documentId && (!restoreOnMount || restoredId === documentId);
+
+  const setSaveState = useCallback((updates: Partial<SaveState>) => {
+    const next = { ...saveStateRef.current, error: undefined, ...updates };
+    saveStateRef.current = next;
+    onSaveStateChangeRef.current?.(next);
+  }, []);
+
+  const saveNow = useCallback((): Promise<StorageRevisionInfo | null> => {
+    if (!adapter || !documentId) return Promise.resolve(null);
+
+    const task = queueRef.current.then(async () => {
+      const data = engine.exportData();
+      const json = JSON.stringify(data.elements);
+      if (json === lastSavedJsonRef.current) return null;
+
+      setSaveState({ status: 'saving' });
+      try {
+        const revision = await adapter.save(documentId, data, maxRevisions);
+        lastSavedJsonRef.current = json;
+        setSaveState({ status: 'saved', lastSavedAt: revision.savedAt });
+        return revision;
+      } catch (error) {
+        console.error('[Autosave] Save failed:', error);
+        setSaveState({ status: 'error', error: toError(error) });
+        return null;
+      }
+    });
+    queueRef.current = task;
+    return task;
+  }, [engine, adapter, documentId, maxRevisions, setSaveState]);
+
+  // 1. 挂载（或切换文档）时恢复最新的修订版本
+  useEffect(() => {
+    lastSavedJsonRef.current = null;
+    if (!adapter || !documentId || !restoreOnMount) return;
+
+    let cancelled = false;
+    setSaveState({ status: 'restoring' });
+    adapter.loadLatest(documentId)
+      .then(revision => {
+        if (cancelled) return;
+        if (revision) {
+          const result = engine.importData(revision.data);
+          if (!result.valid) {
+            setSaveState({ status: 'error', error: new Error(`Stored document is invalid: ${result.errors[0]?.message}`) });
+            return;
+          }
+          lastSavedJsonRef.current = JSON.stringify(engine.exportData().elements);
+          setSaveState({ status: 'saved', lastSavedAt: revision.savedAt });
+        } else {
+          setSaveState({ status: 'idle', lastSavedAt: null });
+        }
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('[Autosave] Restore failed:', error);
+        setSaveState({ status: 'error', error: toError(error) });
+      })
+      .finally(() => {
+        if (!cancelled) setRestoredId(documentId);
+      });
+
+    return () => { cancelled = true; };
+  }, [engine, adapter, documentId, restoreOnMount, setSaveState]);
+
+  // 2. 元素变化时防抖保存
+  useEffect(() => {
+    if (!ready) return;
+    const timer = setTimeout(() => { saveNow(); }, debounce);
+    return () => clearTimeout(timer);
+  }, [elements, ready, debounce, saveNow]);
+
+  // 3. 页面隐藏（切换标签页、关闭页面）时立即保存
+  useEffect(() => {
+    if (!ready) return;
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') saveNow();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [ready, saveNow]);
+
+  const listRevisions = useCallback(async (): Promise<StorageRevisionInfo[]> => {
+    if (!adapter || !documentId) return [];
+    return adapter.listRevisions(documentId);
+  }, [adapter, documentId]);
+
+  /**
+   * 恢复到指定的修订版本，恢复结果会作为新的修订版本保存
+   */
+  const restoreRevision = useCallback(async (revisionId: string): Promise<boolean> => {
+    if (!adapter || !documentId) return false;
+
+    const revision = await adapter.loadRevision(documentId, revisionId);
+    if (!revision) {
+      console.warn(`[Autosave] Revision not found: ${revisionId}`);
+      return false;
+    }
+    if (!engine.importData(revision.data).valid) return false;
+    await saveNow();
+    return true;
+  }, [engine, adapter, documentId, saveNow]);
+
+  return useMemo(() => ({
+    getSaveState: () => saveStateRef.current,
+    saveNow,
+    listRevisions,
+    restoreRevision,
+  }), [saveNow, listRevisions, restoreRevision]);
+}
@@ -0,0 +1,97 @@
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type InfiniteViewer from 'react-infinite-viewer';
+import type { EditorEngine } from '../../../engine/EditorEngine';
+import type { Point } from '../../../engine/types';
+import { CollabSession, PresenceSession, type CollabOptions, type PresenceSnapshot } from '../../../collab';
+
+interface UseCollaborationProps {
+  engine: EditorEngine;
+  collaboration?: CollabOptions;
+  viewerRef: React.RefObject<InfiniteViewer | null>;
+  screenToWorld: (clientX: number, clientY: number) => Point;
+  setZoom: (zoom: number) => void;
+}
+
+const EMPTY_SNAPSHOT: PresenceSnapshot = { peers: [], followingId: null };
+const subscribeNothing = () => () => {};
+const getEmptySnapshot = () => EMPTY_SNAPSHOT;
+
+/**
+ * 多人协作：同步文档与参与者状态
+ * - 配置变化时重建会话，卸载时停止同步；传输层由调用方创建，也由调用方负责关闭；
+ * - 画布上的指针移动作为光标位置广播；
+ * - 跟随其他参与者时，将引擎视口回写到 InfiniteViewer。
+ */
+export function useCollaboration({ engine, collaboration, viewerRef, screenToWorld, setZoom }: UseCollaborationProps) {
+  const transport = collaboration?.transport;
+  const clientId = collaboration?.clientId;
+  const userName = collaboration?.user?.name;
+  const userColor = collaboration?.user?.color;
+  const screenToWorldRef = useRef(screenToWorld);
+
+  useEffect(() => {
+    screenToWorldRef.current = screenToWorld;
+  }, [screenToWorld]);
+
+  // 两个会话共用同一个 clientId，对端据此把文档修改与光标归属到同一个人
+  const presence = useMemo(() => {
+    if (!transport) return null;
+    const user = { name: userName, color: userColor };
+    return new PresenceSession(engine, { transport, clientId: clientId ?? uuidv4(), user });
+  }, [engine, transport, clientId, userName, userColor]);
+
+  // 1. 文档与参与者状态同步
+  useEffect(() => {
+    if (!transport || !presence) return;
+    const session = new CollabSession(engine, { transport, clientId: presence.clientId });
+    session.start();
+    presence.start();
+    return () => {
+      presence.stop();
+      session.stop();
+    };
+  }, [engine, transport, presence]);
+
+  // 2. 广播光标位置
+  useEffect(() => {
+    const container = viewerRef.current?.getContainer();
+    if (!presence || !container) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      presence.updateCursor(screenToWorldRef.current(e.clientX, e.clientY));
+    };
+    const handlePointerLeave = () => presence.updateCursor(null);
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerleave', handlePointerLeave);
+    return () => {
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerleave', handlePointerLeave);
+    };
+  }, [presence, viewerRef]);
+
+  // 3. 跟随模式：引擎视口由被跟随者驱动，需要同步到视图
+  useEffect(() => {
+    if (!presence) return;
+    return engine.subscribe(({ viewport }) => {
+      const viewer = viewerRef.current;
+      if (!viewer || !presence.getSnapshot().followingId) return;
+      if (
+        Math.abs(viewer.getScrollLeft() + viewport.x) < 1 &&
+        Math.abs(viewer.getScrollTop() + viewport.y) < 1 &&
+        viewer.getZoom() === viewport.zoom
+      ) {
+        return;
+      }
+      viewer.setTo({ x: -viewport.x, y: -viewport.y, zoom: viewport.zoom });
+      setZoom(viewport.zoom);
+    });
+  }, [engine, presence, viewerRef, setZoom]);
+
+  const snapshot = useSyncExternalStore(
+    presence?.subscribe ?? subscribeNothing,
+    presence?.getSnapshot ?? getEmptySnapshot,
+  );
+
+  return { presence, ...snapshot };
+}
@@ -1,6 +1,30 @@
 import { useEffect } from 'react';
 import type { EditorEngine } from '../../../engine/EditorEngine';
-import type { ToolType, Point } from '../../../engine/types';
+import type { ToolType, ElementType, Point } from '../../../engine/types';
+import { PluginManager } from '../../../engine/modules/PluginManager';
+
+/** 创建预览（世界坐标），from / to 为拖拽起止点，用于线段类预览 */
+export interface CreatingPreview {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  from: Point;
+  to: Point;
+}
+
+/** 拖拽创建工具与所创建元素类型的映射 */
+const CREATION_TOOLS: Partial<Record<ToolType, ElementType>> = {
+  rectangle: 'rectangle',
+  ellipse: 'ellipse',
+  line: 'line',
+  arrow: 'arrow',
+  polygon: 'polygon',
+  star: 'star',
+  connector: 'connector',
+  text: 'text',
+  frame: 'frame',
+};
 
 interface UseCreatingGestureProps {
   engine: EditorEngine;
@@ -8,7 +32,7 @@ interface UseCreatingGestureProps {
   interaction: { isCreating: boolean; startPoint?: Point };
   screenToWorld: (x: number, y: number) => Point;
   viewerRef: React.RefObject<any>;
-  setCreatingPreview: (preview: { x: number; y: number; width: number; height: number } | null) => void;
+  setCreatingPreview: (preview: CreatingPreview | null) => void;
 }
 
 export function useCreatingGesture({
@@ -20,7 +44,9 @@ export function useCreatingGesture({
   setCreatingPreview,
 }: UseCreatingGestureProps) {
   useEffect(() => {
-    if (activeTool === 'select' || activeTool === 'hand') {
+    // 插件的创建工具以元素类型作为工具 ID
+    const creatingType = CREATION_TOOLS[activeTool] ?? (PluginManager.get(activeTool)?.tool ? activeTool : undefined);
+    if (!creatingType) {
       requestAnimationFrame(() => {
         setCreatingPreview(null);
       });
@@ -37,7 +63,7 @@ export function useCreatingGesture({
       if (interaction.isCreating) return;
 
       const worldPoint = screenToWorld(e.clientX, e.clientY);
-      engine.startCreating(activeTool === 'text' ? 'text' : activeTool === 'frame' ? 'frame' : 'rectangle', worldPoint);
+      engine.startCreating(creatingType, worldPoint);
     };
 
     const handleWindowMouseMove = (e: MouseEvent) => {
@@ -47,7 +73,7 @@ export function useCreatingGesture({
       const y = Math.min(interaction.startPoint.y, worldPoint.y);
       const width = Math.abs(worldPoint.x - interaction.startPoint.x);
       const height = Math.abs(worldPoint.y - interaction.startPoint.y);
-      setCreatingPreview({ x, y, width, height });
+      setCreatingPreview({ x, y, width, height, from: interaction.startPoint, to: worldPoint });
     };
 
     const handleWindowMouseUp = (e: MouseEvent) => {
@@ -1,6 +1,6 @@
 import { useEffect } from 'react';
 import type { EditorEngine } from '../../../engine/EditorEngine';
-import type { Element, Viewport, EditorDataExport } from '../../../engine';
+import type { Element, Viewport, EditorDataExport, DocumentPatch } from '../../../engine';
 
 interface UseDataSyncProps {
   engine: EditorEngine;
@@ -8,6 +8,7 @@ interface UseDataSyncProps {
   viewport: Viewport;
   initialData?: EditorDataExport;
   onDataChange?: (data: EditorDataExport) => void;
+  onPatch?: (patch: DocumentPatch) => void;
 }
 
 export function useDataSync({
@@ -16,6 +17,7 @@ export function useDataSync({
   viewport,
   initialData,
   onDataChange,
+  onPatch,
 }: UseDataSyncProps) {
   // 1. Data change notification (debounced)
   useEffect(() => {
@@ -26,7 +28,13 @@ export function useDataSync({
     return () => clearTimeout(timer);
   }, [elements, viewport, onDataChange, engine]);
 
-  // 2. Initial data import
+  // 2. Incremental patches (one per finished operation, not debounced)
+  useEffect(() => {
+    if (!onPatch) return;
+    return engine.subscribePatches(onPatch);
+  }, [onPatch, engine]);
+
+  // 3. Initial data import
   useEffect(() => {
     if (initialData) {
       engine.importData(initialData);
@@ -0,0 +1,97 @@
+import { useEffect } from 'react';
+import type InfiniteViewer from 'react-infinite-viewer';
+import type { EditorEngine } from '../../../engine/EditorEngine';
+import type { ToolType, Point, PathPoint } from '../../../engine/types';
+import { DEFAULT_PRESSURE } from '../../../utils/pathUtils';
+
+interface UseDrawingGestureProps {
+  engine: EditorEngine;
+  activeTool: ToolType;
+  screenToWorld: (x: number, y: number) => Point;
+  viewerRef: React.RefObject<InfiniteViewer | null>;
+  setDrawingPreview: (points: PathPoint[] | null) => void;
+}
+
+/**
+ * 读取指针压力：只有手写笔提供可靠的压感，鼠标 / 触摸使用默认值
+ */
+function getPressure(e: PointerEvent): number {
+  return e.pointerType === 'pen' && e.pressure > 0 ? e.pressure : DEFAULT_PRESSURE;
+}
+
+/**
+ * 手绘工具手势：记录指针采样点，抬起时生成 path 元素
+ */
+export function useDrawingGesture({
+  engine,
+  activeTool,
+  screenToWorld,
+  viewerRef,
+  setDrawingPreview,
+}: UseDrawingGestureProps) {
+  useEffect(() => {
+    if (activeTool !== 'draw') {
+      requestAnimationFrame(() => {
+        setDrawingPreview(null);
+      });
+      return;
+    }
+
+    let samples: PathPoint[] | null = null;
+    let pointerId: number | null = null;
+
+    const addSample = (e: PointerEvent) => {
+      if (!samples) return;
+      // 合并事件可以拿到浏览器在两帧之间采集的全部采样点，笔画更平滑
+      const events = typeof e.getCoalescedEvents === 'function' ? e.getCoalescedEvents() : [];
+      (events.length > 0 ? events : [e]).forEach(event => {
+        const point = screenToWorld(event.clientX, event.clientY);
+        const last = samples![samples!.length - 1];
+        if (last && last.x === point.x && last.y === point.y) return;
+        samples!.push({ ...point, pressure: getPressure(event) });
+      });
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (e.button !== 0 || samples) return;
+      const viewer = viewerRef.current;
+      if (!viewer) return;
+      const container = viewer.getContainer();
+      const rect = container.getBoundingClientRect();
+      if (e.clientX < rect.left || e.clientX > rect.right || e.clientY < rect.top || e.clientY > rect.bottom) return;
+      if ((e.target as HTMLElement).closest('.editor-sidebar, .floating-toolbar')) return;
+
+      e.preventDefault();
+      samples = [];
+      pointerId = e.pointerId;
+      addSample(e);
+      setDrawingPreview([...samples]);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!samples || e.pointerId !== pointerId) return;
+      addSample(e);
+      setDrawingPreview([...samples]);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!samples || e.pointerId !== pointerId) return;
+      addSample(e);
+      engine.addPath(samples);
+      samples = null;
+      pointerId = null;
+      setDrawingPreview(null);
+    };
+
+    window.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [activeTool, screenToWorld, engine, viewerRef, setDrawingPreview]);
+}
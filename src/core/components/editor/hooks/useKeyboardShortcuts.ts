@@ -1,33 +1,153 @@
 import { useEffect } from 'react';
 import type { EditorEngine } from '../../../engine/EditorEngine';
+import type { AlignType } from '../../../engine/types';
 
 interface UseKeyboardShortcutsProps {
   engine: EditorEngine;
   selectedIds: string[];
 }
 
+/**
+ * 焦点是否位于可输入控件中（此时不拦截快捷键与剪贴板事件）
+ */
+function isEditableFocused(): boolean {
+  return (
+    document.activeElement?.tagName === 'INPUT' ||
+    document.activeElement?.tagName === 'TEXTAREA' ||
+    !!(document.activeElement as HTMLElement)?.isContentEditable
+  );
+}
+
+/**
+ * 事件目标是否为可输入控件
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement && (
+    target.tagName === 'INPUT' ||
+    target.tagName === 'TEXTAREA' ||
+    target.isContentEditable
+  );
+}
+
+/**
+ * 页面中是否选中了文字（此时复制 / 剪切的是文字，而不是选中的元素）
+ */
+function hasTextSelection(): boolean {
+  const selection = window.getSelection();
+  return !!selection && !selection.isCollapsed && selection.toString().length > 0;
+}
+
+/**
+ * 剪贴板事件是否应交给浏览器默认处理
+ */
+function shouldSkipClipboardEvent(e: ClipboardEvent): boolean {
+  return isEditableFocused() || isEditableTarget(e.target);
+}
+
+/**
+ * Alt + 按键对齐；使用 e.code，macOS 上 Option 组合键的 e.key 是特殊字符
+ */
+const ALIGN_SHORTCUTS: Record<string, AlignType> = {
+  KeyA: 'left',
+  KeyH: 'center',
+  KeyD: 'right',
+  KeyW: 'top',
+  KeyV: 'middle',
+  KeyS: 'bottom',
+};
+
 export function useKeyboardShortcuts({ engine, selectedIds }: UseKeyboardShortcutsProps) {
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (
-        document.activeElement?.tagName === 'INPUT' ||
-        document.activeElement?.tagName === 'TEXTAREA' ||
-        (document.activeElement as HTMLElement)?.isContentEditable
-      ) return;
+      if (isEditableFocused()) return;
+
+      const isMod = e.metaKey || e.ctrlKey;
+      const key = e.key.toLowerCase();
+
+      // 撤销 / 重做
+      if (isMod && key === 'z') {
+        e.preventDefault();
+        engine.execute(e.shiftKey ? 'history.redo' : 'history.undo');
+        return;
+      }
+      if (isMod && key === 'y') {
+        e.preventDefault();
+        engine.execute('history.redo');
+        return;
+      }
+
+      if (selectedIds.length > 1 && e.altKey && !isMod) {
+        // 对齐 / 分布（Alt+Shift+H / V 分布）
+        if (e.shiftKey && (e.code === 'KeyH' || e.code === 'KeyV')) {
+          e.preventDefault();
+          engine.execute('selection.distribute', { ids: selectedIds, axis: e.code === 'KeyH' ? 'horizontal' : 'vertical' });
+          return;
+        }
+        if (!e.shiftKey && ALIGN_SHORTCUTS[e.code]) {
+          e.preventDefault();
+          engine.execute('selection.align', { ids: selectedIds, alignment: ALIGN_SHORTCUTS[e.code] });
+          return;
+        }
+      }
 
       if (selectedIds.length > 0) {
-        if (e.key === '[' || e.key === '［') {
-          engine.reorderElements(selectedIds, e.altKey ? 'back' : 'backward');
+        if (isMod && key === 'd') {
+          e.preventDefault();
+          engine.execute('selection.duplicate');
+        } else if (isMod && key === 'g') {
+          e.preventDefault();
+          engine.execute(e.shiftKey ? 'selection.ungroup' : 'selection.group');
+        } else if (e.key === '[' || e.key === '［') {
+          engine.execute('element.reorder', { ids: selectedIds, action: e.altKey ? 'back' : 'backward' });
         } else if (e.key === ']' || e.key === '］') {
-          engine.reorderElements(selectedIds, e.altKey ? 'front' : 'forward');
+          engine.execute('element.reorder', { ids: selectedIds, action: e.altKey ? 'front' : 'forward' });
         } else if (e.key === 'Backspace' || e.key === 'Delete') {
-          engine.deleteElements(selectedIds);
+          engine.execute('element.delete', { ids: selectedIds });
         } else if (e.key === 'Escape') {
-          engine.deselectAll();
+          if (engine.getState().activeGroupId) {
+            engine.exitGroup();
+          } else {
+            engine.deselectAll();
+          }
         }
       }
     };
+
+    // Ctrl+C / X / V 通过原生剪贴板事件处理，无需剪贴板权限即可读写系统剪贴板
+    const handleCopy = (e: ClipboardEvent) => {
+      if (shouldSkipClipboardEvent(e) || hasTextSelection()) return;
+      const text = engine.copySelection();
+      if (text && e.clipboardData) {
+        e.clipboardData.setData('text/plain', text);
+        e.preventDefault();
+      }
+    };
+
+    const handleCut = (e: ClipboardEvent) => {
+      if (shouldSkipClipboardEvent(e) || hasTextSelection()) return;
+      const text = engine.cutSelection();
+      if (text && e.clipboardData) {
+        e.clipboardData.setData('text/plain', text);
+        e.preventDefault();
+      }
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (shouldSkipClipboardEvent(e)) return;
+      // 没有 clipboardData 时无法读取系统剪贴板，由引擎回退到内部剪贴板
+      const ids = engine.paste(e.clipboardData ? e.clipboardData.getData('text/plain') : undefined);
+      if (ids.length > 0) e.preventDefault();
+    };
+
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
+    window.addEventListener('copy', handleCopy);
+    window.addEventListener('cut', handleCut);
+    window.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('copy', handleCopy);
+      window.removeEventListener('cut', handleCut);
+      window.removeEventListener('paste', handlePaste);
+    };
   }, [selectedIds, engine]);
 }
@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useState } from 'react';
+import type InfiniteViewer from 'react-infinite-viewer';
+import type { EditorEngine } from '../../../engine/EditorEngine';
+import { ElementStore } from '../../../engine';
+import type { Element, Viewport } from '../../../engine';
+import type { Size } from '../../../engine/types';
+import { EDITOR_CONFIG } from '../../../../constants/editor';
+
+interface UseViewportCullingProps {
+  engine: EditorEngine;
+  elements: Element[];
+  selectedIds: string[];
+  editingId?: string | null;
+  viewport: Viewport;
+  zoom: number;
+  viewerRef: React.RefObject<InfiniteViewer | null>;
+}
+
+/**
+ * 视口裁剪：只挂载与可视区域（外扩 MARGIN）相交的元素
+ *
+ * 可视区域按 MARGIN 对齐到网格，小幅滚动不会重新计算；
+ * 选中与编辑中的元素（及其祖先）始终挂载，保证 Moveable 与文本编辑可用。
+ * @returns visibleIds 为 null 表示尚未测量到视口尺寸，此时不裁剪
+ */
+export function useViewportCulling({
+  engine,
+  elements,
+  selectedIds,
+  editingId,
+  viewport,
+  zoom,
+  viewerRef,
+}: UseViewportCullingProps) {
+  const [containerSize, setContainerSize] = useState<Size | null>(null);
+
+  useEffect(() => {
+    const container = viewerRef.current?.getContainer();
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => {
+      setContainerSize({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [viewerRef]);
+
+  // 1. 可视区域（世界坐标）对齐到网格后的查询范围
+  const step = EDITOR_CONFIG.VIRTUALIZATION.MARGIN / zoom;
+  const left = containerSize ? Math.floor(-viewport.x / step) * step - step : 0;
+  const top = containerSize ? Math.floor(-viewport.y / step) * step - step : 0;
+  const right = containerSize ? Math.ceil((-viewport.x + containerSize.width / zoom) / step) * step + step : 0;
+  const bottom = containerSize ? Math.ceil((-viewport.y + containerSize.height / zoom) / step) * step + step : 0;
+
+  // 2. 通过空间索引查询可见元素
+  const visibleIds = useMemo<ReadonlySet<string> | null>(() => {
+    if (!containerSize) return null;
+
+    // elements 变化时空间索引已同步更新
+    const ids = new Set(engine.getSpatialIndex().search({ x: left, y: top, width: right - left, height: bottom - top }));
+    const store = ElementStore.of(elements);
+    const pinned = editingId ? [...selectedIds, editingId] : selectedIds;
+    pinned.forEach(id => {
+      let current = store.get(id);
+      while (current) {
+        ids.add(current.id);
+        current = store.get(current.parentId);
+      }
+    });
+    return ids;
+  }, [engine, elements, containerSize, left, top, right, bottom, selectedIds, editingId]);
+
+  return {
+    visibleIds,
+    isLowDetail: zoom < EDITOR_CONFIG.VIRTUALIZATION.LOD_ZOOM,
+  };
+}
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  CaretRightOutlined,
+  ClearOutlined,
+  CopyOutlined,
+} from '@ant-design/icons';
+import { useEngineInstance } from '../../../react/context/useEngineInstance';
+import { CommandManager, CommandRecorder, type CommandLogEntry } from '../../../engine';
+import type { SchemaError } from '../../../engine/types';
+import { writeSystemClipboard } from '../../../utils/clipboardUtils';
+import './CommandConsole.css';
+
+/** 日志最多保留的条数 */
+const MAX_LOG_ENTRIES = 200;
+/** 结果 JSON 超出该长度时截断显示 */
+const MAX_RESULT_LENGTH = 200;
+
+type LogItem =
+  | { kind: 'command', entry: CommandLogEntry }
+  | { kind: 'info', text: string }
+  | { kind: 'error', errors: SchemaError[] };
+
+const formatErrors = (errors: SchemaError[]) =>
+  errors.map(error => error.path ? `${error.path}: ${error.message}` : error.message).join('\n');
+
+const formatResult = (result: unknown) => {
+  const text = JSON.stringify(result);
+  return text.length > MAX_RESULT_LENGTH ? `${text.slice(0, MAX_RESULT_LENGTH)}…` : text;
+};
+
+/**
+ * help / help 命令名 的输出
+ */
+function getHelpText(name?: string): string {
+  if (!name) {
+    return [
+      ...CommandManager.getCommands().map(command => `${command.name.padEnd(22)}${command.description}`),
+      '',
+      '每行一条命令：命令名 {JSON payload}；$n.id 引用第 n 条命令新建的元素',
+    ].join('\n');
+  }
+
+  const command = CommandManager.get(name);
+  if (!command) return `Unknown command "${name}"`;
+  const params = Object.entries(command.params).map(([key, param]) => {
+    const type = param.values ? param.values.join(' | ') : param.type;
+    return `  ${key}${param.optional ? '?' : ''}: ${type}${param.nullable ? ' | null' : ''}  ${param.description}`;
+  });
+  return [`${command.name}  ${command.description}`, ...params].join('\n');
+}
+
+interface CommandConsoleProps {
+  className?: string;
+}
+
+/**
+ * CommandConsole - 命令控制台
+ *
+ * 执行单条命令或多行脚本（Enter 执行，Shift+Enter 换行，↑ / ↓ 翻阅历史输入），显示所有经由 engine.execute 执行的命令及结果。
+ * 录制期间成功执行的命令会整理成脚本，停止录制后填入输入框，可编辑后重放或复制。
+ */
+export const CommandConsole: React.FC<CommandConsoleProps> = ({ className }) => {
+  const engine = useEngineInstance();
+  const [log, setLog] = useState<LogItem[]>([]);
+  const [input, setInput] = useState('');
+  const [recorder] = useState(() => new CommandRecorder());
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [inputHistory, setInputHistory] = useState<string[]>([]);
+  /** 正在查看的历史输入下标，null 表示正在编辑新输入 */
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const appendLog = (item: LogItem) => {
+    setLog(prev => [...prev.slice(-(MAX_LOG_ENTRIES - 1)), item]);
+  };
+
+  useEffect(() => {
+    return engine.subscribeCommands(entry => {
+      setLog(prev => [...prev.slice(-(MAX_LOG_ENTRIES - 1)), { kind: 'command', entry }]);
+    });
+  }, [engine]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    return engine.subscribeCommands(entry => {
+      recorder.record(entry);
+      setRecordedCount(recorder.size);
+    });
+  }, [engine, recorder, isRecording]);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [log]);
+
+  const run = () => {
+    const text = input.trim();
+    if (!text) return;
+    setInputHistory(prev => [...prev.filter(item => item !== text), text]);
+    setHistoryIndex(null);
+    setInput('');
+
+    const help = /^help(?:\s+(\S+))?$/.exec(text);
+    if (help) {
+      appendLog({ kind: 'info', text: getHelpText(help[1]) });
+      return;
+    }
+
+    const { script, errors } = CommandManager.parseScript(text);
+    if (errors.length > 0) {
+      appendLog({ kind: 'error', errors });
+      return;
+    }
+    engine.runScript(script);
+  };
+
+  const toggleRecording = () => {
+    if (!isRecording) {
+      recorder.clear();
+      setRecordedCount(0);
+      setIsRecording(true);
+      return;
+    }
+    setIsRecording(false);
+    const script = CommandManager.formatScript(recorder.getScript());
+    appendLog({ kind: 'info', text: `Recorded ${recorder.size} command(s)` });
+    if (script) setInput(script);
+  };
+
+  const showHistory = (index: number | null) => {
+    setHistoryIndex(index);
+    setInput(index === null ? '' : inputHistory[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      run();
+      return;
+    }
+    // 多行输入时方向键用于移动光标
+    if (input.includes('\n') || inputHistory.length === 0) return;
+    if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      showHistory(historyIndex === null ? inputHistory.length - 1 : Math.max(0, historyIndex - 1));
+    } else if (e.key === 'ArrowDown' && historyIndex !== null) {
+      e.preventDefault();
+      showHistory(historyIndex + 1 < inputHistory.length ? historyIndex + 1 : null);
+    }
+  };
+
+  return (
+    <div className={`command-console ${className || ''}`}>
+      <div className="command-console-header">
+        <span className="command-console-title">Console</span>
+        <span
+          className={`command-console-action ${isRecording ? 'recording' : ''}`}
+          title={isRecording ? 'Stop recording' : 'Record commands as a script'}
+          onClick={toggleRecording}
+        >
+          {isRecording ? `■ Stop (${recordedCount})` : '● Rec'}
+        </span>
+        <span
+          className="command-console-action"
+          title="Copy recorded script"
+          onClick={() => writeSystemClipboard(CommandManager.formatScript(recorder.getScript()))}
+        >
+          <CopyOutlined />
+        </span>
+        <span className="command-console-action" title="Clear log" onClick={() => setLog([])}>
+          <ClearOutlined />
+        </span>
+      </div>
+
+      <div className="command-console-log" ref={listRef}>
+        {log.length === 0 && <div className="command-console-empty">Type help to list commands</div>}
+        {log.map((item, i) => {
+          if (item.kind === 'info') return <pre key={i} className="command-console-info">{item.text}</pre>;
+          if (item.kind === 'error') return <pre key={i} className="command-console-error">{formatErrors(item.errors)}</pre>;
+
+          const { entry } = item;
+          return (
+            <div key={i} className="command-console-entry">
+              <pre className="command-console-command">
+                {CommandManager.formatScript([{ command: entry.command, payload: entry.payload }])}
+              </pre>
+              {entry.result.ok
+                ? entry.result.result !== undefined && <pre className="command-console-result">{formatResult(entry.result.result)}</pre>
+                : <pre className="command-console-error">{formatErrors(entry.result.errors)}</pre>}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="command-console-input">
+        <textarea
+          rows={Math.min(6, input.split('\n').length)}
+          value={input}
+          placeholder='element.create {"type":"rectangle","x":0,"y":0,"width":100,"height":100}'
+          spellCheck={false}
+          onChange={e => {
+            setInput(e.target.value);
+            setHistoryIndex(null);
+          }}
+          onKeyDown={handleKeyDown}
+        />
+        <span className="command-console-action" title="Run (Enter)" onClick={run}>
+          <CaretRightOutlined />
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { memo } from 'react';
 import type { Element } from '../../../engine/types';
+import type { ExportFormat } from '../../../../utils/exportUtils';
 import { InternalLayout } from './floating-toolbar/InternalLayout';
 import { InternalFloatingToolbarManager } from './floating-toolbar/InternalFloatingToolbarManager';
 
@@ -7,7 +8,7 @@ interface InternalFloatingToolbarProps {
   x: number;
   y: number;
   element?: Element;
-  onExport: () => void;
+  onExport: (format: ExportFormat) => void;
   extra?: React.ReactNode;
 }
 
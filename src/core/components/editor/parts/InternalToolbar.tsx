@@ -1,11 +1,16 @@
 import React from 'react';
-import { 
+import Icon, { 
   ArrowUpOutlined, 
   ArrowDownOutlined, 
   DeleteOutlined, 
   PictureOutlined,
   FontSizeOutlined,
   BorderOutlined,
+  LineOutlined,
+  ArrowRightOutlined,
+  StarOutlined,
+  EditOutlined,
+  NodeIndexOutlined,
   BlockOutlined,
   DragOutlined,
   SelectOutlined,
@@ -15,8 +20,21 @@ import { useEngineInstance } from '../../../react/context/useEngineInstance';
 import { useEditorEngine } from '../../../react/hooks/useEditorEngine';
 import type { ToolType } from '../../../engine/types';
 import type { EditorState } from '../../../engine/EditorEngine';
+import { PluginManager } from '../../../engine/modules/PluginManager';
 import './InternalToolbar.css';
 
+const EllipseSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <ellipse cx="8" cy="8" rx="6.5" ry="6.5" stroke="currentColor" strokeWidth="1.4" />
+  </svg>
+);
+
+const PolygonSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <path d="M8 1.5L14 5.5V10.5L8 14.5L2 10.5V5.5Z" stroke="currentColor" strokeWidth="1.4" strokeLinejoin="round" />
+  </svg>
+);
+
 interface ToolConfig {
   type: ToolType;
   icon: React.ReactNode;
@@ -27,6 +45,13 @@ const TOOLS: ToolConfig[] = [
   { type: 'select', icon: <SelectOutlined />, label: 'Selection (V)' },
   { type: 'hand', icon: <DragOutlined />, label: 'Hand tool (H)' },
   { type: 'rectangle', icon: <BorderOutlined />, label: 'Rectangle (R)' },
+  { type: 'ellipse', icon: <Icon component={EllipseSvg} />, label: 'Ellipse' },
+  { type: 'line', icon: <LineOutlined />, label: 'Line' },
+  { type: 'arrow', icon: <ArrowRightOutlined />, label: 'Arrow' },
+  { type: 'polygon', icon: <Icon component={PolygonSvg} />, label: 'Polygon' },
+  { type: 'star', icon: <StarOutlined />, label: 'Star' },
+  { type: 'draw', icon: <EditOutlined />, label: 'Pencil' },
+  { type: 'connector', icon: <NodeIndexOutlined />, label: 'Connector' },
   { type: 'text', icon: <FontSizeOutlined />, label: 'Text (T)' },
   { type: 'frame', icon: <BlockOutlined />, label: 'Frame (F)' },
 ];
@@ -42,18 +67,23 @@ export function InternalToolbar({ extra }: InternalToolbarProps) {
   const activeTool = useEditorEngine(engine, (s: EditorState) => s.activeTool);
   const selectedIds = useEditorEngine(engine, (s: EditorState) => s.selectedIds);
 
+  // 插件的创建工具排在内置工具之后，以元素类型作为工具 ID
+  const pluginTools: ToolConfig[] = PluginManager.getPlugins().flatMap(plugin => plugin.tool
+    ? [{ type: plugin.type, icon: plugin.tool.icon, label: plugin.tool.label ?? plugin.label }]
+    : []);
+
   const handleReorder = (action: 'front' | 'back' | 'forward' | 'backward') => {
-    engine.reorderElements(selectedIds, action);
+    if (selectedIds.length > 0) engine.execute('element.reorder', { ids: selectedIds, action });
   };
 
   const handleDelete = () => {
-    engine.deleteElements(selectedIds);
+    if (selectedIds.length > 0) engine.execute('element.delete', { ids: selectedIds });
   };
 
   return (
     <div className="editor-sidebar">
       <div className="sidebar-group">
-        {TOOLS.map((tool) => (
+        {[...TOOLS, ...pluginTools].map((tool) => (
           <button
             key={tool.type}
             className={`sidebar-btn ${activeTool === tool.type ? 'active' : ''}`}
@@ -0,0 +1,311 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Input } from 'antd';
+import Icon, {
+  BorderOutlined,
+  BlockOutlined,
+  GroupOutlined,
+  FontSizeOutlined,
+  PictureOutlined,
+  LineOutlined,
+  ArrowRightOutlined,
+  StarOutlined,
+  EditOutlined,
+  NodeIndexOutlined,
+  CaretDownOutlined,
+  CaretRightOutlined,
+  EyeOutlined,
+  EyeInvisibleOutlined,
+  LockOutlined,
+  UnlockOutlined,
+} from '@ant-design/icons';
+import { useEngineInstance } from '../../../react/context/useEngineInstance';
+import { useEditorEngine } from '../../../react/hooks/useEditorEngine';
+import type { Element, BuiltinElementType } from '../../../engine/types';
+import { PluginManager } from '../../../engine/modules/PluginManager';
+import './LayersPanel.css';
+
+const EllipseSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <ellipse cx="8" cy="8" rx="6.5" ry="6.5" stroke="currentColor" strokeWidth="1.4" />
+  </svg>
+);
+
+const TYPE_ICONS: Record<BuiltinElementType, React.ReactNode> = {
+  rectangle: <BorderOutlined />,
+  ellipse: <Icon component={EllipseSvg} />,
+  polygon: <BorderOutlined />,
+  star: <StarOutlined />,
+  line: <LineOutlined />,
+  arrow: <ArrowRightOutlined />,
+  path: <EditOutlined />,
+  connector: <NodeIndexOutlined />,
+  text: <FontSizeOutlined />,
+  image: <PictureOutlined />,
+  frame: <BlockOutlined />,
+  group: <GroupOutlined />,
+};
+
+const TYPE_LABELS: Record<BuiltinElementType, string> = {
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  polygon: 'Polygon',
+  star: 'Star',
+  line: 'Line',
+  arrow: 'Arrow',
+  path: 'Pencil',
+  connector: 'Connector',
+  text: 'Text',
+  image: 'Image',
+  frame: 'Frame',
+  group: 'Group',
+};
+
+/**
+ * 类型图标与名称：插件类型使用插件的 icon / label，未注册的类型显示类型名
+ */
+function getTypeIcon(type: string): React.ReactNode {
+  return PluginManager.isBuiltinType(type) ? TYPE_ICONS[type] : PluginManager.get(type)?.icon ?? <BorderOutlined />;
+}
+
+function getTypeLabel(type: string): string {
+  return PluginManager.isBuiltinType(type) ? TYPE_LABELS[type] : PluginManager.get(type)?.label ?? type;
+}
+
+/** 根画布在子元素映射中的键 */
+const ROOT_KEY = '';
+
+type DropPosition = 'above' | 'below' | 'inside';
+
+interface DropTarget {
+  id: string;
+  position: DropPosition;
+}
+
+interface LayerRow {
+  element: Element;
+  depth: number;
+  hasChildren: boolean;
+  /** 祖先被锁定或隐藏（自身的开关仍可切换） */
+  inheritedLocked: boolean;
+  inheritedHidden: boolean;
+}
+
+const isContainer = (el: Element) => el.type === 'frame' || el.type === 'group';
+
+/**
+ * 图层显示名称：优先使用自定义名称，文本取首行内容，其余使用类型名
+ */
+function getLayerName(el: Element): string {
+  if (el.name) return el.name;
+  if (el.type === 'text' && el.content?.trim()) return el.content.trim().split('\n')[0];
+  return getTypeLabel(el.type);
+}
+
+interface LayersPanelProps {
+  className?: string;
+}
+
+/**
+ * LayersPanel - 图层面板
+ *
+ * 以树形展示 Frame / 组的层级，同级按 zIndex 从高到低排列：
+ * - 拖拽行可调整顺序，拖到 Frame / 组的中部可移入其中；
+ * - 双击名称重命名；
+ * - 锁定的元素不可在画布上选中，隐藏的元素不渲染也不导出。
+ */
+export const LayersPanel: React.FC<LayersPanelProps> = ({ className }) => {
+  const engine = useEngineInstance();
+  const elements = useEditorEngine(engine, s => s.elements);
+  const selectedIds = useEditorEngine(engine, s => s.selectedIds);
+
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const dragIdRef = useRef<string | null>(null);
+  const renameCancelledRef = useRef(false);
+
+  /** 父级 ID -> 子元素（zIndex 从高到低） */
+  const childrenMap = useMemo(() => {
+    const map = new Map<string, Element[]>();
+    elements.forEach(el => {
+      const key = el.parentId ?? ROOT_KEY;
+      map.set(key, [...(map.get(key) || []), el]);
+    });
+    map.forEach(list => list.sort((a, b) => b.zIndex - a.zIndex));
+    return map;
+  }, [elements]);
+
+  const rows = useMemo(() => {
+    const result: LayerRow[] = [];
+    const visit = (parentKey: string, depth: number, inheritedLocked: boolean, inheritedHidden: boolean) => {
+      (childrenMap.get(parentKey) || []).forEach(element => {
+        const children = childrenMap.get(element.id) || [];
+        result.push({ element, depth, hasChildren: children.length > 0, inheritedLocked, inheritedHidden });
+        if (!collapsedIds.has(element.id)) {
+          visit(element.id, depth + 1, inheritedLocked || !!element.locked, inheritedHidden || element.visible === false);
+        }
+      });
+    };
+    visit(ROOT_KEY, 0, false, false);
+    return result;
+  }, [childrenMap, collapsedIds]);
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const commitRename = (id: string, value: string) => {
+    if (!renameCancelledRef.current) engine.renameElement(id, value);
+    renameCancelledRef.current = false;
+    setRenamingId(null);
+  };
+
+  const getDropPosition = (e: React.DragEvent<HTMLDivElement>, el: Element): DropPosition => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = (e.clientY - rect.top) / rect.height;
+    if (isContainer(el)) {
+      if (ratio < 0.25) return 'above';
+      if (ratio > 0.75) return 'below';
+      return 'inside';
+    }
+    return ratio < 0.5 ? 'above' : 'below';
+  };
+
+  const handleDrop = (target: Element, position: DropPosition) => {
+    const id = dragIdRef.current;
+    dragIdRef.current = null;
+    setDropTarget(null);
+    if (!id || id === target.id) return;
+
+    if (position === 'inside') {
+      const count = (childrenMap.get(target.id) || []).filter(el => el.id !== id).length;
+      if (engine.moveLayer(id, target.id, count)) {
+        setCollapsedIds(prev => {
+          const next = new Set(prev);
+          next.delete(target.id);
+          return next;
+        });
+      }
+      return;
+    }
+
+    // 面板自上而下是 zIndex 从高到低，换算为同级从低到高的位置
+    const siblings = [...(childrenMap.get(target.parentId ?? ROOT_KEY) || [])].reverse().filter(el => el.id !== id);
+    const targetIndex = siblings.findIndex(el => el.id === target.id);
+    engine.moveLayer(id, target.parentId, position === 'above' ? targetIndex + 1 : targetIndex);
+  };
+
+  return (
+    <div className={`layers-panel ${className || ''}`}>
+      <div className="layers-panel-header">Layers</div>
+      <div className="layers-panel-list" onDragLeave={e => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+      }}>
+        {rows.length === 0 && <div className="layers-panel-empty">No layers</div>}
+        {rows.map(({ element, depth, hasChildren, inheritedLocked, inheritedHidden }) => {
+          const isSelected = selectedIds.includes(element.id);
+          const isRenaming = renamingId === element.id;
+          const isDropTarget = dropTarget?.id === element.id;
+          const classes = [
+            'layer-row',
+            isSelected ? 'selected' : '',
+            inheritedHidden || element.visible === false ? 'hidden' : '',
+            isDropTarget ? `drop-${dropTarget.position}` : '',
+          ].filter(Boolean).join(' ');
+
+          return (
+            <div
+              key={element.id}
+              className={classes}
+              style={{ paddingLeft: 4 + depth * 14 }}
+              draggable={!isRenaming}
+              onDragStart={e => {
+                dragIdRef.current = element.id;
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragEnd={() => {
+                dragIdRef.current = null;
+                setDropTarget(null);
+              }}
+              onDragOver={e => {
+                if (!dragIdRef.current || dragIdRef.current === element.id) return;
+                e.preventDefault();
+                const position = getDropPosition(e, element);
+                if (dropTarget?.id !== element.id || dropTarget.position !== position) {
+                  setDropTarget({ id: element.id, position });
+                }
+              }}
+              onDrop={e => {
+                e.preventDefault();
+                handleDrop(element, getDropPosition(e, element));
+              }}
+              onClick={e => engine.selectElements([element.id], e.shiftKey)}
+              onDoubleClick={() => setRenamingId(element.id)}
+            >
+              <span
+                className="layer-caret"
+                onClick={e => {
+                  e.stopPropagation();
+                  if (hasChildren) toggleCollapsed(element.id);
+                }}
+              >
+                {hasChildren && (collapsedIds.has(element.id) ? <CaretRightOutlined /> : <CaretDownOutlined />)}
+              </span>
+              <span className="layer-icon">{getTypeIcon(element.type)}</span>
+              {isRenaming ? (
+                <Input
+                  size="small"
+                  autoFocus
+                  className="layer-name-input"
+                  defaultValue={getLayerName(element)}
+                  onClick={e => e.stopPropagation()}
+                  onFocus={e => e.target.select()}
+                  onPressEnter={e => e.currentTarget.blur()}
+                  onKeyDown={e => {
+                    if (e.key === 'Escape') {
+                      renameCancelledRef.current = true;
+                      e.currentTarget.blur();
+                    }
+                  }}
+                  onBlur={e => commitRename(element.id, e.target.value)}
+                />
+              ) : (
+                <span className="layer-name">{getLayerName(element)}</span>
+              )}
+              <span className={`layer-actions ${element.locked || element.visible === false ? 'active' : ''}`}>
+                <span
+                  className={`layer-action ${inheritedLocked ? 'inherited' : ''}`}
+                  title={element.locked ? 'Unlock' : 'Lock'}
+                  onClick={e => {
+                    e.stopPropagation();
+                    engine.setElementsLocked([element.id], !element.locked);
+                  }}
+                >
+                  {element.locked || inheritedLocked ? <LockOutlined /> : <UnlockOutlined />}
+                </span>
+                <span
+                  className={`layer-action ${inheritedHidden ? 'inherited' : ''}`}
+                  title={element.visible === false ? 'Show' : 'Hide'}
+                  onClick={e => {
+                    e.stopPropagation();
+                    engine.setElementsVisible([element.id], element.visible === false);
+                  }}
+                >
+                  {element.visible === false || inheritedHidden ? <EyeInvisibleOutlined /> : <EyeOutlined />}
+                </span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
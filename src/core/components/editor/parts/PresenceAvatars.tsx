@@ -0,0 +1,36 @@
+import React from 'react';
+import { Avatar, Tooltip } from 'antd';
+import type { RemotePresence } from '../../../collab';
+
+interface PresenceAvatarsProps {
+  peers: RemotePresence[];
+  followingId: string | null;
+  onFollow: (clientId: string | null) => void;
+}
+
+/**
+ * 在线参与者列表：点击头像跟随其视口，再次点击取消跟随
+ */
+export const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ peers, followingId, onFollow }) => {
+  if (peers.length === 0) return null;
+
+  return (
+    <div className="presence-avatars">
+      {peers.map(peer => {
+        const isFollowing = peer.clientId === followingId;
+        return (
+          <Tooltip key={peer.clientId} title={isFollowing ? `停止跟随 ${peer.user.name}` : `跟随 ${peer.user.name}`}>
+            <Avatar
+              size="small"
+              className={isFollowing ? 'presence-avatar following' : 'presence-avatar'}
+              style={{ background: peer.user.color, '--presence-color': peer.user.color } as React.CSSProperties}
+              onClick={() => onFollow(isFollowing ? null : peer.clientId)}
+            >
+              {peer.user.name.slice(0, 1).toUpperCase()}
+            </Avatar>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React, { useMemo } from 'react';
+import type { Element } from '../../../engine/types';
+import type { RemotePresence } from '../../../collab';
+import { getElementWorldCorners } from '../../../engine/utils';
+
+interface PresenceLayerProps {
+  peers: RemotePresence[];
+  elements: Element[];
+  zoom: number;
+}
+
+/**
+ * 其他参与者的光标与选区（世界坐标，随视口缩放）
+ * 选区以参与者颜色描边；光标与名称标签按 1 / zoom 反向缩放，保持屏幕上的大小不变
+ */
+export const PresenceLayer: React.FC<PresenceLayerProps> = ({ peers, elements, zoom }) => {
+  const outlines = useMemo(() => peers.flatMap(peer =>
+    peer.selectedIds.map(id => ({
+      key: `${peer.clientId}-${id}`,
+      color: peer.user.color,
+      points: getElementWorldCorners(elements, id).map(p => `${p.x},${p.y}`).join(' '),
+    })).filter(outline => outline.points)
+  ), [peers, elements]);
+
+  return (
+    <div className="presence-layer">
+      <svg className="presence-outlines">
+        {outlines.map(outline => (
+          <polygon key={outline.key} points={outline.points} stroke={outline.color} />
+        ))}
+      </svg>
+
+      {peers.filter(peer => peer.cursor).map(peer => (
+        <div
+          key={peer.clientId}
+          className="presence-cursor"
+          style={{ left: peer.cursor!.x, top: peer.cursor!.y, transform: `scale(${1 / zoom})` }}
+        >
+          <svg width="16" height="20" viewBox="0 0 16 20">
+            <path d="M1 1L1 16L5 12L8 19L11 18L8 11L14 11Z" fill={peer.user.color} stroke="#fff" strokeWidth="1.2" strokeLinejoin="round" />
+          </svg>
+          <span className="presence-cursor-label" style={{ background: peer.user.color }}>{peer.user.name}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Button, Select, Space, Tooltip } from 'antd';
+import Icon from '@ant-design/icons';
+import { useEngineInstance } from '../../../../react/context/useEngineInstance';
+import { useEditorEngine } from '../../../../react/hooks/useEditorEngine';
+import type { AlignType, DistributeAxis } from '../../../../engine/types';
+import type { EditorState } from '../../../../engine/EditorEngine';
+
+const AlignLeftSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <path d="M2 1.5V14.5" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" />
+    <rect x="4.5" y="3.5" width="9" height="3" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+    <rect x="4.5" y="9.5" width="5" height="3" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+  </svg>
+);
+
+const AlignCenterSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <path d="M8 1.5V14.5" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" />
+    <rect x="2.5" y="3.5" width="11" height="3" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+    <rect x="4.5" y="9.5" width="7" height="3" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+  </svg>
+);
+
+const AlignRightSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <path d="M14 1.5V14.5" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" />
+    <rect x="2.5" y="3.5" width="9" height="3" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+    <rect x="6.5" y="9.5" width="5" height="3" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+  </svg>
+);
+
+const AlignTopSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <path d="M1.5 2H14.5" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" />
+    <rect x="3.5" y="4.5" width="3" height="9" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+    <rect x="9.5" y="4.5" width="3" height="5" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+  </svg>
+);
+
+const AlignMiddleSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <path d="M1.5 8H14.5" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" />
+    <rect x="3.5" y="2.5" width="3" height="11" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+    <rect x="9.5" y="4.5" width="3" height="7" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+  </svg>
+);
+
+const AlignBottomSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <path d="M1.5 14H14.5" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" />
+    <rect x="3.5" y="2.5" width="3" height="9" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+    <rect x="9.5" y="6.5" width="3" height="5" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+  </svg>
+);
+
+const DistributeHorizontalSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <path d="M1.5 1.5V14.5M14.5 1.5V14.5" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" />
+    <rect x="6" y="4.5" width="4" height="7" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+  </svg>
+);
+
+const DistributeVerticalSvg = () => (
+  <svg width="1em" height="1em" viewBox="0 0 16 16" fill="none">
+    <path d="M1.5 1.5H14.5M1.5 14.5H14.5" stroke="currentColor" strokeWidth="1.4" strokeLinecap="round" />
+    <rect x="4.5" y="6" width="7" height="4" rx="0.5" stroke="currentColor" strokeWidth="1.2" />
+  </svg>
+);
+
+const ALIGN_ACTIONS: { type: AlignType; icon: React.ComponentType; label: string }[] = [
+  { type: 'left', icon: AlignLeftSvg, label: '左对齐 (Alt+A)' },
+  { type: 'center', icon: AlignCenterSvg, label: '水平居中 (Alt+H)' },
+  { type: 'right', icon: AlignRightSvg, label: '右对齐 (Alt+D)' },
+  { type: 'top', icon: AlignTopSvg, label: '顶对齐 (Alt+W)' },
+  { type: 'middle', icon: AlignMiddleSvg, label: '垂直居中 (Alt+V)' },
+  { type: 'bottom', icon: AlignBottomSvg, label: '底对齐 (Alt+S)' },
+];
+
+const DISTRIBUTE_ACTIONS: { axis: DistributeAxis; icon: React.ComponentType; label: string }[] = [
+  { axis: 'horizontal', icon: DistributeHorizontalSvg, label: '水平等间距分布 (Alt+Shift+H)' },
+  { axis: 'vertical', icon: DistributeVerticalSvg, label: '垂直等间距分布 (Alt+Shift+V)' },
+];
+
+type ReferenceMode = 'selection' | 'parent' | 'key';
+
+const REFERENCE_OPTIONS: { label: string; value: ReferenceMode }[] = [
+  { label: '对齐选区', value: 'selection' },
+  { label: '对齐父级', value: 'parent' },
+  { label: '对齐关键对象', value: 'key' },
+];
+
+/**
+ * AlignControls - 多选时的对齐与分布按钮
+ * 关键对象为最先选中的元素，对齐时它保持不动
+ */
+export const AlignControls: React.FC = () => {
+  const engine = useEngineInstance();
+  const selectedIds = useEditorEngine(engine, (s: EditorState) => s.selectedIds);
+  const [mode, setMode] = useState<ReferenceMode>('selection');
+
+  /** 关键对象模式下以元素 ID 作为参照（见 selection.align 命令） */
+  const getReference = (): string => mode === 'key' ? selectedIds[0] : mode;
+
+  return (
+    <Space size={0}>
+      {ALIGN_ACTIONS.map(({ type, icon, label }) => (
+        <Tooltip key={type} title={label}>
+          <Button
+            size="small"
+            type="text"
+            icon={<Icon component={icon} />}
+            onClick={() => engine.execute('selection.align', { ids: selectedIds, alignment: type, reference: getReference() })}
+          />
+        </Tooltip>
+      ))}
+      {DISTRIBUTE_ACTIONS.map(({ axis, icon, label }) => (
+        <Tooltip key={axis} title={label}>
+          <Button
+            size="small"
+            type="text"
+            icon={<Icon component={icon} />}
+            disabled={selectedIds.length < 3}
+            onClick={() => engine.execute('selection.distribute', { ids: selectedIds, axis })}
+          />
+        </Tooltip>
+      ))}
+      <Select
+        size="small"
+        variant="borderless"
+        value={mode}
+        onChange={setMode}
+        options={REFERENCE_OPTIONS}
+        popupMatchSelectWidth={false}
+        style={{ width: 104 }}
+      />
+    </Space>
+  );
+};
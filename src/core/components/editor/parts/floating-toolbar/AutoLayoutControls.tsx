@@ -0,0 +1,78 @@
+import React from 'react';
+import { Button, Popover, Segmented, Switch, Tooltip } from 'antd';
+import { LayoutOutlined } from '@ant-design/icons';
+import { useEngineInstance } from '../../../../react/context/useEngineInstance';
+import type { Element, FrameLayout } from '../../../../engine/types';
+import { SliderField } from './SliderField';
+
+interface AutoLayoutControlsProps {
+  element: Element;
+}
+
+const DIRECTION_OPTIONS: { value: FrameLayout['direction'], label: string }[] = [
+  { value: 'horizontal', label: '横向' },
+  { value: 'vertical', label: '纵向' },
+];
+
+const ALIGN_OPTIONS: { value: NonNullable<FrameLayout['align']>, label: string }[] = [
+  { value: 'start', label: '起始' },
+  { value: 'center', label: '居中' },
+  { value: 'end', label: '末尾' },
+];
+
+const SIZING_OPTIONS: { value: NonNullable<FrameLayout['sizing']>, label: string }[] = [
+  { value: 'fixed', label: '固定尺寸' },
+  { value: 'hug', label: '贴合内容' },
+];
+
+const Row: React.FC<{ label: string, children: React.ReactNode }> = ({ label, children }) => (
+  <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 12, padding: '4px 0' }}>
+    <span style={{ fontSize: '12px', color: '#8c8c8c' }}>{label}</span>
+    {children}
+  </div>
+);
+
+/**
+ * AutoLayoutControls - Frame 自动布局设置
+ */
+export const AutoLayoutControls: React.FC<AutoLayoutControlsProps> = ({ element }) => {
+  const engine = useEngineInstance();
+  const layout = element.layout;
+
+  const update = (updates: Partial<FrameLayout>) => engine.setFrameLayout(element.id, updates);
+
+  return (
+    <Popover
+      trigger="click"
+      content={
+        <div style={{ width: 220 }}>
+          <Row label="自动布局">
+            <Switch size="small" checked={!!layout} onChange={(checked) => engine.setFrameLayout(element.id, checked ? {} : null)} />
+          </Row>
+          {layout && (
+            <>
+              <Row label="方向">
+                <Segmented size="small" value={layout.direction} options={DIRECTION_OPTIONS} onChange={(direction) => update({ direction })} />
+              </Row>
+              <Row label="对齐">
+                <Segmented size="small" value={layout.align || 'start'} options={ALIGN_OPTIONS} onChange={(align) => update({ align })} />
+              </Row>
+              <Row label="尺寸">
+                <Segmented size="small" value={layout.sizing || 'fixed'} options={SIZING_OPTIONS} onChange={(sizing) => update({ sizing })} />
+              </Row>
+              <Row label="换行">
+                <Switch size="small" checked={!!layout.wrap} onChange={(wrap) => update({ wrap })} />
+              </Row>
+              <SliderField label="间距" value={layout.gap} min={0} max={200} unit="px" onChange={(gap) => update({ gap })} />
+              <SliderField label="内边距" value={layout.padding} min={0} max={200} unit="px" onChange={(padding) => update({ padding })} />
+            </>
+          )}
+        </div>
+      }
+    >
+      <Tooltip title="自动布局">
+        <Button size="small" type={layout ? 'link' : 'text'} icon={<LayoutOutlined />} />
+      </Tooltip>
+    </Popover>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Button, Popover, Select, Tooltip } from 'antd';
+import { PushpinOutlined } from '@ant-design/icons';
+import { useEngineInstance } from '../../../../react/context/useEngineInstance';
+import { useEditorEngine } from '../../../../react/hooks/useEditorEngine';
+import type { Element, HorizontalConstraint, VerticalConstraint } from '../../../../engine/types';
+import type { EditorState } from '../../../../engine/EditorEngine';
+
+interface ConstraintControlsProps {
+  element: Element;
+}
+
+const HORIZONTAL_OPTIONS: { value: HorizontalConstraint, label: string }[] = [
+  { value: 'left', label: '左' },
+  { value: 'right', label: '右' },
+  { value: 'left-right', label: '左右' },
+  { value: 'center', label: '居中' },
+  { value: 'scale', label: '缩放' },
+];
+
+const VERTICAL_OPTIONS: { value: VerticalConstraint, label: string }[] = [
+  { value: 'top', label: '上' },
+  { value: 'bottom', label: '下' },
+  { value: 'top-bottom', label: '上下' },
+  { value: 'center', label: '居中' },
+  { value: 'scale', label: '缩放' },
+];
+
+/**
+ * ConstraintControls - Frame 子元素的约束设置
+ * 只在元素直接位于未开启自动布局的 Frame 中时显示
+ */
+export const ConstraintControls: React.FC<ConstraintControlsProps> = ({ element }) => {
+  const engine = useEngineInstance();
+  const isConstrainable = useEditorEngine(engine, (s: EditorState) => {
+    const parent = element.parentId ? s.elements.find(el => el.id === element.parentId) : undefined;
+    return parent?.type === 'frame' && !parent.layout;
+  });
+
+  if (!isConstrainable || element.type === 'connector') return null;
+
+  return (
+    <>
+      <div className="divider" />
+      <Popover
+        trigger="click"
+        content={
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8, width: 160 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <span style={{ fontSize: '12px', color: '#8c8c8c' }}>水平</span>
+              <Select
+                size="small"
+                style={{ width: 96 }}
+                value={element.constraints?.horizontal || 'left'}
+                options={HORIZONTAL_OPTIONS}
+                onChange={(horizontal: HorizontalConstraint) => engine.setConstraints([element.id], { horizontal })}
+              />
+            </div>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <span style={{ fontSize: '12px', color: '#8c8c8c' }}>垂直</span>
+              <Select
+                size="small"
+                style={{ width: 96 }}
+                value={element.constraints?.vertical || 'top'}
+                options={VERTICAL_OPTIONS}
+                onChange={(vertical: VerticalConstraint) => engine.setConstraints([element.id], { vertical })}
+              />
+            </div>
+          </div>
+        }
+      >
+        <Tooltip title="约束">
+          <Button size="small" type="text" icon={<PushpinOutlined />} />
+        </Tooltip>
+      </Popover>
+    </>
+  );
+};
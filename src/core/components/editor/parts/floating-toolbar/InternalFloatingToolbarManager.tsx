@@ -1,12 +1,16 @@
 import React from 'react';
 import type { Element } from '../../../../engine/types';
+import { PluginManager } from '../../../../engine/modules/PluginManager';
+import type { ExportFormat } from '../../../../../utils/exportUtils';
 import { InternalTextToolBar } from './InternalTextToolBar';
 import { InternalShapeToolBar } from './InternalShapeToolBar';
 import { InternalImageToolBar, InternalGroupToolBar } from './InternalImageAndGroupToolBars';
+import { RotationInput } from './RotationInput';
+import { ConstraintControls } from './ConstraintControls';
 
 interface InternalFloatingToolbarManagerProps {
   element?: Element;
-  onExport: () => void;
+  onExport: (format: ExportFormat) => void;
   extra?: React.ReactNode;
 }
 
@@ -20,25 +24,45 @@ export const InternalFloatingToolbarManager: React.FC<InternalFloatingToolbarMan
 }) => {
   const renderToolbar = () => {
     if (!element) {
-      return <InternalGroupToolBar />;
+      return <InternalGroupToolBar onExport={onExport} />;
     }
 
     switch (element.type) {
       case 'text':
         return <InternalTextToolBar element={element} onExport={onExport} />;
       case 'rectangle':
+      case 'ellipse':
+      case 'polygon':
+      case 'star':
+      case 'line':
+      case 'arrow':
+      case 'path':
+      case 'connector':
       case 'frame':
         return <InternalShapeToolBar element={element} onExport={onExport} />;
       case 'image':
         return <InternalImageToolBar element={element} onExport={onExport} />;
-      default:
-        return null;
+      case 'group':
+        return <InternalGroupToolBar element={element} onExport={onExport} />;
+      default: {
+        // 插件元素使用插件提供的工具栏
+        const PluginToolbar = PluginManager.get(element.type)?.toolbar;
+        return PluginToolbar ? <PluginToolbar element={element} onExport={onExport} /> : null;
+      }
     }
   };
 
   return (
     <>
       {renderToolbar()}
+      {/* 连接线的走线由绑定决定，不提供旋转 */}
+      {element && element.type !== 'connector' && (
+        <>
+          <div className="divider" />
+          <RotationInput element={element} />
+        </>
+      )}
+      {element && <ConstraintControls element={element} />}
       {extra && (
         <>
           <div className="divider" />
@@ -1,11 +1,14 @@
-import { Button, Space, Divider, Tooltip, ColorPicker, Slider, Popover } from 'antd';
-import { DownloadOutlined, BgColorsOutlined, BorderInnerOutlined, ScissorOutlined, ExpandOutlined, RobotOutlined, ExperimentOutlined, AreaChartOutlined } from '@ant-design/icons';
+import { Button, Space, Divider, Tooltip, ColorPicker, Slider, Popover, Dropdown } from 'antd';
+import { DownloadOutlined, BgColorsOutlined, BorderInnerOutlined, ScissorOutlined, ExpandOutlined, RobotOutlined, ExperimentOutlined, AreaChartOutlined, GroupOutlined, UngroupOutlined } from '@ant-design/icons';
 import { useEngineInstance } from '../../../../react/context/useEngineInstance';
 import type { Element } from '../../../../engine/types';
+import type { ExportFormat } from '../../../../../utils/exportUtils';
+import { getExportMenuItems } from './exportMenu';
+import { AlignControls } from './AlignControls';
 
 interface ImageToolBarProps {
   element: Element;
-  onExport: () => void;
+  onExport: (format: ExportFormat) => void;
 }
 
 export const InternalImageToolBar: React.FC<ImageToolBarProps> = ({ element, onExport }) => {
@@ -63,18 +66,59 @@ export const InternalImageToolBar: React.FC<ImageToolBarProps> = ({ element, onE
         <Button size="small" type="text" icon={<AreaChartOutlined />} onClick={() => console.log('AI Action: analyze')}>图层分析</Button>
       </Space>
       <Divider type="vertical" />
-      <Button size="small" type="text" icon={<DownloadOutlined />} onClick={onExport}>
-        导出
-      </Button>
+      <Dropdown menu={{ items: getExportMenuItems(onExport) }} placement="bottomRight">
+        <Button size="small" type="text" icon={<DownloadOutlined />}>导出</Button>
+      </Dropdown>
     </Space>
   );
 };
 
 // --- Group Toolbar ---
-export const InternalGroupToolBar: React.FC = () => {
+interface GroupToolBarProps {
+  /** 选中的编组元素；多选时为空 */
+  element?: Element;
+  onExport?: (format: ExportFormat) => void;
+}
+
+export const InternalGroupToolBar: React.FC<GroupToolBarProps> = ({ element, onExport }) => {
+  const engine = useEngineInstance();
+
+  if (element?.type === 'group') {
+    return (
+      <Space size={4} className="toolbar-group">
+        <span style={{ fontSize: '12px', color: '#8c8c8c', padding: '0 8px' }}>{element.name || 'Group'}</span>
+        <Tooltip title="取消编组 (Ctrl+Shift+G)">
+          <Button size="small" type="text" icon={<UngroupOutlined />} onClick={() => engine.execute('selection.ungroup')}>取消编组</Button>
+        </Tooltip>
+        {onExport && (
+          <>
+            <Divider type="vertical" />
+            <Dropdown menu={{ items: getExportMenuItems(onExport) }} placement="bottomRight">
+              <Button size="small" type="text" icon={<DownloadOutlined />}>导出</Button>
+            </Dropdown>
+          </>
+        )}
+      </Space>
+    );
+  }
+
   return (
     <Space size={4} className="toolbar-group">
       <span style={{ fontSize: '12px', color: '#8c8c8c', padding: '0 8px' }}>Multiple Selected</span>
+      <Tooltip title="编组 (Ctrl+G)">
+        <Button size="small" type="text" icon={<GroupOutlined />} onClick={() => engine.execute('selection.group')}>编组</Button>
+      </Tooltip>
+      <Divider type="vertical" />
+      <AlignControls />
+      {onExport && (
+        <>
+          <Divider type="vertical" />
+          {/* 多选时仅支持导出为 SVG */}
+          <Dropdown menu={{ items: getExportMenuItems(onExport, false) }} placement="bottomRight">
+            <Button size="small" type="text" icon={<DownloadOutlined />}>导出</Button>
+          </Dropdown>
+        </>
+      )}
     </Space>
   );
 };
@@ -1,71 +1,192 @@
 import React from 'react';
-import { ColorPicker, Button, Divider, Space, Tooltip, Dropdown, Slider, Popover } from 'antd';
-import { DownloadOutlined, MoreOutlined, BgColorsOutlined, BorderInnerOutlined } from '@ant-design/icons';
+import { ColorPicker, Button, Divider, Space, Tooltip, Dropdown, Popover, Select } from 'antd';
+import { MoreOutlined, BgColorsOutlined, BorderInnerOutlined, LineOutlined, StarOutlined } from '@ant-design/icons';
 import { useEngineInstance } from '../../../../react/context/useEngineInstance';
-import type { Element } from '../../../../engine/types';
+import type { Element, ArrowheadType, ConnectorRouting } from '../../../../engine/types';
+import {
+  DEFAULT_POLYGON_SIDES,
+  DEFAULT_STAR_POINTS,
+  DEFAULT_STAR_INNER_RADIUS,
+} from '../../../../utils/shapeUtils';
+import type { ExportFormat } from '../../../../../utils/exportUtils';
+import { getExportMenuItems } from './exportMenu';
+import { SliderField } from './SliderField';
+import { AutoLayoutControls } from './AutoLayoutControls';
 
 interface ShapeToolBarProps {
   element: Element;
-  onExport: () => void;
+  onExport: (format: ExportFormat) => void;
 }
 
+const ARROWHEAD_OPTIONS: { value: ArrowheadType, label: string }[] = [
+  { value: 'none', label: '无' },
+  { value: 'triangle', label: '三角' },
+  { value: 'open', label: '开放' },
+  { value: 'diamond', label: '菱形' },
+  { value: 'circle', label: '圆点' },
+];
+
+const ROUTING_OPTIONS: { value: ConnectorRouting, label: string }[] = [
+  { value: 'straight', label: '直线' },
+  { value: 'elbow', label: '折线' },
+  { value: 'curved', label: '曲线' },
+];
+
 export const InternalShapeToolBar: React.FC<ShapeToolBarProps> = ({ element, onExport }) => {
   const engine = useEngineInstance();
 
+  const isConnector = element.type === 'connector';
+  const isLine = element.type === 'line' || element.type === 'arrow' || isConnector;
+  // 线段、连接线与手绘笔画只有线条，没有填充
+  const isStroke = isLine || element.type === 'path';
+  const hasRadius = element.type === 'rectangle' || element.type === 'frame';
+
   const handleUpdateStyle = (updates: Partial<NonNullable<Element['style']>>) => {
     engine.updateElement(element.id, {
       style: { ...element.style, ...updates }
     });
   };
 
+  const renderArrowheadSelect = (key: 'startArrowhead' | 'endArrowhead', title: string) => {
+    const fallback: ArrowheadType = key === 'endArrowhead' && element.type !== 'line' ? 'triangle' : 'none';
+    return (
+      <Tooltip title={title}>
+        <Select
+          size="small"
+          variant="borderless"
+          style={{ width: 72 }}
+          value={element.style?.[key] ?? fallback}
+          options={ARROWHEAD_OPTIONS}
+          onChange={(value: ArrowheadType) => handleUpdateStyle({ [key]: value })}
+        />
+      </Tooltip>
+    );
+  };
+
   return (
     <Space size={4} className="toolbar-group">
       <Space size={0}>
-        <Tooltip title="填充颜色">
-          <ColorPicker 
-            size="small" 
-            value={element.style?.fill || '#ffffff'} 
-            onChange={(color) => handleUpdateStyle({ fill: color.toHexString() })} 
-            showText 
-          />
-        </Tooltip>
-        <Tooltip title="边框颜色">
-          <ColorPicker 
-            size="small" 
-            value={element.style?.stroke || 'transparent'} 
+        {!isStroke && (
+          <Tooltip title="填充颜色">
+            <ColorPicker
+              size="small"
+              value={element.style?.fill || '#ffffff'}
+              onChange={(color) => handleUpdateStyle({ fill: color.toHexString() })}
+              showText
+            />
+          </Tooltip>
+        )}
+        <Tooltip title={isStroke ? '线条颜色' : '边框颜色'}>
+          <ColorPicker
+            size="small"
+            value={element.style?.stroke || 'transparent'}
             onChange={(color) => handleUpdateStyle({ stroke: color.toHexString() })}
+            showText={isStroke}
           >
-            <Button type="text" size="small" icon={<BgColorsOutlined />} />
+            {isStroke ? undefined : <Button type="text" size="small" icon={<BgColorsOutlined />} />}
           </ColorPicker>
         </Tooltip>
         <Popover
           trigger="click"
           content={
-            <div style={{ width: 140, padding: '4px 0' }}>
-              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 2 }}>
-                <span style={{ fontSize: '12px', color: '#8c8c8c' }}>圆角大小</span>
-                <span style={{ fontSize: '12px', fontWeight: 500 }}>{element.style?.borderRadius || 0}px</span>
-              </div>
-              <Slider
-                min={0}
-                max={200}
-                value={element.style?.borderRadius || 0}
-                onChange={(val: number) => handleUpdateStyle({ borderRadius: val })}
-                style={{ margin: '6px 4px' }}
-              />
-            </div>
+            <SliderField
+              label={isStroke ? '线条粗细' : '边框粗细'}
+              value={element.style?.strokeWidth || (isStroke ? 2 : 1)}
+              min={1}
+              max={20}
+              unit="px"
+              onChange={(val) => handleUpdateStyle({ strokeWidth: val })}
+            />
           }
         >
-          <Button size="small" type="text" icon={<BorderInnerOutlined />} />
+          <Button size="small" type="text" icon={<LineOutlined />} />
         </Popover>
+        {hasRadius && (
+          <Popover
+            trigger="click"
+            content={
+              <SliderField
+                label="圆角大小"
+                value={element.style?.borderRadius || 0}
+                min={0}
+                max={200}
+                unit="px"
+                onChange={(val) => handleUpdateStyle({ borderRadius: val })}
+              />
+            }
+          >
+            <Button size="small" type="text" icon={<BorderInnerOutlined />} />
+          </Popover>
+        )}
+        {element.type === 'polygon' && (
+          <Popover
+            trigger="click"
+            content={
+              <SliderField
+                label="边数"
+                value={element.sides ?? DEFAULT_POLYGON_SIDES}
+                min={3}
+                max={12}
+                onChange={(val) => engine.updateElement(element.id, { sides: val })}
+              />
+            }
+          >
+            <Button size="small" type="text" style={{ fontSize: 12 }}>
+              {element.sides ?? DEFAULT_POLYGON_SIDES} 边
+            </Button>
+          </Popover>
+        )}
+        {element.type === 'star' && (
+          <Popover
+            trigger="click"
+            content={
+              <>
+                <SliderField
+                  label="角数"
+                  value={element.sides ?? DEFAULT_STAR_POINTS}
+                  min={3}
+                  max={12}
+                  onChange={(val) => engine.updateElement(element.id, { sides: val })}
+                />
+                <SliderField
+                  label="内径比例"
+                  value={Math.round((element.innerRadius ?? DEFAULT_STAR_INNER_RADIUS) * 100)}
+                  min={10}
+                  max={100}
+                  unit="%"
+                  onChange={(val) => engine.updateElement(element.id, { innerRadius: val / 100 })}
+                />
+              </>
+            }
+          >
+            <Button size="small" type="text" icon={<StarOutlined />} />
+          </Popover>
+        )}
+        {element.type === 'frame' && <AutoLayoutControls element={element} />}
+        {isConnector && (
+          <Tooltip title="走线方式">
+            <Select
+              size="small"
+              variant="borderless"
+              style={{ width: 72 }}
+              value={element.routing || 'straight'}
+              options={ROUTING_OPTIONS}
+              onChange={(value: ConnectorRouting) => engine.updateElement(element.id, { routing: value })}
+            />
+          </Tooltip>
+        )}
+        {isLine && (
+          <>
+            {renderArrowheadSelect('startArrowhead', '起点箭头')}
+            {renderArrowheadSelect('endArrowhead', '终点箭头')}
+          </>
+        )}
       </Space>
 
       <Divider type="vertical" />
 
-      <Dropdown 
-        menu={{ 
-          items: [{ key: 'export', icon: <DownloadOutlined />, label: '导出图片', onClick: onExport }] 
-        }} 
+      <Dropdown
+        menu={{ items: getExportMenuItems(onExport) }}
         placement="bottomRight"
       >
         <Button size="small" type="text" icon={<MoreOutlined />} />
@@ -12,21 +12,25 @@ import {
 import { 
   BoldOutlined, 
   ItalicOutlined, 
+  UnderlineOutlined,
   AlignLeftOutlined, 
   AlignCenterOutlined, 
   AlignRightOutlined,
   MoreOutlined,
-  DownloadOutlined,
   BgColorsOutlined
 } from '@ant-design/icons';
 import { useEngineInstance } from '../../../../react/context/useEngineInstance';
 import { useEditorEngine } from '../../../../react/hooks/useEditorEngine';
-import type { Element } from '../../../../engine/types';
+import type { Element, TextSpanStyle } from '../../../../engine/types';
 import type { EditorState } from '../../../../engine/EditorEngine';
+import type { ExportFormat } from '../../../../../utils/exportUtils';
+import { getTextRangeStyle } from '../../../../utils/richTextUtils';
+import { getExportMenuItems } from './exportMenu';
+import { TextLinkControl } from './TextLinkControl';
 
 interface TextToolBarProps {
   element: Element;
-  onExport: () => void;
+  onExport: (format: ExportFormat) => void;
 }
 
 const FONT_SIZES = [
@@ -45,6 +49,11 @@ export const InternalTextToolBar: React.FC<TextToolBarProps> = ({ element, onExp
   // 订阅状态
   const localFonts = useEditorEngine(engine, (s: EditorState) => s.localFonts);
   const isFontLoading = useEditorEngine(engine, (s: EditorState) => s.isFontLoading);
+  const textSelection = useEditorEngine(engine, (s: EditorState) => s.textSelection);
+
+  // 选中了部分文字时，颜色、字号、粗体、斜体、下划线和链接只作用于这部分文字
+  const range = textSelection?.elementId === element.id && textSelection.start < textSelection.end ? textSelection : undefined;
+  const rangeStyle = getTextRangeStyle(element, range);
 
   React.useEffect(() => {
     engine.loadLocalFonts();
@@ -65,7 +74,7 @@ export const InternalTextToolBar: React.FC<TextToolBarProps> = ({ element, onExp
     if (sizeMeasureRef.current) {
       setSizeWidth(Math.max(45, sizeMeasureRef.current.offsetWidth + 28));
     }
-  }, [element.style?.fontSize]);
+  }, [rangeStyle.fontSize]);
 
   const handleUpdateStyle = (updates: Partial<NonNullable<Element['style']>>) => {
     engine.updateElement(element.id, {
@@ -73,9 +82,11 @@ export const InternalTextToolBar: React.FC<TextToolBarProps> = ({ element, onExp
     });
   };
 
-  const moreItems: MenuProps['items'] = [
-    { key: 'export', icon: <DownloadOutlined />, label: '导出图片', onClick: onExport },
-  ];
+  const handleTextStyle = (style: TextSpanStyle) => {
+    engine.applyTextStyle(element.id, style, range);
+  };
+
+  const moreItems: MenuProps['items'] = getExportMenuItems(onExport);
 
   return (
     <Space size={4} className="toolbar-group" style={{ padding: '0 4px' }}>
@@ -83,12 +94,12 @@ export const InternalTextToolBar: React.FC<TextToolBarProps> = ({ element, onExp
         {element.style?.fontFamily || 'Arial'}
       </span>
       <span ref={sizeMeasureRef} style={{ position: 'absolute', visibility: 'hidden', whiteSpace: 'nowrap', fontSize: '12px', pointerEvents: 'none' }}>
-        {element.style?.fontSize ? `${element.style.fontSize}px` : '15px'}
+        {`${rangeStyle.fontSize}px`}
       </span>
 
       <Space size={0}>
         <Tooltip title="文字颜色">
-          <ColorPicker size="small" value={element.style?.fill || '#000000'} onChange={(color) => handleUpdateStyle({ fill: color.toHexString() })} showText />
+          <ColorPicker size="small" value={rangeStyle.color} onChange={(color) => handleTextStyle({ color: color.toHexString() })} showText />
         </Tooltip>
         <Tooltip title="背景颜色">
           <ColorPicker size="small" value={element.style?.backgroundColor || 'transparent'} onChange={(color) => handleUpdateStyle({ backgroundColor: color.toHexString() })}>
@@ -121,8 +132,8 @@ export const InternalTextToolBar: React.FC<TextToolBarProps> = ({ element, onExp
         size="small"
         placeholder="大小"
         suffixIcon={<CustomArrow />}
-        value={element.style?.fontSize ? `${element.style.fontSize}px` : '15px'}
-        onChange={(val) => handleUpdateStyle({ fontSize: parseInt(val) })}
+        value={`${rangeStyle.fontSize}px`}
+        onChange={(val) => handleTextStyle({ fontSize: parseInt(val) })}
         options={FONT_SIZES.map(s => ({ label: s, value: s }))}
         variant="borderless"
         style={{ width: sizeWidth, transition: 'width 0.2s' }}
@@ -131,9 +142,13 @@ export const InternalTextToolBar: React.FC<TextToolBarProps> = ({ element, onExp
       <Divider type="vertical" />
  
       <Space size={2} onMouseDown={(e) => e.preventDefault()}>
-        <Button size="small" type={element.style?.fontWeight === 'bold' ? 'primary' : 'text'} icon={<BoldOutlined />} onClick={() => handleUpdateStyle({ fontWeight: element.style?.fontWeight === 'bold' ? 'normal' : 'bold' })} />
-        <Button size="small" type={element.style?.fontStyle === 'italic' ? 'primary' : 'text'} icon={<ItalicOutlined />} onClick={() => handleUpdateStyle({ fontStyle: element.style?.fontStyle === 'italic' ? 'normal' : 'italic' })} />
+        <Button size="small" type={rangeStyle.bold ? 'primary' : 'text'} icon={<BoldOutlined />} onClick={() => handleTextStyle({ bold: !rangeStyle.bold })} />
+        <Button size="small" type={rangeStyle.italic ? 'primary' : 'text'} icon={<ItalicOutlined />} onClick={() => handleTextStyle({ italic: !rangeStyle.italic })} />
+        <Button size="small" type={rangeStyle.underline ? 'primary' : 'text'} icon={<UnderlineOutlined />} onClick={() => handleTextStyle({ underline: !rangeStyle.underline })} />
       </Space>
+
+      {/* 链接输入框需要获得焦点，不能放在阻止 mousedown 默认行为的容器中 */}
+      <TextLinkControl link={rangeStyle.link} onChange={(link) => handleTextStyle({ link })} />
  
       <Dropdown
         trigger={['click']}
@@ -0,0 +1,36 @@
+import React from 'react';
+import { InputNumber, Tooltip } from 'antd';
+import { RotateRightOutlined } from '@ant-design/icons';
+import { useEngineInstance } from '../../../../react/context/useEngineInstance';
+import type { Element } from '../../../../engine/types';
+
+interface RotationInputProps {
+  element: Element;
+}
+
+/**
+ * RotationInput - 精确输入元素的旋转角度
+ */
+export const RotationInput: React.FC<RotationInputProps> = ({ element }) => {
+  const engine = useEngineInstance();
+
+  return (
+    <Tooltip title="旋转角度">
+      <InputNumber
+        size="small"
+        variant="borderless"
+        style={{ width: 84 }}
+        prefix={<RotateRightOutlined style={{ color: '#8c8c8c' }} />}
+        suffix="°"
+        min={-360}
+        max={360}
+        precision={0}
+        controls={false}
+        value={Math.round(element.rotation || 0)}
+        onChange={(value) => {
+          if (typeof value === 'number') engine.setRotation([element.id], value);
+        }}
+      />
+    </Tooltip>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Slider } from 'antd';
+
+interface SliderFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  onChange: (value: number) => void;
+}
+
+export const SliderField: React.FC<SliderFieldProps> = ({ label, value, min, max, step = 1, unit = '', onChange }) => (
+  <div style={{ width: 140, padding: '4px 0' }}>
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 2 }}>
+      <span style={{ fontSize: '12px', color: '#8c8c8c' }}>{label}</span>
+      <span style={{ fontSize: '12px', fontWeight: 500 }}>{value}{unit}</span>
+    </div>
+    <Slider
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={onChange}
+      style={{ margin: '6px 4px' }}
+    />
+  </div>
+);
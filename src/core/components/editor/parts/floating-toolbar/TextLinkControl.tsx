@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Button, Input, Popover, Space, Tooltip } from 'antd';
+import { LinkOutlined } from '@ant-design/icons';
+import { isSafeLink } from '../../../../utils/richTextUtils';
+
+interface TextLinkControlProps {
+  /** 当前文字的链接（范围内链接不一致时为空） */
+  link?: string;
+  /** 设置链接，undefined 表示移除 */
+  onChange: (link: string | undefined) => void;
+}
+
+/**
+ * TextLinkControl - 为文字设置 / 移除链接（只接受 http / https / mailto 地址）
+ */
+export const TextLinkControl: React.FC<TextLinkControlProps> = ({ link, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+
+  const trimmed = value.trim();
+  const invalid = !!trimmed && !isSafeLink(trimmed);
+
+  const submit = (next: string | undefined) => {
+    if (next && !isSafeLink(next)) return;
+    onChange(next || undefined);
+    setOpen(false);
+  };
+
+  return (
+    <Popover
+      trigger="click"
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        if (nextOpen) setValue(link || '');
+      }}
+      content={
+        <Space.Compact size="small" style={{ width: 260 }}>
+          <Tooltip open={open && invalid} title="仅支持 http、https 或 mailto 链接" placement="bottom">
+            <Input
+              autoFocus
+              placeholder="https://"
+              status={invalid ? 'error' : undefined}
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onPressEnter={() => submit(trimmed)}
+            />
+          </Tooltip>
+          <Button type="primary" disabled={invalid} onClick={() => submit(trimmed)}>确定</Button>
+          {link && <Button onClick={() => submit(undefined)}>移除</Button>}
+        </Space.Compact>
+      }
+    >
+      <Tooltip title="链接">
+        <Button size="small" type={link ? 'primary' : 'text'} icon={<LinkOutlined />} />
+      </Tooltip>
+    </Popover>
+  );
+};
@@ -0,0 +1,17 @@
+import type { MenuProps } from 'antd';
+import { DownloadOutlined, FileImageOutlined } from '@ant-design/icons';
+import type { ExportFormat } from '../../../../../utils/exportUtils';
+
+/**
+ * 浮动工具栏中的导出菜单项
+ * @param withImage 是否提供 PNG 导出（多选时仅支持 SVG）
+ */
+export function getExportMenuItems(
+  onExport: (format: ExportFormat) => void,
+  withImage = true
+): NonNullable<MenuProps['items']> {
+  return [
+    ...(withImage ? [{ key: 'export', icon: <DownloadOutlined />, label: '导出图片', onClick: () => onExport('png') }] : []),
+    { key: 'export-svg', icon: <FileImageOutlined />, label: '导出 SVG', onClick: () => onExport('svg') },
+  ];
+}
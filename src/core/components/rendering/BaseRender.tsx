@@ -1,4 +1,4 @@
-import React, { memo } from 'react';
+import React, { memo, useContext } from 'react';
 import type { Element } from '../../engine/types';
 import type { EditorState } from '../../engine/EditorEngine';
 import { useEditorEngine } from '../../react/hooks/useEditorEngine';
@@ -7,6 +7,14 @@ import { RectElement } from './elements/RectElement';
 import { TextElement } from './elements/TextElement';
 import { ImageElement } from './elements/ImageElement';
 import { FrameElement } from './elements/FrameElement';
+import { GroupElement } from './elements/GroupElement';
+import { ShapeElement } from './elements/ShapeElement';
+import { LineElement } from './elements/LineElement';
+import { PathElement } from './elements/PathElement';
+import { ConnectorElement } from './elements/ConnectorElement';
+import { PlaceholderElement } from './elements/PlaceholderElement';
+import { PluginElement } from './elements/PluginElement';
+import { LevelOfDetailContext } from './ViewportContext';
 
 /**
  * 自定义渲染函数类型
@@ -19,14 +27,32 @@ export type CustomRenderFn = (element: Element, editorState: EditorState) => Rea
  * 自定义渲染配置
  */
 export interface CustomRenderConfig {
-  /** 矩形/形状元素自定义渲染 */
+  /** 矩形元素自定义渲染 */
   rectangle?: CustomRenderFn;
+  /** 椭圆元素自定义渲染 */
+  ellipse?: CustomRenderFn;
+  /** 多边形元素自定义渲染 */
+  polygon?: CustomRenderFn;
+  /** 星形元素自定义渲染 */
+  star?: CustomRenderFn;
+  /** 线段元素自定义渲染 */
+  line?: CustomRenderFn;
+  /** 箭头元素自定义渲染 */
+  arrow?: CustomRenderFn;
+  /** 手绘笔画元素自定义渲染 */
+  path?: CustomRenderFn;
+  /** 连接线元素自定义渲染 */
+  connector?: CustomRenderFn;
   /** 文字元素自定义渲染 */
   text?: CustomRenderFn;
   /** 图片元素自定义渲染 */
   image?: CustomRenderFn;
   /** Frame元素自定义渲染 */
   frame?: CustomRenderFn;
+  /** 编组元素自定义渲染 */
+  group?: CustomRenderFn;
+  /** 插件注册的元素类型自定义渲染 */
+  [type: string]: CustomRenderFn | undefined;
 }
 
 export interface BaseRenderProps {
@@ -40,6 +66,9 @@ export interface BaseRenderProps {
   style?: React.CSSProperties;
 }
 
+/** 远景模式下以占位块代替的元素类型 */
+const LOW_DETAIL_TYPES = new Set<Element['type']>(['text', 'image', 'ellipse', 'polygon', 'star']);
+
 /**
  * BaseRender - 统一元素渲染入口
  * 
@@ -47,6 +76,7 @@ export interface BaseRenderProps {
  * 1. 使用 memo 避免父组件重渲染导致的无谓更新。
  * 2. 移除对整个 editorState 的订阅，改用粒度更细的订阅。
  * 3. 仅在选中状态或编辑状态变化时触发强制更新。
+ * 4. 远景模式下图片、文字与形状以占位块渲染（选中或编辑中的元素除外）。
  */
 export const BaseRender = memo(function BaseRender({
   element,
@@ -60,6 +90,15 @@ export const BaseRender = memo(function BaseRender({
   // 这样当其他元素移动时，这个组件不会因为全局 state 变化而重渲染
   const isSelected = useEditorEngine(engine, (state) => state.selectedIds.includes(element.id));
   const isEditing = useEditorEngine(engine, (state) => state.interaction.editingId === element.id);
+
+  const isLowDetail = useContext(LevelOfDetailContext);
+
+  // 隐藏的元素（连同其子元素）不渲染
+  if (element.visible === false) return null;
+
+  if (isLowDetail && !isSelected && !isEditing && LOW_DETAIL_TYPES.has(element.type)) {
+    return <PlaceholderElement element={element} className={className} style={style} />;
+  }
   
   // 如果有自定义渲染，我们才去获取全量状态（或者根据需要进一步优化）
   // 注意：这里我们拿到的 editorState 是一个快照，不会触发重渲染
@@ -80,6 +119,53 @@ export const BaseRender = memo(function BaseRender({
           {customChildren}
         </RectElement>
       );
+    case 'ellipse':
+    case 'polygon':
+    case 'star':
+      return (
+        <ShapeElement
+          element={element}
+          isSelected={isSelected}
+          className={className}
+          style={style}
+        >
+          {customChildren}
+        </ShapeElement>
+      );
+    case 'line':
+    case 'arrow':
+      return (
+        <LineElement
+          element={element}
+          isSelected={isSelected}
+          className={className}
+          style={style}
+        >
+          {customChildren}
+        </LineElement>
+      );
+    case 'path':
+      return (
+        <PathElement
+          element={element}
+          isSelected={isSelected}
+          className={className}
+          style={style}
+        >
+          {customChildren}
+        </PathElement>
+      );
+    case 'connector':
+      return (
+        <ConnectorElement
+          element={element}
+          isSelected={isSelected}
+          className={className}
+          style={style}
+        >
+          {customChildren}
+        </ConnectorElement>
+      );
     case 'text':
       return (
         <TextElement
@@ -118,8 +204,31 @@ export const BaseRender = memo(function BaseRender({
           {customChildren}
         </FrameElement>
       );
+    case 'group':
+      return (
+        <GroupElement
+          element={element}
+          isSelected={isSelected}
+          className={className}
+          style={style}
+          customRender={customRender}
+        >
+          {customChildren}
+        </GroupElement>
+      );
     default:
-      return null;
+      // 插件注册的元素类型
+      return (
+        <PluginElement
+          element={element}
+          isSelected={isSelected}
+          isEditing={isEditing}
+          className={className}
+          style={style}
+        >
+          {customChildren}
+        </PluginElement>
+      );
   }
 });
 
@@ -0,0 +1,12 @@
+import { createContext } from 'react';
+
+/**
+ * 当前需要挂载的元素 id（视口裁剪的结果），为 null 时不裁剪
+ * 由 CoreEditor 提供，Frame / 编组据此过滤子元素
+ */
+export const VisibleElementsContext = createContext<ReadonlySet<string> | null>(null);
+
+/**
+ * 是否处于远景模式：缩放过小时图片、文字等以占位块代替
+ */
+export const LevelOfDetailContext = createContext(false);
@@ -0,0 +1,101 @@
+import React, { memo, useMemo } from 'react';
+import type { Element } from '../../../engine';
+import { getConnectorPathData, getConnectorArrowheads } from '../../../utils/connectorUtils';
+
+interface ConnectorElementProps {
+  /** 元素数据 */
+  element: Element;
+  /** 是否被选中 */
+  isSelected?: boolean;
+  /** 子元素 - 支持渲染 loading、overlay 等自定义 UI */
+  children?: React.ReactNode;
+  /** 额外的 className，会与默认 className 合并 */
+  className?: string;
+  /** 额外的 style，会与默认 style 合并 */
+  style?: React.CSSProperties;
+}
+
+/** 连接线命中区域的宽度（世界坐标） */
+const HIT_STROKE_WIDTH = 12;
+
+/**
+ * ConnectorElement - 连接线渲染组件
+ *
+ * 走线由 ConnectorManager 计算并存储在 points 中，这里只负责绘制。
+ */
+export const ConnectorElement = memo(function ConnectorElement({
+  element,
+  isSelected = false,
+  children,
+  className,
+  style,
+}: ConnectorElementProps) {
+  const containerStyle = useMemo<React.CSSProperties>(() => ({
+    position: 'absolute',
+    left: element.x,
+    top: element.y,
+    width: element.width,
+    height: element.height,
+    zIndex: element.zIndex,
+    opacity: element.style?.opacity,
+    pointerEvents: 'none',
+    ...style,
+  }), [element.x, element.y, element.width, element.height, element.zIndex, element.style?.opacity, style]);
+
+  const pathData = useMemo(() => getConnectorPathData(element), [element]);
+  const arrowheads = useMemo(() => getConnectorArrowheads(element), [element]);
+
+  const mergedClassName = useMemo(() => {
+    const classes = ['infinite_view_element', 'connector-element'];
+    if (isSelected) classes.push('selected');
+    if (className) classes.push(className);
+    return classes.join(' ');
+  }, [isSelected, className]);
+
+  const stroke = element.style?.stroke || '#1f1f1f';
+  const strokeWidth = element.style?.strokeWidth || 2;
+
+  return (
+    <div
+      className={mergedClassName}
+      style={containerStyle}
+      data-element-id={element.id}
+    >
+      <svg
+        width="100%"
+        height="100%"
+        style={{ display: 'block', overflow: 'visible' }}
+      >
+        <path
+          d={pathData}
+          fill="none"
+          stroke="transparent"
+          strokeWidth={Math.max(HIT_STROKE_WIDTH, strokeWidth)}
+          style={{ pointerEvents: 'stroke' }}
+        />
+        <path
+          d={pathData}
+          fill="none"
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+        {arrowheads.map((arrowhead, index) => (
+          <path
+            key={index}
+            d={arrowhead.d}
+            fill={arrowhead.filled ? stroke : 'none'}
+            stroke={stroke}
+            strokeWidth={strokeWidth}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+        ))}
+      </svg>
+      {children}
+    </div>
+  );
+});
+
+export default ConnectorElement;
@@ -1,9 +1,10 @@
-import React, { memo, useMemo } from 'react';
+import React, { memo, useContext, useMemo } from 'react';
 import type { Element } from '../../../engine';
 import { useEditorEngine, useEditorEngineShallow } from '../../../react/hooks/useEditorEngine';
 import { useEngineInstance } from '../../../react/context/useEngineInstance';
 import { BaseRender } from '../BaseRender';
 import type { CustomRenderConfig } from '../BaseRender';
+import { VisibleElementsContext } from '../ViewportContext';
 
 interface FrameElementProps {
   /** 元素数据 */
@@ -48,6 +49,10 @@ export const FrameElement = memo(function FrameElement({
     state.elements.filter(el => el.parentId === element.id)
   );
 
+  // 视口外的子元素不挂载
+  const visibleIds = useContext(VisibleElementsContext);
+  const renderedChildren = visibleIds ? childElements.filter(child => visibleIds.has(child.id)) : childElements;
+
   const containerStyle = useMemo<React.CSSProperties>(() => ({
     position: 'absolute',
     left: element.x,
@@ -109,7 +114,7 @@ export const FrameElement = memo(function FrameElement({
       <div className="frame-content">
         <div className="frame-background" style={backgroundStyle} />
         <div className="frame-children">
-          {childElements.map((child) => (
+          {renderedChildren.map((child) => (
             <BaseRender 
               key={child.id} 
               element={child}
@@ -0,0 +1,88 @@
+import React, { memo, useContext, useMemo } from 'react';
+import type { Element } from '../../../engine';
+import { useEditorEngine, useEditorEngineShallow } from '../../../react/hooks/useEditorEngine';
+import { useEngineInstance } from '../../../react/context/useEngineInstance';
+import { BaseRender } from '../BaseRender';
+import type { CustomRenderConfig } from '../BaseRender';
+import { VisibleElementsContext } from '../ViewportContext';
+
+interface GroupElementProps {
+  /** 元素数据 */
+  element: Element;
+  /** 是否被选中 */
+  isSelected?: boolean;
+  /** 子元素 - 支持渲染自定义 UI 内容 */
+  children?: React.ReactNode;
+  /** 额外的 className，会与默认 className 合并 */
+  className?: string;
+  /** 额外的 style，会与默认 style 合并 */
+  style?: React.CSSProperties;
+  /** 自定义渲染配置（传递给子元素）*/
+  customRender?: CustomRenderConfig;
+}
+
+/**
+ * GroupElement - 编组元素渲染组件
+ *
+ * 与 Frame 一样持有子元素，但没有背景、标题，也不裁剪子元素。
+ */
+export const GroupElement = memo(function GroupElement({
+  element,
+  isSelected = false,
+  children,
+  className,
+  style,
+  customRender,
+}: GroupElementProps) {
+  const engine = useEngineInstance();
+
+  const isActive = useEditorEngine(engine, (state) => state.activeGroupId === element.id);
+  const childElements = useEditorEngineShallow(engine, (state) =>
+    state.elements.filter(el => el.parentId === element.id)
+  );
+
+  // 视口外的子元素不挂载
+  const visibleIds = useContext(VisibleElementsContext);
+  const renderedChildren = visibleIds ? childElements.filter(child => visibleIds.has(child.id)) : childElements;
+
+  const containerStyle = useMemo<React.CSSProperties>(() => ({
+    position: 'absolute',
+    left: element.x,
+    top: element.y,
+    width: element.width,
+    height: element.height,
+    transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
+    zIndex: element.zIndex,
+    opacity: element.style?.opacity,
+    overflow: 'visible',
+    ...style,
+  }), [element.x, element.y, element.width, element.height, element.rotation, element.zIndex, element.style?.opacity, style]);
+
+  const mergedClassName = useMemo(() => {
+    const classes = ['infinite_view_element', 'group-element'];
+    if (isSelected) classes.push('selected');
+    if (isActive) classes.push('active');
+    if (className) classes.push(className);
+    return classes.join(' ');
+  }, [isSelected, isActive, className]);
+
+  return (
+    <div
+      className={mergedClassName}
+      style={containerStyle}
+      data-element-id={element.id}
+      data-group="true"
+    >
+      {renderedChildren.map((child) => (
+        <BaseRender
+          key={child.id}
+          element={child}
+          customRender={customRender}
+        />
+      ))}
+      {children}
+    </div>
+  );
+});
+
+export default GroupElement;
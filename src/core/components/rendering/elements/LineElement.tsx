@@ -0,0 +1,109 @@
+import React, { memo, useMemo } from 'react';
+import type { Element } from '../../../engine';
+import { getLineEndpoints, getLineArrowheads } from '../../../utils/shapeUtils';
+
+interface LineElementProps {
+  /** 元素数据 */
+  element: Element;
+  /** 是否被选中 */
+  isSelected?: boolean;
+  /** 子元素 - 支持渲染 loading、overlay 等自定义 UI */
+  children?: React.ReactNode;
+  /** 额外的 className，会与默认 className 合并 */
+  className?: string;
+  /** 额外的 style，会与默认 style 合并 */
+  style?: React.CSSProperties;
+}
+
+/** 线段命中区域的宽度（世界坐标） */
+const HIT_STROKE_WIDTH = 12;
+
+/**
+ * LineElement - 线段 / 箭头渲染组件
+ *
+ * 包围盒本身不响应指针事件，只有靠近线段的透明命中区域可以被点击选中，
+ * 避免斜线的空白包围盒遮挡下方元素。
+ */
+export const LineElement = memo(function LineElement({
+  element,
+  isSelected = false,
+  children,
+  className,
+  style,
+}: LineElementProps) {
+  const containerStyle = useMemo<React.CSSProperties>(() => ({
+    position: 'absolute',
+    left: element.x,
+    top: element.y,
+    width: element.width,
+    height: element.height,
+    transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
+    zIndex: element.zIndex,
+    opacity: element.style?.opacity,
+    pointerEvents: 'none',
+    ...style,
+  }), [
+    element.x, element.y, element.width, element.height,
+    element.rotation, element.zIndex, element.style?.opacity, style
+  ]);
+
+  const [start, end] = useMemo(() => getLineEndpoints(element), [element]);
+  const arrowheads = useMemo(() => getLineArrowheads(element), [element]);
+
+  const mergedClassName = useMemo(() => {
+    const classes = ['infinite_view_element', 'line-element'];
+    if (isSelected) classes.push('selected');
+    if (className) classes.push(className);
+    return classes.join(' ');
+  }, [isSelected, className]);
+
+  const stroke = element.style?.stroke || '#1f1f1f';
+  const strokeWidth = element.style?.strokeWidth || 2;
+
+  return (
+    <div
+      className={mergedClassName}
+      style={containerStyle}
+      data-element-id={element.id}
+    >
+      <svg
+        width="100%"
+        height="100%"
+        style={{ display: 'block', overflow: 'visible' }}
+      >
+        <line
+          x1={start.x}
+          y1={start.y}
+          x2={end.x}
+          y2={end.y}
+          stroke="transparent"
+          strokeWidth={Math.max(HIT_STROKE_WIDTH, strokeWidth)}
+          style={{ pointerEvents: 'stroke' }}
+        />
+        <line
+          x1={start.x}
+          y1={start.y}
+          x2={end.x}
+          y2={end.y}
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+        {arrowheads.map((arrowhead, index) => (
+          <path
+            key={index}
+            d={arrowhead.d}
+            fill={arrowhead.filled ? stroke : 'none'}
+            stroke={stroke}
+            strokeWidth={strokeWidth}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+        ))}
+      </svg>
+      {children}
+    </div>
+  );
+});
+
+export default LineElement;
@@ -0,0 +1,83 @@
+import React, { memo, useMemo } from 'react';
+import type { Element } from '../../../engine';
+import { getPathElementOutline } from '../../../utils/pathUtils';
+
+interface PathElementProps {
+  /** 元素数据 */
+  element: Element;
+  /** 是否被选中 */
+  isSelected?: boolean;
+  /** 子元素 - 支持渲染 loading、overlay 等自定义 UI */
+  children?: React.ReactNode;
+  /** 额外的 className，会与默认 className 合并 */
+  className?: string;
+  /** 额外的 style，会与默认 style 合并 */
+  style?: React.CSSProperties;
+}
+
+/** 笔画命中区域在轮廓外扩展的宽度（世界坐标） */
+const HIT_STROKE_WIDTH = 10;
+
+/**
+ * PathElement - 手绘笔画渲染组件
+ *
+ * 笔画以变宽轮廓填充绘制；与线段一样，只有笔画附近的区域响应点击。
+ */
+export const PathElement = memo(function PathElement({
+  element,
+  isSelected = false,
+  children,
+  className,
+  style,
+}: PathElementProps) {
+  const containerStyle = useMemo<React.CSSProperties>(() => ({
+    position: 'absolute',
+    left: element.x,
+    top: element.y,
+    width: element.width,
+    height: element.height,
+    transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
+    zIndex: element.zIndex,
+    opacity: element.style?.opacity,
+    pointerEvents: 'none',
+    ...style,
+  }), [
+    element.x, element.y, element.width, element.height,
+    element.rotation, element.zIndex, element.style?.opacity, style
+  ]);
+
+  const pathData = useMemo(() => getPathElementOutline(element), [element]);
+
+  const mergedClassName = useMemo(() => {
+    const classes = ['infinite_view_element', 'path-element'];
+    if (isSelected) classes.push('selected');
+    if (className) classes.push(className);
+    return classes.join(' ');
+  }, [isSelected, className]);
+
+  return (
+    <div
+      className={mergedClassName}
+      style={containerStyle}
+      data-element-id={element.id}
+    >
+      <svg
+        width="100%"
+        height="100%"
+        style={{ display: 'block', overflow: 'visible' }}
+      >
+        <path
+          d={pathData}
+          fill={element.style?.stroke || '#1f1f1f'}
+          stroke="transparent"
+          strokeWidth={HIT_STROKE_WIDTH}
+          strokeLinejoin="round"
+          style={{ pointerEvents: 'visible' }}
+        />
+      </svg>
+      {children}
+    </div>
+  );
+});
+
+export default PathElement;
@@ -0,0 +1,78 @@
+import React, { memo, useMemo } from 'react';
+import type { Element } from '../../../engine';
+
+interface PlaceholderElementProps {
+  /** 元素数据 */
+  element: Element;
+  /** 额外的 className，会与默认 className 合并 */
+  className?: string;
+  /** 额外的 style，会与默认 style 合并 */
+  style?: React.CSSProperties;
+}
+
+/**
+ * 文字按行绘制成横条，条的粗细约为字号的 60%
+ */
+function getTextBarsBackground(element: Element): string {
+  const fontSize = element.style?.fontSize || 24;
+  const lineHeight = fontSize * 1.2;
+  const bar = fontSize * 0.6;
+  const top = (lineHeight - bar) / 2;
+  const color = element.style?.fill || '#333';
+  return `repeating-linear-gradient(to bottom, transparent 0 ${top}px, ${color} ${top}px ${top + bar}px, transparent ${top + bar}px ${lineHeight}px)`;
+}
+
+/**
+ * PlaceholderElement - 远景模式下的简化渲染
+ *
+ * 缩放过小时代替图片、文字与形状：图片为纯色块，文字为横条，形状为填充色块。
+ * 保留 infinite_view_element 与 data-element-id，框选与点选不受影响。
+ */
+export const PlaceholderElement = memo(function PlaceholderElement({
+  element,
+  className,
+  style,
+}: PlaceholderElementProps) {
+  const containerStyle = useMemo<React.CSSProperties>(() => {
+    const base: React.CSSProperties = {
+      position: 'absolute',
+      left: element.x,
+      top: element.y,
+      width: element.width,
+      height: element.height,
+      transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
+      zIndex: element.zIndex,
+      opacity: element.style?.opacity,
+    };
+
+    switch (element.type) {
+      case 'image':
+        return { ...base, backgroundColor: '#d9d9d9', borderRadius: element.style?.borderRadius, ...style };
+      case 'text':
+        return { ...base, background: getTextBarsBackground(element), opacity: (element.style?.opacity ?? 1) * 0.5, ...style };
+      default:
+        return {
+          ...base,
+          backgroundColor: element.style?.fill || element.style?.backgroundColor || element.style?.stroke || '#d9d9d9',
+          borderRadius: element.type === 'ellipse' ? '50%' : element.style?.borderRadius,
+          ...style,
+        };
+    }
+  }, [element, style]);
+
+  const mergedClassName = useMemo(() => {
+    const classes = ['infinite_view_element', 'placeholder-element'];
+    if (className) classes.push(className);
+    return classes.join(' ');
+  }, [className]);
+
+  return (
+    <div
+      className={mergedClassName}
+      style={containerStyle}
+      data-element-id={element.id}
+    />
+  );
+});
+
+export default PlaceholderElement;
@@ -0,0 +1,71 @@
+import React, { memo, useMemo } from 'react';
+import type { Element } from '../../../engine';
+import { PluginManager } from '../../../engine';
+
+interface PluginElementProps {
+  /** 元素数据 */
+  element: Element;
+  /** 是否被选中 */
+  isSelected?: boolean;
+  /** 是否处于编辑状态 */
+  isEditing?: boolean;
+  /** 子元素 - 支持渲染 loading、overlay 等自定义 UI */
+  children?: React.ReactNode;
+  /** 额外的 className，会与默认 className 合并 */
+  className?: string;
+  /** 额外的 style，会与默认 style 合并 */
+  style?: React.CSSProperties;
+}
+
+/**
+ * PluginElement - 插件元素渲染组件
+ *
+ * 负责定位、旋转与层级，内容交给插件的 render 组件；未注册插件的类型不渲染内容。
+ */
+export const PluginElement = memo(function PluginElement({
+  element,
+  isSelected = false,
+  isEditing = false,
+  children,
+  className,
+  style,
+}: PluginElementProps) {
+  const plugin = PluginManager.get(element.type);
+  const Render = plugin?.render;
+
+  const containerStyle = useMemo<React.CSSProperties>(() => ({
+    position: 'absolute',
+    left: element.x,
+    top: element.y,
+    width: element.width,
+    height: element.height,
+    transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
+    zIndex: element.zIndex,
+    opacity: element.style?.opacity,
+    ...style,
+  }), [
+    element.x, element.y, element.width, element.height,
+    element.rotation, element.zIndex, element.style, style
+  ]);
+
+  const mergedClassName = useMemo(() => {
+    const classes = ['infinite_view_element', 'plugin-element'];
+    if (isSelected) classes.push('selected');
+    if (className) classes.push(className);
+    return classes.join(' ');
+  }, [isSelected, className]);
+
+  return (
+    <div
+      className={mergedClassName}
+      style={containerStyle}
+      data-element-id={element.id}
+      data-element-type={element.type}
+    >
+      {Render && <Render element={element} isSelected={isSelected} isEditing={isEditing} />}
+      {children}
+    </div>
+  );
+});
+
+export default PluginElement;
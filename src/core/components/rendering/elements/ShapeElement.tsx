@@ -0,0 +1,83 @@
+import React, { memo, useMemo } from 'react';
+import type { Element } from '../../../engine';
+import { getShapePathData } from '../../../utils/shapeUtils';
+
+interface ShapeElementProps {
+  /** 元素数据 */
+  element: Element;
+  /** 是否被选中 */
+  isSelected?: boolean;
+  /** 子元素 - 支持渲染 loading、overlay 等自定义 UI */
+  children?: React.ReactNode;
+  /** 额外的 className，会与默认 className 合并 */
+  className?: string;
+  /** 额外的 style，会与默认 style 合并 */
+  style?: React.CSSProperties;
+}
+
+/**
+ * ShapeElement - 闭合矢量形状渲染组件（椭圆、多边形、星形）
+ *
+ * 形状以 SVG 路径绘制在与元素等大的坐标系中，描边允许溢出包围盒。
+ */
+export const ShapeElement = memo(function ShapeElement({
+  element,
+  isSelected = false,
+  children,
+  className,
+  style,
+}: ShapeElementProps) {
+  const containerStyle = useMemo<React.CSSProperties>(() => ({
+    position: 'absolute',
+    left: element.x,
+    top: element.y,
+    width: element.width,
+    height: element.height,
+    transform: element.rotation ? `rotate(${element.rotation}deg)` : undefined,
+    zIndex: element.zIndex,
+    opacity: element.style?.opacity,
+    ...style,
+  }), [
+    element.x, element.y, element.width, element.height,
+    element.rotation, element.zIndex, element.style?.opacity, style
+  ]);
+
+  const pathData = useMemo(() => getShapePathData(element), [element]);
+
+  const mergedClassName = useMemo(() => {
+    const classes = ['infinite_view_element', 'shape-element'];
+    if (isSelected) classes.push('selected');
+    if (className) classes.push(className);
+    return classes.join(' ');
+  }, [isSelected, className]);
+
+  const fill = element.style?.fill || element.style?.backgroundColor || 'transparent';
+  const stroke = element.style?.stroke;
+
+  return (
+    <div
+      className={mergedClassName}
+      style={containerStyle}
+      data-element-id={element.id}
+    >
+      <svg
+        width="100%"
+        height="100%"
+        viewBox={`0 0 ${Math.max(element.width, 1)} ${Math.max(element.height, 1)}`}
+        preserveAspectRatio="none"
+        style={{ display: 'block', overflow: 'visible' }}
+      >
+        <path
+          d={pathData}
+          fill={fill}
+          stroke={stroke || 'none'}
+          strokeWidth={stroke ? (element.style?.strokeWidth || 1) : 0}
+          strokeLinejoin="round"
+        />
+      </svg>
+      {children}
+    </div>
+  );
+});
+
+export default ShapeElement;
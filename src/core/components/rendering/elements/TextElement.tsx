@@ -1,5 +1,5 @@
 import React, { memo, useMemo, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
-import type { Element } from '../../../engine';
+import type { Element, TextSpan, TextSpanStyle } from '../../../engine';
 
 interface TextElementProps {
   /** 元素数据 */
@@ -23,11 +23,68 @@ interface TextElementProps {
 }
 
 import { getTextCommonStyle } from '../../../utils/textUtils';
+import {
+  getSpanCSS,
+  getTextRangeStyle,
+  getTextSpans,
+  isSafeLink,
+  isSameSpanStyle,
+  replaceTextRange,
+  sliceSpans,
+  spansToText,
+  toRichText,
+} from '../../../utils/richTextUtils';
+import { getSelectionOffsets, parseSpansFromDOM, renderSpansToDOM, setSelectionOffsets } from '../../../utils/richTextDom';
 import { useEngineInstance } from '../../../react/context/useEngineInstance';
 import { useEditorEngine } from '../../../react/hooks/useEditorEngine';
 
+/** 退出编辑后仍保留的选中文字的背景色 */
+const SELECTION_HIGHLIGHT = 'rgba(24, 144, 255, 0.25)';
+/** 编辑时快捷键（Ctrl / Cmd + 键）切换的样式 */
+const SHORTCUT_STYLES: Record<string, 'bold' | 'italic' | 'underline'> = { b: 'bold', i: 'italic', u: 'underline' };
+
+const isSameSpans = (a: TextSpan[], b: TextSpan[]) =>
+  a.length === b.length && a.every((span, i) => span.text === b[i].text && isSameSpanStyle(span, b[i]));
+
+/**
+ * 非编辑状态下渲染片段，highlight 范围内的文字加背景色
+ * 链接按住 Ctrl / Cmd 点击时才打开，普通点击仍用于选中元素
+ */
+function renderSpans(element: Element, spans: TextSpan[], highlight: { start: number; end: number } | null): React.ReactNode[] {
+  const length = spansToText(spans).length;
+  const parts = highlight && highlight.start < highlight.end
+    ? [
+      ...sliceSpans(spans, 0, highlight.start).map(span => ({ span, highlighted: false })),
+      ...sliceSpans(spans, highlight.start, highlight.end).map(span => ({ span, highlighted: true })),
+      ...sliceSpans(spans, highlight.end, length).map(span => ({ span, highlighted: false })),
+    ]
+    : spans.map(span => ({ span, highlighted: false }));
+
+  return parts.map(({ span, highlighted }, i) => {
+    const css = { ...getSpanCSS(element, span), backgroundColor: highlighted ? SELECTION_HIGHLIGHT : undefined };
+    if (!span.link || !isSafeLink(span.link)) return <span key={i} style={css}>{span.text}</span>;
+    return (
+      <a
+        key={i}
+        href={span.link}
+        target="_blank"
+        rel="noopener noreferrer"
+        style={css}
+        onClick={(e) => {
+          if (!e.ctrlKey && !e.metaKey) e.preventDefault();
+        }}
+      >
+        {span.text}
+      </a>
+    );
+  });
+}
+
 /**
  * TextElement - 文本元素渲染组件
+ *
+ * 文字按富文本片段渲染；编辑时从 DOM 解析出片段写回 content 与 richText，
+ * 并把选中的文字范围记录到引擎中，文本工具栏据此只修改这部分文字。
  */
 export const TextElement = memo(function TextElement({
   element,
@@ -43,13 +100,18 @@ export const TextElement = memo(function TextElement({
   const elementRef = useRef<HTMLDivElement>(null);
   const editableRef = useRef<HTMLSpanElement>(null);
   const engine = useEngineInstance();
-  
+
   // 获取当前的交互状态
   const { isDragging, isResizing } = useEditorEngine(engine, (s) => ({
     isDragging: s.interaction.isDragging,
     isResizing: s.interaction.isResizing,
   }), (a, b) => a.isDragging === b.isDragging && a.isResizing === b.isResizing);
 
+  // 本元素中选中的文字
+  const textSelection = useEditorEngine(engine, (s) => s.textSelection?.elementId === element.id ? s.textSelection : null);
+
+  const spans = useMemo(() => getTextSpans(element), [element]);
+
   // 自动进入编辑模式
   useEffect(() => {
     if (isSelected && !element.content && !isEditing && onStartEditing) {
@@ -68,7 +130,7 @@ export const TextElement = memo(function TextElement({
       for (const entry of entries) {
         const newWidth = Math.floor(entry.contentRect.width);
         const newHeight = Math.floor(entry.contentRect.height);
-        
+
         const updates: Partial<Element> = {};
         if (!element.fixedWidth && Math.abs(newWidth - element.width) > 1 && newWidth > 0) {
           updates.width = newWidth;
@@ -79,7 +141,8 @@ export const TextElement = memo(function TextElement({
 
         if (Object.keys(updates).length > 0) {
           requestAnimationFrame(() => {
-            onUpdate(element.id, updates);
+            // 自动尺寸属于派生数据，不产生撤销记录
+            engine.runWithoutHistory(() => onUpdate(element.id, updates));
           });
         }
       }
@@ -87,13 +150,33 @@ export const TextElement = memo(function TextElement({
 
     observer.observe(elementRef.current);
     return () => observer.disconnect();
-  }, [element.id, element.width, element.height, element.fixedWidth, onUpdate, isDragging, isResizing]);
+  }, [element.id, element.width, element.height, element.fixedWidth, onUpdate, isDragging, isResizing, engine]);
 
-  // 1. 处理进入编辑模式时的初始焦点和光标位置
+  // 1. 处理内容同步（进入编辑、来自外部的更新、工具栏修改了样式）
   useLayoutEffect(() => {
     if (isEditing && editableRef.current) {
       const el = editableRef.current;
-      
+
+      // 只有当 DOM 中的片段与数据不一致时才重建
+      // 这能避免在输入过程中重建 DOM 导致的光标跳动
+      if (!el.hasChildNodes() || !isSameSpans(parseSpansFromDOM(el), spans)) {
+        renderSpansToDOM(el, element, spans);
+
+        // 重建后按记录的文字范围恢复选区
+        const selection = engine.getState().textSelection;
+        if (selection?.elementId === element.id) {
+          const length = spansToText(spans).length;
+          setSelectionOffsets(el, Math.min(selection.start, length), Math.min(selection.end, length));
+        }
+      }
+    }
+  }, [spans, element, isEditing, engine]);
+
+  // 2. 处理进入编辑模式时的初始焦点和光标位置
+  useLayoutEffect(() => {
+    if (isEditing && editableRef.current) {
+      const el = editableRef.current;
+
       // 确保有焦点
       if (document.activeElement !== el) {
         el.focus();
@@ -101,7 +184,7 @@ export const TextElement = memo(function TextElement({
 
       // 只有在刚开始编辑时，将光标移到末尾
       const selection = window.getSelection();
-      if (selection && selection.rangeCount === 0) {
+      if (selection && (selection.rangeCount === 0 || !el.contains(selection.anchorNode))) {
         const range = document.createRange();
         range.selectNodeContents(el);
         range.collapse(false);
@@ -111,42 +194,83 @@ export const TextElement = memo(function TextElement({
     }
   }, [isEditing]);
 
-  // 2. 处理内容同步（例如来自外部的更新）
-  useLayoutEffect(() => {
-    if (isEditing && editableRef.current) {
+  // 3. 编辑时记录选中的文字范围（退出编辑后保留）
+  useEffect(() => {
+    if (!isEditing) return;
+
+    const handleSelectionChange = () => {
       const el = editableRef.current;
-      const targetContent = element.content || '';
-      
-      // 只有当 DOM 内容与数据不一致时才同步
-      // 这能避免在输入过程中因为设置 innerText 导致的光标跳动
-      if (el.innerText !== targetContent) {
-        el.innerText = targetContent;
-        
-        // 如果我们强制更新了内容，且当前没有选区，则把光标放最后
-        const selection = window.getSelection();
-        if (selection && (selection.rangeCount === 0 || !el.contains(selection.anchorNode))) {
-          const range = document.createRange();
-          range.selectNodeContents(el);
-          range.collapse(false);
-          selection.removeAllRanges();
-          selection.addRange(range);
-        }
-      }
+      const offsets = el && getSelectionOffsets(el);
+      if (!offsets) return;
+      const current = engine.getState().textSelection;
+      if (current?.elementId === element.id && current.start === offsets.start && current.end === offsets.end) return;
+      engine.setTextSelection({ elementId: element.id, ...offsets });
+    };
+
+    document.addEventListener('selectionchange', handleSelectionChange);
+    return () => document.removeEventListener('selectionchange', handleSelectionChange);
+  }, [isEditing, element.id, engine]);
+
+  // 取消选中后清除记录的文字范围
+  useEffect(() => {
+    if (!isSelected && engine.getState().textSelection?.elementId === element.id) {
+      engine.setTextSelection(null);
     }
-  }, [element.content, isEditing]);
+  }, [isSelected, element.id, engine]);
 
-  const handleInput = useCallback((e: React.FormEvent<HTMLSpanElement>) => {
-    const newContent = (e.target as HTMLSpanElement).innerText;
-    onUpdate?.(element.id, { content: newContent });
+  const commitSpans = useCallback((nextSpans: TextSpan[]) => {
+    onUpdate?.(element.id, { content: spansToText(nextSpans), richText: toRichText(nextSpans) });
   }, [element.id, onUpdate]);
 
+  const handleInput = useCallback((e: React.FormEvent<HTMLSpanElement>) => {
+    commitSpans(parseSpansFromDOM(e.currentTarget));
+  }, [commitSpans]);
+
+  /**
+   * 用文字替换当前选区（换行、粘贴），新文字沿用光标前的样式
+   */
+  const insertText = useCallback((el: HTMLSpanElement, text: string) => {
+    const offsets = getSelectionOffsets(el);
+    if (!offsets) return;
+    const nextSpans = replaceTextRange(parseSpansFromDOM(el), offsets.start, offsets.end, text);
+    const caret = offsets.start + text.length;
+    renderSpansToDOM(el, element, nextSpans);
+    setSelectionOffsets(el, caret, caret);
+    commitSpans(nextSpans);
+  }, [element, commitSpans]);
+
   const handleBlur = useCallback(() => {
     onEndEditing?.();
   }, [onEndEditing]);
 
-  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLSpanElement>) => {
     e.stopPropagation();
-  }, []);
+    if (!isEditing || e.nativeEvent.isComposing) return;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      insertText(e.currentTarget, '\n');
+      return;
+    }
+
+    // Ctrl / Cmd + B / I / U：切换选中文字的样式
+    const styleKey = SHORTCUT_STYLES[e.key.toLowerCase()];
+    if (styleKey && (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey) {
+      e.preventDefault();
+      const offsets = getSelectionOffsets(e.currentTarget);
+      if (!offsets || offsets.start === offsets.end) return;
+      const textStyle: TextSpanStyle = { [styleKey]: !getTextRangeStyle(element, offsets)[styleKey] };
+      engine.applyTextStyle(element.id, textStyle, offsets);
+    }
+  }, [isEditing, insertText, element, engine]);
+
+  // 只粘贴纯文本，避免带入外部的 HTML 结构
+  const handlePaste = useCallback((e: React.ClipboardEvent<HTMLSpanElement>) => {
+    if (!isEditing) return;
+    e.preventDefault();
+    const text = e.clipboardData.getData('text/plain').replace(/\r\n?/g, '\n');
+    if (text) insertText(e.currentTarget, text);
+  }, [isEditing, insertText]);
 
   const containerStyle = useMemo<React.CSSProperties>(() => ({
     position: 'absolute',
@@ -178,6 +302,8 @@ export const TextElement = memo(function TextElement({
       data-element-id={element.id}
     >
       <span
+        // 编辑时的 DOM 由片段直接生成，切换编辑状态时换一个节点，避免与 React 渲染的子节点混在一起
+        key={isEditing ? 'editing' : 'static'}
         ref={editableRef}
         contentEditable={isEditing}
         autoFocus={isEditing}
@@ -185,16 +311,19 @@ export const TextElement = memo(function TextElement({
         onInput={handleInput}
         onBlur={handleBlur}
         onKeyDown={handleKeyDown}
-        style={{ 
-          ...commonStyle, 
-          width: '100%', 
+        onPaste={handlePaste}
+        style={{
+          ...commonStyle,
+          // 下划线由每个片段单独设置（父级的下划线无法被子元素取消）
+          textDecoration: spans.length > 0 ? 'none' : commonStyle.textDecoration,
+          width: '100%',
           display: 'block',
           outline: 'none',
           minHeight: '1em',
           cursor: isEditing ? 'text' : 'pointer'
         }}
       >
-        {isEditing ? undefined : (element.content || 'Double click to edit')}
+        {isEditing ? undefined : (spans.length > 0 ? renderSpans(element, spans, textSelection) : 'Double click to edit')}
       </span>
       {children}
     </div>
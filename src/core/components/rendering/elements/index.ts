@@ -2,3 +2,10 @@ export { RectElement } from './RectElement';
 export { TextElement } from './TextElement';
 export { ImageElement } from './ImageElement';
 export { FrameElement } from './FrameElement';
+export { GroupElement } from './GroupElement';
+export { ShapeElement } from './ShapeElement';
+export { LineElement } from './LineElement';
+export { PathElement } from './PathElement';
+export { ConnectorElement } from './ConnectorElement';
+export { PlaceholderElement } from './PlaceholderElement';
+export { PluginElement } from './PluginElement';
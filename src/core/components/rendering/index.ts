@@ -1,4 +1,5 @@
 export { BaseRender } from './BaseRender';
+export { VisibleElementsContext, LevelOfDetailContext } from './ViewportContext';
 export * from './elements';
 export * from './interaction';
 
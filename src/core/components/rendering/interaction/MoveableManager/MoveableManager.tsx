@@ -10,6 +10,19 @@ import { useMoveableTargets } from './hooks/useMoveableTargets';
 import { useGuidelines } from './hooks/useGuidelines';
 import { useMoveableEvents } from './hooks/useMoveableEvents';
 
+/**
+ * 获取指定屏幕坐标下最深层的元素 ID（临时穿透 Moveable 的拖拽区域）
+ */
+function getElementIdAtPoint(clientX: number, clientY: number): string | null {
+  const moveableAreas = document.querySelectorAll('.moveable-area');
+  moveableAreas.forEach(area => { (area as HTMLElement).style.pointerEvents = 'none'; });
+  const actualTarget = document.elementFromPoint(clientX, clientY) as HTMLElement;
+  moveableAreas.forEach(area => { (area as HTMLElement).style.pointerEvents = ''; });
+
+  const clickedElement = actualTarget?.closest('.infinite_view_element');
+  return clickedElement?.getAttribute('data-element-id') ?? null;
+}
+
 /**
  * MoveableManager - 核心拖拽/缩放管理器
  * 
@@ -30,6 +43,7 @@ export const MoveableManager = forwardRef<MoveableManagerRef, MoveableManagerPro
     const engine = useEngineInstance();
     const moveableRef = useRef<Moveable>(null);
     const [keepRatio, setKeepRatio] = useState(false);
+    const [shiftPressed, setShiftPressed] = useState(false);
 
     // 订阅状态
     const selectedIds = useEditorEngine(engine, (s: EditorState) => s.selectedIds);
@@ -48,7 +62,7 @@ export const MoveableManager = forwardRef<MoveableManagerRef, MoveableManagerPro
     });
 
     // 2. 吸附参考线管理
-    const elementGuidelines = useGuidelines({ elements, selectedIds });
+    const elementGuidelines = useGuidelines({ engine, elements, selectedIds });
 
     // 3. 事件处理逻辑
     const {
@@ -60,6 +74,10 @@ export const MoveableManager = forwardRef<MoveableManagerRef, MoveableManagerPro
       handleDragGroupEnd,
       handleResizeGroup,
       handleResizeGroupEnd,
+      handleRotateStart,
+      handleRotate,
+      handleRotateGroup,
+      handleRotateEnd,
       resizeStartElementRef,
     } = useMoveableEvents({
       engine,
@@ -80,11 +98,27 @@ export const MoveableManager = forwardRef<MoveableManagerRef, MoveableManagerPro
     const {
       draggable = true,
       resizable = true,
+      rotatable = true,
+      rotationSnapAngle = 15,
       snappable = true,
       snapThreshold = 5,
       renderDirections = ['nw', 'n', 'ne', 'w', 'e', 'sw', 's', 'se'],
     } = options;
 
+    // 按住 Shift 时旋转按固定角度吸附
+    useEffect(() => {
+      const handleKey = (e: KeyboardEvent) => setShiftPressed(e.shiftKey);
+      window.addEventListener('keydown', handleKey);
+      window.addEventListener('keyup', handleKey);
+      return () => {
+        window.removeEventListener('keydown', handleKey);
+        window.removeEventListener('keyup', handleKey);
+      };
+    }, []);
+
+    // 连接线的走线由绑定决定，不支持旋转
+    const canRotate = rotatable && !selectedIds.some(id => elements.find(el => el.id === id)?.type === 'connector');
+
     useLayoutEffect(() => {
       if (moveableRef.current) {
         requestAnimationFrame(() => {
@@ -124,6 +158,8 @@ export const MoveableManager = forwardRef<MoveableManagerRef, MoveableManagerPro
         target={targets}
         draggable={draggable}
         resizable={resizable}
+        rotatable={canRotate}
+        throttleRotate={shiftPressed ? rotationSnapAngle : 0}
         keepRatio={keepRatio}
         dragArea={true}
         snappable={snappable}
@@ -133,15 +169,10 @@ export const MoveableManager = forwardRef<MoveableManagerRef, MoveableManagerPro
         onDragStart={(e) => {
           const mouseEvent = e.inputEvent as MouseEvent;
           lastEventRef.current = mouseEvent;
-          const moveableAreas = document.querySelectorAll('.moveable-area');
-          moveableAreas.forEach(area => { (area as HTMLElement).style.pointerEvents = 'none'; });
-          const actualTarget = document.elementFromPoint(mouseEvent.clientX, mouseEvent.clientY) as HTMLElement;
-          moveableAreas.forEach(area => { (area as HTMLElement).style.pointerEvents = ''; });
-          
-          const clickedElement = actualTarget?.closest('.infinite_view_element');
-          if (clickedElement) {
-            const clickedId = clickedElement.getAttribute('data-element-id');
-            if (clickedId && !selectedIds.includes(clickedId)) {
+          const hitId = getElementIdAtPoint(mouseEvent.clientX, mouseEvent.clientY);
+          if (hitId) {
+            const clickedId = engine.resolveSelectionTarget(hitId);
+            if (!selectedIds.includes(clickedId)) {
               engine.selectElements([clickedId], mouseEvent.shiftKey, mouseEvent);
               return false;
             }
@@ -185,10 +216,22 @@ export const MoveableManager = forwardRef<MoveableManagerRef, MoveableManagerPro
         }}
         onResizeGroup={handleResizeGroup}
         onResizeGroupEnd={handleResizeGroupEnd}
+        onRotateStart={handleRotateStart}
+        onRotate={handleRotate}
+        onRotateEnd={handleRotateEnd}
+        onRotateGroupStart={handleRotateStart}
+        onRotateGroup={handleRotateGroup}
+        onRotateGroupEnd={handleRotateEnd}
         onClick={(e) => {
           if (e.inputEvent.detail === 2) {
             const id = (e.target as HTMLElement).getAttribute('data-element-id');
-            if (id && elements.find((i: Element) => i.id === id)?.type === 'text') engine.setEditingId(id);
+            const type = elements.find((i: Element) => i.id === id)?.type;
+            if (id && type === 'text') engine.setEditingId(id);
+            if (id && type === 'group') {
+              // 双击组：进入组并选中命中的成员
+              const mouseEvent = e.inputEvent as MouseEvent;
+              engine.enterGroup(id, getElementIdAtPoint(mouseEvent.clientX, mouseEvent.clientY) ?? undefined);
+            }
           }
         }}
         renderDirections={renderDirections}
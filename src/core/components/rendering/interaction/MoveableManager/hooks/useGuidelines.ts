@@ -1,34 +1,52 @@
 import { useMemo } from 'react';
-import type { Element } from '../../../../../engine/types';
+import type { EditorEngine } from '../../../../../engine/EditorEngine';
+import type { Element, Bounds } from '../../../../../engine/types';
+import { getBoundingBox } from '../../../../../../utils/geometry';
+import { EDITOR_CONFIG } from '../../../../../../constants/editor';
 
 interface UseGuidelinesProps {
+  engine: EditorEngine;
   elements: Element[];
   selectedIds: string[];
 }
 
-export function useGuidelines({ elements, selectedIds }: UseGuidelinesProps) {
+/**
+ * 吸附参考线：根画布上的元素与选中元素的同级、父级
+ * 通过空间索引只取距离选区最近的若干个元素，元素很多时避免逐个查询 DOM
+ */
+export function useGuidelines({ engine, elements, selectedIds }: UseGuidelinesProps) {
   const elementGuidelines = useMemo(() => {
-    const selectedElements = selectedIds
-      .map((id) => elements.find((el) => el.id === id))
-      .filter(Boolean);
+    const index = engine.getSpatialIndex();
+    const selectionBounds = getBoundingBox(
+      selectedIds.map(id => index.getBounds(id)).filter((b): b is Bounds => !!b)
+    );
+    if (!selectionBounds) return [];
 
+    const elementMap = new Map(elements.map(el => [el.id, el]));
     const parentIds = new Set(
-      selectedElements
-        .map((el) => el!.parentId)
+      selectedIds
+        .map((id) => elementMap.get(id)?.parentId)
         .filter((id): id is string => id !== undefined)
     );
 
-    return elements
-      .filter((el) => {
-        if (selectedIds.includes(el.id)) return false;
-        if (!el.parentId) return true;
-        if (parentIds.has(el.parentId)) return true;
-        if (parentIds.has(el.id)) return true;
-        return false;
-      })
-      .map((el) => document.querySelector(`[data-element-id="${el.id}"]`) as HTMLElement)
+    const isGuideline = (id: string) => {
+      const el = elementMap.get(id);
+      if (!el || selectedIds.includes(el.id)) return false;
+      if (!el.parentId) return true;
+      if (parentIds.has(el.parentId)) return true;
+      if (parentIds.has(el.id)) return true;
+      return false;
+    };
+
+    const center = {
+      x: selectionBounds.x + selectionBounds.width / 2,
+      y: selectionBounds.y + selectionBounds.height / 2,
+    };
+    return index
+      .nearest(center, { limit: EDITOR_CONFIG.DRAG.GUIDELINE_LIMIT, filter: isGuideline })
+      .map((id) => document.querySelector(`[data-element-id="${id}"]`) as HTMLElement)
       .filter(Boolean);
-  }, [elements, selectedIds]);
+  }, [engine, elements, selectedIds]);
 
   return elementGuidelines;
 }
@@ -1,9 +1,11 @@
 import { useCallback, useRef } from 'react';
-import type { OnDrag, OnResize, OnDragGroup, OnResizeGroup } from 'react-moveable';
+import type { OnDrag, OnResize, OnDragGroup, OnResizeGroup, OnRotate, OnRotateGroup } from 'react-moveable';
 import type { EditorEngine } from '../../../../../engine/EditorEngine';
 import type { Element } from '../../../../../engine/types';
 import type { MoveableManagerProps } from '../types';
 import { calculateNewFontSize } from '../../../../../utils/textUtils';
+import { getElementTransform } from '../../../../../utils/elementStyles';
+import { normalizeRotation } from '../../../../../../utils/geometry';
 
 interface UseMoveableEventsProps extends Pick<MoveableManagerProps,
   'onDrag' | 'onResize' | 'onResizeEnd' | 'onDragStart' | 'onDragEnd' | 'onResizeStart'
@@ -28,6 +30,16 @@ export function useMoveableEvents({
   onResizeEnd,
 }: UseMoveableEventsProps) {
   const resizeStartElementRef = useRef<Element | null>(null);
+  /** 旋转过程中各元素的最新旋转角度与位移（多选旋转时元素会绕选区中心公转） */
+  const rotateStateRef = useRef<Map<string, { rotation: number, translate: number[] }>>(new Map());
+
+  /**
+   * 交互结束后恢复元素的 transform：只保留引擎中记录的旋转
+   */
+  const resetTransform = useCallback((target: HTMLElement | SVGElement, id: string) => {
+    const element = engine.getElement(id);
+    target.style.transform = getElementTransform(element?.rotation);
+  }, [engine]);
 
   const getEventCoords = (e: MouseEvent | TouchEvent) => {
     if ('clientX' in e) return { x: e.clientX, y: e.clientY };
@@ -48,7 +60,7 @@ export function useMoveableEvents({
     const mouseWorld = screenToWorld(coords.x, coords.y);
 
     // 视觉更新：直接通过 transform 移动，不触发 React 重绘
-    target.style.transform = `translate(${beforeTranslate[0]}px, ${beforeTranslate[1]}px)`;
+    target.style.transform = getElementTransform(element.rotation, beforeTranslate);
 
     // 业务回调
     onDrag?.({ elementId: id, element, delta: [delta[0], delta[1]] as [number, number], inputEvent });
@@ -64,10 +76,10 @@ export function useMoveableEvents({
         engine.handleDrag([id], [matrix.m41, matrix.m42], mouseWorld);
         // 置换后，由于坐标系变了，Moveable 的 transform 会失效或产生偏移
         // 这里需要重置 DOM 状态，让下一步 Moveable 重新计算
-        target.style.transform = '';
+        resetTransform(target, id);
       });
     }
-  }, [screenToWorld, onDrag, engine, lastEventRef]);
+  }, [screenToWorld, onDrag, engine, lastEventRef, resetTransform]);
 
   const handleResize = useCallback(({ target, width, height, drag, direction }: OnResize) => {
     const id = target.getAttribute('data-element-id');
@@ -87,7 +99,7 @@ export function useMoveableEvents({
 
     // 视觉更新：直接修改 DOM 样式，不依赖 React 重绘
     target.style.width = `${newWidth}px`;
-    target.style.transform = `translate(${drag.beforeTranslate[0]}px, ${drag.beforeTranslate[1]}px)`;
+    target.style.transform = getElementTransform(element.rotation, drag.beforeTranslate);
 
     if (element.type === 'text') {
       const textContainer = target.querySelector('span, textarea') as HTMLElement;
@@ -131,13 +143,13 @@ export function useMoveableEvents({
 
         // 延迟清理视觉偏移
         requestAnimationFrame(() => {
-          target.style.transform = '';
+          resetTransform(target, id);
         });
 
         onDragEnd?.({ elementId: id, element });
       }
     }
-  }, [engine, onDragEnd, screenToWorld, lastEventRef, isDraggingRef]);
+  }, [engine, onDragEnd, screenToWorld, lastEventRef, isDraggingRef, resetTransform]);
 
   const handleResizeEnd = useCallback(({ target }: { target: HTMLElement | SVGElement }) => {
     setKeepRatio(false);
@@ -174,80 +186,80 @@ export function useMoveableEvents({
 
         // 延迟清空 transform，给 React 留出渲染新坐标的时间，避免跳动
         requestAnimationFrame(() => {
-          target.style.transform = '';
+          resetTransform(target, id);
         });
       }
     }
-  }, [onResizeEnd, engine, setKeepRatio, isDraggingRef, lastEventRef]);
+  }, [onResizeEnd, engine, setKeepRatio, isDraggingRef, lastEventRef, resetTransform]);
 
   const handleDragGroup = useCallback(({ events }: OnDragGroup) => {
     if (events.length === 0) return;
-    const { selectedIds } = engine.getState();
+    const selectedIds = new Set(engine.getState().selectedIds);
 
     events.forEach(({ target, beforeTranslate }) => {
       const id = target.getAttribute('data-element-id');
       if (id) {
-        const { elements } = engine.getState();
-        const element = elements.find(el => el.id === id);
+        const element = engine.getElement(id);
         // 如果父级也在选中组中，子元素会跟随父级移动，不需要重复应用位移
-        if (element?.parentId && selectedIds.includes(element.parentId)) return;
+        if (element?.parentId && selectedIds.has(element.parentId)) return;
 
-        target.style.transform = `translate(${beforeTranslate[0]}px, ${beforeTranslate[1]}px)`;
+        target.style.transform = getElementTransform(element?.rotation, beforeTranslate);
       }
     });
   }, [engine]);
 
   const handleDragGroupEnd = useCallback(({ targets }: { targets: (HTMLElement | SVGElement)[] }) => {
-    const { selectedIds } = engine.getState();
+    const selectedIds = new Set(engine.getState().selectedIds);
+    // 所有元素的位移合并为一次更新
+    const updates = new Map<string, Partial<Element>>();
 
     targets.forEach(target => {
       const id = target.getAttribute('data-element-id');
       if (id) {
-        const { elements } = engine.getState();
-        const element = elements.find((el: Element) => el.id === id);
+        const element = engine.getElement(id);
         if (element) {
           // 逻辑同上：如果父级也被选中，则跳过子级的状态更新
-          if (element.parentId && selectedIds.includes(element.parentId)) {
+          if (element.parentId && selectedIds.has(element.parentId)) {
             // 虽然不更新状态，但也要清理 transform
-            requestAnimationFrame(() => { target.style.transform = ''; });
+            requestAnimationFrame(() => { resetTransform(target, id); });
             return;
           }
 
           const computedStyle = window.getComputedStyle(target);
           const matrix = new DOMMatrix(computedStyle.transform);
-          engine.updateElement(id, {
+          updates.set(id, {
             x: Math.round(element.x + matrix.m41),
             y: Math.round(element.y + matrix.m42),
           });
-          requestAnimationFrame(() => { target.style.transform = ''; });
+          requestAnimationFrame(() => { resetTransform(target, id); });
         }
       }
     });
+    engine.updateElements(updates);
     engine.setInteraction({ isDragging: false, isInteracting: false });
     isDraggingRef.current = false;
     lastEventRef.current = null;
     engine.setHoverFrame(null);
-  }, [engine, isDraggingRef, lastEventRef]);
+  }, [engine, isDraggingRef, lastEventRef, resetTransform]);
 
   const handleResizeGroup = useCallback(({ events }: OnResizeGroup) => {
-    const { selectedIds } = engine.getState();
+    const selectedIds = new Set(engine.getState().selectedIds);
 
     events.forEach(({ target, width, height, drag, direction }) => {
       const id = target.getAttribute('data-element-id');
       if (id) {
-        const { elements: currentElements } = engine.getState();
-        const element = currentElements.find(el => el.id === id);
+        const element = engine.getElement(id);
         if (!element) return;
 
         // 如果父级也在选中组中，子元素会跟随父级缩放，不需要重复应用位移
-        if (element.parentId && selectedIds.includes(element.parentId)) return;
+        if (element.parentId && selectedIds.has(element.parentId)) return;
 
         const newWidth = Math.floor(width);
         const newHeight = Math.floor(height);
         const isCorner = direction[0] !== 0 && direction[1] !== 0;
 
         target.style.width = `${newWidth}px`;
-        target.style.transform = `translate(${drag.beforeTranslate[0]}px, ${drag.beforeTranslate[1]}px)`;
+        target.style.transform = getElementTransform(element.rotation, drag.beforeTranslate);
 
         // 如果是文本元素，显式设为 auto 确保不被之前的固定高度阻塞
         if (element?.type === 'text') {
@@ -258,8 +270,7 @@ export function useMoveableEvents({
           if (textContainer && isCorner && resizeStartElementRef.current) {
             // 注意：多选缩放时，resizeStartElementRef.current 可能不适用于所有元素
             // 但在 Moveable 的 Group 逻辑中，通常会有基准引用，这里我们回退到 element 自身
-            const baseElement = currentElements.find(el => el.id === id) || element;
-            const newFontSize = calculateNewFontSize(baseElement, newWidth);
+            const newFontSize = calculateNewFontSize(element, newWidth);
             textContainer.style.fontSize = `${newFontSize}px`;
           }
         } else {
@@ -270,18 +281,18 @@ export function useMoveableEvents({
   }, [engine]);
 
   const handleResizeGroupEnd = useCallback(({ targets }: { targets: (HTMLElement | SVGElement)[] }) => {
-    const { selectedIds } = engine.getState();
+    const selectedIds = new Set(engine.getState().selectedIds);
+    const updates = new Map<string, Partial<Element>>();
 
     engine.transaction(() => {
       targets.forEach(target => {
         const id = target.getAttribute('data-element-id');
         if (id) {
-          const { elements: currentElements } = engine.getState();
-          const element = currentElements.find((el: Element) => el.id === id);
+          const element = engine.getElement(id);
           if (element) {
             // 逻辑同上：如果父级也被选中，则跳过子级
-            if (element.parentId && selectedIds.includes(element.parentId)) {
-              requestAnimationFrame(() => { target.style.transform = ''; });
+            if (element.parentId && selectedIds.has(element.parentId)) {
+              requestAnimationFrame(() => { resetTransform(target, id); });
               return;
             }
 
@@ -294,22 +305,80 @@ export function useMoveableEvents({
               ? (target as HTMLElement).offsetHeight
               : Math.floor(parseFloat(target.style.height));
 
-            engine.updateElement(id, {
+            updates.set(id, {
               x: Math.round(element.x + matrix.m41),
               y: Math.round(element.y + matrix.m42),
               width: finalWidth,
               height: finalHeight,
             });
 
-            requestAnimationFrame(() => { target.style.transform = ''; });
+            requestAnimationFrame(() => { resetTransform(target, id); });
           }
         }
       });
+      engine.updateElements(updates);
       engine.setInteraction({ isResizing: false, isInteracting: false });
       isDraggingRef.current = false;
       lastEventRef.current = null;
     });
-  }, [engine, isDraggingRef, lastEventRef]);
+  }, [engine, isDraggingRef, lastEventRef, resetTransform]);
+
+  const handleRotateStart = useCallback(() => {
+    rotateStateRef.current.clear();
+    engine.setInteraction({ isRotating: true, isInteracting: true });
+  }, [engine]);
+
+  const applyRotate = useCallback(({ target, rotation, drag }: OnRotate) => {
+    const id = target.getAttribute('data-element-id');
+    if (!id) return;
+    // 视觉更新：直接修改 DOM，结束时统一提交
+    target.style.transform = getElementTransform(rotation, drag.beforeTranslate);
+    rotateStateRef.current.set(id, { rotation, translate: drag.beforeTranslate });
+  }, []);
+
+  const handleRotate = useCallback((e: OnRotate) => {
+    applyRotate(e);
+  }, [applyRotate]);
+
+  const handleRotateGroup = useCallback(({ events }: OnRotateGroup) => {
+    const selectedIds = new Set(engine.getState().selectedIds);
+    events.forEach(event => {
+      const id = event.target.getAttribute('data-element-id');
+      const element = id ? engine.getElement(id) : undefined;
+      // 父级也被选中时，子元素跟随父级旋转
+      if (element?.parentId && selectedIds.has(element.parentId)) return;
+      applyRotate(event);
+    });
+  }, [engine, applyRotate]);
+
+  const handleRotateEnd = useCallback(() => {
+    const rotated = new Map(rotateStateRef.current);
+    rotateStateRef.current.clear();
+
+    engine.transaction(() => {
+      const updates = new Map<string, Partial<Element>>();
+      rotated.forEach(({ rotation, translate }, id) => {
+        const element = engine.getElement(id);
+        if (!element) return;
+        const normalized = normalizeRotation(Math.round(rotation * 100) / 100);
+        updates.set(id, {
+          x: Math.round(element.x + translate[0]),
+          y: Math.round(element.y + translate[1]),
+          rotation: normalized || undefined,
+        });
+      });
+      engine.updateElements(updates);
+      engine.setInteraction({ isRotating: false, isInteracting: false });
+      lastEventRef.current = null;
+    });
+
+    requestAnimationFrame(() => {
+      rotated.forEach((_, id) => {
+        const target = document.querySelector(`[data-element-id="${id}"]`) as HTMLElement | null;
+        if (target) resetTransform(target, id);
+      });
+    });
+  }, [engine, lastEventRef, resetTransform]);
 
   return {
     handleDrag,
@@ -320,6 +389,10 @@ export function useMoveableEvents({
     handleDragGroupEnd,
     handleResizeGroup,
     handleResizeGroupEnd,
+    handleRotateStart,
+    handleRotate,
+    handleRotateGroup,
+    handleRotateEnd,
     resizeStartElementRef,
   };
 }
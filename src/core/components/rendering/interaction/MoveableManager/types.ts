@@ -84,6 +84,10 @@ export interface MoveableOptions {
   draggable?: boolean;
   /** 是否启用缩放，默认 true */
   resizable?: boolean;
+  /** 是否启用旋转，默认 true（连接线始终不可旋转） */
+  rotatable?: boolean;
+  /** 按住 Shift 旋转时的吸附角度，默认 15 */
+  rotationSnapAngle?: number;
   /** 是否启用吸附，默认 true */
   snappable?: boolean;
   /** 吸附阈值，默认 5 */
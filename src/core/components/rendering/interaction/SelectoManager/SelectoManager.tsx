@@ -56,14 +56,16 @@ export const SelectoManager = forwardRef<SelectoManagerRef, SelectoManagerProps>
         return;
       }
 
-      const isUI = target.closest('.editor-toolbar, .floating-toolbar, .moveable-control, .moveable-direction, .moveable-area, .moveable-line');
+      const isUI = target.closest('.editor-toolbar, .floating-toolbar, .layers-panel, .presence-avatars, .moveable-control, .moveable-direction, .moveable-area, .moveable-line');
       if (isUI) {
         stop();
         return;
       }
 
       const element = target.closest('.infinite_view_element');
-      const elementId = element?.getAttribute('data-element-id');
+      const hitId = element?.getAttribute('data-element-id');
+      // 命中组内成员时，实际选中的是组；命中锁定的元素时视为点击空白处（可从其上方开始框选）
+      const elementId = hitId && engine.isElementSelectable(hitId) ? engine.resolveSelectionTarget(hitId) : null;
       isDragStartOnElement.current = !!elementId;
 
       if (elementId) {
@@ -84,9 +86,10 @@ export const SelectoManager = forwardRef<SelectoManagerRef, SelectoManagerProps>
     }, [enabled, interaction.isResizing, selectedIds, engine]);
 
     const handleSelect = useCallback((e: OnSelect) => {
-      const newSelectedIds = e.selected
+      const hitIds = e.selected
         .map((el) => (el as HTMLElement | SVGElement).getAttribute('data-element-id'))
         .filter(Boolean) as string[];
+      const newSelectedIds = [...new Set(hitIds.map(id => engine.resolveSelectionTarget(id)))];
       
       const eventToPass = isDragStartOnElement.current ? e.inputEvent : undefined;
       engine.selectElements(newSelectedIds, e.inputEvent.shiftKey, eventToPass);
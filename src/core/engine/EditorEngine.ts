@@ -5,13 +5,55 @@ import type {
   ToolType,
   Point,
   ElementType,
-  Bounds
+  Bounds,
+  PathPoint,
+  ReorderAction,
+  SchemaValidationResult,
+  ImportResult,
+  AlignType,
+  AlignReference,
+  DistributeAxis,
+  FrameLayout,
+  ElementConstraints,
+  TextSpanStyle,
+  TextSelection
 } from './types';
 import { calculateNewFontSize } from '../utils/textUtils';
+import { applyTextStyle, scaleSpanFontSizes } from '../utils/richTextUtils';
 import { ViewportManager } from './modules/ViewportManager';
 import { ElementManager } from './modules/ElementManager';
 import { InteractionManager } from './modules/InteractionManager';
-import { getElementWorldPos, findFrameAtPoint } from './utils';
+import { HistoryManager, type HistorySnapshot } from './modules/HistoryManager';
+import { ClipboardManager } from './modules/ClipboardManager';
+import { GroupManager } from './modules/GroupManager';
+import { ReconcileManager } from './modules/ReconcileManager';
+import { ConnectorManager } from './modules/ConnectorManager';
+import { MigrationManager, SCHEMA_VERSION } from './modules/MigrationManager';
+import { SchemaManager } from './modules/SchemaManager';
+import { AlignManager } from './modules/AlignManager';
+import { SpatialIndex } from './modules/SpatialIndex';
+import { ElementStore } from './modules/ElementStore';
+import { CommandManager, type CommandInvocation, type CommandLogEntry, type CommandResult } from './modules/CommandManager';
+import {
+  EventManager,
+  type EditorEventName,
+  type EditorEventHandler,
+  type EditorBeforeHookName,
+  type EditorBeforeHookMap,
+} from './modules/EventManager';
+import { PatchManager, type DocumentPatch } from './modules/PatchManager';
+import {
+  getElementWorldPos,
+  getElementWorldBounds,
+  getElementWorldCorners,
+  getReparentedGeometry,
+  findFrameAtPoint,
+  getDescendantIds,
+  isElementLocked,
+  isElementHidden,
+} from './utils';
+import { getRotatedCorners, polygonsIntersect, normalizeRotation } from '../../utils/geometry';
+import { EDITOR_CONFIG } from '../../constants/editor';
 
 export interface EditorState {
   viewport: Viewport;
@@ -20,6 +62,10 @@ export interface EditorState {
   interaction: InteractionState;
   activeTool: ToolType;
   hoverFrameId: string | null;
+  /** 文本元素中选中的文字（退出编辑后保留，文本工具栏据此只修改这部分文字） */
+  textSelection: TextSelection | null;
+  /** 当前进入编辑的组（双击组后可直接选中组内成员） */
+  activeGroupId: string | null;
   lastSelectionEvent: MouseEvent | TouchEvent | null;
   /** 字体相关 */
   localFonts: { label: string; value: string }[];
@@ -42,6 +88,7 @@ const initialInteraction: InteractionState = {
   isDragging: false,
   isPanning: false,
   isResizing: false,
+  isRotating: false,
   isInteracting: false,
   isMarqueeSelecting: false,
   isCreating: false,
@@ -57,6 +104,15 @@ const DEFAULT_FONTS = [
 ];
 
 export type Listener = (state: EditorState) => void;
+export type CommandListener = (entry: CommandLogEntry) => void;
+export type PatchListener = (patch: DocumentPatch) => void;
+
+/**
+ * 是否处于连续编辑手势中（拖拽、缩放、文本编辑），期间的变化合并为一条历史记录
+ */
+function isInGesture(state: EditorState): boolean {
+  return state.interaction.isInteracting || !!state.interaction.editingId;
+}
 
 /**
  * EditorEngine - 核心编辑器引擎
@@ -65,8 +121,26 @@ export type Listener = (state: EditorState) => void;
 export class EditorEngine {
   private state: EditorState;
   private listeners: Set<Listener> = new Set();
+  private commandListeners: Set<CommandListener> = new Set();
   private batchDepth = 0;
   private needsNotify = false;
+  private history = new HistoryManager(EDITOR_CONFIG.HISTORY.LIMIT);
+  /** 大于 0 时，元素变化不记录到历史中 */
+  private historySuppressDepth = 0;
+  /** 大于 0 时，元素变化不触发派生数据修正（用于恢复快照） */
+  private reconcileSuppressDepth = 0;
+  /** 内部剪贴板（系统剪贴板不可用时的兜底） */
+  private clipboard: Element[] | null = null;
+  /** 同一份剪贴板连续粘贴的次数，用于递增偏移 */
+  private pasteCount = 0;
+  /** 元素世界包围盒的空间索引，随 state.elements 同步更新 */
+  private spatialIndex = new SpatialIndex();
+  private events = new EventManager();
+  private patchListeners: Set<PatchListener> = new Set();
+  /** 文档修订号，每产生一次增量修改加 1 */
+  private revision = 0;
+  /** 上一次产生增量修改时的元素列表 */
+  private patchBase: Element[];
 
   constructor(initialState?: Partial<EditorState>) {
     this.state = {
@@ -76,11 +150,15 @@ export class EditorEngine {
       interaction: initialInteraction,
       activeTool: 'select',
       hoverFrameId: null,
+      textSelection: null,
+      activeGroupId: null,
       lastSelectionEvent: null,
       localFonts: DEFAULT_FONTS,
       isFontLoading: false,
       ...initialState,
     };
+    ElementManager.updateSpatialIndex(this.spatialIndex, [], this.state.elements);
+    this.patchBase = this.state.elements;
   }
 
   // ========== 基础状态接口 ==========
@@ -89,15 +167,45 @@ export class EditorEngine {
     return this.state;
   }
 
-  private setState(updates: Partial<EditorState> | ((state: EditorState) => Partial<EditorState>)) {
-    const newState = typeof updates === 'function' ? updates(this.state) : updates;
+  /**
+   * 按 ID 获取元素（基于索引查找，不遍历元素列表）
+   */
+  public getElement(id: string): Element | undefined {
+    return ElementStore.of(this.state.elements).get(id);
+  }
+
+  /**
+   * 当前元素的空间索引（世界坐标包围盒），只读，用于点选、框选与视口裁剪的粗筛
+   */
+  public getSpatialIndex(): Pick<SpatialIndex, 'size' | 'getBounds' | 'search' | 'searchPoint' | 'nearest'> {
+    return this.spatialIndex;
+  }
+
+  /**
+   * 更新状态
+   * @returns 是否生效（操作前钩子取消时为 false）
+   */
+  private setState(updates: Partial<EditorState> | ((state: EditorState) => Partial<EditorState>)): boolean {
+    const prevState = this.state;
+    let newState = typeof updates === 'function' ? updates(this.state) : updates;
+    if (newState.elements && newState.elements !== prevState.elements && this.reconcileSuppressDepth === 0) {
+      // 操作前钩子作用于操作本身的修改，派生数据在其之后修正
+      const elements = this.events.applyBeforeHooks(prevState.elements, newState.elements);
+      if (!elements) return false;
+      newState = { ...newState, elements: ReconcileManager.reconcile(prevState.elements, elements) };
+    }
     this.state = { ...this.state, ...newState };
+    ElementManager.updateSpatialIndex(this.spatialIndex, prevState.elements, this.state.elements);
+    this.trackHistory(prevState, this.state);
+    this.events.emitChanges(prevState, this.state);
 
     if (this.batchDepth > 0) {
       this.needsNotify = true;
     } else {
+      this.flushPatch();
       this.notify();
     }
+    return true;
   }
 
   /**
@@ -105,12 +213,15 @@ export class EditorEngine {
    */
   public transaction(fn: () => void) {
     this.batchDepth++;
+    this.history.beginBatch();
     try {
       fn();
     } finally {
       this.batchDepth--;
+      this.history.endBatch(this.getHistorySnapshot());
       if (this.batchDepth === 0 && this.needsNotify) {
         this.needsNotify = false;
+        this.flushPatch();
         this.notify();
       }
     }
@@ -125,6 +236,222 @@ export class EditorEngine {
     this.listeners.forEach(listener => listener(this.state));
   }
 
+  // ========== 事件 (Events) ==========
+
+  /**
+   * 订阅引擎事件（状态更新后同步派发），返回取消订阅函数
+   * @example engine.on('elementsUpdated', ({ diffs }) => console.log(diffs))
+   */
+  public on<K extends EditorEventName>(event: K, handler: EditorEventHandler<K>): () => void {
+    return this.events.on(event, handler);
+  }
+
+  /**
+   * 注册操作前钩子，可取消或改写即将生效的修改，返回注销函数
+   * @example engine.before('elementUpdate', (el) => ({ ...el, x: Math.max(0, el.x) }))
+   */
+  public before<K extends EditorBeforeHookName>(hook: K, handler: EditorBeforeHookMap[K]): () => void {
+    return this.events.before(hook, handler);
+  }
+
+  // ========== 命令 (Commands) ==========
+
+  /**
+   * 按名称执行命令（payload 为 JSON 对象），校验失败时不修改状态
+   * 可用命令见 CommandManager.getCommands()
+   */
+  public execute(command: string, payload: Record<string, unknown> = {}): CommandResult {
+    const result = CommandManager.execute(this, command, payload);
+    this.commandListeners.forEach(listener => listener({ command, payload, result }));
+    return result;
+  }
+
+  /**
+   * 依次执行命令脚本，默认遇到失败的命令时停止
+   */
+  public runScript(script: CommandInvocation[], options?: { stopOnError?: boolean }): CommandResult[] {
+    return CommandManager.runScript(this, script, options);
+  }
+
+  /**
+   * 订阅已执行的命令（包括失败的命令），用于日志与录制
+   */
+  public subscribeCommands(listener: CommandListener): () => void {
+    this.commandListeners.add(listener);
+    return () => this.commandListeners.delete(listener);
+  }
+
+  // ========== 增量修改 (Patches) ==========
+
+  /**
+   * 当前文档修订号
+   */
+  public getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * 订阅文档的增量修改：每个操作（事务、连续手势合并为一个）结束后产生一条，修订号连续递增
+   */
+  public subscribePatches(listener: PatchListener): () => void {
+    this.patchListeners.add(listener);
+    return () => this.patchListeners.delete(listener);
+  }
+
+  /**
+   * 应用其他来源（后端、其他客户端、回放）的增量修改：不记录历史，也不再产生新的修改
+   * 应用的修改会合并进历史快照，撤销只回退本地的修改
+   * patch.baseRevision 必须等于当前修订号；失败时不修改文档
+   */
+  public applyPatch(patch: DocumentPatch): SchemaValidationResult {
+    const fail = (message: string): SchemaValidationResult => {
+      console.error(`[Patch] ${message}`);
+      return { valid: false, errors: [{ path: 'baseRevision', message }] };
+    };
+    if (patch.baseRevision !== this.revision) {
+      return fail(`Patch is based on revision ${patch.baseRevision}, but the document is at revision ${this.revision}`);
+    }
+    if (this.patchBase !== this.state.elements) {
+      return fail('Cannot apply a patch while a local change is in progress');
+    }
+
+    const { elements, errors } = PatchManager.apply(this.state.elements, patch);
+    if (!elements) {
+      console.error(`[Patch] Invalid patch:\n${SchemaManager.formatErrors(errors)}`);
+      return { valid: false, errors };
+    }
+
+    this.revision = patch.revision;
+    this.patchBase = elements;
+    this.history.rebase(this.state.elements, elements);
+    const ids = new Set(elements.map(el => el.id));
+    this.restoreState({
+      elements,
+      selectedIds: this.state.selectedIds.filter(id => ids.has(id)),
+    });
+    return { valid: true, errors: [] };
+  }
+
+  /**
+   * 操作结束（不在事务或连续手势中）时，把自上次以来的元素变化整理为一条增量修改
+   */
+  private flushPatch() {
+    if (this.patchBase === this.state.elements || isInGesture(this.state)) return;
+
+    const patch = PatchManager.create(this.patchBase, this.state.elements, this.revision);
+    this.patchBase = this.state.elements;
+    if (!patch) return;
+
+    this.revision = patch.revision;
+    this.patchListeners.forEach(listener => listener(patch));
+  }
+
+  // ========== 撤销/重做 (History) ==========
+
+  /**
+   * 撤销上一次元素变更（连续手势期间不可撤销）
+   */
+  public undo() {
+    if (this.history.isBatching) return;
+    const snapshot = this.history.undo(this.getHistorySnapshot());
+    if (snapshot) this.restoreSnapshot(snapshot);
+  }
+
+  /**
+   * 重做上一次被撤销的变更
+   */
+  public redo() {
+    if (this.history.isBatching) return;
+    const snapshot = this.history.redo(this.getHistorySnapshot());
+    if (snapshot) this.restoreSnapshot(snapshot);
+  }
+
+  public canUndo(): boolean {
+    return this.history.canUndo();
+  }
+
+  public canRedo(): boolean {
+    return this.history.canRedo();
+  }
+
+  public clearHistory() {
+    this.history.clear();
+  }
+
+  /**
+   * 执行不记录历史的更新（例如文本 ResizeObserver 回写的自动尺寸）
+   * 这类更新不会产生撤销记录，也不会清空重做栈。
+   */
+  public runWithoutHistory(fn: () => void) {
+    this.historySuppressDepth++;
+    try {
+      fn();
+    } finally {
+      this.historySuppressDepth--;
+    }
+  }
+
+  private getHistorySnapshot(): HistorySnapshot {
+    return { elements: this.state.elements, selectedIds: this.state.selectedIds };
+  }
+
+  /**
+   * 原样恢复状态：不记录历史，也不做派生数据修正
+   */
+  private restoreState(updates: Partial<EditorState>) {
+    this.reconcileSuppressDepth++;
+    try {
+      this.runWithoutHistory(() => this.setState(updates));
+    } finally {
+      this.reconcileSuppressDepth--;
+    }
+  }
+
+  private restoreSnapshot(snapshot: HistorySnapshot) {
+    this.restoreState({
+      elements: snapshot.elements,
+      selectedIds: snapshot.selectedIds,
+      hoverFrameId: null,
+      textSelection: null,
+      activeGroupId: null,
+      lastSelectionEvent: null,
+    });
+  }
+
+  /**
+   * 根据前后状态记录历史：
+   * - 元素变化时记录变化前的快照（仅选区变化不产生记录）；
+   * - 进入/退出连续手势时开启/结束合并。
+   */
+  private trackHistory(prevState: EditorState, nextState: EditorState) {
+    const wasInGesture = isInGesture(prevState);
+    const inGesture = isInGesture(nextState);
+    if (!wasInGesture && inGesture) {
+      this.history.beginBatch();
+    }
+
+    if (prevState.elements !== nextState.elements && this.historySuppressDepth === 0) {
+      this.history.record({ elements: prevState.elements, selectedIds: prevState.selectedIds });
+    }
+
+    if (wasInGesture && !inGesture) {
+      this.history.endBatch(this.getHistorySnapshot());
+    }
+  }
+
+  /**
+   * 应用协作对端同步来的元素列表：不记录历史，也不做派生数据修正（对端提交前已完成修正）
+   * 对端的修改会合并进历史快照，撤销只回退本地的修改；选区中已不存在的元素会被移除
+   */
+  public applyRemoteElements(elements: Element[]) {
+    const ids = new Set(elements.map(el => el.id));
+    this.history.rebase(this.state.elements, elements);
+    this.restoreState({
+      elements,
+      selectedIds: this.state.selectedIds.filter(id => ids.has(id)),
+    });
+  }
+
   // ========== 视口操作 (Viewport) ==========
 
   public setViewport(updates: Partial<Viewport>) {
@@ -151,14 +478,17 @@ export class EditorEngine {
 
   // ========== 元素操作 (Elements) ==========
 
+  /**
+   * 添加元素，返回新元素 ID；被操作前钩子取消时返回空字符串
+   */
   public addElement(element: Omit<Element, 'id' | 'zIndex'>): string {
     let newId = '';
-    this.setState(state => {
+    const applied = this.setState(state => {
       const { id, elements } = ElementManager.addElement(state.elements, element);
       newId = id;
       return { elements };
     });
-    return newId;
+    return applied ? newId : '';
   }
 
   public updateElement(id: string, updates: Partial<Element>) {
@@ -167,13 +497,27 @@ export class EditorEngine {
     }));
   }
 
-  public deleteElements(ids: string[]) {
+  /**
+   * 批量更新多个元素（如多选拖拽结束），只触发一次状态更新
+   */
+  public updateElements(updates: Map<string, Partial<Element>>) {
+    if (updates.size === 0) return;
     this.setState(state => ({
-      elements: ElementManager.deleteElements(state.elements, ids),
-      selectedIds: state.selectedIds.filter(id => !ids.includes(id))
+      elements: ElementManager.updateElements(state.elements, updates)
     }));
   }
 
+  public deleteElements(ids: string[]) {
+    this.setState(state => {
+      const elements = ElementManager.deleteElements(state.elements, ids);
+      const remaining = new Set(elements.map(el => el.id));
+      return {
+        elements,
+        selectedIds: state.selectedIds.filter(id => remaining.has(id))
+      };
+    });
+  }
+
   public moveElements(ids: string[], deltaX: number, deltaY: number) {
     this.setState(state => ({
       elements: ElementManager.moveElements(state.elements, ids, deltaX, deltaY)
@@ -197,7 +541,7 @@ export class EditorEngine {
   public handleDrag(ids: string[], delta: [number, number], mouseWorld?: Point) {
     if (ids.length === 0) return;
 
-    this.setState((state) => InteractionManager.handleDrag(state.elements, state.hoverFrameId, ids, delta, mouseWorld));
+    this.setState((state) => InteractionManager.handleDrag(state.elements, state.hoverFrameId, ids, delta, mouseWorld, this.spatialIndex));
   }
 
   /**
@@ -206,7 +550,7 @@ export class EditorEngine {
   public handleDragPreview(ids: string[], mouseWorld: Point): string | null {
     let hoverFrameId: string | null = null;
     this.setState((state) => {
-      hoverFrameId = InteractionManager.handleDragPreview(state.elements, ids, mouseWorld);
+      hoverFrameId = InteractionManager.handleDragPreview(state.elements, ids, mouseWorld, this.spatialIndex);
       return { hoverFrameId };
     });
     return hoverFrameId;
@@ -221,10 +565,9 @@ export class EditorEngine {
    */
   public handleResize(id: string, bounds: Partial<Bounds>, isCorner: boolean, originalElement?: Element) {
     this.setState(state => {
-      const idx = state.elements.findIndex(el => el.id === id);
-      if (idx === -1) return {};
+      const el = ElementStore.of(state.elements).get(id);
+      if (!el) return {};
 
-      const el = state.elements[idx];
       const updates: Partial<Element> = {};
 
       // 文字特殊处理
@@ -236,6 +579,9 @@ export class EditorEngine {
           if (bounds.y !== undefined) updates.y = bounds.y;
           updates.width = bounds.width;
           updates.style = { ...el.style, fontSize: newFontSize };
+          if (originalElement.richText) {
+            updates.richText = scaleSpanFontSizes(originalElement.richText, bounds.width / originalElement.width);
+          }
         } else {
           // 侧边缩放：仅更新宽度，设置固定宽度模式（高度会由 ResizeObserver 自动调整）
           if (bounds.x !== undefined) updates.x = bounds.x;
@@ -246,13 +592,84 @@ export class EditorEngine {
       } else {
         // 普通元素：同步更新所有属性
         Object.assign(updates, bounds);
+        // 手动缩放贴合内容的自动布局 Frame 时，改为固定尺寸
+        if (el.layout?.sizing === 'hug') {
+          updates.layout = { ...el.layout, sizing: 'fixed' };
+        }
       }
 
-      const nextElements = [...state.elements];
-      nextElements[idx] = { ...el, ...updates };
+      return { elements: ElementStore.update(state.elements, [{ ...el, ...updates }]) };
+    });
+  }
+
+  // ========== 剪贴板 (Clipboard) ==========
+
+  /**
+   * 复制选中元素（包含 Frame 子元素）
+   * @returns 序列化后的 EditorDataExport JSON，可写入系统剪贴板；无选中时返回 null
+   */
+  public copySelection(): string | null {
+    const { elements, selectedIds } = this.state;
+    if (selectedIds.length === 0) return null;
+
+    this.clipboard = ClipboardManager.toClipboard(elements, selectedIds);
+    this.pasteCount = 0;
+
+    const data: EditorDataExport = { ...this.exportData(), elements: this.clipboard };
+    return JSON.stringify(data);
+  }
+
+  /**
+   * 剪切选中元素
+   */
+  public cutSelection(): string | null {
+    const text = this.copySelection();
+    if (text) {
+      this.deleteElements(this.state.selectedIds);
+    }
+    return text;
+  }
 
-      return { elements: nextElements };
+  /**
+   * 粘贴元素
+   * @param text 系统剪贴板中的文本，为 EditorDataExport JSON 时粘贴其中的元素；
+   *             不传表示无法读取系统剪贴板，此时使用内部剪贴板。系统剪贴板中是其他内容时不粘贴
+   * @returns 新粘贴的顶层元素 ID 列表
+   */
+  public paste(text?: string): string[] {
+    const source = text === undefined ? this.clipboard : ClipboardManager.parse(text);
+    if (!source || source.length === 0) return [];
+
+    this.pasteCount++;
+    const offset = EDITOR_CONFIG.CLIPBOARD.PASTE_OFFSET * this.pasteCount;
+    let ids: string[] = [];
+
+    const applied = this.setState(state => {
+      const result = ClipboardManager.insertClones(state.elements, source, { x: offset, y: offset });
+      ids = result.ids;
+      return { elements: result.elements, selectedIds: ids, lastSelectionEvent: null };
     });
+    return applied ? ids : [];
+  }
+
+  /**
+   * 原地复制选中元素（保持在原父级中）
+   * @returns 新元素的顶层 ID 列表
+   */
+  public duplicateSelection(): string[] {
+    const { selectedIds } = this.state;
+    if (selectedIds.length === 0) return [];
+
+    const offset = EDITOR_CONFIG.CLIPBOARD.PASTE_OFFSET;
+    let ids: string[] = [];
+
+    const applied = this.setState(state => {
+      const source = ClipboardManager.collect(state.elements, selectedIds);
+      const result = ClipboardManager.insertClones(state.elements, source, { x: offset, y: offset });
+      ids = result.ids;
+      return { elements: result.elements, selectedIds: ids, lastSelectionEvent: null };
+    });
+    return applied ? ids : [];
   }
 
   // ========== 交互与选择 (Interaction & Selection) ==========
@@ -265,89 +682,349 @@ export class EditorEngine {
   }
 
   public selectElements(ids: string[], additive = false, event?: MouseEvent | TouchEvent) {
+    // 锁定或隐藏的元素不可选中
+    const selectable = ids.filter(id => this.isElementSelectable(id));
+    const selectedIds = additive
+      ? [...new Set([...this.state.selectedIds, ...selectable])]
+      : selectable;
+    const { activeGroupId } = this.state;
+
+    // 选区离开当前进入的组时，自动退出该组
+    const groupMembers = activeGroupId ? new Set(getDescendantIds(this.state.elements, [activeGroupId])) : null;
+    const stayInGroup = !!groupMembers && selectedIds.length > 0 && selectedIds.every(id => groupMembers.has(id));
+
     this.setState({
-      selectedIds: additive
-        ? [...new Set([...this.state.selectedIds, ...ids])]
-        : ids,
+      selectedIds,
+      activeGroupId: stayInGroup ? activeGroupId : null,
       lastSelectionEvent: event || null,
     });
   }
 
   public deselectAll() {
-    this.setState({ selectedIds: [], lastSelectionEvent: null });
+    this.setState({ selectedIds: [], activeGroupId: null, lastSelectionEvent: null });
   }
 
-  public reorderElements(ids: string[], action: 'front' | 'back' | 'forward' | 'backward') {
+  public reorderElements(ids: string[], action: ReorderAction) {
     this.setState(state => ({
       elements: ElementManager.reorderElements(state.elements, ids, action)
     }));
   }
 
+  // ========== 图层 (Layers) ==========
+
+  /**
+   * 元素是否可以被选中：自身及祖先均未锁定、未隐藏
+   */
+  public isElementSelectable(id: string): boolean {
+    const { elements } = this.state;
+    return !isElementLocked(elements, id) && !isElementHidden(elements, id);
+  }
+
+  /**
+   * 重命名元素，空白名称会清除自定义名称
+   */
+  public renameElement(id: string, name: string) {
+    this.updateElement(id, { name: name.trim() || undefined });
+  }
+
+  /**
+   * 锁定 / 解锁元素；锁定的元素（及其后代）会从选区中移除
+   */
+  public setElementsLocked(ids: string[], locked: boolean) {
+    this.updateLayerFlags(ids, { locked: locked || undefined });
+  }
+
+  /**
+   * 显示 / 隐藏元素；隐藏的元素（及其后代）不渲染、不可选中，也不会被导出
+   */
+  public setElementsVisible(ids: string[], visible: boolean) {
+    this.updateLayerFlags(ids, { visible: visible ? undefined : false });
+  }
+
+  private updateLayerFlags(ids: string[], updates: Pick<Element, 'locked' | 'visible'>) {
+    this.setState(state => {
+      const store = ElementStore.of(state.elements);
+      const elements = ElementStore.update(state.elements, ids.flatMap(id => {
+        const el = store.get(id);
+        return el ? [{ ...el, ...updates }] : [];
+      }));
+      const selectedIds = state.selectedIds.filter(id => !isElementLocked(elements, id) && !isElementHidden(elements, id));
+      return {
+        elements,
+        selectedIds: selectedIds.length === state.selectedIds.length ? state.selectedIds : selectedIds,
+      };
+    });
+  }
+
+  /**
+   * 在图层面板中移动元素：可移入 Frame / 组或移到根画布，并放到同级的指定位置
+   * @param parentId 新的父级，undefined 为根画布
+   * @param index 在新父级的同级元素中（按 zIndex 从低到高，不含自身）的位置
+   * @returns 元素是否被移动：Frame 不能嵌套，元素不能移入自身或后代；被操作前钩子取消或位置未变化时返回 false
+   */
+  public moveLayer(id: string, parentId: string | undefined, index: number): boolean {
+    const { elements } = this.state;
+    const store = ElementStore.of(elements);
+    const element = store.get(id);
+    if (!element) return false;
+
+    if (parentId) {
+      const parent = store.get(parentId);
+      if (!parent || (parent.type !== 'frame' && parent.type !== 'group')) return false;
+      if (parentId === id || store.getDescendantIds([id]).includes(parentId)) return false;
+      if (element.type === 'frame' && parent.type === 'frame') return false;
+    }
+
+    this.setState(state => ({
+      elements: ElementManager.reorderElements(
+        ElementManager.reparentElement(state.elements, id, parentId),
+        [id],
+        { index }
+      ),
+    }));
+    return this.state.elements !== elements;
+  }
+
+  // ========== 对齐与分布 (Align & Distribute) ==========
+
+  /**
+   * 对齐元素（按世界坐标计算，可跨 Frame）
+   * @param reference 参照：选区包围盒、各自的父级 Frame，或关键对象
+   */
+  public alignElements(ids: string[], alignment: AlignType, reference: AlignReference = 'selection') {
+    this.setState(state => ({
+      elements: AlignManager.align(state.elements, ids, alignment, reference)
+    }));
+  }
+
+  /**
+   * 在水平 / 垂直方向等间距分布元素，两端元素位置不变
+   */
+  public distributeElements(ids: string[], axis: DistributeAxis) {
+    this.setState(state => ({
+      elements: AlignManager.distribute(state.elements, ids, axis)
+    }));
+  }
+
+  // ========== 编组 (Groups) ==========
+
+  /**
+   * 将选中元素编组（Ctrl+G）
+   * @returns 新组的 ID，未编组时返回 null
+   */
+  public groupSelection(): string | null {
+    const { selectedIds } = this.state;
+    if (selectedIds.length === 0) return null;
+
+    let groupId: string | null = null;
+    const applied = this.setState(state => {
+      const result = GroupManager.group(state.elements, selectedIds);
+      groupId = result.id;
+      return groupId
+        ? { elements: result.elements, selectedIds: [groupId], lastSelectionEvent: null }
+        : {};
+    });
+    return applied ? groupId : null;
+  }
+
+  /**
+   * 解散选中的组（Ctrl+Shift+G），并选中原组成员
+   */
+  public ungroupSelection(): string[] {
+    const { selectedIds } = this.state;
+    let releasedIds: string[] = [];
+
+    const applied = this.setState(state => {
+      const result = GroupManager.ungroup(state.elements, selectedIds);
+      releasedIds = result.ids;
+      if (releasedIds.length === 0) return {};
+      const keptIds = selectedIds.filter(id => result.elements.some(el => el.id === id));
+      return {
+        elements: result.elements,
+        selectedIds: [...keptIds, ...releasedIds],
+        activeGroupId: null,
+        lastSelectionEvent: null,
+      };
+    });
+    return applied ? releasedIds : [];
+  }
+
+  /**
+   * 解析点击命中的元素实际应选中的目标：
+   * 命中组内成员时选中最外层未进入的组；已进入的组（及其祖先组）内可直接选中成员。
+   */
+  public resolveSelectionTarget(id: string): string {
+    const { elements, activeGroupId } = this.state;
+    const store = ElementStore.of(elements);
+
+    const chain: Element[] = [];
+    for (let el = store.get(id); el; el = store.get(el.parentId)) {
+      chain.unshift(el);
+    }
+
+    const enteredIds = new Set<string>();
+    for (let el = store.get(activeGroupId ?? undefined); el; el = store.get(el.parentId)) {
+      enteredIds.add(el.id);
+    }
+
+    const target = chain.find(el => el.type === 'group' && el.id !== id && !enteredIds.has(el.id));
+    return target ? target.id : id;
+  }
+
+  /**
+   * 进入组（双击组），并选中组内命中的成员
+   * @param groupId 组 ID
+   * @param hitId 双击位置命中的元素 ID（可以是组的深层后代）
+   */
+  public enterGroup(groupId: string, hitId?: string) {
+    this.setState({ activeGroupId: groupId });
+    if (hitId && hitId !== groupId) {
+      this.setState({ selectedIds: [this.resolveSelectionTarget(hitId)], lastSelectionEvent: null });
+    }
+  }
+
+  /**
+   * 退出当前进入的组，并重新选中该组
+   */
+  public exitGroup() {
+    const { activeGroupId } = this.state;
+    if (!activeGroupId) return;
+    this.setState({ activeGroupId: null, selectedIds: [activeGroupId], lastSelectionEvent: null });
+  }
+
   // ========== Frame 父子关系 (Frames) ==========
 
   public getElementWorldPos(id: string): Point {
     return getElementWorldPos(this.state.elements, id);
   }
 
+  /**
+   * 获取元素旋转后的轴对齐包围盒（世界坐标）
+   */
+  public getElementWorldBounds(id: string): Bounds {
+    return getElementWorldBounds(this.state.elements, id);
+  }
+
+  /**
+   * 设置元素旋转角度（度），自动归一化到 [0, 360)
+   */
+  public setRotation(ids: string[], rotation: number) {
+    const normalized = normalizeRotation(Math.round(rotation * 100) / 100);
+    this.setState(state => {
+      const store = ElementStore.of(state.elements);
+      const rotated = ids
+        .map(id => store.get(id))
+        .filter((el): el is Element => !!el && el.type !== 'connector')
+        .map(el => ({ ...el, rotation: normalized || undefined }));
+      return { elements: ElementStore.update(state.elements, rotated) };
+    });
+  }
+
   public addToFrame(elementId: string, frameId: string) {
     const { elements } = this.state;
-    const element = elements.find(el => el.id === elementId);
-    const frame = elements.find(el => el.id === frameId);
+    const store = ElementStore.of(elements);
+    const element = store.get(elementId);
+    const frame = store.get(frameId);
 
     if (!element || !frame || frame.type !== 'frame') return;
     if (element.parentId === frameId) return;
 
-    const worldPos = this.getElementWorldPos(elementId);
-    const frameWorldPos = this.getElementWorldPos(frameId);
+    const geometry = getReparentedGeometry(elements, elementId, frameId);
+    const updated: Element[] = [{ ...element, ...geometry, parentId: frameId }];
 
-    this.setState({
-      elements: elements.map((el) => {
-        if (el.id === elementId) {
-          const relativeX = worldPos.x - frameWorldPos.x;
-          const relativeY = worldPos.y - frameWorldPos.y;
-          return { ...el, parentId: frameId, x: relativeX, y: relativeY };
-        }
-        if (el.id === frameId) {
-          const children = el.children || [];
-          if (!children.includes(elementId)) {
-            return { ...el, children: [...children, elementId] };
-          }
-        }
-        if (el.type === 'frame' && el.children?.includes(elementId) && el.id !== frameId) {
-          return { ...el, children: el.children.filter(id => id !== elementId) };
-        }
-        return el;
-      }),
-    });
+    const children = frame.children || [];
+    if (!children.includes(elementId)) {
+      updated.push({ ...frame, children: [...children, elementId] });
+    }
+    const oldParent = store.get(element.parentId);
+    if (oldParent?.type === 'frame' && oldParent.children?.includes(elementId)) {
+      updated.push({ ...oldParent, children: oldParent.children.filter(id => id !== elementId) });
+    }
+
+    this.setState({ elements: ElementStore.update(elements, updated) });
   }
 
   public removeFromFrame(elementId: string) {
     const { elements } = this.state;
-    const element = elements.find(el => el.id === elementId);
+    const store = ElementStore.of(elements);
+    const element = store.get(elementId);
     if (!element || !element.parentId) return;
 
-    const oldParentId = element.parentId;
-    const worldPos = this.getElementWorldPos(elementId);
+    const geometry = getReparentedGeometry(elements, elementId, undefined);
+    const updated: Element[] = [{ ...element, ...geometry, parentId: undefined }];
 
-    this.setState({
-      elements: elements.map((el) => {
-        if (el.id === elementId) {
-          return { ...el, parentId: undefined, x: worldPos.x, y: worldPos.y };
-        }
-        if (el.id === oldParentId) {
-          return { ...el, children: (el.children || []).filter(id => id !== elementId) };
-        }
-        return el;
-      }),
+    const oldParent = store.get(element.parentId);
+    if (oldParent) {
+      updated.push({ ...oldParent, children: (oldParent.children || []).filter(id => id !== elementId) });
+    }
+
+    this.setState({ elements: ElementStore.update(elements, updated) });
+  }
+
+  /**
+   * 开启 / 调整 Frame 的自动布局，传入 null 关闭（子元素保持当前位置）
+   * 首次开启时未指定的字段使用默认值
+   */
+  public setFrameLayout(frameId: string, layout: Partial<FrameLayout> | null) {
+    this.setState(state => {
+      const frame = ElementStore.of(state.elements).get(frameId);
+      if (!frame || frame.type !== 'frame') return {};
+      return {
+        elements: ElementManager.updateElement(state.elements, frameId, {
+          layout: layout
+            ? {
+              direction: 'vertical',
+              gap: EDITOR_CONFIG.AUTO_LAYOUT.GAP,
+              padding: EDITOR_CONFIG.AUTO_LAYOUT.PADDING,
+              ...frame.layout,
+              ...layout,
+            }
+            : undefined,
+        }),
+      };
     });
   }
 
+  /**
+   * 设置元素作为 Frame 子元素时的约束，Frame 缩放时按约束调整位置与尺寸
+   */
+  public setConstraints(ids: string[], constraints: ElementConstraints) {
+    this.setState(state => {
+      const store = ElementStore.of(state.elements);
+      return {
+        elements: ElementStore.update(state.elements, ids.flatMap(id => {
+          const el = store.get(id);
+          return el ? [{ ...el, constraints: { ...el.constraints, ...constraints } }] : [];
+        })),
+      };
+    });
+  }
+
+  /**
+   * 设置文字样式（粗体、斜体、下划线、颜色、字号、链接）
+   * @param range 只修改这部分文字；不传或覆盖整段文字时修改元素样式
+   */
+  public applyTextStyle(id: string, style: TextSpanStyle, range?: { start: number; end: number }) {
+    this.setState(state => {
+      const el = ElementStore.of(state.elements).get(id);
+      if (el?.type !== 'text') return {};
+      return { elements: ElementStore.update(state.elements, [{ ...el, ...applyTextStyle(el, style, range) }]) };
+    });
+  }
+
+  /**
+   * 记录文本元素中选中的文字，null 表示清除
+   */
+  public setTextSelection(selection: TextSelection | null) {
+    this.setState({ textSelection: selection });
+  }
+
   public setHoverFrame(frameId: string | null) {
     this.setState({ hoverFrameId: frameId });
   }
 
   public findFrameAtPoint(x: number, y: number, excludeIds: string[] = []): Element | null {
-    return findFrameAtPoint(this.state.elements, x, y, excludeIds);
+    return findFrameAtPoint(this.state.elements, x, y, excludeIds, this.spatialIndex);
   }
 
   // ========== 高级交互 (Interaction Logic) ==========
@@ -418,19 +1095,16 @@ export class EditorEngine {
     const { marqueeRect } = interaction;
 
     if (marqueeRect && marqueeRect.width > 5 && marqueeRect.height > 5) {
-      const selectedIds = elements
-        .filter((el) => {
-          const worldPos = this.getElementWorldPos(el.id);
-          return (
-            worldPos.x < marqueeRect.x + marqueeRect.width &&
-            worldPos.x + el.width > marqueeRect.x &&
-            worldPos.y < marqueeRect.y + marqueeRect.height &&
-            worldPos.y + el.height > marqueeRect.y
-          );
-        })
-        .map((el) => el.id);
-
-      this.setState({ selectedIds });
+      // 按旋转后的实际轮廓与框选区域求交，先用空间索引筛出包围盒相交的候选
+      const marqueeCorners = getRotatedCorners(marqueeRect);
+      const candidates = new Set(this.spatialIndex.search(marqueeRect));
+      const hitIds = elements
+        .filter((el) => candidates.has(el.id) && polygonsIntersect(getElementWorldCorners(elements, el.id), marqueeCorners))
+        .map((el) => el.id)
+        .filter((id) => this.isElementSelectable(id));
+
+      // 与点选一致：组内成员解析为最外层未进入的组，锁定或隐藏的元素不会被选中
+      this.selectElements([...new Set(hitIds.map(id => this.resolveSelectionTarget(id)))]);
     }
 
     this.setState({
@@ -456,35 +1130,20 @@ export class EditorEngine {
       return null;
     }
 
-    const x = Math.min(interaction.startPoint.x, endPoint.x);
-    const y = Math.min(interaction.startPoint.y, endPoint.y);
-    const width = Math.abs(endPoint.x - interaction.startPoint.x);
-    const height = Math.abs(endPoint.y - interaction.startPoint.y);
-
-    const isClick = width < 5 && height < 5;
-    if (interaction.creatingType !== 'text' && isClick) {
+    const newElement = interaction.creatingType === 'connector'
+      ? ConnectorManager.createFromDrag(this.state.elements, interaction.startPoint, endPoint, this.spatialIndex)
+      : ElementManager.createFromDrag(interaction.creatingType, interaction.startPoint, endPoint);
+    if (!newElement) {
       this.setState({ interaction: initialInteraction });
       return null;
     }
 
-    const newElement: Omit<Element, 'id' | 'zIndex'> = {
-      type: interaction.creatingType,
-      x: isClick ? interaction.startPoint.x : x,
-      y: isClick ? interaction.startPoint.y : y,
-      width: isClick ? (interaction.creatingType === 'text' ? 10 : width) : width,
-      height: isClick ? (interaction.creatingType === 'text' ? 30 : height) : height,
-      style: {
-        fill: interaction.creatingType === 'frame' ? 'rgba(255, 255, 255, 1)' : '#c9c9c9ff',
-        stroke: interaction.creatingType === 'frame' ? '#e0e0e0' : undefined,
-        strokeWidth: 1,
-        borderRadius: 2,
-        fontSize: interaction.creatingType === 'text' ? 24 : undefined,
-      },
-      fixedWidth: interaction.creatingType === 'text' ? false : undefined,
-    };
-
     const id = this.addElement(newElement);
-    const element = this.state.elements.find((el) => el.id === id);
+    const element = ElementStore.of(this.state.elements).get(id);
+    if (!element) {
+      this.setState({ interaction: initialInteraction });
+      return null;
+    }
 
     this.setState({
       interaction: {
@@ -499,6 +1158,16 @@ export class EditorEngine {
     return element || null;
   }
 
+  /**
+   * 由手绘笔画创建 path 元素，手绘工具保持激活以便连续绘制
+   * @param samples 指针采样点（世界坐标）
+   */
+  public addPath(samples: PathPoint[]): string | null {
+    const tolerance = EDITOR_CONFIG.DRAW.SIMPLIFY_TOLERANCE / this.state.viewport.zoom;
+    const element = ElementManager.createFromStroke(samples, tolerance);
+    return element ? this.addElement(element) || null : null;
+  }
+
   public consumeSelectionEvent(): MouseEvent | TouchEvent | null {
     const { lastSelectionEvent } = this.state;
     if (lastSelectionEvent) {
@@ -566,23 +1235,40 @@ export class EditorEngine {
   public exportData(): EditorDataExport {
     const { viewport, elements } = this.state;
     return {
-      version: '1.0.0',
+      version: SCHEMA_VERSION,
       viewport,
       elements,
     };
   }
 
-  public importData(data: EditorDataExport) {
-    if (data.version) {
-      this.setState({
-        viewport: data.viewport || initialViewport,
-        elements: data.elements || [],
-        selectedIds: [],
-        interaction: initialInteraction,
-        hoverFrameId: null,
-        lastSelectionEvent: null,
-      });
+  /**
+   * 导入数据：先将旧版本文档迁移到当前版本，再校验结构
+   * 校验失败时不会修改当前文档，错误与应用过的迁移通过返回值给出
+   */
+  public importData(data: unknown): ImportResult {
+    const migration = MigrationManager.migrate(data);
+    const result: ImportResult = {
+      ...(migration.data ? SchemaManager.validate(migration.data) : { valid: false, errors: migration.errors }),
+      migrations: migration.applied,
+    };
+
+    if (!migration.data || !result.valid) {
+      console.error(`[Import] Invalid document:\n${SchemaManager.formatErrors(result.errors)}`);
+      return result;
     }
+
+    this.history.clear();
+    this.restoreState({
+      viewport: migration.data.viewport,
+      elements: migration.data.elements,
+      selectedIds: [],
+      interaction: initialInteraction,
+      hoverFrameId: null,
+      textSelection: null,
+      activeGroupId: null,
+      lastSelectionEvent: null,
+    });
+    return result;
   }
 
   // ========== 字体管理 (Fonts) ==========
@@ -0,0 +1,195 @@
+/**
+ * 元素操作的微基准测试
+ *
+ * 在 1k / 10k / 50k 个元素的文档上测量常用操作的单次耗时（毫秒），
+ * 带「线性扫描」的行是改用 ElementStore 之前的写法，作为对照。
+ *
+ * 运行：npm run bench
+ */
+import type { Element } from '../types';
+import { EditorEngine } from '../EditorEngine';
+import { ElementManager } from '../modules/ElementManager';
+import { ElementStore } from '../modules/ElementStore';
+import { SpatialIndex } from '../modules/SpatialIndex';
+import { findElementAtPoint } from '../utils';
+
+const SIZES = [1_000, 10_000, 50_000];
+/** 每个操作至少运行的时长（毫秒） */
+const MIN_DURATION = 200;
+/** 每个操作最多运行的次数 */
+const MAX_ITERATIONS = 1_000;
+/** 每个 Frame 中的子元素数量 */
+const FRAME_SIZE = 50;
+/** 多选操作的元素数量 */
+const SELECTION_SIZE = 500;
+
+/**
+ * 生成测试文档：元素按网格排列，每 FRAME_SIZE 个元素放入一个 Frame
+ */
+function createElements(count: number): Element[] {
+  const elements: Element[] = [];
+  const frameCount = Math.ceil(count / (FRAME_SIZE + 1));
+  const columns = Math.ceil(Math.sqrt(frameCount));
+
+  for (let f = 0; f < frameCount && elements.length < count; f++) {
+    const frameId = `frame-${f}`;
+    const children: string[] = [];
+    const frameIndex = elements.length;
+    elements.push({
+      id: frameId,
+      type: 'frame',
+      x: (f % columns) * 1200,
+      y: Math.floor(f / columns) * 1200,
+      width: 1000,
+      height: 1000,
+      zIndex: -f - 1,
+      children,
+    });
+
+    for (let i = 0; i < FRAME_SIZE && elements.length < count; i++) {
+      const id = `el-${f}-${i}`;
+      children.push(id);
+      elements.push({
+        id,
+        type: i % 5 === 0 ? 'text' : 'rectangle',
+        x: (i % 7) * 140,
+        y: Math.floor(i / 7) * 120,
+        width: 100,
+        height: 80,
+        zIndex: elements.length,
+        parentId: frameId,
+        content: i % 5 === 0 ? 'Text' : undefined,
+      });
+    }
+    elements[frameIndex] = { ...elements[frameIndex], children };
+  }
+
+  return elements;
+}
+
+/**
+ * 重复执行直到达到最短时长，返回平均单次耗时
+ * @param maxIterations 最多运行的次数（例如删除操作不能超过可删除的元素数量）
+ */
+function measure(fn: (i: number) => void, maxIterations = MAX_ITERATIONS): number {
+  let iterations = 0;
+  const start = performance.now();
+  while (iterations < maxIterations && (iterations === 0 || performance.now() - start < MIN_DURATION)) {
+    fn(iterations++);
+  }
+  return (performance.now() - start) / iterations;
+}
+
+type Case = { name: string, run: (elements: Element[]) => number };
+
+const CASES: Case[] = [
+  {
+    name: '按 ID 查找（线性扫描）',
+    run: elements => measure(i => elements.find(el => el.id === elements[(i * 7919) % elements.length].id)),
+  },
+  {
+    name: '按 ID 查找（ElementStore）',
+    run: elements => measure(i => ElementStore.of(elements).get(elements[(i * 7919) % elements.length].id)),
+  },
+  {
+    name: `移动 ${SELECTION_SIZE} 个元素（线性扫描）`,
+    run: elements => {
+      const ids = elements.slice(-SELECTION_SIZE).map(el => el.id);
+      return measure(() => elements.map(el => ids.includes(el.id) ? { ...el, x: el.x + 1, y: el.y + 1 } : el));
+    },
+  },
+  {
+    name: `移动 ${SELECTION_SIZE} 个元素（ElementManager）`,
+    run: elements => {
+      const ids = elements.slice(-SELECTION_SIZE).map(el => el.id);
+      return measure(() => ElementManager.moveElements(elements, ids, 1, 1));
+    },
+  },
+  {
+    name: '查找 Frame 子元素（线性扫描）',
+    run: elements => measure(i => elements
+      .filter(el => el.parentId === `frame-${i % 10}`)
+      .sort((a, b) => a.zIndex - b.zIndex)),
+  },
+  {
+    name: '查找 Frame 子元素（ElementStore）',
+    run: elements => measure(i => ElementStore.of(elements).getChildren(`frame-${i % 10}`)),
+  },
+  {
+    name: '引擎：更新单个元素',
+    run: elements => {
+      const engine = new EditorEngine({ elements });
+      const id = elements[elements.length - 1].id;
+      return measure(i => engine.updateElement(id, { x: i }));
+    },
+  },
+  {
+    name: `引擎：移动 ${SELECTION_SIZE} 个元素`,
+    run: elements => {
+      const engine = new EditorEngine({ elements });
+      const ids = elements.slice(-SELECTION_SIZE).map(el => el.id);
+      return measure(() => engine.moveElements(ids, 1, 1));
+    },
+  },
+  {
+    name: '引擎：拖拽进入其他 Frame',
+    run: elements => {
+      const engine = new EditorEngine({ elements });
+      const id = elements[1].id;
+      return measure(i => {
+        const frame = engine.getElementWorldBounds(i % 2 === 0 ? 'frame-1' : 'frame-0');
+        const mouse = { x: frame.x + 500, y: frame.y + 990 };
+        const pos = engine.getElementWorldPos(id);
+        engine.handleDrag([id], [mouse.x - 50 - pos.x, mouse.y - 40 - pos.y], mouse);
+      });
+    },
+  },
+  {
+    name: '引擎：置于顶层',
+    run: elements => {
+      const engine = new EditorEngine({ elements });
+      return measure(i => engine.reorderElements([`el-0-${i % FRAME_SIZE}`], 'front'));
+    },
+  },
+  {
+    name: '引擎：添加元素',
+    run: elements => {
+      const engine = new EditorEngine({ elements });
+      return measure(i => engine.addElement({ type: 'rectangle', x: i, y: -200, width: 100, height: 80 }));
+    },
+  },
+  {
+    name: '引擎：删除 Frame（含子元素）',
+    run: elements => {
+      const engine = new EditorEngine({ elements });
+      const frames = elements.filter(el => el.type === 'frame');
+      return measure(i => engine.deleteElements([frames[i].id]), frames.length);
+    },
+  },
+  {
+    name: '点选命中（空间索引）',
+    run: elements => {
+      const index = new SpatialIndex();
+      ElementManager.updateSpatialIndex(index, [], elements);
+      return measure(i => findElementAtPoint(elements, { x: (i * 37) % 5000, y: (i * 53) % 5000 }, undefined, index));
+    },
+  },
+];
+
+function run() {
+  const datasets = SIZES.map(createElements);
+  const table: Record<string, Record<string, string>> = {};
+
+  CASES.forEach(({ name, run: runCase }) => {
+    const row: Record<string, string> = {};
+    datasets.forEach((elements, i) => {
+      row[`${SIZES[i] / 1000}k`] = runCase(elements).toFixed(4);
+    });
+    table[name] = row;
+    console.log(`${name}: ${Object.entries(row).map(([size, ms]) => `${size} ${ms}ms`).join(', ')}`);
+  });
+
+  console.table(table);
+}
+
+run();
@@ -1,2 +1,15 @@
 export * from './EditorEngine';
-export type { Element, ElementType, Point, Viewport, InteractionState, Bounds, ToolType, ElementStyle } from './types';
+export type { Element, ElementType, BuiltinElementType, Point, PathPoint, Viewport, InteractionState, Bounds, ToolType, BuiltinToolType, ElementStyle, TextSpan, TextSpanStyle, TextSelection, ArrowheadType, ConnectorAnchor, ConnectorBinding, ConnectorRouting, ReorderAction, AlignType, AlignReference, DistributeAxis, FrameLayout, HorizontalConstraint, VerticalConstraint, ElementConstraints, SchemaError, SchemaValidationResult, ImportResult } from './types';
+export { MigrationManager, SCHEMA_VERSION, compareVersions } from './modules/MigrationManager';
+export type { Migration, MigrationResult, VersionedDocument } from './modules/MigrationManager';
+export { SchemaManager } from './modules/SchemaManager';
+export { SpatialIndex } from './modules/SpatialIndex';
+export { ElementStore } from './modules/ElementStore';
+export { CommandManager, CommandRecorder } from './modules/CommandManager';
+export type { CommandParam, CommandDefinition, CommandResult, CommandInvocation, CommandLogEntry, ScriptParseResult } from './modules/CommandManager';
+export type { NearestOptions } from './modules/SpatialIndex';
+export { PluginManager } from './modules/PluginManager';
+export type { EditorPlugin, PluginElementProps, PluginToolbarProps, PluginTool, PluginDefaultProps } from './modules/PluginManager';
+export type { EditorEventMap, EditorEventName, EditorEventHandler, EditorBeforeHookMap, EditorBeforeHookName, ElementDiff } from './modules/EventManager';
+export { PatchManager } from './modules/PatchManager';
+export type { DocumentPatch, ElementFieldPatch, PatchApplyResult } from './modules/PatchManager';
@@ -0,0 +1,118 @@
+import type { Element, Bounds, AlignType, AlignReference, DistributeAxis } from '../types';
+import { getElementWorldBounds, getElementWorldRotation, getTopLevelIds } from '../utils';
+import { getBoundingBox, rotatePoint } from '../../../utils/geometry';
+import { ElementStore } from './ElementStore';
+
+const HORIZONTAL: AlignType[] = ['left', 'center', 'right'];
+
+/**
+ * 计算让 bounds 按 alignment 对齐到 target 所需的世界坐标偏移
+ */
+function getAlignOffset(bounds: Bounds, target: Bounds, alignment: AlignType): number {
+  switch (alignment) {
+    case 'left': return target.x - bounds.x;
+    case 'center': return target.x + target.width / 2 - (bounds.x + bounds.width / 2);
+    case 'right': return target.x + target.width - (bounds.x + bounds.width);
+    case 'top': return target.y - bounds.y;
+    case 'middle': return target.y + target.height / 2 - (bounds.y + bounds.height / 2);
+    case 'bottom': return target.y + target.height - (bounds.y + bounds.height);
+  }
+}
+
+/**
+ * AlignManager - 对齐与分布
+ *
+ * 在世界坐标中计算（使用考虑旋转的包围盒），因此位于不同 Frame 中的元素也能互相对齐；
+ * 偏移量再换算回各自父级的局部坐标系。只处理顶层元素，子元素随父级移动；连接线由绑定决定位置，不参与。
+ */
+export class AlignManager {
+  public static align(elements: Element[], ids: string[], alignment: AlignType, reference: AlignReference = 'selection'): Element[] {
+    const targetIds = AlignManager.getTargetIds(elements, ids);
+    const keyId = typeof reference === 'object' ? reference.keyId : null;
+    const store = ElementStore.of(elements);
+    if (keyId && !store.has(keyId)) return elements;
+    if (targetIds.length === 0 || (reference !== 'parent' && targetIds.length + (keyId && !targetIds.includes(keyId) ? 1 : 0) < 2)) {
+      return elements;
+    }
+
+    const boundsMap = new Map(targetIds.map(id => [id, getElementWorldBounds(elements, id)]));
+    const selectionBounds = getBoundingBox([...boundsMap.values()])!;
+    const keyBounds = keyId ? getElementWorldBounds(elements, keyId) : null;
+
+    const offsets = new Map<string, { x: number, y: number }>();
+    targetIds.forEach(id => {
+      if (id === keyId) return;
+      const element = store.get(id)!;
+
+      let target = keyBounds || selectionBounds;
+      if (reference === 'parent' && element.parentId) {
+        target = getElementWorldBounds(elements, element.parentId);
+      }
+
+      const offset = getAlignOffset(boundsMap.get(id)!, target, alignment);
+      if (offset === 0) return;
+      offsets.set(id, HORIZONTAL.includes(alignment) ? { x: offset, y: 0 } : { x: 0, y: offset });
+    });
+
+    return AlignManager.translate(elements, offsets);
+  }
+
+  /**
+   * 等间距分布：保持两端元素不动，使相邻元素之间的间隙相等（至少需要 3 个元素）
+   */
+  public static distribute(elements: Element[], ids: string[], axis: DistributeAxis): Element[] {
+    const targetIds = AlignManager.getTargetIds(elements, ids);
+    if (targetIds.length < 3) return elements;
+
+    const isHorizontal = axis === 'horizontal';
+    const start = (b: Bounds) => isHorizontal ? b.x : b.y;
+    const size = (b: Bounds) => isHorizontal ? b.width : b.height;
+
+    const items = targetIds
+      .map(id => ({ id, bounds: getElementWorldBounds(elements, id) }))
+      .sort((a, b) => start(a.bounds) - start(b.bounds) || (a.id < b.id ? -1 : 1));
+
+    const first = items[0].bounds;
+    const last = items[items.length - 1].bounds;
+    const span = start(last) + size(last) - start(first);
+    const totalSize = items.reduce((sum, item) => sum + size(item.bounds), 0);
+    const gap = (span - totalSize) / (items.length - 1);
+
+    const offsets = new Map<string, { x: number, y: number }>();
+    let cursor = start(first) + size(first) + gap;
+    items.slice(1, -1).forEach(({ id, bounds }) => {
+      const offset = cursor - start(bounds);
+      if (offset !== 0) offsets.set(id, isHorizontal ? { x: offset, y: 0 } : { x: 0, y: offset });
+      cursor += size(bounds) + gap;
+    });
+
+    return AlignManager.translate(elements, offsets);
+  }
+
+  private static getTargetIds(elements: Element[], ids: string[]): string[] {
+    const store = ElementStore.of(elements);
+    return getTopLevelIds(elements, ids).filter(id => {
+      const el = store.get(id);
+      return !!el && el.type !== 'connector';
+    });
+  }
+
+  /**
+   * 按世界坐标偏移移动元素：父级旋转时将偏移反向旋转到父级的局部坐标系
+   */
+  private static translate(elements: Element[], offsets: Map<string, { x: number, y: number }>): Element[] {
+    if (offsets.size === 0) return elements;
+
+    const store = ElementStore.of(elements);
+    const moved: Element[] = [];
+    offsets.forEach((offset, id) => {
+      const el = store.get(id);
+      if (!el) return;
+
+      const parentRotation = el.parentId ? getElementWorldRotation(elements, el.parentId) : 0;
+      const local = parentRotation ? rotatePoint(offset, { x: 0, y: 0 }, -parentRotation) : offset;
+      moved.push({ ...el, x: el.x + local.x, y: el.y + local.y });
+    });
+    return ElementStore.update(elements, moved);
+  }
+}
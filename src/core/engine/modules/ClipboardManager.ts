@@ -0,0 +1,117 @@
+import type { Element, Point, ConnectorBinding } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { getDescendantIds, getElementWorldPos, getTopLevelIds } from '../utils';
+import { MigrationManager } from './MigrationManager';
+import { SchemaManager } from './SchemaManager';
+
+export class ClipboardManager {
+  /**
+   * 收集选中元素及其全部后代（按原数组顺序）
+   * 顶层元素保留原有的 parentId 与相对坐标
+   */
+  public static collect(elements: Element[], ids: string[]): Element[] {
+    const topLevelIds = getTopLevelIds(elements, ids);
+    const included = new Set([...topLevelIds, ...getDescendantIds(elements, topLevelIds)]);
+    return elements.filter(el => included.has(el.id));
+  }
+
+  /**
+   * 生成剪贴板数据：顶层元素转换为世界坐标并脱离父级，
+   * 以便粘贴到任意文档（包括另一个编辑器标签页）的根画布上
+   */
+  public static toClipboard(elements: Element[], ids: string[]): Element[] {
+    const collected = ClipboardManager.collect(elements, ids);
+    const included = new Set(collected.map(el => el.id));
+
+    return collected.map(el => {
+      if (el.parentId && included.has(el.parentId)) return el;
+      const worldPos = getElementWorldPos(elements, el.id);
+      return { ...el, parentId: undefined, x: worldPos.x, y: worldPos.y };
+    });
+  }
+
+  /**
+   * 解析剪贴板文本，仅接受 EditorDataExport 格式的 JSON
+   * 旧版本数据会先迁移到当前版本；toClipboard 生成的数据父子关系自洽，可以完整校验
+   */
+  public static parse(text: string): Element[] | null {
+    try {
+      const { data } = MigrationManager.migrate(JSON.parse(text));
+      if (!data || !Array.isArray(data.elements) || data.elements.length === 0) {
+        return null;
+      }
+      return SchemaManager.validate(data).valid ? data.elements : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 深拷贝一组元素并插入文档：
+   * - 所有元素（包括 Frame 子元素）分配新的 uuid，并重映射 parentId / children；
+   * - 顶层元素按 offset 偏移；若其父级存在于当前文档则插回父级，否则放到根画布；
+   * - 顶层元素的 zIndex 排在同类元素之上（Frame 排在最底层），保持原有相对顺序。
+   */
+  public static insertClones(
+    elements: Element[],
+    source: Element[],
+    offset: Point
+  ): { ids: string[], elements: Element[] } {
+    const idMap = new Map<string, string>();
+    source.forEach(el => idMap.set(el.id, uuidv4()));
+
+    const existingIds = new Set(elements.map(el => el.id));
+    const isRoot = (el: Element) => !el.parentId || !idMap.has(el.parentId);
+
+    let maxZIndex = elements.reduce((max, el) => Math.max(max, el.zIndex), 0);
+    let minZIndex = elements.reduce((min, el) => Math.min(min, el.zIndex), 0);
+    const rootZIndex = new Map<string, number>();
+    const roots = source.filter(isRoot).sort((a, b) => a.zIndex - b.zIndex);
+    roots.filter(el => el.type !== 'frame').forEach(el => rootZIndex.set(el.id, ++maxZIndex));
+    [...roots].reverse().filter(el => el.type === 'frame').forEach(el => rootZIndex.set(el.id, --minZIndex));
+
+    // 连接线只保留指向同批克隆元素的绑定，避免新连接线被吸回原元素上
+    const remapBinding = (binding: ConnectorBinding | undefined) => {
+      const elementId = binding && idMap.get(binding.elementId);
+      return elementId ? { ...binding!, elementId } : undefined;
+    };
+
+    const clones: Element[] = source.map(original => {
+      const el = original.type === 'connector'
+        ? { ...original, startBinding: remapBinding(original.startBinding), endBinding: remapBinding(original.endBinding) }
+        : original;
+      const id = idMap.get(el.id)!;
+      const children = el.children
+        ?.map(childId => idMap.get(childId))
+        .filter((childId): childId is string => !!childId);
+
+      if (!isRoot(el)) {
+        return { ...el, id, parentId: idMap.get(el.parentId!), children };
+      }
+
+      const parentId = el.parentId && existingIds.has(el.parentId) ? el.parentId : undefined;
+      return {
+        ...el,
+        id,
+        parentId,
+        children,
+        x: el.x + offset.x,
+        y: el.y + offset.y,
+        zIndex: rootZIndex.get(el.id)!,
+      };
+    });
+
+    const rootClones = clones.filter((_, index) => isRoot(source[index]));
+    const nextElements = elements.map(el => {
+      const addedChildren = rootClones.filter(clone => clone.parentId === el.id).map(clone => clone.id);
+      return addedChildren.length > 0
+        ? { ...el, children: [...(el.children || []), ...addedChildren] }
+        : el;
+    });
+
+    return {
+      ids: rootClones.map(clone => clone.id),
+      elements: [...nextElements, ...clones],
+    };
+  }
+}
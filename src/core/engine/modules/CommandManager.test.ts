@@ -0,0 +1,174 @@
+import { describe, expect, it, vi } from 'vitest';
+import { EditorEngine } from '../EditorEngine';
+import { CommandManager, CommandRecorder } from './CommandManager';
+
+const rect = { type: 'rectangle', x: 0, y: 0, width: 100, height: 100 };
+
+const SCRIPT = `
+# 新建 Frame 与矩形，并把矩形移入 Frame
+element.create {"type":"frame","x":0,"y":0,"width":400,"height":300}
+element.create {"type":"rectangle","x":500,"y":0,"width":100,"height":100}
+frame.reparent {"id":"$2.id","parentId":"$1.id"}
+selection.align {"ids":["$2.id"],"alignment":"center","reference":"parent"}
+`;
+
+function createdId(engine: EditorEngine, payload: Record<string, unknown> = rect): string {
+  const { ok, result } = engine.execute('element.create', payload);
+  expect(ok).toBe(true);
+  return (result as { id: string }).id;
+}
+
+describe('CommandManager.execute', () => {
+  it('rejects unknown commands and non-object payloads', () => {
+    const engine = new EditorEngine();
+
+    expect(engine.execute('element.explode', {})).toEqual({
+      ok: false,
+      errors: [{ path: 'command', message: 'Unknown command "element.explode"' }],
+    });
+    expect(CommandManager.execute(engine, 'element.create', [rect]).errors).toEqual([
+      { path: 'payload', message: 'payload must be an object' },
+    ]);
+  });
+
+  it('reports every invalid parameter with its path and leaves the document unchanged', () => {
+    const engine = new EditorEngine();
+    const id = createdId(engine);
+    const elements = engine.getState().elements;
+
+    const { ok, errors } = engine.execute('element.move', { ids: [id, 'missing'], dx: '10', extra: true });
+    expect(ok).toBe(false);
+    expect(errors.map(error => error.path).sort()).toEqual(['payload.dx', 'payload.dy', 'payload.extra', 'payload.ids[1]']);
+    expect(errors.find(error => error.path === 'payload.ids[1]')).toMatchObject({ elementId: 'missing' });
+    expect(engine.getState().elements).toBe(elements);
+  });
+
+  it('checks element types and command-specific rules', () => {
+    const engine = new EditorEngine();
+    const frame = createdId(engine, { ...rect, type: 'frame' });
+    const other = createdId(engine, { ...rect, type: 'frame', x: 200 });
+    const child = createdId(engine, { ...rect, parentId: frame });
+
+    expect(engine.execute('frame.reparent', { id: frame, parentId: child }).errors[0]).toMatchObject({
+      path: 'payload.parentId',
+      elementId: child,
+    });
+    expect(engine.execute('frame.reparent', { id: frame, parentId: other }).errors).toEqual([
+      { path: 'payload.parentId', message: 'Frames cannot be nested' },
+    ]);
+    expect(engine.execute('element.update', { id: child, updates: { id: 'renamed' } }).ok).toBe(false);
+    expect(engine.getElement(child)!.parentId).toBe(frame);
+  });
+
+  it('rejects links that are not http, https or mailto URLs', () => {
+    const engine = new EditorEngine();
+    const id = createdId(engine, { ...rect, type: 'text', props: { content: 'hello' } });
+
+    expect(engine.execute('text.style', { id, start: 0, end: 5, link: 'javascript:alert(1)' }).errors).toEqual([
+      { path: 'payload.link', message: 'link must be an http, https or mailto URL' },
+    ]);
+    expect(engine.execute('element.update', {
+      id,
+      updates: { richText: [{ text: 'hello', link: 'data:text/html,<script>alert(1)</script>' }] },
+    }).errors[0]).toMatchObject({ path: 'payload.updates.richText[0].link' });
+    expect(engine.execute('text.style', { id, start: 0, end: 5, link: 'mailto:team@example.com' }).ok).toBe(true);
+    expect(engine.getElement(id)!.richText).toEqual([{ text: 'hello', link: 'mailto:team@example.com' }]);
+  });
+
+  it('merges all changes of one command into a single undo step', () => {
+    const engine = new EditorEngine();
+    const a = createdId(engine);
+    const b = createdId(engine, { ...rect, x: 200 });
+
+    expect(engine.execute('element.move', { ids: [a, b], dx: 10, dy: 20 }).ok).toBe(true);
+    expect(engine.getElement(b)).toMatchObject({ x: 210, y: 20 });
+
+    expect(engine.execute('history.undo').ok).toBe(true);
+    expect(engine.getElement(a)).toMatchObject({ x: 0, y: 0 });
+    expect(engine.getElement(b)).toMatchObject({ x: 200, y: 0 });
+
+    engine.execute('history.redo');
+    expect(engine.getElement(a)).toMatchObject({ x: 10, y: 20 });
+
+    engine.execute('history.undo');
+    engine.execute('history.undo');
+    expect(engine.getElement(b)).toBeUndefined();
+  });
+
+  it('reports applied migrations of an imported document without logging', () => {
+    const engine = new EditorEngine();
+    const log = vi.spyOn(console, 'log');
+    const data = {
+      version: '1.0.0',
+      viewport: { x: 0, y: 0, zoom: 1 },
+      elements: [{ ...rect, id: 'a', zIndex: 0, rotation: -90 }],
+    };
+
+    expect(engine.execute('document.import', { data })).toEqual({
+      ok: true,
+      result: { migrations: ['1.0.0 -> 1.1.0'] },
+      errors: [],
+    });
+    expect(engine.getElement('a')!.rotation).toBe(270);
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+  });
+});
+
+describe('CommandManager.runScript', () => {
+  it('resolves $n references to the results of earlier commands', () => {
+    const engine = new EditorEngine();
+    const { script, errors } = CommandManager.parseScript(SCRIPT);
+    expect(errors).toEqual([]);
+
+    const results = engine.runScript(script);
+    expect(results.map(result => result.ok)).toEqual([true, true, true, true]);
+
+    const frameId = (results[0].result as { id: string }).id;
+    const rectId = (results[1].result as { id: string }).id;
+    expect(engine.getElement(rectId)).toMatchObject({ parentId: frameId, x: 150, y: 0 });
+    expect(engine.getElement(frameId)!.children).toEqual([rectId]);
+  });
+
+  it('stops at the first failing command unless told to continue', () => {
+    const engine = new EditorEngine();
+    const script = [
+      { command: 'element.create', payload: rect },
+      { command: 'element.move', payload: { ids: ['$3.id'], dx: 10, dy: 10 } },
+      { command: 'element.update', payload: { id: '$1.id', updates: { name: 'Box' } } },
+    ];
+
+    const stopped = engine.runScript(script);
+    expect(stopped).toHaveLength(2);
+    expect(stopped[1]).toEqual({
+      ok: false,
+      errors: [{ path: 'payload.ids[0]', message: 'Cannot resolve reference $3.id' }],
+    });
+
+    const continued = new EditorEngine().runScript(script, { stopOnError: false });
+    expect(continued.map(result => result.ok)).toEqual([true, false, true]);
+  });
+
+  it('reports script lines that are not valid JSON objects', () => {
+    const { script, errors } = CommandManager.parseScript('element.delete\nelement.move {"dx":1\nselection.set [1]');
+    expect(script).toEqual([{ command: 'element.delete' }]);
+    expect(errors.map(error => error.path)).toEqual(['line 2', 'line 3']);
+  });
+
+  it('replays a recorded script with references to newly created elements', () => {
+    const engine = new EditorEngine();
+    const recorder = new CommandRecorder();
+    engine.subscribeCommands(entry => recorder.record(entry));
+    engine.runScript(CommandManager.parseScript(SCRIPT).script);
+    engine.execute('element.move', { ids: ['missing'], dx: 1, dy: 1 });
+
+    const recorded = recorder.getScript();
+    expect(recorded).toHaveLength(4);
+    expect(recorded[2].payload).toMatchObject({ id: '$2.id', parentId: '$1.id' });
+
+    const replay = new EditorEngine();
+    expect(replay.runScript(recorded).every(result => result.ok)).toBe(true);
+    const strip = (e: EditorEngine) => e.getState().elements.map(({ type, x, y, width, height }) => ({ type, x, y, width, height }));
+    expect(strip(replay)).toEqual(strip(engine));
+  });
+});
@@ -0,0 +1,756 @@
+import type {
+  Element,
+  ElementType,
+  AlignType,
+  DistributeAxis,
+  ReorderAction,
+  FrameLayout,
+  ElementConstraints,
+  HorizontalConstraint,
+  VerticalConstraint,
+  SchemaError,
+  TextSpanStyle,
+} from '../types';
+import type { EditorEngine } from '../EditorEngine';
+import { SchemaManager } from './SchemaManager';
+import { MigrationManager, SCHEMA_VERSION } from './MigrationManager';
+import { ElementStore } from './ElementStore';
+import { PluginManager } from './PluginManager';
+import { isSafeLink } from '../../utils/richTextUtils';
+
+/**
+ * 命令参数说明，用于校验与控制台帮助
+ * - elementId / elementIds：必须是当前文档中存在的元素 ID（elementIds 为非空数组）
+ */
+export interface CommandParam {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'elementId' | 'elementIds';
+  description: string;
+  optional?: boolean;
+  /** 允许传入 null */
+  nullable?: boolean;
+  /** string 类型的可选值 */
+  values?: readonly string[];
+  /** elementId / elementIds 限定的元素类型 */
+  elementTypes?: readonly ElementType[];
+}
+
+/**
+ * 命令定义
+ *
+ * payload 为 JSON 对象，先按 params 检查类型与引用，再调用 validate 做额外校验，全部通过后才执行 run。
+ * run 的返回值作为结果（需可 JSON 序列化）；新建元素的命令以 id / ids 返回新元素 ID，录制脚本时据此生成引用。
+ */
+export interface CommandDefinition<P = Record<string, unknown>> {
+  /** 命令名，形如 element.create */
+  name: string;
+  description: string;
+  params: Record<string, CommandParam>;
+  validate?(payload: P, engine: EditorEngine): SchemaError[];
+  run(payload: P, engine: EditorEngine): unknown;
+  /** 是否合并为一条历史记录执行，默认 true；撤销 / 重做需关闭 */
+  batch?: boolean;
+}
+
+export interface CommandResult {
+  ok: boolean;
+  result?: unknown;
+  /** 校验或执行失败的原因，path 相对于命令（如 payload.ids[0]） */
+  errors: SchemaError[];
+}
+
+/** 脚本中的一条命令 */
+export interface CommandInvocation {
+  command: string;
+  payload?: Record<string, unknown>;
+}
+
+/** 一次已执行的命令及其结果 */
+export interface CommandLogEntry extends CommandInvocation {
+  result: CommandResult;
+}
+
+export interface ScriptParseResult {
+  script: CommandInvocation[];
+  errors: SchemaError[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const CONTAINER_TYPES: ElementType[] = ['frame', 'group'];
+const ALIGN_TYPES: AlignType[] = ['left', 'center', 'right', 'top', 'middle', 'bottom'];
+const DISTRIBUTE_AXES: DistributeAxis[] = ['horizontal', 'vertical'];
+const REORDER_ACTIONS = ['front', 'back', 'forward', 'backward'] as const;
+const HORIZONTAL_CONSTRAINTS: HorizontalConstraint[] = ['left', 'right', 'left-right', 'center', 'scale'];
+const VERTICAL_CONSTRAINTS: VerticalConstraint[] = ['top', 'bottom', 'top-bottom', 'center', 'scale'];
+const TEXT_STYLE_KEYS = ['bold', 'italic', 'underline', 'color', 'fontSize', 'link'] as const;
+
+/** 不能通过 element.create / element.update 直接修改的字段（层级与顺序由专门的命令维护） */
+const RESERVED_FIELDS: Partial<Record<keyof Element, string>> = {
+  id: 'id cannot be changed',
+  zIndex: 'use element.reorder to change the stacking order',
+  parentId: 'use frame.reparent to change the parent',
+  children: 'use frame.reparent to change the children',
+};
+
+/** 脚本中引用前面命令结果的写法：$2.id、$3.ids.0（序号从 1 开始） */
+const REFERENCE_PATTERN = /^\$(\d+)((?:\.\w+)*)$/;
+
+/**
+ * 用 SchemaManager 校验单个元素的字段（不检查父子引用），并把错误路径映射到 payload 中
+ */
+function validateElementFields(candidate: UnknownRecord, mapPath: (field: string) => string): SchemaError[] {
+  const { errors } = SchemaManager.validate({
+    version: SCHEMA_VERSION,
+    viewport: { x: 0, y: 0, zoom: 1 },
+    elements: [{ ...candidate, parentId: undefined, children: undefined }],
+  });
+  return errors.map(error => ({ path: mapPath(error.path.replace(/^elements\[0\]\.?/, '')), message: error.message }));
+}
+
+function checkReservedFields(fields: UnknownRecord, path: string): SchemaError[] {
+  return Object.keys(fields)
+    .filter(key => key in RESERVED_FIELDS)
+    .map(key => ({ path: `${path}.${key}`, message: RESERVED_FIELDS[key as keyof Element]! }));
+}
+
+/**
+ * 未传 ids 时作用于当前选区
+ */
+function getTargetIds(payload: { ids?: string[] }, engine: EditorEngine): string[] {
+  return payload.ids ?? engine.getState().selectedIds;
+}
+
+function requireTargets(payload: { ids?: string[] }, engine: EditorEngine): SchemaError[] {
+  return getTargetIds(payload, engine).length > 0
+    ? []
+    : [{ path: 'payload.ids', message: 'ids is required when nothing is selected' }];
+}
+
+const TARGET_IDS: CommandParam = {
+  type: 'elementIds',
+  description: '目标元素，默认为当前选区',
+  optional: true,
+};
+
+/**
+ * 定义命令并保留 payload 类型
+ */
+function defineCommand<P>(definition: CommandDefinition<P>): CommandDefinition {
+  return definition as CommandDefinition;
+}
+
+const BUILTIN_COMMANDS: CommandDefinition[] = [
+  // ========== 元素 ==========
+  defineCommand<{ type: ElementType, x: number, y: number, width: number, height: number, parentId?: string, props?: UnknownRecord }>({
+    name: 'element.create',
+    description: '创建元素，坐标相对于父级（未指定父级时为世界坐标）',
+    params: {
+      type: { type: 'string', description: '元素类型（内置类型或插件注册的类型）' },
+      x: { type: 'number', description: 'X 坐标' },
+      y: { type: 'number', description: 'Y 坐标' },
+      width: { type: 'number', description: '宽度' },
+      height: { type: 'number', description: '高度' },
+      parentId: { type: 'elementId', description: '父级 Frame / 组', optional: true, elementTypes: CONTAINER_TYPES },
+      props: { type: 'object', description: '其他元素字段，如 style、content、name、points', optional: true },
+    },
+    validate: ({ props = {}, ...fields }) => [
+      ...checkReservedFields(props, 'payload.props'),
+      ...validateElementFields({ ...PluginManager.get(fields.type)?.defaultProps, ...props, ...fields, id: 'new', zIndex: 0 }, field => {
+        const key = field.split(/[.[]/)[0];
+        return key in fields || key === '' ? `payload.${field}` : `payload.props.${field}`;
+      }),
+    ],
+    // 插件类型先应用插件的默认字段
+    run: ({ props, ...fields }, engine) => {
+      const id = engine.addElement({ ...PluginManager.get(fields.type)?.defaultProps, ...props, ...fields });
+      if (!id) throw new Error('Cancelled by a before hook');
+      return { id };
+    },
+  }),
+  defineCommand<{ id: string, updates: UnknownRecord }>({
+    name: 'element.update',
+    description: '修改元素字段（位置、尺寸、样式、内容等）',
+    params: {
+      id: { type: 'elementId', description: '目标元素' },
+      updates: { type: 'object', description: '要修改的字段' },
+    },
+    validate: ({ id, updates }, engine) => [
+      ...checkReservedFields(updates, 'payload.updates'),
+      ...validateElementFields({ ...engine.getElement(id), ...updates, id, zIndex: 0 }, field => `payload.updates.${field}`),
+    ],
+    run: ({ id, updates }, engine) => engine.updateElement(id, updates),
+  }),
+  defineCommand<{ ids?: string[] }>({
+    name: 'element.delete',
+    description: '删除元素（包含子元素）',
+    params: { ids: TARGET_IDS },
+    validate: requireTargets,
+    run: (payload, engine) => engine.deleteElements(getTargetIds(payload, engine)),
+  }),
+  defineCommand<{ ids?: string[], dx: number, dy: number }>({
+    name: 'element.move',
+    description: '平移元素',
+    params: {
+      ids: TARGET_IDS,
+      dx: { type: 'number', description: '水平位移' },
+      dy: { type: 'number', description: '垂直位移' },
+    },
+    validate: requireTargets,
+    run: (payload, engine) => engine.moveElements(getTargetIds(payload, engine), payload.dx, payload.dy),
+  }),
+  defineCommand<{ ids?: string[], rotation: number }>({
+    name: 'element.rotate',
+    description: '设置旋转角度（度）',
+    params: {
+      ids: TARGET_IDS,
+      rotation: { type: 'number', description: '旋转角度，自动归一化到 [0, 360)' },
+    },
+    validate: requireTargets,
+    run: (payload, engine) => engine.setRotation(getTargetIds(payload, engine), payload.rotation),
+  }),
+  defineCommand<{ ids?: string[], action?: typeof REORDER_ACTIONS[number], index?: number }>({
+    name: 'element.reorder',
+    description: '调整同级元素的层级顺序',
+    params: {
+      ids: TARGET_IDS,
+      action: { type: 'string', description: '移到顶层 / 底层 / 上移一层 / 下移一层', optional: true, values: REORDER_ACTIONS },
+      index: { type: 'number', description: '在同级元素中的位置（从底层开始，不含自身）', optional: true },
+    },
+    validate: (payload, engine) => [
+      ...requireTargets(payload, engine),
+      ...((payload.action === undefined) === (payload.index === undefined)
+        ? [{ path: 'payload.action', message: 'Exactly one of action and index is required' }]
+        : []),
+    ],
+    run: (payload, engine) => {
+      const action: ReorderAction = payload.action ?? { index: payload.index! };
+      engine.reorderElements(getTargetIds(payload, engine), action);
+    },
+  }),
+  defineCommand<{ id: string, name: string }>({
+    name: 'element.rename',
+    description: '重命名元素，空字符串清除自定义名称',
+    params: {
+      id: { type: 'elementId', description: '目标元素' },
+      name: { type: 'string', description: '新名称' },
+    },
+    run: ({ id, name }, engine) => engine.renameElement(id, name),
+  }),
+  defineCommand<{ ids?: string[], locked: boolean }>({
+    name: 'element.lock',
+    description: '锁定 / 解锁元素',
+    params: {
+      ids: TARGET_IDS,
+      locked: { type: 'boolean', description: '是否锁定' },
+    },
+    validate: requireTargets,
+    run: (payload, engine) => engine.setElementsLocked(getTargetIds(payload, engine), payload.locked),
+  }),
+  defineCommand<{ ids?: string[], visible: boolean }>({
+    name: 'element.visibility',
+    description: '显示 / 隐藏元素',
+    params: {
+      ids: TARGET_IDS,
+      visible: { type: 'boolean', description: '是否显示' },
+    },
+    validate: requireTargets,
+    run: (payload, engine) => engine.setElementsVisible(getTargetIds(payload, engine), payload.visible),
+  }),
+
+  // ========== 文本 ==========
+  defineCommand<{ id: string, start?: number, end?: number, bold?: boolean, italic?: boolean, underline?: boolean, color?: string, fontSize?: number, link?: string | null }>({
+    name: 'text.style',
+    description: '设置文字样式，指定 start / end 时只修改这部分文字',
+    params: {
+      id: { type: 'elementId', description: '目标文本', elementTypes: ['text'] },
+      start: { type: 'number', description: '起始字符位置（包含）', optional: true },
+      end: { type: 'number', description: '结束字符位置（不包含）', optional: true },
+      bold: { type: 'boolean', description: '粗体', optional: true },
+      italic: { type: 'boolean', description: '斜体', optional: true },
+      underline: { type: 'boolean', description: '下划线', optional: true },
+      color: { type: 'string', description: '文字颜色', optional: true },
+      fontSize: { type: 'number', description: '字号', optional: true },
+      link: { type: 'string', description: '链接地址，null 移除链接', optional: true, nullable: true },
+    },
+    validate: (payload, engine) => {
+      const errors: SchemaError[] = [];
+      if (TEXT_STYLE_KEYS.every(key => payload[key] === undefined)) {
+        errors.push({ path: 'payload', message: `At least one of ${TEXT_STYLE_KEYS.join(', ')} is required` });
+      }
+      if (payload.fontSize !== undefined && !(payload.fontSize > 0)) {
+        errors.push({ path: 'payload.fontSize', message: 'fontSize must be greater than 0' });
+      }
+      if (typeof payload.link === 'string' && !isSafeLink(payload.link)) {
+        errors.push({ path: 'payload.link', message: 'link must be an http, https or mailto URL' });
+      }
+      if ((payload.start === undefined) !== (payload.end === undefined)) {
+        errors.push({ path: 'payload.start', message: 'start and end must be given together' });
+      } else if (payload.start !== undefined && payload.end !== undefined) {
+        const length = (engine.getElement(payload.id)?.content || '').length;
+        if (!Number.isInteger(payload.start) || !Number.isInteger(payload.end) || payload.start < 0 || payload.start > payload.end || payload.end > length) {
+          errors.push({ path: 'payload.start', message: `Expected 0 <= start <= end <= ${length}` });
+        }
+      }
+      return errors;
+    },
+    run: ({ id, start, end, ...payload }, engine) => {
+      const style: TextSpanStyle = {};
+      TEXT_STYLE_KEYS.forEach(key => {
+        if (key in payload) Object.assign(style, { [key]: payload[key] ?? undefined });
+      });
+      engine.applyTextStyle(id, style, start !== undefined && end !== undefined ? { start, end } : undefined);
+    },
+  }),
+
+  // ========== 选区 ==========
+  defineCommand<{ ids: string[], additive?: boolean }>({
+    name: 'selection.set',
+    description: '选中元素（锁定或隐藏的元素会被忽略）',
+    params: {
+      ids: { type: 'elementIds', description: '要选中的元素' },
+      additive: { type: 'boolean', description: '是否追加到当前选区', optional: true },
+    },
+    run: ({ ids, additive }, engine) => {
+      engine.selectElements(ids, additive);
+      return { selectedIds: engine.getState().selectedIds };
+    },
+  }),
+  defineCommand<Record<string, never>>({
+    name: 'selection.clear',
+    description: '取消选择',
+    params: {},
+    run: (_, engine) => engine.deselectAll(),
+  }),
+  defineCommand<{ ids?: string[], alignment: AlignType, reference?: string }>({
+    name: 'selection.align',
+    description: '对齐元素（按世界坐标，可跨 Frame）',
+    params: {
+      ids: TARGET_IDS,
+      alignment: { type: 'string', description: '对齐方式', values: ALIGN_TYPES },
+      reference: { type: 'string', description: 'selection（默认）、parent，或作为关键对象的元素 ID', optional: true },
+    },
+    validate: (payload, engine) => {
+      const { reference } = payload;
+      const errors = requireTargets(payload, engine);
+      if (reference !== undefined && reference !== 'selection' && reference !== 'parent' && !engine.getElement(reference)) {
+        errors.push({ path: 'payload.reference', message: `Element "${reference}" does not exist` });
+      }
+      return errors;
+    },
+    run: (payload, engine) => {
+      const { reference = 'selection' } = payload;
+      engine.alignElements(
+        getTargetIds(payload, engine),
+        payload.alignment,
+        reference === 'selection' || reference === 'parent' ? reference : { keyId: reference }
+      );
+    },
+  }),
+  defineCommand<{ ids?: string[], axis: DistributeAxis }>({
+    name: 'selection.distribute',
+    description: '等间距分布元素（至少 3 个）',
+    params: {
+      ids: TARGET_IDS,
+      axis: { type: 'string', description: '分布方向', values: DISTRIBUTE_AXES },
+    },
+    validate: requireTargets,
+    run: (payload, engine) => engine.distributeElements(getTargetIds(payload, engine), payload.axis),
+  }),
+  defineCommand<{ ids?: string[] }>({
+    name: 'selection.group',
+    description: '将元素编组并选中新组',
+    params: { ids: TARGET_IDS },
+    validate: requireTargets,
+    run: (payload, engine) => {
+      if (payload.ids) engine.selectElements(payload.ids);
+      const id = engine.groupSelection();
+      if (!id) throw new Error('Selected elements cannot be grouped');
+      return { id };
+    },
+  }),
+  defineCommand<{ ids?: string[] }>({
+    name: 'selection.ungroup',
+    description: '解散组并选中原组成员',
+    params: { ids: { ...TARGET_IDS, elementTypes: ['group'] } },
+    validate: requireTargets,
+    run: (payload, engine) => {
+      if (payload.ids) engine.selectElements(payload.ids);
+      return { memberIds: engine.ungroupSelection() };
+    },
+  }),
+  defineCommand<{ ids?: string[] }>({
+    name: 'selection.duplicate',
+    description: '原地复制元素并选中副本',
+    params: { ids: TARGET_IDS },
+    validate: requireTargets,
+    run: (payload, engine) => {
+      if (payload.ids) engine.selectElements(payload.ids);
+      return { ids: engine.duplicateSelection() };
+    },
+  }),
+
+  // ========== Frame ==========
+  defineCommand<{ id: string, parentId: string | null, index?: number }>({
+    name: 'frame.reparent',
+    description: '将元素移入 Frame / 组或移到根画布，保持世界坐标不变',
+    params: {
+      id: { type: 'elementId', description: '要移动的元素' },
+      parentId: { type: 'elementId', description: '新的父级，null 为根画布', nullable: true, elementTypes: CONTAINER_TYPES },
+      index: { type: 'number', description: '在新父级的同级元素中的位置，默认放到最上层', optional: true },
+    },
+    validate: ({ id, parentId }, engine) => {
+      if (!parentId) return [];
+      const element = engine.getElement(id)!;
+      const parent = engine.getElement(parentId)!;
+      if (parentId === id || ElementStore.of(engine.getState().elements).getDescendantIds([id]).includes(parentId)) {
+        return [{ path: 'payload.parentId', message: 'An element cannot be moved into itself or its descendants' }];
+      }
+      if (element.type === 'frame' && parent.type === 'frame') {
+        return [{ path: 'payload.parentId', message: 'Frames cannot be nested' }];
+      }
+      return [];
+    },
+    run: ({ id, parentId, index }, engine) => {
+      engine.moveLayer(id, parentId ?? undefined, index ?? Infinity);
+    },
+  }),
+  defineCommand<{ id: string, layout: Partial<FrameLayout> | null }>({
+    name: 'frame.layout',
+    description: '开启 / 调整自动布局，null 关闭',
+    params: {
+      id: { type: 'elementId', description: '目标 Frame', elementTypes: ['frame'] },
+      layout: { type: 'object', description: '{ direction, gap, padding, align, sizing, wrap }', nullable: true },
+    },
+    validate: ({ id, layout }, engine) => {
+      if (!layout) return [];
+      const frame = engine.getElement(id)!;
+      // 未指定的字段由引擎补全默认值，这里只需保证校验能通过
+      const merged = { direction: 'vertical', gap: 0, padding: 0, ...frame.layout, ...layout };
+      return validateElementFields({ ...frame, layout: merged }, field => `payload.${field}`);
+    },
+    run: ({ id, layout }, engine) => engine.setFrameLayout(id, layout),
+  }),
+  defineCommand<{ ids?: string[], horizontal?: HorizontalConstraint, vertical?: VerticalConstraint }>({
+    name: 'frame.constraints',
+    description: '设置 Frame 子元素的约束',
+    params: {
+      ids: TARGET_IDS,
+      horizontal: { type: 'string', description: '水平约束', optional: true, values: HORIZONTAL_CONSTRAINTS },
+      vertical: { type: 'string', description: '垂直约束', optional: true, values: VERTICAL_CONSTRAINTS },
+    },
+    validate: requireTargets,
+    run: (payload, engine) => {
+      const constraints: ElementConstraints = {};
+      if (payload.horizontal) constraints.horizontal = payload.horizontal;
+      if (payload.vertical) constraints.vertical = payload.vertical;
+      engine.setConstraints(getTargetIds(payload, engine), constraints);
+    },
+  }),
+
+  // ========== 历史与文档 ==========
+  defineCommand<Record<string, never>>({
+    name: 'history.undo',
+    description: '撤销',
+    params: {},
+    batch: false,
+    run: (_, engine) => engine.undo(),
+  }),
+  defineCommand<Record<string, never>>({
+    name: 'history.redo',
+    description: '重做',
+    params: {},
+    batch: false,
+    run: (_, engine) => engine.redo(),
+  }),
+  defineCommand<Record<string, never>>({
+    name: 'document.export',
+    description: '导出文档数据',
+    params: {},
+    run: (_, engine) => engine.exportData(),
+  }),
+  defineCommand<{ data: UnknownRecord }>({
+    name: 'document.import',
+    description: '导入文档数据（旧版本自动迁移），替换当前文档',
+    params: {
+      data: { type: 'object', description: 'exportData 导出的文档' },
+    },
+    validate: ({ data }) => {
+      const migrated = MigrationManager.migrate(data);
+      const errors = migrated.data ? SchemaManager.validate(migrated.data).errors : migrated.errors;
+      return errors.map(error => ({ ...error, path: error.path ? `payload.data.${error.path}` : 'payload.data' }));
+    },
+    run: ({ data }, engine) => ({ migrations: engine.importData(data).migrations }),
+  }),
+];
+
+/**
+ * CommandManager - 可序列化的命令层
+ *
+ * 命令以名称 + JSON payload 调用，执行前统一校验，执行结果与错误均为普通对象，
+ * 因此在 Node 中无界面运行与在浏览器中运行的行为一致，也可以整理成脚本重放。
+ * 通过 engine.execute / engine.runScript 调用；业务可通过 register 注册自定义命令。
+ */
+export class CommandManager {
+  private static commands = new Map<string, CommandDefinition>(BUILTIN_COMMANDS.map(command => [command.name, command]));
+
+  /**
+   * 注册命令（同名命令会被覆盖）
+   */
+  public static register<P>(definition: CommandDefinition<P>) {
+    if (CommandManager.commands.has(definition.name)) {
+      console.warn(`[Command] Overriding command ${definition.name}`);
+    }
+    CommandManager.commands.set(definition.name, definition as CommandDefinition);
+  }
+
+  public static get(name: string): CommandDefinition | undefined {
+    return CommandManager.commands.get(name);
+  }
+
+  /**
+   * 已注册的命令，按名称排序
+   */
+  public static getCommands(): CommandDefinition[] {
+    return [...CommandManager.commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 校验 payload（不执行）
+   */
+  public static validate(engine: EditorEngine, name: string, payload: unknown): SchemaError[] {
+    const command = CommandManager.commands.get(name);
+    if (!command) return [{ path: 'command', message: `Unknown command "${name}"` }];
+    if (!isRecord(payload)) return [{ path: 'payload', message: 'payload must be an object' }];
+
+    const errors = CommandManager.validateParams(engine, command.params, payload);
+    return errors.length > 0 || !command.validate ? errors : command.validate(payload, engine);
+  }
+
+  /**
+   * 校验并执行命令；一个命令内的所有修改合并为一条历史记录
+   */
+  public static execute(engine: EditorEngine, name: string, payload: unknown = {}): CommandResult {
+    const errors = CommandManager.validate(engine, name, payload);
+    if (errors.length > 0) return { ok: false, errors };
+
+    const command = CommandManager.commands.get(name)!;
+    try {
+      let result: unknown;
+      const run = () => { result = command.run(payload as UnknownRecord, engine); };
+      if (command.batch === false) run();
+      else engine.transaction(run);
+      return result === undefined ? { ok: true, errors: [] } : { ok: true, result, errors: [] };
+    } catch (error) {
+      console.error(`[Command] ${name} failed:`, error);
+      return { ok: false, errors: [{ path: '', message: error instanceof Error ? error.message : String(error) }] };
+    }
+  }
+
+  /**
+   * 依次执行脚本，payload 中的 $n.path 字符串替换为第 n 条命令结果中的值
+   * @param stopOnError 遇到失败的命令时停止（默认 true）
+   */
+  public static runScript(
+    engine: EditorEngine,
+    script: CommandInvocation[],
+    options: { stopOnError?: boolean } = {}
+  ): CommandResult[] {
+    const { stopOnError = true } = options;
+    const results: CommandResult[] = [];
+
+    for (const step of script) {
+      const errors: SchemaError[] = [];
+      const payload = CommandManager.resolveReferences(step.payload ?? {}, results, 'payload', errors);
+      const result = errors.length > 0 ? { ok: false, errors } : engine.execute(step.command, payload);
+      results.push(result);
+      if (!result.ok && stopOnError) break;
+    }
+    return results;
+  }
+
+  /**
+   * 解析文本脚本：每行一条命令，格式为「命令名 JSON payload」，payload 可省略；空行与 # 开头的行忽略
+   */
+  public static parseScript(text: string): ScriptParseResult {
+    const script: CommandInvocation[] = [];
+    const errors: SchemaError[] = [];
+
+    text.split('\n').forEach((raw, i) => {
+      const line = raw.trim();
+      if (!line || line.startsWith('#')) return;
+
+      const [command] = line.split(/\s/, 1);
+      const rest = line.slice(command.length).trim();
+      if (!rest) {
+        script.push({ command });
+        return;
+      }
+      try {
+        const payload: unknown = JSON.parse(rest);
+        if (!isRecord(payload)) {
+          errors.push({ path: `line ${i + 1}`, message: 'payload must be a JSON object' });
+        } else {
+          script.push({ command, payload });
+        }
+      } catch (error) {
+        errors.push({ path: `line ${i + 1}`, message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` });
+      }
+    });
+
+    return { script, errors };
+  }
+
+  /**
+   * 将脚本格式化为 parseScript 可读取的文本
+   */
+  public static formatScript(script: CommandInvocation[]): string {
+    return script
+      .map(({ command, payload }) => payload && Object.keys(payload).length > 0 ? `${command} ${JSON.stringify(payload)}` : command)
+      .join('\n');
+  }
+
+  private static validateParams(engine: EditorEngine, params: Record<string, CommandParam>, payload: UnknownRecord): SchemaError[] {
+    const errors: SchemaError[] = [];
+    const store = ElementStore.of(engine.getState().elements);
+    const checkElement = (id: unknown, param: CommandParam, path: string) => {
+      if (typeof id !== 'string') {
+        errors.push({ path, message: 'must be an element id' });
+        return;
+      }
+      const element = store.get(id);
+      if (!element) {
+        errors.push({ path, message: `Element "${id}" does not exist`, elementId: id });
+      } else if (param.elementTypes && !param.elementTypes.includes(element.type)) {
+        errors.push({ path, message: `Element "${id}" must be of type ${param.elementTypes.join(' / ')}`, elementId: id });
+      }
+    };
+
+    Object.keys(payload).forEach(key => {
+      if (!(key in params)) errors.push({ path: `payload.${key}`, message: `Unknown parameter "${key}"` });
+    });
+
+    Object.entries(params).forEach(([key, param]) => {
+      const path = `payload.${key}`;
+      const value = payload[key];
+      if (value === undefined) {
+        if (!param.optional) errors.push({ path, message: `${key} is required` });
+        return;
+      }
+      if (value === null) {
+        if (!param.nullable) errors.push({ path, message: `${key} must not be null` });
+        return;
+      }
+
+      switch (param.type) {
+        case 'string':
+          if (typeof value !== 'string') {
+            errors.push({ path, message: `${key} must be a string` });
+          } else if (param.values && !param.values.includes(value)) {
+            errors.push({ path, message: `${key} must be one of ${param.values.join(', ')}` });
+          }
+          break;
+        case 'number':
+          if (typeof value !== 'number' || !Number.isFinite(value)) errors.push({ path, message: `${key} must be a finite number` });
+          break;
+        case 'boolean':
+          if (typeof value !== 'boolean') errors.push({ path, message: `${key} must be a boolean` });
+          break;
+        case 'object':
+          if (!isRecord(value)) errors.push({ path, message: `${key} must be an object` });
+          break;
+        case 'elementId':
+          checkElement(value, param, path);
+          break;
+        case 'elementIds':
+          if (!Array.isArray(value) || value.length === 0) {
+            errors.push({ path, message: `${key} must be a non-empty array of element ids` });
+          } else {
+            value.forEach((id, i) => checkElement(id, param, `${path}[${i}]`));
+          }
+          break;
+      }
+    });
+
+    return errors;
+  }
+
+  private static resolveReferences<T>(value: T, results: CommandResult[], path: string, errors: SchemaError[]): T {
+    if (typeof value === 'string') {
+      const match = REFERENCE_PATTERN.exec(value);
+      if (!match) return value;
+
+      const step = Number(match[1]);
+      let resolved: unknown = results[step - 1]?.result;
+      for (const key of match[2].split('.').slice(1)) {
+        resolved = isRecord(resolved) || Array.isArray(resolved) ? (resolved as UnknownRecord)[key] : undefined;
+      }
+      if (resolved === undefined) {
+        errors.push({ path, message: `Cannot resolve reference ${value}` });
+      }
+      return resolved as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => CommandManager.resolveReferences(item, results, `${path}[${i}]`, errors)) as T;
+    }
+    if (isRecord(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+        [key, CommandManager.resolveReferences(item, results, `${path}.${key}`, errors)]
+      )) as T;
+    }
+    return value;
+  }
+}
+
+/**
+ * CommandRecorder - 将执行过的命令整理为可重放的脚本
+ *
+ * 只记录成功的命令。命令结果中的 id / ids 视为新建元素，之后的 payload 引用这些 ID 时
+ * 改写为 $n.id / $n.ids.i，重放时会指向重放过程中新建的元素。
+ */
+export class CommandRecorder {
+  private script: CommandInvocation[] = [];
+  /** 新建元素 ID -> 引用写法 */
+  private references = new Map<string, string>();
+
+  public get size(): number {
+    return this.script.length;
+  }
+
+  public record(entry: CommandLogEntry) {
+    if (!entry.result.ok) return;
+
+    const payload = entry.payload && this.replaceIds(entry.payload);
+    this.script.push(payload ? { command: entry.command, payload } : { command: entry.command });
+
+    const step = this.script.length;
+    const result = entry.result.result;
+    if (!isRecord(result)) return;
+    if (typeof result.id === 'string') this.references.set(result.id, `$${step}.id`);
+    if (Array.isArray(result.ids)) {
+      result.ids.forEach((id, i) => {
+        if (typeof id === 'string') this.references.set(id, `$${step}.ids.${i}`);
+      });
+    }
+  }
+
+  public getScript(): CommandInvocation[] {
+    return [...this.script];
+  }
+
+  public clear() {
+    this.script = [];
+    this.references.clear();
+  }
+
+  private replaceIds<T>(value: T): T {
+    if (typeof value === 'string') return (this.references.get(value) ?? value) as T;
+    if (Array.isArray(value)) return value.map(item => this.replaceIds(item)) as T;
+    if (isRecord(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.replaceIds(item)])) as T;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,278 @@
+import type { Element, Point, ConnectorAnchor, ConnectorBinding, ConnectorRouting } from '../types';
+import { getElementWorldPos, getElementWorldCenter, getElementWorldRotation, findElementAtPoint } from '../utils';
+import { rotatePoint } from '../../../utils/geometry';
+import type { SpatialIndex } from './SpatialIndex';
+import { ElementStore } from './ElementStore';
+
+/** 拖拽距离小于该值时视为单击，不创建连接线 */
+const CLICK_THRESHOLD = 5;
+/** 折线离开锚点时的最短直线段长度 */
+const ELBOW_STUB = 20;
+/** 曲线控制点与端点的最小距离 */
+const CURVE_MIN_OFFSET = 40;
+
+const ANCHOR_DIRECTIONS: Record<Exclude<ConnectorAnchor, 'center'>, Point> = {
+  top: { x: 0, y: -1 },
+  right: { x: 1, y: 0 },
+  bottom: { x: 0, y: 1 },
+  left: { x: -1, y: 0 },
+};
+
+/**
+ * 连接线可以绑定的元素：排除线类元素与编组（编组的包围盒是派生数据）
+ */
+function isBindable(el: Element): boolean {
+  return !['connector', 'line', 'arrow', 'path', 'group'].includes(el.type);
+}
+
+/**
+ * 锚点的出线方向；center 锚点没有固定方向，取指向另一端的主轴方向
+ */
+function getDirection(anchor: ConnectorAnchor | undefined, from: Point, to: Point): Point {
+  if (anchor && anchor !== 'center') return ANCHOR_DIRECTIONS[anchor];
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  return Math.abs(dx) >= Math.abs(dy)
+    ? { x: Math.sign(dx) || 1, y: 0 }
+    : { x: 0, y: Math.sign(dy) || 1 };
+}
+
+/**
+ * 去除重复点与共线的中间点
+ */
+function compactPolyline(points: Point[]): Point[] {
+  const deduped = points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+  return deduped.filter((p, i) => {
+    if (i === 0 || i === deduped.length - 1) return true;
+    const prev = deduped[i - 1];
+    const next = deduped[i + 1];
+    return (prev.x - p.x) * (next.y - p.y) !== (prev.y - p.y) * (next.x - p.x);
+  });
+}
+
+/**
+ * ConnectorManager - 连接线的绑定与走线
+ *
+ * 连接线的端点可以绑定到其他元素的锚点上。被绑定的元素（或其祖先 Frame）
+ * 移动、缩放、删除后，由 ReconcileManager 调用 reroute 重新计算走线。
+ */
+export class ConnectorManager {
+  /**
+   * 获取元素锚点的世界坐标（锚点随元素旋转）
+   */
+  public static getAnchorPoint(elements: Element[], elementId: string, anchor: ConnectorAnchor): Point | null {
+    const element = ElementStore.of(elements).get(elementId);
+    if (!element) return null;
+
+    const center = getElementWorldCenter(elements, elementId);
+    const halfWidth = element.width / 2;
+    const halfHeight = element.height / 2;
+    let point: Point;
+    switch (anchor) {
+      case 'top': point = { x: center.x, y: center.y - halfHeight }; break;
+      case 'right': point = { x: center.x + halfWidth, y: center.y }; break;
+      case 'bottom': point = { x: center.x, y: center.y + halfHeight }; break;
+      case 'left': point = { x: center.x - halfWidth, y: center.y }; break;
+      default: return center;
+    }
+    return rotatePoint(point, center, getElementWorldRotation(elements, elementId));
+  }
+
+  /**
+   * 查找世界坐标点下可绑定的元素，并返回距离该点最近的锚点
+   */
+  public static findBinding(elements: Element[], point: Point, excludeIds: string[] = [], index?: SpatialIndex): ConnectorBinding | undefined {
+    const target = findElementAtPoint(elements, point, el => isBindable(el) && !excludeIds.includes(el.id), index);
+    if (!target) return undefined;
+
+    const anchors: ConnectorAnchor[] = ['top', 'right', 'bottom', 'left', 'center'];
+    let best: ConnectorAnchor = 'center';
+    let bestDistance = Infinity;
+    anchors.forEach(anchor => {
+      const anchorPoint = ConnectorManager.getAnchorPoint(elements, target.id, anchor)!;
+      const distance = Math.hypot(anchorPoint.x - point.x, anchorPoint.y - point.y);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = anchor;
+      }
+    });
+
+    return { elementId: target.id, anchor: best };
+  }
+
+  /**
+   * 计算两端点之间的走线（世界坐标）
+   * - straight：[起点, 终点]
+   * - elbow：正交折线的顶点
+   * - curved：三次贝塞尔曲线的 [起点, 控制点1, 控制点2, 终点]
+   */
+  public static route(
+    start: Point,
+    end: Point,
+    routing: ConnectorRouting,
+    startAnchor?: ConnectorAnchor,
+    endAnchor?: ConnectorAnchor
+  ): Point[] {
+    const startDir = getDirection(startAnchor, start, end);
+    const endDir = getDirection(endAnchor, end, start);
+
+    switch (routing) {
+      case 'curved': {
+        const offset = Math.max(CURVE_MIN_OFFSET, Math.hypot(end.x - start.x, end.y - start.y) * 0.4);
+        return [
+          start,
+          { x: start.x + startDir.x * offset, y: start.y + startDir.y * offset },
+          { x: end.x + endDir.x * offset, y: end.y + endDir.y * offset },
+          end,
+        ];
+      }
+      case 'elbow': {
+        const s = { x: start.x + startDir.x * ELBOW_STUB, y: start.y + startDir.y * ELBOW_STUB };
+        const e = { x: end.x + endDir.x * ELBOW_STUB, y: end.y + endDir.y * ELBOW_STUB };
+        const startHorizontal = startDir.x !== 0;
+        const endHorizontal = endDir.x !== 0;
+
+        let middle: Point[];
+        if (startHorizontal && endHorizontal) {
+          const midX = (s.x + e.x) / 2;
+          middle = [{ x: midX, y: s.y }, { x: midX, y: e.y }];
+        } else if (!startHorizontal && !endHorizontal) {
+          const midY = (s.y + e.y) / 2;
+          middle = [{ x: s.x, y: midY }, { x: e.x, y: midY }];
+        } else if (startHorizontal) {
+          middle = [{ x: e.x, y: s.y }];
+        } else {
+          middle = [{ x: s.x, y: e.y }];
+        }
+        return compactPolyline([start, s, ...middle, e, end]);
+      }
+      default:
+        return [start, end];
+    }
+  }
+
+  /**
+   * 计算连接线的几何数据（包围盒与归一化走线）
+   * 已绑定的端点取锚点位置，未绑定的端点使用传入的位置
+   */
+  public static getGeometry(
+    elements: Element[],
+    connector: Pick<Element, 'parentId' | 'routing' | 'startBinding' | 'endBinding'>,
+    start: Point,
+    end: Point
+  ): Pick<Element, 'x' | 'y' | 'width' | 'height' | 'points'> {
+    const { startBinding, endBinding } = connector;
+    const from = (startBinding && ConnectorManager.getAnchorPoint(elements, startBinding.elementId, startBinding.anchor)) || start;
+    const to = (endBinding && ConnectorManager.getAnchorPoint(elements, endBinding.elementId, endBinding.anchor)) || end;
+    const route = ConnectorManager.route(from, to, connector.routing || 'straight', startBinding?.anchor, endBinding?.anchor);
+
+    const minX = Math.min(...route.map(p => p.x));
+    const minY = Math.min(...route.map(p => p.y));
+    const width = Math.max(...route.map(p => p.x)) - minX;
+    const height = Math.max(...route.map(p => p.y)) - minY;
+    const parentPos = connector.parentId ? getElementWorldPos(elements, connector.parentId) : { x: 0, y: 0 };
+
+    return {
+      x: minX - parentPos.x,
+      y: minY - parentPos.y,
+      width,
+      height,
+      points: route.map(p => ({
+        x: width === 0 ? 0 : (p.x - minX) / width,
+        y: height === 0 ? 0 : (p.y - minY) / height,
+      })),
+    };
+  }
+
+  /**
+   * 当前走线首尾端点的世界坐标
+   */
+  public static getEndpoints(elements: Element[], connector: Element): { start: Point, end: Point } {
+    const origin = getElementWorldPos(elements, connector.id);
+    const points = connector.points || [];
+    const toWorld = (p: Point | undefined): Point => ({
+      x: origin.x + (p?.x ?? 0) * connector.width,
+      y: origin.y + (p?.y ?? 0) * connector.height,
+    });
+    return { start: toWorld(points[0]), end: toWorld(points[points.length - 1]) };
+  }
+
+  /**
+   * 根据创建手势的起止点（世界坐标）生成连接线，起止点落在元素上时自动绑定
+   * 两端绑定的元素位于同一个 Frame 内时，连接线也放入该 Frame
+   */
+  public static createFromDrag(elements: Element[], start: Point, end: Point, index?: SpatialIndex): Omit<Element, 'id' | 'zIndex'> | null {
+    if (Math.abs(end.x - start.x) < CLICK_THRESHOLD && Math.abs(end.y - start.y) < CLICK_THRESHOLD) {
+      return null;
+    }
+
+    const startBinding = ConnectorManager.findBinding(elements, start, [], index);
+    const endBinding = ConnectorManager.findBinding(elements, end, startBinding ? [startBinding.elementId] : [], index);
+
+    const store = ElementStore.of(elements);
+    const startParent = startBinding && store.get(startBinding.elementId)?.parentId;
+    const endParent = endBinding && store.get(endBinding.elementId)?.parentId;
+    const sharedParent = startParent && startParent === endParent
+      ? store.get(startParent)
+      : undefined;
+    const parentId = sharedParent?.type === 'frame' ? sharedParent.id : undefined;
+
+    const connector: Omit<Element, 'id' | 'zIndex' | 'x' | 'y' | 'width' | 'height'> = {
+      type: 'connector',
+      parentId,
+      routing: 'straight',
+      startBinding,
+      endBinding,
+      style: {
+        stroke: '#1f1f1f',
+        strokeWidth: 2,
+        startArrowhead: 'none',
+        endArrowhead: 'triangle',
+      },
+    };
+
+    return { ...connector, ...ConnectorManager.getGeometry(elements, connector, start, end) };
+  }
+
+  /**
+   * 重新走线受影响的连接线：
+   * - 连接线自身发生变化（如切换走线方式、被拖动）；
+   * - 绑定的元素或其祖先发生变化；
+   * - 绑定的元素被删除时解除绑定，端点停留在原位置。
+   */
+  public static reroute(elements: Element[], changedIds: Set<string>): Element[] {
+    const store = ElementStore.of(elements);
+    const isAffected = (elementId: string) => {
+      for (let el = store.get(elementId); el; el = store.get(el.parentId)) {
+        if (changedIds.has(el.id)) return true;
+      }
+      return false;
+    };
+
+    let result = elements;
+    elements.forEach(el => {
+      if (el.type !== 'connector') return;
+
+      const startMissing = !!el.startBinding && !store.has(el.startBinding.elementId);
+      const endMissing = !!el.endBinding && !store.has(el.endBinding.elementId);
+      const affected =
+        changedIds.has(el.id) ||
+        startMissing ||
+        endMissing ||
+        (!!el.startBinding && isAffected(el.startBinding.elementId)) ||
+        (!!el.endBinding && isAffected(el.endBinding.elementId));
+      if (!affected) return;
+
+      const connector: Element = {
+        ...el,
+        startBinding: startMissing ? undefined : el.startBinding,
+        endBinding: endMissing ? undefined : el.endBinding,
+      };
+      const { start, end } = ConnectorManager.getEndpoints(result, connector);
+      const laidOut = { ...connector, ...ConnectorManager.getGeometry(result, connector, start, end) };
+      result = ElementStore.update(result, [laidOut]);
+    });
+
+    return result;
+  }
+}
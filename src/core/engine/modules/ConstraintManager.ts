@@ -0,0 +1,70 @@
+import type { Element, Size, HorizontalConstraint, VerticalConstraint } from '../types';
+import { ElementStore } from './ElementStore';
+
+type AxisConstraint = 'start' | 'end' | 'stretch' | 'center' | 'scale';
+
+const HORIZONTAL: Record<HorizontalConstraint, AxisConstraint> = {
+  left: 'start',
+  right: 'end',
+  'left-right': 'stretch',
+  center: 'center',
+  scale: 'scale',
+};
+
+const VERTICAL: Record<VerticalConstraint, AxisConstraint> = {
+  top: 'start',
+  bottom: 'end',
+  'top-bottom': 'stretch',
+  center: 'center',
+  scale: 'scale',
+};
+
+/**
+ * 按约束计算单个方向上的新位置与尺寸
+ */
+function resolveAxis(constraint: AxisConstraint, pos: number, size: number, prevParent: number, nextParent: number) {
+  const delta = nextParent - prevParent;
+  switch (constraint) {
+    case 'start': return { pos, size };
+    case 'end': return { pos: pos + delta, size };
+    case 'center': return { pos: pos + delta / 2, size };
+    case 'stretch': return { pos, size: Math.max(0, size + delta) };
+    case 'scale': {
+      const ratio = prevParent > 0 ? nextParent / prevParent : 1;
+      return { pos: pos * ratio, size: size * ratio };
+    }
+  }
+}
+
+/**
+ * ConstraintManager - Frame 子元素约束
+ *
+ * Frame 尺寸变化时，根据每个直接子元素的约束调整其位置与尺寸（坐标相对于 Frame 左上角）。
+ * 文本的高度由内容决定，只跟随位置；水平拉伸后改为固定宽度，避免被自动尺寸覆盖。
+ */
+export class ConstraintManager {
+  public static applyConstraints(elements: Element[], frameId: string, prevSize: Size): Element[] {
+    const store = ElementStore.of(elements);
+    const frame = store.get(frameId);
+    if (!frame || frame.type !== 'frame' || frame.layout) return elements;
+    if (frame.width === prevSize.width && frame.height === prevSize.height) return elements;
+
+    const updated: Element[] = [];
+    store.getChildren(frameId).forEach(el => {
+
+      const horizontal = HORIZONTAL[el.constraints?.horizontal ?? 'left'];
+      const vertical = VERTICAL[el.constraints?.vertical ?? 'top'];
+      const h = resolveAxis(horizontal, el.x, el.width, prevSize.width, frame.width);
+      const v = resolveAxis(vertical, el.y, el.height, prevSize.height, frame.height);
+      if (el.type === 'text') v.size = el.height;
+
+      if (h.pos === el.x && h.size === el.width && v.pos === el.y && v.size === el.height) return;
+
+      const next: Element = { ...el, x: h.pos, y: v.pos, width: h.size, height: v.size };
+      if (el.type === 'text' && h.size !== el.width) next.fixedWidth = true;
+      updated.push(next);
+    });
+
+    return ElementStore.update(elements, updated);
+  }
+}
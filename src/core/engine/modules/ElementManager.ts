@@ -1,95 +1,324 @@
-import type { Element, Bounds } from '../types';
+import type { Element, ElementType, Bounds, Point, PathPoint, ReorderAction } from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { getReparentedGeometry } from '../utils';
+import {
+  getLineGeometry,
+  DEFAULT_POLYGON_SIDES,
+  DEFAULT_STAR_POINTS,
+  DEFAULT_STAR_INNER_RADIUS,
+} from '../../utils/shapeUtils';
+import { getPathGeometry } from '../../utils/pathUtils';
+import { EDITOR_CONFIG } from '../../../constants/editor';
+import { getRotatedCorners, getPointsBounds, rotatePoint } from '../../../utils/geometry';
+import type { SpatialIndex } from './SpatialIndex';
+import { ElementStore } from './ElementStore';
+import { PluginManager } from './PluginManager';
+
+/** 拖拽距离小于该值时视为单击 */
+const CLICK_THRESHOLD = 5;
 
 export class ElementManager {
   public static addElement(elements: Element[], element: Omit<Element, 'id' | 'zIndex'>): { id: string, elements: Element[] } {
     const id = uuidv4();
-    let zIndex;
-
-    if (element.type === 'frame') {
-      const minZIndex = elements.reduce((min, el) => Math.min(min, el.zIndex), 0);
-      zIndex = minZIndex - 1;
-    } else {
-      const maxZIndex = elements.reduce((max, el) => Math.max(max, el.zIndex), 0);
-      zIndex = maxZIndex + 1;
-    }
+    const store = ElementStore.of(elements);
+    const { min, max } = store.getZRange();
+    const zIndex = element.type === 'frame' ? min - 1 : max + 1;
+
+    // 指定了父级时同步登记到父级的 children
+    const parent = store.get(element.parentId);
+    const nextElements = parent
+      ? ElementStore.update(elements, [{ ...parent, children: [...(parent.children || []), id] }])
+      : elements;
 
     return {
       id,
-      elements: [...elements, { ...element, id, zIndex } as Element]
+      elements: [...nextElements, { ...element, id, zIndex } as Element]
+    };
+  }
+
+  /**
+   * 根据创建手势的起止点（世界坐标）生成新元素
+   * 单击（拖拽距离过小）时仅文本元素与设置了默认宽高的插件元素会被创建，其余类型返回 null
+   */
+  public static createFromDrag(type: ElementType, start: Point, end: Point): Omit<Element, 'id' | 'zIndex'> | null {
+    const x = Math.min(start.x, end.x);
+    const y = Math.min(start.y, end.y);
+    const width = Math.abs(end.x - start.x);
+    const height = Math.abs(end.y - start.y);
+    const isClick = width < CLICK_THRESHOLD && height < CLICK_THRESHOLD;
+
+    const plugin = PluginManager.get(type);
+    if (plugin) {
+      // 单击时按插件默认尺寸在起点创建；拖拽的范围优先于默认尺寸
+      const { width: defaultWidth, height: defaultHeight } = plugin.defaultProps ?? {};
+      if (isClick && (!defaultWidth || !defaultHeight)) return null;
+      return {
+        ...plugin.defaultProps,
+        type,
+        x: isClick ? start.x : x,
+        y: isClick ? start.y : y,
+        width: isClick ? defaultWidth! : width,
+        height: isClick ? defaultHeight! : height,
+      };
+    }
+
+    switch (type) {
+      case 'text':
+        return {
+          type,
+          x: isClick ? start.x : x,
+          y: isClick ? start.y : y,
+          width: isClick ? 10 : width,
+          height: isClick ? 30 : height,
+          style: { fill: '#c9c9c9ff', strokeWidth: 1, borderRadius: 2, fontSize: 24 },
+          fixedWidth: false,
+        };
+      case 'line':
+      case 'arrow':
+        if (isClick) return null;
+        return {
+          type,
+          ...getLineGeometry(start, end),
+          style: {
+            stroke: '#1f1f1f',
+            strokeWidth: 2,
+            startArrowhead: 'none',
+            endArrowhead: type === 'arrow' ? 'triangle' : 'none',
+          },
+        };
+      case 'ellipse':
+      case 'polygon':
+      case 'star':
+        if (isClick) return null;
+        return {
+          type,
+          x,
+          y,
+          width,
+          height,
+          style: { fill: '#c9c9c9ff', strokeWidth: 1 },
+          sides: type === 'polygon' ? DEFAULT_POLYGON_SIDES : type === 'star' ? DEFAULT_STAR_POINTS : undefined,
+          innerRadius: type === 'star' ? DEFAULT_STAR_INNER_RADIUS : undefined,
+        };
+      default:
+        if (isClick) return null;
+        return {
+          type,
+          x,
+          y,
+          width,
+          height,
+          style: {
+            fill: type === 'frame' ? 'rgba(255, 255, 255, 1)' : '#c9c9c9ff',
+            stroke: type === 'frame' ? '#e0e0e0' : undefined,
+            strokeWidth: 1,
+            borderRadius: 2,
+          },
+        };
+    }
+  }
+
+  /**
+   * 根据手绘笔画的采样点（世界坐标）生成 path 元素
+   * 采样点经 RDP 简化后以包围盒归一化坐标存储
+   */
+  public static createFromStroke(samples: PathPoint[], tolerance: number): Omit<Element, 'id' | 'zIndex'> | null {
+    if (samples.length === 0) return null;
+
+    return {
+      type: 'path',
+      ...getPathGeometry(samples, tolerance),
+      style: {
+        stroke: EDITOR_CONFIG.DRAW.STROKE,
+        strokeWidth: EDITOR_CONFIG.DRAW.STROKE_WIDTH,
+      },
     };
   }
 
   public static updateElement(elements: Element[], id: string, updates: Partial<Element>): Element[] {
-    return elements.map(el => el.id === id ? { ...el, ...updates } : el);
+    const element = ElementStore.of(elements).get(id);
+    return element ? ElementStore.update(elements, [{ ...element, ...updates }]) : elements;
   }
 
+  /**
+   * 批量更新多个元素，只生成一次新数组
+   */
+  public static updateElements(elements: Element[], updates: Map<string, Partial<Element>>): Element[] {
+    const store = ElementStore.of(elements);
+    const updated: Element[] = [];
+    updates.forEach((patch, id) => {
+      const element = store.get(id);
+      if (element) updated.push({ ...element, ...patch });
+    });
+    return ElementStore.update(elements, updated);
+  }
+
+  /**
+   * 删除元素及其所有后代，并同步清理父级的 children
+   */
   public static deleteElements(elements: Element[], ids: string[]): Element[] {
-    return elements.filter(el => !ids.includes(el.id));
+    const store = ElementStore.of(elements);
+    const removed = new Set([...ids, ...store.getDescendantIds(ids)].filter(id => store.has(id)));
+    if (removed.size === 0) return elements;
+
+    return elements
+      .filter(el => !removed.has(el.id))
+      .map(el => el.children?.some(id => removed.has(id))
+        ? { ...el, children: el.children.filter(id => !removed.has(id)) }
+        : el
+      );
   }
 
   public static moveElements(elements: Element[], ids: string[], deltaX: number, deltaY: number): Element[] {
-    return elements.map(el =>
-      ids.includes(el.id) ? { ...el, x: el.x + deltaX, y: el.y + deltaY } : el
-    );
+    const store = ElementStore.of(elements);
+    const moved = [...new Set(ids)]
+      .map(id => store.get(id))
+      .filter((el): el is Element => !!el)
+      .map(el => ({ ...el, x: el.x + deltaX, y: el.y + deltaY }));
+    return ElementStore.update(elements, moved);
   }
 
   public static resizeElement(elements: Element[], id: string, bounds: Bounds): Element[] {
-    return elements.map(el => el.id === id ? { ...el, ...bounds } : el);
+    return ElementManager.updateElement(elements, id, bounds);
+  }
+
+  /**
+   * 将元素移到新的父级（undefined 为根画布），保持世界位置与朝向不变，并同步新旧父级的 children
+   */
+  public static reparentElement(elements: Element[], id: string, parentId: string | undefined): Element[] {
+    const store = ElementStore.of(elements);
+    const element = store.get(id);
+    if (!element || element.parentId === parentId) return elements;
+
+    const geometry = getReparentedGeometry(elements, id, parentId);
+    const updated: Element[] = [{ ...element, ...geometry, parentId }];
+    const oldParent = store.get(element.parentId);
+    if (oldParent) updated.push({ ...oldParent, children: (oldParent.children || []).filter(cid => cid !== id) });
+    const newParent = store.get(parentId);
+    if (newParent) updated.push({ ...newParent, children: [...(newParent.children || []).filter(cid => cid !== id), id] });
+    return ElementStore.update(elements, updated);
   }
 
-  public static reorderElements(elements: Element[], ids: string[], action: 'front' | 'back' | 'forward' | 'backward'): Element[] {
-    const firstElement = elements.find(el => el.id === ids[0]);
+  public static reorderElements(elements: Element[], ids: string[], action: ReorderAction): Element[] {
+    const store = ElementStore.of(elements);
+    const firstElement = store.get(ids[0]);
     if (!firstElement) return elements;
-    const parentId = firstElement.parentId;
 
-    const sameLevelElements = elements
-      .filter(el => el.parentId === parentId)
-      .sort((a, b) => a.zIndex - b.zIndex);
+    const sameLevelElements = store.getChildren(firstElement.parentId);
+    const idSet = new Set(ids);
+    const updated = new Map<string, Element>();
+    const setZIndex = (el: Element, zIndex: number) => {
+      if (el.zIndex !== zIndex) updated.set(el.id, { ...el, zIndex });
+    };
 
-    const newElements = [...elements];
+    if (typeof action === 'object') {
+      // 按新顺序重新分配同级元素原有的 zIndex（保证严格递增），只更新顺序发生变化的元素
+      const moving = sameLevelElements.filter(el => idSet.has(el.id));
+      const others = sameLevelElements.filter(el => !idSet.has(el.id));
+      const index = Math.max(0, Math.min(action.index, others.length));
+      const ordered = [...others.slice(0, index), ...moving, ...others.slice(index)];
+
+      let prevZ = -Infinity;
+      ordered.forEach((el, i) => {
+        const zIndex = Math.max(sameLevelElements[i].zIndex, prevZ + 1);
+        prevZ = zIndex;
+        setZIndex(el, zIndex);
+      });
+      return ElementStore.update(elements, updated.values());
+    }
 
     switch (action) {
       case 'front': {
-        const maxZ = Math.max(...sameLevelElements.map(el => el.zIndex), 0);
+        const maxZ = Math.max(sameLevelElements[sameLevelElements.length - 1].zIndex, 0);
         let count = 1;
         ids.forEach(id => {
-          const idx = newElements.findIndex(el => el.id === id);
-          if (idx !== -1) newElements[idx] = { ...newElements[idx], zIndex: maxZ + count++ };
+          const el = store.get(id);
+          if (el) updated.set(id, { ...el, zIndex: maxZ + count++ });
         });
         break;
       }
       case 'back': {
-        const minZ = Math.min(...sameLevelElements.map(el => el.zIndex), 0);
+        const minZ = Math.min(sameLevelElements[0].zIndex, 0);
         let count = 1;
         [...ids].reverse().forEach(id => {
-          const idx = newElements.findIndex(el => el.id === id);
-          if (idx !== -1) newElements[idx] = { ...newElements[idx], zIndex: minZ - count++ };
+          const el = store.get(id);
+          if (el) updated.set(id, { ...el, zIndex: minZ - count++ });
         });
         break;
       }
       case 'forward':
       case 'backward': {
         if (ids.length !== 1) break;
-        const targetId = ids[0];
-        const currentIdx = sameLevelElements.findIndex(el => el.id === targetId);
+        const currentIdx = sameLevelElements.findIndex(el => el.id === ids[0]);
         const swapIdx = action === 'forward' ? currentIdx + 1 : currentIdx - 1;
 
         if (swapIdx >= 0 && swapIdx < sameLevelElements.length) {
-          const swapElement = sameLevelElements[swapIdx];
           const targetElement = sameLevelElements[currentIdx];
-
-          const idx1 = newElements.findIndex(el => el.id === targetElement.id);
-          const idx2 = newElements.findIndex(el => el.id === swapElement.id);
-
-          const tempZ = newElements[idx1].zIndex;
-          newElements[idx1] = { ...newElements[idx1], zIndex: newElements[idx2].zIndex };
-          newElements[idx2] = { ...newElements[idx2], zIndex: tempZ };
+          const swapElement = sameLevelElements[swapIdx];
+          updated.set(targetElement.id, { ...targetElement, zIndex: swapElement.zIndex });
+          updated.set(swapElement.id, { ...swapElement, zIndex: targetElement.zIndex });
         }
         break;
       }
     }
 
-    return newElements;
+    return ElementStore.update(elements, updated.values());
+  }
+
+  /**
+   * 根据元素列表的变化增量更新空间索引
+   * 容器移动、缩放或旋转会改变后代的世界坐标，因此变化元素的所有后代也一并更新
+   */
+  public static updateSpatialIndex(index: SpatialIndex, prev: Element[], next: Element[]) {
+    if (prev === next) return;
+
+    // 1. 找出变化的元素与被删除的元素
+    const { changed, removedIds } = ElementStore.diff(prev, next);
+    removedIds.forEach(id => index.delete(id));
+    if (changed.length === 0) return;
+
+    // 2. 容器变化时其后代的世界坐标随之变化
+    const store = ElementStore.of(next);
+    const dirty = new Map(changed.map(el => [el.id, el]));
+    const containerIds = changed.filter(el => el.type === 'frame' || el.type === 'group').map(el => el.id);
+    store.getDescendantIds(containerIds).forEach(id => {
+      if (!dirty.has(id)) dirty.set(id, store.get(id)!);
+    });
+
+    // 3. 自顶向下计算世界中心与旋转，按 ID 缓存，避免逐个元素沿父级链线性查找
+    const centers = new Map<string, Point>();
+    const rotations = new Map<string, number>();
+    const getRotation = (el: Element): number => {
+      if (rotations.has(el.id)) return rotations.get(el.id)!;
+      const parent = store.get(el.parentId);
+      const rotation = (el.rotation || 0) + (parent ? getRotation(parent) : 0);
+      rotations.set(el.id, rotation);
+      return rotation;
+    };
+    const getCenter = (el: Element): Point => {
+      if (centers.has(el.id)) return centers.get(el.id)!;
+      const local = { x: el.x + el.width / 2, y: el.y + el.height / 2 };
+      const parent = store.get(el.parentId);
+      let center = local;
+      if (parent) {
+        const parentCenter = getCenter(parent);
+        center = rotatePoint(
+          { x: parentCenter.x + local.x - parent.width / 2, y: parentCenter.y + local.y - parent.height / 2 },
+          parentCenter,
+          getRotation(parent)
+        );
+      }
+      centers.set(el.id, center);
+      return center;
+    };
+
+    dirty.forEach(el => {
+      const center = getCenter(el);
+      const corners = getRotatedCorners(
+        { x: center.x - el.width / 2, y: center.y - el.height / 2, width: el.width, height: el.height },
+        getRotation(el)
+      );
+      index.set(el.id, getPointsBounds(corners));
+    });
   }
 }
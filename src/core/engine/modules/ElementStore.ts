@@ -0,0 +1,191 @@
+import type { Element } from '../types';
+
+/** 根画布在子元素索引中的键 */
+const ROOT = '';
+
+/**
+ * ElementStore - 元素列表的索引
+ *
+ * state.elements 仍是对外的扁平数组，ElementStore 为某一份数组建立 id → 下标、父级 → 子元素（按 zIndex 排序）的索引，
+ * 供各 Manager 与工具函数替代 find / filter 的线性扫描。
+ *
+ * 索引按数组实例缓存，同一份数组只建立一次，因此建立过索引的数组不能再原地修改：
+ * 替换元素请使用 ElementStore.update，它返回新数组，并在 id 与层级不变时复用旧索引。
+ */
+export class ElementStore {
+  private static cache = new WeakMap<readonly Element[], ElementStore>();
+
+  private readonly elements: readonly Element[];
+  private readonly indexById: Map<string, number>;
+  /** 父级 → 子元素 ID（按 zIndex 从低到高），首次访问时建立 */
+  private childIds: Map<string, string[]> | null;
+  private zRange: { min: number, max: number } | null;
+
+  private constructor(
+    elements: readonly Element[],
+    indexById?: Map<string, number>,
+    childIds: Map<string, string[]> | null = null,
+    zRange: { min: number, max: number } | null = null
+  ) {
+    this.elements = elements;
+    this.childIds = childIds;
+    this.zRange = zRange;
+    if (indexById) {
+      this.indexById = indexById;
+    } else {
+      // 与 find 一致：ID 重复时以第一个为准
+      this.indexById = new Map();
+      elements.forEach((el, i) => {
+        if (!this.indexById.has(el.id)) this.indexById.set(el.id, i);
+      });
+    }
+  }
+
+  /**
+   * 获取数组对应的索引（按数组实例缓存）
+   */
+  public static of(elements: readonly Element[]): ElementStore {
+    let store = ElementStore.cache.get(elements);
+    if (!store) {
+      store = new ElementStore(elements);
+      ElementStore.cache.set(elements, store);
+    }
+    return store;
+  }
+
+  /**
+   * 按 ID 替换元素，返回新数组（不存在的 ID 忽略，元素顺序不变）
+   * 被替换元素的 parentId 与 zIndex 都未变化时，新数组直接复用子元素索引
+   */
+  public static update(elements: Element[], updated: Iterable<Element>): Element[] {
+    const store = ElementStore.of(elements);
+    let next: Element[] | null = null;
+    let hierarchyChanged = false;
+
+    for (const el of updated) {
+      const index = store.indexById.get(el.id);
+      if (index === undefined || elements[index] === el) continue;
+      const prev = elements[index];
+      if (prev.parentId !== el.parentId || prev.zIndex !== el.zIndex) hierarchyChanged = true;
+      next ??= [...elements];
+      next[index] = el;
+    }
+    if (!next) return elements;
+
+    ElementStore.cache.set(next, new ElementStore(
+      next,
+      store.indexById,
+      hierarchyChanged ? null : store.childIds,
+      hierarchyChanged ? null : store.zRange
+    ));
+    return next;
+  }
+
+  /**
+   * 比较两份数组：next 中新增或被替换的元素，以及 prev 中被删除的元素 ID
+   * next 由 update 派生（下标一致）时按下标逐个比较，不需要查表
+   */
+  public static diff(prev: Element[], next: Element[]): { changed: Element[], removedIds: string[] } {
+    if (prev === next) return { changed: [], removedIds: [] };
+
+    const prevStore = ElementStore.of(prev);
+    const nextStore = ElementStore.of(next);
+    if (prevStore.indexById === nextStore.indexById) {
+      return { changed: next.filter((el, i) => prev[i] !== el), removedIds: [] };
+    }
+
+    const changed = next.filter(el => prevStore.get(el.id) !== el);
+    const removedIds = prev.filter(el => !nextStore.has(el.id)).map(el => el.id);
+    return { changed, removedIds };
+  }
+
+  public get size(): number {
+    return this.indexById.size;
+  }
+
+  public has(id: string): boolean {
+    return this.indexById.has(id);
+  }
+
+  public get(id: string | undefined): Element | undefined {
+    if (id === undefined) return undefined;
+    const index = this.indexById.get(id);
+    return index === undefined ? undefined : this.elements[index];
+  }
+
+  /**
+   * 元素在数组中的下标，不存在时为 -1
+   */
+  public indexOf(id: string): number {
+    return this.indexById.get(id) ?? -1;
+  }
+
+  public getParent(id: string): Element | undefined {
+    return this.get(this.get(id)?.parentId);
+  }
+
+  /**
+   * 直接子元素，按 zIndex 从低到高排列
+   * @param parentId undefined 为根画布
+   */
+  public getChildren(parentId: string | undefined): Element[] {
+    const ids = this.getChildIndex().get(parentId ?? ROOT);
+    return ids ? ids.map(id => this.get(id)!) : [];
+  }
+
+  /**
+   * 所有后代 ID（不包含自身，广度优先）
+   */
+  public getDescendantIds(ids: string[]): string[] {
+    const childIndex = this.getChildIndex();
+    const result: string[] = [];
+    const visited = new Set<string>(ids);
+    const queue = [...ids];
+
+    for (let i = 0; i < queue.length; i++) {
+      (childIndex.get(queue[i]) || []).forEach(childId => {
+        if (visited.has(childId)) return;
+        visited.add(childId);
+        result.push(childId);
+        queue.push(childId);
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 所有元素 zIndex 的最小值与最大值（均不超过 / 不低于 0）
+   */
+  public getZRange(): { min: number, max: number } {
+    if (!this.zRange) {
+      let min = 0;
+      let max = 0;
+      this.elements.forEach(el => {
+        if (el.zIndex < min) min = el.zIndex;
+        if (el.zIndex > max) max = el.zIndex;
+      });
+      this.zRange = { min, max };
+    }
+    return this.zRange;
+  }
+
+  private getChildIndex(): Map<string, string[]> {
+    if (!this.childIds) {
+      const groups = new Map<string, Element[]>();
+      this.indexById.forEach(index => {
+        const el = this.elements[index];
+        const key = el.parentId ?? ROOT;
+        const siblings = groups.get(key);
+        if (siblings) siblings.push(el);
+        else groups.set(key, [el]);
+      });
+
+      this.childIds = new Map();
+      groups.forEach((siblings, key) => {
+        this.childIds!.set(key, siblings.sort((a, b) => a.zIndex - b.zIndex).map(el => el.id));
+      });
+    }
+    return this.childIds;
+  }
+}
@@ -0,0 +1,216 @@
+import type { Element, Viewport, ToolType } from '../types';
+import { ElementStore } from './ElementStore';
+
+/**
+ * 单个元素的修改：changes 为取值变化的字段（被移除的字段值为 undefined）
+ */
+export interface ElementDiff {
+  id: string;
+  before: Element;
+  after: Element;
+  changes: Partial<Element>;
+}
+
+/**
+ * 引擎事件及其参数，均在状态更新之后同步派发
+ */
+export interface EditorEventMap {
+  /** 新增元素（新建、粘贴、撤销删除等），每个元素派发一次 */
+  elementAdded: { element: Element };
+  /** 已有元素被修改（包含修正派生数据引起的修改，如连接线重新走线） */
+  elementsUpdated: { diffs: ElementDiff[] };
+  /** 删除元素（包含随父级一起删除的子元素） */
+  elementsDeleted: { elements: Element[] };
+  /** 元素移入其他父级，每个元素派发一次；parentId 为 undefined 表示根画布 */
+  reparented: { id: string; parentId?: string; previousParentId?: string };
+  selectionChanged: { selectedIds: string[]; previousIds: string[] };
+  viewportChanged: { viewport: Viewport; previous: Viewport };
+  toolChanged: { tool: ToolType; previous: ToolType };
+}
+
+export type EditorEventName = keyof EditorEventMap;
+export type EditorEventHandler<K extends EditorEventName> = (event: EditorEventMap[K]) => void;
+
+/**
+ * 操作前钩子：返回 false 取消整个操作（本次状态更新不生效），返回元素则以其替换将要写入的元素（ID 不可修改）
+ */
+export interface EditorBeforeHookMap {
+  /** 即将新增元素 */
+  elementAdd: (element: Element) => Element | false | void;
+  /** 即将修改元素，before 为修改前的元素 */
+  elementUpdate: (after: Element, before: Element) => Element | false | void;
+  /** 即将删除元素（包含子元素），只能取消 */
+  elementsDelete: (elements: Element[]) => false | void;
+}
+
+export type EditorBeforeHookName = keyof EditorBeforeHookMap;
+
+/** 派发事件所需的状态 */
+type EventState = {
+  elements: Element[];
+  selectedIds: string[];
+  viewport: Viewport;
+  activeTool: ToolType;
+};
+
+const isSameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/**
+ * 比较同一元素修改前后取值变化的字段
+ */
+function getElementChanges(before: Element, after: Element): Partial<Element> {
+  const changes: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.forEach(key => {
+    const value = after[key as keyof Element];
+    if (before[key as keyof Element] !== value) changes[key] = value;
+  });
+  return changes as Partial<Element>;
+}
+
+/**
+ * EventManager - 引擎事件与操作前钩子
+ *
+ * 事件与钩子都基于状态更新前后的元素差异，因此所有修改入口（方法、命令、手势）行为一致。
+ * 钩子只作用于编辑操作：撤销 / 重做、导入与协作同步的状态原样生效，但仍会派发事件。
+ * 处理函数抛出的异常会被记录并忽略，不影响引擎状态。
+ */
+export class EventManager {
+  private handlers = new Map<EditorEventName, Set<EditorEventHandler<EditorEventName>>>();
+  private hooks = new Map<EditorBeforeHookName, Set<EditorBeforeHookMap[EditorBeforeHookName]>>();
+
+  public on<K extends EditorEventName>(event: K, handler: EditorEventHandler<K>): () => void {
+    return EventManager.add(this.handlers, event, handler as EditorEventHandler<EditorEventName>);
+  }
+
+  public before<K extends EditorBeforeHookName>(hook: K, handler: EditorBeforeHookMap[K]): () => void {
+    return EventManager.add(this.hooks, hook, handler);
+  }
+
+  public get hasHandlers(): boolean {
+    return this.handlers.size > 0;
+  }
+
+  public get hasHooks(): boolean {
+    return this.hooks.size > 0;
+  }
+
+  /**
+   * 对即将写入的元素列表依次调用操作前钩子
+   * @returns 钩子修改后的元素列表；任一钩子取消时返回 null
+   */
+  public applyBeforeHooks(prev: Element[], next: Element[]): Element[] | null {
+    if (!this.hasHooks || prev === next) return next;
+
+    const prevStore = ElementStore.of(prev);
+    const { changed, removedIds } = ElementStore.diff(prev, next);
+
+    if (removedIds.length > 0) {
+      const removed = removedIds.map(id => prevStore.get(id)!);
+      const vetoed = this.callHooks('elementsDelete', hook => hook(removed) === false);
+      if (vetoed) return null;
+    }
+
+    const replaced: Element[] = [];
+    for (const element of changed) {
+      const before = prevStore.get(element.id);
+      let current = element;
+      const vetoed = this.callHooks(before ? 'elementUpdate' : 'elementAdd', hook => {
+        const result = before
+          ? (hook as EditorBeforeHookMap['elementUpdate'])(current, before)
+          : (hook as EditorBeforeHookMap['elementAdd'])(current);
+        if (result === false) return true;
+        if (result) current = { ...result, id: element.id };
+        return false;
+      });
+      if (vetoed) return null;
+      if (current !== element) replaced.push(current);
+    }
+
+    return replaced.length > 0 ? ElementStore.update(next, replaced) : next;
+  }
+
+  /**
+   * 比较更新前后的状态并派发事件
+   */
+  public emitChanges(prev: EventState, next: EventState) {
+    if (!this.hasHandlers) return;
+
+    if (prev.elements !== next.elements) {
+      const prevStore = ElementStore.of(prev.elements);
+      const { changed, removedIds } = ElementStore.diff(prev.elements, next.elements);
+
+      if (removedIds.length > 0) {
+        this.emit('elementsDeleted', { elements: removedIds.map(id => prevStore.get(id)!) });
+      }
+
+      const diffs: ElementDiff[] = [];
+      changed.forEach(element => {
+        const before = prevStore.get(element.id);
+        if (!before) {
+          this.emit('elementAdded', { element });
+        } else {
+          // 只替换了引用、取值未变的元素不算修改
+          const changes = getElementChanges(before, element);
+          if (Object.keys(changes).length > 0) diffs.push({ id: element.id, before, after: element, changes });
+        }
+      });
+      if (diffs.length > 0) this.emit('elementsUpdated', { diffs });
+
+      diffs.forEach(({ id, before, after }) => {
+        if (before.parentId !== after.parentId) {
+          this.emit('reparented', { id, parentId: after.parentId, previousParentId: before.parentId });
+        }
+      });
+    }
+
+    if (!isSameIds(prev.selectedIds, next.selectedIds)) {
+      this.emit('selectionChanged', { selectedIds: next.selectedIds, previousIds: prev.selectedIds });
+    }
+    if (prev.viewport !== next.viewport) {
+      this.emit('viewportChanged', { viewport: next.viewport, previous: prev.viewport });
+    }
+    if (prev.activeTool !== next.activeTool) {
+      this.emit('toolChanged', { tool: next.activeTool, previous: prev.activeTool });
+    }
+  }
+
+  private emit<K extends EditorEventName>(event: K, payload: EditorEventMap[K]) {
+    this.handlers.get(event)?.forEach(handler => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`[Event] Handler for "${event}" failed:`, error);
+      }
+    });
+  }
+
+  /**
+   * 依次调用钩子，直到某个钩子返回 true（取消）
+   */
+  private callHooks<K extends EditorBeforeHookName>(hook: K, call: (handler: EditorBeforeHookMap[K]) => boolean): boolean {
+    const handlers = this.hooks.get(hook) as Set<EditorBeforeHookMap[K]> | undefined;
+    if (!handlers) return false;
+    for (const handler of handlers) {
+      try {
+        if (call(handler)) return true;
+      } catch (error) {
+        console.error(`[Event] Before hook "${hook}" failed:`, error);
+      }
+    }
+    return false;
+  }
+
+  private static add<K, H>(map: Map<K, Set<H>>, key: K, handler: H): () => void {
+    let set = map.get(key);
+    if (!set) {
+      set = new Set();
+      map.set(key, set);
+    }
+    set.add(handler);
+    return () => {
+      set.delete(handler);
+      if (set.size === 0 && map.get(key) === set) map.delete(key);
+    };
+  }
+}
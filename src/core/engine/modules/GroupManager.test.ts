@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { EditorEngine } from '../EditorEngine';
+import type { Bounds } from '../types';
+
+const rect = { type: 'rectangle', x: 0, y: 0, width: 100, height: 20 } as const;
+
+function expectBoundsClose(actual: Bounds, expected: Bounds) {
+  (['x', 'y', 'width', 'height'] as const).forEach(key => expect(actual[key]).toBeCloseTo(expected[key]));
+}
+
+function createGroup(engine: EditorEngine) {
+  const a = engine.addElement(rect);
+  const b = engine.addElement({ ...rect, y: 80, style: { opacity: 0.5 } });
+  engine.selectElements([a, b]);
+  return { a, b, group: engine.groupSelection()! };
+}
+
+describe('GroupManager', () => {
+  it('sizes a group from the rotated bounds of its members', () => {
+    const engine = new EditorEngine();
+    const a = engine.addElement({ ...rect, rotation: 90 });
+    const b = engine.addElement({ ...rect, x: 200, width: 10, height: 10 });
+    engine.selectElements([a, b]);
+    const group = engine.groupSelection()!;
+
+    expect(engine.getElement(group)).toMatchObject({ x: 40, y: -40, width: 170, height: 100 });
+    expectBoundsClose(engine.getElementWorldBounds(a), { x: 40, y: -40, width: 20, height: 100 });
+  });
+
+  it('keeps members in place when ungrouping a rotated group', () => {
+    const engine = new EditorEngine();
+    const { a, b, group } = createGroup(engine);
+    engine.setRotation([group], 90);
+    const before = [a, b].map(id => engine.getElementWorldBounds(id));
+
+    engine.selectElements([group]);
+    engine.ungroupSelection();
+
+    expect(engine.getElement(group)).toBeUndefined();
+    [a, b].forEach((id, i) => {
+      expectBoundsClose(engine.getElementWorldBounds(id), before[i]);
+      expect(engine.getElement(id)).toMatchObject({ rotation: 90 });
+      expect(engine.getElement(id)!.parentId).toBeUndefined();
+    });
+  });
+
+  it('multiplies the group opacity into released members', () => {
+    const engine = new EditorEngine();
+    const { a, b, group } = createGroup(engine);
+    engine.updateElement(group, { style: { opacity: 0.5 } });
+
+    engine.selectElements([group]);
+    engine.ungroupSelection();
+
+    expect(engine.getElement(a)!.style?.opacity).toBe(0.5);
+    expect(engine.getElement(b)!.style?.opacity).toBe(0.25);
+  });
+});
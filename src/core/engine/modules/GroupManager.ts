@@ -0,0 +1,192 @@
+import type { Bounds, Element } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+import { getReparentedGeometry, getTopLevelIds } from '../utils';
+import { ElementStore } from './ElementStore';
+import { scaleSpanFontSizes } from '../../utils/richTextUtils';
+import { getBoundingBox, getPointsBounds, getRotatedCorners } from '../../../utils/geometry';
+
+/**
+ * 元素在其父级坐标系中旋转后的轴对齐包围盒
+ */
+function getRotatedBounds(el: Pick<Element, 'x' | 'y' | 'width' | 'height' | 'rotation'>): Bounds {
+  return getPointsBounds(getRotatedCorners(
+    { x: el.x, y: el.y, width: el.width, height: el.height },
+    el.rotation
+  ));
+}
+
+export class GroupManager {
+  /**
+   * 将元素编组
+   * - 所有元素同属一个父级时，组建在该父级内；否则建在根画布上；
+   * - 组的包围盒为成员旋转后的包围盒，成员坐标转换为相对于组的坐标；
+   * - 组的 zIndex 取成员中的最大值，保持在原有层级位置。
+   */
+  public static group(elements: Element[], ids: string[]): { id: string | null, elements: Element[] } {
+    const store = ElementStore.of(elements);
+    const memberIds = getTopLevelIds(elements, ids);
+    const members = memberIds
+      .map(id => store.get(id))
+      .filter((el): el is Element => !!el);
+    if (members.length === 0) return { id: null, elements };
+
+    const parentIds = new Set(members.map(el => el.parentId));
+    const parentId = parentIds.size === 1 ? members[0].parentId : undefined;
+
+    // 成员在组所在父级坐标系中的位置与旋转（跨父级编组时保持世界位置与朝向）
+    const geometries = new Map(members.map(el => [
+      el.id,
+      el.parentId === parentId
+        ? { x: el.x, y: el.y, rotation: el.rotation }
+        : getReparentedGeometry(elements, el.id, parentId),
+    ]));
+    const bounds = getBoundingBox(members.map(el => getRotatedBounds({ ...el, ...geometries.get(el.id)! })))!;
+
+    const id = uuidv4();
+    const memberSet = new Set(memberIds);
+    const group: Element = {
+      id,
+      type: 'group',
+      name: 'Group',
+      x: bounds.x,
+      y: bounds.y,
+      width: bounds.width,
+      height: bounds.height,
+      parentId,
+      children: members.map(el => el.id),
+      zIndex: Math.max(...members.map(el => el.zIndex)),
+    };
+
+    const nextElements = elements.map(el => {
+      if (memberSet.has(el.id)) {
+        const geometry = geometries.get(el.id)!;
+        return {
+          ...el,
+          parentId: id,
+          x: geometry.x - bounds.x,
+          y: geometry.y - bounds.y,
+          rotation: geometry.rotation,
+        };
+      }
+      if (el.children?.some(childId => memberSet.has(childId))) {
+        const children = el.children.filter(childId => !memberSet.has(childId));
+        return { ...el, children: el.id === parentId ? [...children, id] : children };
+      }
+      return el;
+    });
+
+    return { id, elements: [...nextElements, group] };
+  }
+
+  /**
+   * 解散组：成员移回组的父级并换算坐标，组本身被删除
+   * 组的旋转与不透明度合并到成员上，成员的世界位置、朝向与显示效果保持不变
+   */
+  public static ungroup(elements: Element[], groupIds: string[]): { ids: string[], elements: Element[] } {
+    const store = ElementStore.of(elements);
+    const groups = [...new Set(groupIds)]
+      .map(id => store.get(id))
+      .filter((el): el is Element => el?.type === 'group');
+    if (groups.length === 0) return { ids: [], elements };
+
+    const groupMap = new Map(groups.map(group => [group.id, group]));
+    const releasedIds: string[] = [];
+
+    const nextElements = elements
+      .filter(el => !groupMap.has(el.id))
+      .map(el => {
+        const group = el.parentId ? groupMap.get(el.parentId) : undefined;
+        if (group) {
+          releasedIds.push(el.id);
+          // 组未旋转时直接累加，避免中心点换算带来的浮点误差
+          const geometry = group.rotation
+            ? getReparentedGeometry(elements, el.id, group.parentId)
+            : { x: group.x + el.x, y: group.y + el.y, rotation: el.rotation };
+          const released: Element = { ...el, parentId: group.parentId, ...geometry };
+          const groupOpacity = group.style?.opacity ?? 1;
+          if (groupOpacity !== 1) {
+            released.style = { ...el.style, opacity: (el.style?.opacity ?? 1) * groupOpacity };
+          }
+          return released;
+        }
+        if (el.children?.some(childId => groupMap.has(childId))) {
+          const children = el.children.flatMap(childId => {
+            const childGroup = groupMap.get(childId);
+            return childGroup ? (childGroup.children || []) : [childId];
+          });
+          return { ...el, children };
+        }
+        return el;
+      });
+
+    return { ids: releasedIds, elements: nextElements };
+  }
+
+  /**
+   * 按比例缩放组内所有后代（组被整体缩放时调用）
+   */
+  public static scaleDescendants(elements: Element[], groupId: string, scaleX: number, scaleY: number): Element[] {
+    const store = ElementStore.of(elements);
+    const descendants = store.getDescendantIds([groupId]);
+    if (descendants.length === 0) return elements;
+
+    return ElementStore.update(elements, descendants.map(id => {
+      const el = store.get(id)!;
+      const scaled: Element = {
+        ...el,
+        x: el.x * scaleX,
+        y: el.y * scaleY,
+        width: el.width * scaleX,
+        height: el.height * scaleY,
+      };
+      if (el.type === 'text' && el.style?.fontSize) {
+        scaled.style = { ...el.style, fontSize: el.style.fontSize * scaleX };
+      }
+      if (el.richText) scaled.richText = scaleSpanFontSizes(el.richText, scaleX);
+      return scaled;
+    }));
+  }
+
+  /**
+   * 让组的包围盒贴合成员（成员被单独移动/缩放后调用）
+   * 组的位置随之移动，成员坐标做反向补偿，保证成员的世界坐标不变
+   */
+  public static fitBounds(elements: Element[], groupId: string): Element[] {
+    const store = ElementStore.of(elements);
+    const group = store.get(groupId);
+    const members = store.getChildren(groupId);
+    if (!group || members.length === 0) return elements;
+
+    const { x: minX, y: minY, width, height } = getBoundingBox(members.map(getRotatedBounds))!;
+
+    if (minX === 0 && minY === 0 && width === group.width && height === group.height) {
+      return elements;
+    }
+
+    const updated: Element[] = [{ ...group, x: group.x + minX, y: group.y + minY, width, height }];
+    if (minX !== 0 || minY !== 0) {
+      members.forEach(el => updated.push({ ...el, x: el.x - minX, y: el.y - minY }));
+    }
+    return ElementStore.update(elements, updated);
+  }
+
+  /**
+   * 删除没有成员的组
+   */
+  public static removeEmptyGroups(elements: Element[]): Element[] {
+    const parentIds = new Set(elements.map(el => el.parentId));
+    const emptyGroupIds = new Set(
+      elements
+        .filter(el => el.type === 'group' && !parentIds.has(el.id))
+        .map(el => el.id)
+    );
+    if (emptyGroupIds.size === 0) return elements;
+
+    return elements
+      .filter(el => !emptyGroupIds.has(el.id))
+      .map(el => el.children?.some(id => emptyGroupIds.has(id))
+        ? { ...el, children: el.children.filter(id => !emptyGroupIds.has(id)) }
+        : el
+      );
+  }
+}
@@ -0,0 +1,245 @@
+import type { Element } from '../types';
+import { ElementStore } from './ElementStore';
+
+/**
+ * 历史快照：仅记录可撤销的文档部分（元素与选区）
+ * 由于状态是不可变的，快照只保存引用，开销很小。
+ */
+export interface HistorySnapshot {
+  elements: Element[];
+  selectedIds: string[];
+}
+
+/** parentId 与 x / y 总是一起变化（与协作文档的位置寄存器一致） */
+const PLACEMENT_KEYS = ['parentId', 'x', 'y'] as const;
+/** 不按字段合并的键：children 由 parentId 重新推导 */
+const SKIPPED_KEYS = new Set<string>(['id', 'children', 'style', ...PLACEMENT_KEYS]);
+const CONTAINER_TYPES = new Set(['frame', 'group']);
+
+const isEqual = (a: unknown, b: unknown) =>
+  a === b || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+/**
+ * 把 before → after 中变化的字段写入 target（值为 undefined 时删除该字段）
+ */
+function mergeChangedFields(
+  target: Record<string, unknown>,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  skipped?: Set<string>
+) {
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+    if (skipped?.has(key) || isEqual(before[key], after[key])) return;
+    if (after[key] === undefined) delete target[key];
+    else target[key] = after[key];
+  });
+}
+
+/**
+ * 把远端对元素的修改（before → after）合并到快照中的同一元素上，只覆盖远端改动过的字段
+ */
+function mergeRemoteChange(current: Element, before: Element, after: Element): Element {
+  const merged = { ...current } as unknown as Record<string, unknown>;
+  if (PLACEMENT_KEYS.some(key => before[key] !== after[key])) {
+    mergeChangedFields(merged, {}, { parentId: after.parentId, x: after.x, y: after.y });
+    if (after.parentId === undefined) delete merged.parentId;
+  }
+  mergeChangedFields(
+    merged,
+    before as unknown as Record<string, unknown>,
+    after as unknown as Record<string, unknown>,
+    SKIPPED_KEYS
+  );
+  if (before.style !== after.style) {
+    const style = { ...current.style } as Record<string, unknown>;
+    mergeChangedFields(style, { ...before.style }, { ...after.style });
+    if (Object.keys(style).length > 0) merged.style = style;
+    else delete merged.style;
+  }
+  return merged as unknown as Element;
+}
+
+/**
+ * 把远端变化（prev → next）应用到一份快照上：
+ * - 远端删除的元素从快照中移除，远端新增的元素加入快照；
+ * - 远端修改的元素只覆盖被修改的字段，保留快照中其他字段（即本地的撤销内容）；
+ * - 受影响容器的 children 按 parentId 重新推导，父级已不存在的元素连同后代一起移除。
+ */
+function rebaseSnapshot(
+  snapshot: HistorySnapshot,
+  prevStore: ElementStore,
+  changed: Element[],
+  removedIds: Set<string>
+): HistorySnapshot {
+  const store = ElementStore.of(snapshot.elements);
+  const updates = new Map<string, Element>();
+  const added: Element[] = [];
+  const affectedParentIds = new Set<string | undefined>();
+
+  changed.forEach(after => {
+    const current = store.get(after.id);
+    const before = prevStore.get(after.id);
+    if (!before) {
+      if (!current) added.push(after);
+      affectedParentIds.add(after.parentId);
+      return;
+    }
+    // 快照中没有的元素（本地在快照之后创建）不恢复
+    if (!current || current === after) return;
+    const merged = current === before ? after : mergeRemoteChange(current, before, after);
+    updates.set(merged.id, merged);
+    affectedParentIds.add(current.parentId).add(merged.parentId);
+  });
+  removedIds.forEach(id => {
+    if (store.has(id)) affectedParentIds.add(store.get(id)!.parentId);
+  });
+  if (updates.size === 0 && added.length === 0 && !snapshot.elements.some(el => removedIds.has(el.id))) {
+    return snapshot;
+  }
+
+  let elements = [
+    ...ElementStore.update(snapshot.elements, updates.values()).filter(el => !removedIds.has(el.id)),
+    ...added,
+  ];
+
+  // 父级不存在的元素与协作文档中一样不可见
+  const orphanIds = elements
+    .filter(el => el.parentId && !ElementStore.of(elements).has(el.parentId))
+    .map(el => el.id);
+  if (orphanIds.length > 0) {
+    const hidden = new Set([...orphanIds, ...ElementStore.of(elements).getDescendantIds(orphanIds)]);
+    elements = elements.filter(el => !hidden.has(el.id));
+  }
+
+  const nextStore = ElementStore.of(elements);
+  const childUpdates: Element[] = [];
+  affectedParentIds.forEach(parentId => {
+    const parent = nextStore.get(parentId);
+    if (!parent || !CONTAINER_TYPES.has(parent.type)) return;
+    const children = nextStore.getChildren(parent.id).map(el => el.id);
+    if (!isEqual(children, parent.children || [])) childUpdates.push({ ...parent, children });
+  });
+  elements = ElementStore.update(elements, childUpdates);
+
+  const ids = ElementStore.of(elements);
+  return { elements, selectedIds: snapshot.selectedIds.filter(id => ids.has(id)) };
+}
+
+/**
+ * HistoryManager - 撤销/重做栈
+ *
+ * 每条记录保存的是「变化之前」的快照：
+ * - 撤销时把当前状态压入重做栈，并恢复记录中的快照；
+ * - 处于批处理（transaction / 连续手势）期间，只保留第一次变化前的快照，
+ *   批处理结束时合并为一条记录。
+ */
+export class HistoryManager {
+  private undoStack: HistorySnapshot[] = [];
+  private redoStack: HistorySnapshot[] = [];
+  private batchDepth = 0;
+  private pending: HistorySnapshot | null = null;
+  private limit: number;
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  /**
+   * 记录一次变化，before 为变化前的快照
+   */
+  public record(before: HistorySnapshot) {
+    if (this.batchDepth > 0) {
+      if (!this.pending) this.pending = before;
+      return;
+    }
+    this.push(before);
+  }
+
+  /**
+   * 开始合并：期间的所有变化合并为一条记录
+   */
+  public beginBatch() {
+    this.batchDepth++;
+  }
+
+  /**
+   * 结束合并，最外层结束时提交合并的记录
+   * @param current 当前快照，用于判断批处理期间元素是否真正发生了变化
+   */
+  public endBatch(current: HistorySnapshot) {
+    if (this.batchDepth === 0) return;
+    this.batchDepth--;
+    if (this.batchDepth === 0 && this.pending) {
+      if (this.pending.elements !== current.elements) {
+        this.push(this.pending);
+      }
+      this.pending = null;
+    }
+  }
+
+  public get isBatching(): boolean {
+    return this.batchDepth > 0;
+  }
+
+  /**
+   * 撤销：返回需要恢复的快照，若无可撤销记录返回 null
+   * @param current 当前快照，会被压入重做栈
+   */
+  public undo(current: HistorySnapshot): HistorySnapshot | null {
+    const snapshot = this.undoStack.pop();
+    if (!snapshot) return null;
+    this.redoStack.push(current);
+    return snapshot;
+  }
+
+  /**
+   * 重做：返回需要恢复的快照，若无可重做记录返回 null
+   * @param current 当前快照，会被压入撤销栈
+   */
+  public redo(current: HistorySnapshot): HistorySnapshot | null {
+    const snapshot = this.redoStack.pop();
+    if (!snapshot) return null;
+    this.undoStack.push(current);
+    return snapshot;
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * 文档被外部（协作对端、增量回放）从 prev 修改为 next 时调用：
+   * 把这些修改合并进所有快照，使撤销 / 重做只回退本地的修改，而不会覆盖外部的修改
+   */
+  public rebase(prev: Element[], next: Element[]) {
+    const { changed, removedIds } = ElementStore.diff(prev, next);
+    if (changed.length === 0 && removedIds.length === 0) return;
+
+    const prevStore = ElementStore.of(prev);
+    const removed = new Set(removedIds);
+    const rebase = (snapshot: HistorySnapshot) => rebaseSnapshot(snapshot, prevStore, changed, removed);
+    this.undoStack = this.undoStack.map(rebase);
+    this.redoStack = this.redoStack.map(rebase);
+    if (this.pending) this.pending = rebase(this.pending);
+  }
+
+  public clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.pending = null;
+    this.batchDepth = 0;
+  }
+
+  private push(snapshot: HistorySnapshot) {
+    this.undoStack.push(snapshot);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    // 新的编辑会使重做栈失效
+    this.redoStack = [];
+  }
+}
@@ -1,5 +1,9 @@
 import type { Element, Point } from '../types';
-import { getElementWorldPos, findFrameAtPoint } from '../utils';
+import { getReparentedGeometry, findFrameAtPoint } from '../utils';
+import { ElementManager } from './ElementManager';
+import { LayoutManager } from './LayoutManager';
+import type { SpatialIndex } from './SpatialIndex';
+import { ElementStore } from './ElementStore';
 
 export class InteractionManager {
   public static handleDrag(
@@ -7,84 +11,81 @@ export class InteractionManager {
     hoverFrameId: string | null,
     ids: string[],
     delta: [number, number],
-    mouseWorld?: Point
+    mouseWorld?: Point,
+    spatialIndex?: SpatialIndex
   ): { elements: Element[], hoverFrameId: string | null } {
-    const nextElements = [...elements];
     let nextHoverFrameId = hoverFrameId;
 
     // 1. Move selected elements
-    ids.forEach(id => {
-      const idx = nextElements.findIndex(el => el.id === id);
-      if (idx === -1) return;
+    const store = ElementStore.of(elements);
+    const idSet = new Set(ids);
+    const moved: Element[] = [];
+    idSet.forEach(id => {
+      const el = store.get(id);
+      if (!el) return;
 
-      const el = nextElements[idx];
-      const isParentAlsoSelected = el.parentId && ids.includes(el.parentId);
+      const isParentAlsoSelected = el.parentId && idSet.has(el.parentId);
       if (!isParentAlsoSelected) {
-        nextElements[idx] = {
+        moved.push({
           ...el,
           x: el.x + delta[0],
           y: el.y + delta[1]
-        };
+        });
       }
     });
+    let nextElements = ElementStore.update(elements, moved);
 
     // 2. Handle Frame nesting (Symmetric Cursor-based Logic)
     if (ids.length === 1 && mouseWorld) {
       const id = ids[0];
-      const el = nextElements.find(e => e.id === id);
+      const nextStore = ElementStore.of(nextElements);
+      const el = nextStore.get(id);
+
+      // 组内成员只能在组内移动，不参与 Frame 嵌套
+      const parent = nextStore.get(el?.parentId);
 
-      if (el && el.type !== 'frame') {
-        const targetFrame = findFrameAtPoint(nextElements, mouseWorld.x, mouseWorld.y, ids);
+      if (el && el.type !== 'frame' && parent?.type !== 'group') {
+        // 被拖拽的元素已排除，其余 Frame 的位置未变，索引仍然有效
+        const targetFrame = findFrameAtPoint(nextElements, mouseWorld.x, mouseWorld.y, ids, spatialIndex);
         const targetFrameId = targetFrame?.id || undefined;
 
         // 如果鼠标所处的 Frame 与当前父级不一致，执行嵌套/脱离转换
         if (el.parentId !== targetFrameId) {
           nextHoverFrameId = targetFrameId || null;
 
-          // 获取当前世界坐标，作为转换基准
-          const worldPos = getElementWorldPos(nextElements, id);
-          const idx = nextElements.findIndex(e => e.id === id);
+          // 保持世界位置与朝向不变，换算到新父级的局部坐标系（兼容旋转的 Frame）
+          const geometry = getReparentedGeometry(nextElements, id, targetFrameId);
+          const updated: Element[] = [{ ...el, ...geometry, parentId: targetFrameId }];
 
-          if (targetFrameId) {
-            // 嵌套入新 Frame
-            const frameWorldPos = getElementWorldPos(nextElements, targetFrameId);
-            nextElements[idx] = {
-              ...el,
-              parentId: targetFrameId,
-              x: worldPos.x - frameWorldPos.x,
-              y: worldPos.y - frameWorldPos.y
-            };
-
-            // 更新新父级的 children
-            const fIdx = nextElements.findIndex(e => e.id === targetFrameId);
-            const children = nextElements[fIdx].children || [];
-            if (!children.includes(id)) {
-              nextElements[fIdx] = { ...nextElements[fIdx], children: [...children, id] };
-            }
-          } else {
-            // 脱离到根画布
-            nextElements[idx] = {
-              ...el,
-              parentId: undefined,
-              x: worldPos.x,
-              y: worldPos.y
-            };
+          // 嵌套入新 Frame 时更新新父级的 children
+          const children = targetFrame?.children || [];
+          if (targetFrame && !children.includes(id)) {
+            updated.push({ ...targetFrame, children: [...children, id] });
           }
 
           // 如果之前有父级，从旧父级中移除
-          if (el.parentId) {
-            const oldPIdx = nextElements.findIndex(e => e.id === el.parentId);
-            if (oldPIdx !== -1) {
-              nextElements[oldPIdx] = {
-                ...nextElements[oldPIdx],
-                children: (nextElements[oldPIdx].children || []).filter(cid => cid !== id)
-              };
-            }
+          if (parent) {
+            updated.push({ ...parent, children: (parent.children || []).filter(cid => cid !== id) });
           }
+          nextElements = ElementStore.update(nextElements, updated);
         }
       }
     }
 
+    // 3. 拖入自动布局 Frame：按鼠标位置插入到对应顺序，坐标由布局重新计算
+    if (ids.length === 1 && mouseWorld) {
+      const nextStore = ElementStore.of(nextElements);
+      const el = nextStore.get(ids[0]);
+      const parent = nextStore.get(el?.parentId);
+      if (el && parent?.layout) {
+        const index = LayoutManager.getInsertIndex(nextElements, parent.id, mouseWorld, el.id);
+        return {
+          elements: ElementManager.reorderElements(nextElements, [el.id], { index }),
+          hoverFrameId: nextHoverFrameId,
+        };
+      }
+    }
+
     return { elements: nextElements, hoverFrameId: nextHoverFrameId };
   }
 
@@ -94,9 +95,10 @@ export class InteractionManager {
   public static handleDragPreview(
     elements: Element[],
     ids: string[],
-    mouseWorld: Point
+    mouseWorld: Point,
+    spatialIndex?: SpatialIndex
   ): string | null {
-    const targetFrame = findFrameAtPoint(elements, mouseWorld.x, mouseWorld.y, ids);
+    const targetFrame = findFrameAtPoint(elements, mouseWorld.x, mouseWorld.y, ids, spatialIndex);
     return targetFrame ? targetFrame.id : null;
   }
 }
@@ -0,0 +1,180 @@
+import type { Element, FrameLayout, Point } from '../types';
+import { getElementWorldCenter, getElementWorldRotation } from '../utils';
+import { rotatePoint } from '../../../utils/geometry';
+import { ElementStore } from './ElementStore';
+
+interface LayoutItem {
+  element: Element;
+  /** 旋转后在父级局部坐标系中的包围盒尺寸 */
+  width: number;
+  height: number;
+}
+
+interface LayoutLine {
+  items: LayoutItem[];
+  /** 主轴方向占用的长度（含间距） */
+  main: number;
+  /** 交叉轴方向的厚度 */
+  cross: number;
+}
+
+/**
+ * 参与自动布局的子元素，按图层顺序（zIndex 从低到高）排列
+ * 隐藏的元素与连接线不占位
+ */
+function getFlowItems(elements: Element[], frameId: string): LayoutItem[] {
+  return ElementStore.of(elements)
+    .getChildren(frameId)
+    .filter(el => el.visible !== false && el.type !== 'connector')
+    .map(element => {
+      const rad = ((element.rotation || 0) * Math.PI) / 180;
+      const cos = Math.abs(Math.cos(rad));
+      const sin = Math.abs(Math.sin(rad));
+      return {
+        element,
+        width: element.width * cos + element.height * sin,
+        height: element.width * sin + element.height * cos,
+      };
+    });
+}
+
+/**
+ * 将子元素分行：未开启换行时只有一行
+ */
+function breakLines(items: LayoutItem[], layout: FrameLayout, available: number): LayoutLine[] {
+  const isHorizontal = layout.direction === 'horizontal';
+  const lines: LayoutLine[] = [];
+  let line: LayoutLine | null = null;
+
+  items.forEach(item => {
+    const main = isHorizontal ? item.width : item.height;
+    const cross = isHorizontal ? item.height : item.width;
+    if (!line || (layout.wrap && line.items.length > 0 && line.main + layout.gap + main > available)) {
+      line = { items: [], main: -layout.gap, cross: 0 };
+      lines.push(line);
+    }
+    line.items.push(item);
+    line.main += layout.gap + main;
+    line.cross = Math.max(line.cross, cross);
+  });
+
+  return lines;
+}
+
+/**
+ * LayoutManager - Frame 自动布局
+ *
+ * 在 Frame 的局部坐标系中按方向依次排列子元素，只修改子元素的 x / y；
+ * sizing 为 hug 时同时修改 Frame 的宽高（保持左上角不动）。
+ */
+export class LayoutManager {
+  public static applyLayout(elements: Element[], frameId: string): Element[] {
+    const frame = ElementStore.of(elements).get(frameId);
+    const layout = frame?.layout;
+    if (!frame || frame.type !== 'frame' || !layout) return elements;
+
+    const isHorizontal = layout.direction === 'horizontal';
+    const { gap, padding } = layout;
+    const hug = layout.sizing === 'hug';
+    const items = getFlowItems(elements, frameId);
+
+    const frameMain = isHorizontal ? frame.width : frame.height;
+    const frameCross = isHorizontal ? frame.height : frame.width;
+    const lines = breakLines(items, layout, frameMain - padding * 2);
+
+    // 1. Frame 尺寸：hug 时贴合内容，换行时主轴尺寸固定
+    const contentMain = Math.max(0, ...lines.map(line => line.main));
+    const contentCross = lines.reduce((sum, line) => sum + line.cross, 0) + gap * Math.max(0, lines.length - 1);
+    const nextMain = hug && !layout.wrap ? contentMain + padding * 2 : frameMain;
+    const nextCross = hug ? contentCross + padding * 2 : frameCross;
+
+    // 2. 逐行排列；只有一行且 Frame 尺寸固定时，交叉轴对齐以 Frame 内部空间为准
+    const positions = new Map<string, Point>();
+    let crossCursor = padding;
+    lines.forEach(line => {
+      const lineCross = lines.length === 1 && !layout.wrap ? nextCross - padding * 2 : line.cross;
+      let mainCursor = padding;
+      line.items.forEach(item => {
+        const main = isHorizontal ? item.width : item.height;
+        const cross = isHorizontal ? item.height : item.width;
+        const free = lineCross - cross;
+        const crossOffset = layout.align === 'center' ? free / 2 : layout.align === 'end' ? free : 0;
+
+        // 排列的是旋转后的包围盒，换算回未旋转时的左上角
+        const boxX = isHorizontal ? mainCursor : crossCursor + crossOffset;
+        const boxY = isHorizontal ? crossCursor + crossOffset : mainCursor;
+        positions.set(item.element.id, {
+          x: boxX + (item.width - item.element.width) / 2,
+          y: boxY + (item.height - item.element.height) / 2,
+        });
+        mainCursor += main + gap;
+      });
+      crossCursor += line.cross + gap;
+    });
+
+    const width = isHorizontal ? nextMain : nextCross;
+    const height = isHorizontal ? nextCross : nextMain;
+
+    const updated: Element[] = [];
+    if (frame.width !== width || frame.height !== height) {
+      updated.push({ ...frame, width, height });
+    }
+    items.forEach(({ element: el }) => {
+      const pos = positions.get(el.id)!;
+      if (Math.abs(el.x - pos.x) > 1e-6 || Math.abs(el.y - pos.y) > 1e-6) {
+        updated.push({ ...el, x: pos.x, y: pos.y });
+      }
+    });
+
+    return ElementStore.update(elements, updated);
+  }
+
+  /**
+   * 计算拖入自动布局 Frame 时的插入位置
+   * @param point 鼠标的世界坐标
+   * @param excludeId 正在拖拽的元素，不参与计算
+   * @returns 在同级元素（按 zIndex 从低到高，不含 excludeId）中的位置，可直接用于 reorderElements
+   */
+  public static getInsertIndex(elements: Element[], frameId: string, point: Point, excludeId: string): number {
+    const frame = ElementStore.of(elements).get(frameId);
+    if (!frame?.layout) return 0;
+
+    // 世界坐标换算到 Frame 的局部坐标系
+    const center = getElementWorldCenter(elements, frameId);
+    const unrotated = rotatePoint(point, center, -getElementWorldRotation(elements, frameId));
+    const local = { x: unrotated.x - center.x + frame.width / 2, y: unrotated.y - center.y + frame.height / 2 };
+
+    const layout = frame.layout;
+    const isHorizontal = layout.direction === 'horizontal';
+    const items = getFlowItems(elements, frameId).filter(item => item.element.id !== excludeId);
+    const lines = breakLines(items, layout, (isHorizontal ? frame.width : frame.height) - layout.padding * 2);
+    const pointerMain = isHorizontal ? local.x : local.y;
+    const pointerCross = isHorizontal ? local.y : local.x;
+
+    // 找到鼠标所在的行，再按各元素主轴中心判断前后
+    let before: LayoutItem[] = [];
+    let crossCursor = layout.padding;
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      crossCursor += line.cross;
+      if (pointerCross <= crossCursor + layout.gap / 2 || i === lines.length - 1) {
+        before = [
+          ...lines.slice(0, i).flatMap(l => l.items),
+          ...line.items.filter(item => {
+            const pos = isHorizontal ? item.element.x + item.element.width / 2 : item.element.y + item.element.height / 2;
+            return pos < pointerMain;
+          }),
+        ];
+        break;
+      }
+      crossCursor += layout.gap;
+    }
+
+    // 换算为包括不占位元素在内的同级位置：插到下一个占位元素之前
+    const siblings = ElementStore.of(elements)
+      .getChildren(frameId)
+      .filter(el => el.id !== excludeId);
+    const next = items[before.length];
+    return next ? siblings.findIndex(el => el.id === next.element.id) : siblings.length;
+  }
+}
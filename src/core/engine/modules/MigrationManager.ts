@@ -0,0 +1,137 @@
+import type { Element, SchemaError } from '../types';
+import type { EditorDataExport } from '../EditorEngine';
+import { normalizeRotation } from '../../../utils/geometry';
+
+/** 当前文档结构版本，exportData 输出该版本 */
+export const SCHEMA_VERSION = '1.1.0';
+
+/** 迁移过程中的文档：结构尚未确定，只保证有版本号 */
+export type VersionedDocument = { version: string } & Record<string, unknown>;
+
+/**
+ * 单个版本迁移：将 from 版本的文档转换为 to 版本
+ */
+export interface Migration {
+  from: string;
+  to: string;
+  /** 变更说明 */
+  description: string;
+  migrate: (data: VersionedDocument) => VersionedDocument;
+}
+
+export interface MigrationResult {
+  /** 迁移后的文档，失败时为 undefined */
+  data?: EditorDataExport;
+  /** 依次执行的迁移，如 ['1.0.0 -> 1.1.0'] */
+  applied: string[];
+  errors: SchemaError[];
+}
+
+/**
+ * 比较两个 x.y.z 版本号
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+/**
+ * 1.0.0 -> 1.1.0
+ * - children 改为由 parentId 推导：保留原有顺序，补全缺失的子元素并移除失效的引用；
+ * - rotation 归一化到 [0, 360)。
+ */
+const migrateTo110: Migration = {
+  from: '1.0.0',
+  to: '1.1.0',
+  description: '根据 parentId 重建 children，并归一化 rotation',
+  migrate: (data) => {
+    if (!Array.isArray(data.elements)) return data;
+    const elements = data.elements as Element[];
+
+    const childrenOf = new Map<string, string[]>();
+    elements.forEach(el => {
+      if (el?.parentId) childrenOf.set(el.parentId, [...(childrenOf.get(el.parentId) || []), el.id]);
+    });
+
+    return {
+      ...data,
+      elements: elements.map(el => {
+        if (!el || typeof el !== 'object') return el;
+        const actual = childrenOf.get(el.id) || [];
+        const ordered = (Array.isArray(el.children) ? el.children : []).filter(id => actual.includes(id));
+        const children = [...ordered, ...actual.filter(id => !ordered.includes(id))];
+        const rotation = typeof el.rotation === 'number' ? normalizeRotation(el.rotation) : el.rotation;
+
+        const next: Element = { ...el, rotation: rotation || undefined };
+        if (children.length > 0 || el.children) next.children = children;
+        return next;
+      }),
+    };
+  },
+};
+
+/**
+ * MigrationManager - 文档结构版本迁移
+ *
+ * 每次调整 ElementType、ElementStyle 等持久化结构时，提升 SCHEMA_VERSION
+ * 并注册一个从上一版本出发的迁移，旧版本保存的文档在导入时逐级升级。
+ */
+export class MigrationManager {
+  private static migrations = new Map<string, Migration>([[migrateTo110.from, migrateTo110]]);
+
+  /**
+   * 注册迁移（同一起始版本只能有一个迁移）
+   */
+  public static register(migration: Migration) {
+    if (MigrationManager.migrations.has(migration.from)) {
+      console.warn(`[Migration] Overriding migration from ${migration.from}`);
+    }
+    MigrationManager.migrations.set(migration.from, migration);
+  }
+
+  /**
+   * 已注册的迁移，按起始版本排序
+   */
+  public static getMigrations(): Migration[] {
+    return [...MigrationManager.migrations.values()].sort((a, b) => compareVersions(a.from, b.from));
+  }
+
+  /**
+   * 将任意版本的文档迁移到当前版本
+   */
+  public static migrate(input: unknown): MigrationResult {
+    const applied: string[] = [];
+    const fail = (message: string): MigrationResult => ({ applied, errors: [{ path: 'version', message }] });
+
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return { applied, errors: [{ path: '', message: 'Document must be an object' }] };
+    }
+    let data = input as VersionedDocument;
+    if (typeof data.version !== 'string' || !/^\d+(\.\d+)*$/.test(data.version)) {
+      return fail(`Invalid version: ${JSON.stringify(data.version)}`);
+    }
+    if (compareVersions(data.version, SCHEMA_VERSION) > 0) {
+      return fail(`Document version ${data.version} is newer than supported version ${SCHEMA_VERSION}`);
+    }
+
+    while (data.version !== SCHEMA_VERSION) {
+      const migration = MigrationManager.migrations.get(data.version);
+      if (!migration) {
+        return fail(`No migration path from version ${data.version} to ${SCHEMA_VERSION}`);
+      }
+      try {
+        data = { ...migration.migrate(data), version: migration.to };
+      } catch (error) {
+        return fail(`Migration ${migration.from} -> ${migration.to} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      applied.push(`${migration.from} -> ${migration.to}`);
+    }
+
+    return { data: data as unknown as EditorDataExport, applied, errors: [] };
+  }
+}
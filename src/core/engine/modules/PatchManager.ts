@@ -0,0 +1,142 @@
+import type { Element, SchemaError } from '../types';
+import { ElementStore } from './ElementStore';
+import { SchemaManager } from './SchemaManager';
+import { SCHEMA_VERSION } from './MigrationManager';
+
+/**
+ * 单个元素的字段修改
+ */
+export interface ElementFieldPatch {
+  id: string;
+  /** 新增或取值变化的字段 */
+  set: Partial<Element>;
+  /** 被移除的字段 */
+  unset?: (keyof Element)[];
+}
+
+/**
+ * DocumentPatch - 文档的一次增量修改（可直接 JSON 序列化）
+ *
+ * 只包含元素，不包含视口；revision 始终为 baseRevision + 1。
+ */
+export interface DocumentPatch {
+  /** 应用前的修订号 */
+  baseRevision: number;
+  /** 应用后的修订号 */
+  revision: number;
+  added: Element[];
+  updated: ElementFieldPatch[];
+  removed: string[];
+}
+
+export interface PatchApplyResult {
+  /** 应用后的元素列表，失败时为 null */
+  elements: Element[] | null;
+  errors: SchemaError[];
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+/**
+ * 比较同一元素前后两个版本的字段
+ */
+function diffFields(before: Element, after: Element): ElementFieldPatch | null {
+  const set: UnknownRecord = {};
+  const unset: (keyof Element)[] = [];
+  const beforeRecord = before as unknown as UnknownRecord;
+  const afterRecord = after as unknown as UnknownRecord;
+
+  Object.keys(afterRecord).forEach(key => {
+    if (afterRecord[key] === undefined) return;
+    if (beforeRecord[key] !== afterRecord[key]) set[key] = afterRecord[key];
+  });
+  Object.keys(beforeRecord).forEach(key => {
+    if (beforeRecord[key] !== undefined && afterRecord[key] === undefined) unset.push(key as keyof Element);
+  });
+
+  if (Object.keys(set).length === 0 && unset.length === 0) return null;
+  return unset.length > 0
+    ? { id: after.id, set: set as Partial<Element>, unset }
+    : { id: after.id, set: set as Partial<Element> };
+}
+
+/**
+ * 去掉值为 undefined 的字段，使元素与 JSON 往返后的结果一致
+ */
+function compact(element: Element): Element {
+  const record = element as unknown as UnknownRecord;
+  return Object.keys(record).some(key => record[key] === undefined)
+    ? Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as unknown as Element
+    : element;
+}
+
+/**
+ * PatchManager - 生成与应用文档增量修改
+ *
+ * 字段以引用比较：style、points 等对象字段整体替换，不做深层合并（状态不可变，修改时总会生成新对象）。
+ */
+export class PatchManager {
+  /**
+   * 比较两份元素列表，生成从 prev 到 next 的修改；没有实际变化时返回 null
+   */
+  public static create(prev: Element[], next: Element[], baseRevision: number): DocumentPatch | null {
+    if (prev === next) return null;
+
+    const prevStore = ElementStore.of(prev);
+    const { changed, removedIds } = ElementStore.diff(prev, next);
+    const added: Element[] = [];
+    const updated: ElementFieldPatch[] = [];
+
+    changed.forEach(element => {
+      const before = prevStore.get(element.id);
+      if (!before) {
+        added.push(compact(element));
+        return;
+      }
+      const fields = diffFields(before, element);
+      if (fields) updated.push(fields);
+    });
+
+    if (added.length === 0 && updated.length === 0 && removedIds.length === 0) return null;
+    return { baseRevision, revision: baseRevision + 1, added, updated, removed: removedIds };
+  }
+
+  /**
+   * 将修改应用到元素列表上，不修改原数组
+   * 引用不存在的元素、ID 重复或应用后的文档未通过结构校验时失败
+   */
+  public static apply(elements: Element[], patch: DocumentPatch): PatchApplyResult {
+    const errors: SchemaError[] = [];
+    const store = ElementStore.of(elements);
+
+    patch.removed.forEach((id, i) => {
+      if (!store.has(id)) errors.push({ path: `removed[${i}]`, message: `Element "${id}" does not exist`, elementId: id });
+    });
+    patch.updated.forEach(({ id }, i) => {
+      if (!store.has(id)) errors.push({ path: `updated[${i}].id`, message: `Element "${id}" does not exist`, elementId: id });
+    });
+    patch.added.forEach(({ id }, i) => {
+      if (store.has(id) && !patch.removed.includes(id)) {
+        errors.push({ path: `added[${i}].id`, message: `Element "${id}" already exists`, elementId: id });
+      }
+    });
+    if (errors.length > 0) return { elements: null, errors };
+
+    const removed = new Set(patch.removed);
+    const updates = new Map(patch.updated.map(fields => [fields.id, fields]));
+    const next = elements
+      .filter(el => !removed.has(el.id))
+      .map(el => {
+        const fields = updates.get(el.id);
+        if (!fields) return el;
+        const result = { ...el, ...fields.set, id: el.id } as UnknownRecord;
+        fields.unset?.forEach(key => delete result[key]);
+        return result as unknown as Element;
+      });
+    next.push(...patch.added);
+
+    const validation = SchemaManager.validate({ version: SCHEMA_VERSION, viewport: { x: 0, y: 0, zoom: 1 }, elements: next });
+    if (!validation.valid) return { elements: null, errors: validation.errors };
+    return { elements: next, errors: [] };
+  }
+}
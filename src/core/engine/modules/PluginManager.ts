@@ -0,0 +1,141 @@
+import type React from 'react';
+import type { BuiltinElementType, Element, Point } from '../types';
+import type { ExportFormat } from '../../../utils/exportUtils';
+
+/** 新建元素时可以预设的字段 */
+export type PluginDefaultProps = Partial<Omit<Element, 'id' | 'type' | 'zIndex' | 'parentId' | 'children'>>;
+
+/**
+ * 插件元素渲染器的参数
+ * 渲染器只负责元素内容：定位、旋转、层级与透明度由外层容器处理，内容按元素的宽高（局部坐标）绘制
+ */
+export interface PluginElementProps {
+  element: Element;
+  isSelected: boolean;
+  isEditing: boolean;
+}
+
+/**
+ * 插件浮动工具栏的参数（选中单个该类型元素时显示）
+ */
+export interface PluginToolbarProps {
+  element: Element;
+  onExport: (format: ExportFormat) => void;
+}
+
+/**
+ * 插件提供的创建工具，显示在左侧工具栏中；拖拽创建，单击时按 defaultProps 的宽高创建
+ */
+export interface PluginTool {
+  icon: React.ReactNode;
+  /** 工具提示，默认为插件的 label */
+  label?: string;
+}
+
+/**
+ * EditorPlugin - 自定义元素类型
+ *
+ * 通过 EditorProvider 的 plugins（或 PluginManager.register）注册。插件元素与内置元素一样存储在 state.elements 中，
+ * 可被选中、移动、缩放、旋转、编组、放入 Frame、复制粘贴与撤销。
+ */
+export interface EditorPlugin {
+  /** 元素类型，不能与内置类型重名，建议带上前缀（如 acme-sticky） */
+  type: string;
+  /** 显示名称（图层面板、工具提示） */
+  label: string;
+  /** 图层面板中的图标 */
+  icon?: React.ReactNode;
+  /** 元素内容的渲染器 */
+  render: React.ComponentType<PluginElementProps>;
+  /** 新建元素（创建工具、element.create 命令）时的默认字段，显式传入的字段优先 */
+  defaultProps?: PluginDefaultProps;
+  /** 创建工具 */
+  tool?: PluginTool;
+  /** 浮动工具栏，未提供时只显示旋转与约束等通用控件 */
+  toolbar?: React.ComponentType<PluginToolbarProps>;
+  /**
+   * 导出为图片 / PDF 时的绘制函数：坐标系原点为元素左上角，旋转已处理
+   * 未提供时导出结果中不包含该元素；PDF 中以位图嵌入
+   */
+  exportToCanvas?: (ctx: CanvasRenderingContext2D, element: Element) => void | Promise<void>;
+  /**
+   * 导出为 SVG 时的内容片段：坐标系原点为元素左上角
+   * 未提供时回退为 exportToCanvas 的位图
+   */
+  exportToSVG?: (element: Element) => string | Promise<string>;
+  /**
+   * 命中测试：point 为元素局部坐标（原点为左上角，已抵消旋转），默认为整个包围盒
+   * 用于连接线绑定等基于坐标的命中判断
+   */
+  hitTest?: (element: Element, point: Point) => boolean;
+}
+
+/** 内置元素类型；新增 BuiltinElementType 时这里会提示补全 */
+const BUILTIN_ELEMENT_TYPES: Record<BuiltinElementType, true> = {
+  rectangle: true,
+  ellipse: true,
+  line: true,
+  arrow: true,
+  polygon: true,
+  star: true,
+  path: true,
+  connector: true,
+  text: true,
+  image: true,
+  frame: true,
+  group: true,
+};
+
+/**
+ * PluginManager - 自定义元素类型的注册表
+ *
+ * 注册表是全局的：同一页面中的多个编辑器共享已注册的插件。
+ * 引擎只使用插件的 defaultProps 与 hitTest，渲染、工具栏与导出由界面层与导出工具读取。
+ */
+export class PluginManager {
+  private static plugins = new Map<string, EditorPlugin>();
+
+  /**
+   * 注册插件；同一插件重复注册会被忽略，同类型的其他插件会覆盖之前的注册
+   * @returns 是否注册成功（类型与内置类型重名时失败）
+   */
+  public static register(plugin: EditorPlugin): boolean {
+    if (PluginManager.isBuiltinType(plugin.type)) {
+      console.error(`[Plugin] Element type "${plugin.type}" is built in and cannot be overridden`);
+      return false;
+    }
+    const existing = PluginManager.plugins.get(plugin.type);
+    if (existing === plugin) return true;
+    if (existing) {
+      console.warn(`[Plugin] Overriding plugin for element type "${plugin.type}"`);
+    }
+    PluginManager.plugins.set(plugin.type, plugin);
+    return true;
+  }
+
+  public static unregister(type: string) {
+    PluginManager.plugins.delete(type);
+  }
+
+  public static get(type: string): EditorPlugin | undefined {
+    return PluginManager.plugins.get(type);
+  }
+
+  /**
+   * 已注册的插件，按注册顺序排列
+   */
+  public static getPlugins(): EditorPlugin[] {
+    return [...PluginManager.plugins.values()];
+  }
+
+  public static isBuiltinType(type: string): type is BuiltinElementType {
+    return Object.prototype.hasOwnProperty.call(BUILTIN_ELEMENT_TYPES, type);
+  }
+
+  /**
+   * 是否为合法的元素类型：内置类型或已注册插件的类型
+   */
+  public static isElementType(type: string): boolean {
+    return PluginManager.isBuiltinType(type) || PluginManager.plugins.has(type);
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { Element } from '../types';
+import { ElementStore } from './ElementStore';
+import { ReconcileManager } from './ReconcileManager';
+
+function el(fields: Partial<Element> & Pick<Element, 'id' | 'x' | 'y' | 'width' | 'height'>): Element {
+  return { type: 'rectangle', zIndex: 0, ...fields };
+}
+
+const resize = (elements: Element[], id: string, updates: Partial<Element>) =>
+  ElementStore.update(elements, [{ ...ElementStore.of(elements).get(id)!, ...updates }]);
+
+describe('ReconcileManager', () => {
+  it('applies constraints inside nested frames resized by their parent constraints', () => {
+    // 导入的文档可以包含嵌套 Frame
+    const prev = [
+      el({ id: 'outer', type: 'frame', x: 0, y: 0, width: 200, height: 100, children: ['inner'] }),
+      el({ id: 'inner', type: 'frame', parentId: 'outer', x: 0, y: 0, width: 100, height: 100, children: ['child'], constraints: { horizontal: 'left-right' } }),
+      el({ id: 'child', parentId: 'inner', x: 80, y: 0, width: 20, height: 10, constraints: { horizontal: 'right' } }),
+    ];
+
+    const result = ElementStore.of(ReconcileManager.reconcile(prev, resize(prev, 'outer', { width: 300 })));
+
+    expect(result.get('inner')).toMatchObject({ x: 0, width: 200 });
+    expect(result.get('child')).toMatchObject({ x: 180, width: 20 });
+  });
+
+  it('propagates hug sizing of nested auto-layout frames to their auto-layout parents', () => {
+    const layout = { direction: 'vertical', gap: 10, padding: 10, sizing: 'hug' } as const;
+    const prev = [
+      el({ id: 'outer', type: 'frame', x: 0, y: 0, width: 120, height: 200, layout, children: ['inner', 'sibling'] }),
+      el({ id: 'inner', type: 'frame', parentId: 'outer', x: 10, y: 10, width: 100, height: 70, zIndex: 1, layout, children: ['child'] }),
+      el({ id: 'child', parentId: 'inner', x: 10, y: 10, width: 80, height: 50 }),
+      el({ id: 'sibling', parentId: 'outer', x: 10, y: 90, width: 100, height: 100, zIndex: 2 }),
+    ];
+
+    const result = ElementStore.of(ReconcileManager.reconcile(prev, resize(prev, 'child', { height: 150 })));
+
+    expect(result.get('inner')!.height).toBe(170);
+    expect(result.get('sibling')!.y).toBe(190);
+    expect(result.get('outer')!.height).toBe(300);
+  });
+});
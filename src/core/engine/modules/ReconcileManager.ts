@@ -0,0 +1,195 @@
+import type { Element } from '../types';
+import { GroupManager } from './GroupManager';
+import { ConnectorManager } from './ConnectorManager';
+import { LayoutManager } from './LayoutManager';
+import { ConstraintManager } from './ConstraintManager';
+import { ElementStore } from './ElementStore';
+import { getTextSpans, spansToText, toRichText } from '../../utils/richTextUtils';
+
+/**
+ * 计算两次元素列表之间发生变化（新增、修改、删除）的元素 ID
+ */
+export function getChangedIds(prev: Element[], next: Element[]): Set<string> {
+  const { changed, removedIds } = ElementStore.diff(prev, next);
+  return new Set([...changed.map(el => el.id), ...removedIds]);
+}
+
+/**
+ * 元素的嵌套深度（根画布上的元素为 0）
+ */
+function getDepth(store: ElementStore, id: string): number {
+  let depth = 0;
+  for (let el = store.get(id); el?.parentId; el = store.get(el.parentId)) depth++;
+  return depth;
+}
+
+const isResized = (a: Element, b: Element) => a.width !== b.width || a.height !== b.height;
+
+/**
+ * ReconcileManager - 派生数据修正
+ *
+ * 本地编辑提交后，根据变化的元素维护依赖它们的派生数据：
+ * - Frame 被缩放时，按约束调整其子元素；
+ * - 组被整体缩放时，按比例缩放组内成员；
+ * - 组内成员变化时，让组的包围盒贴合成员；删除没有成员的组；
+ * - 自动布局 Frame 本身或其子元素变化（增删、缩放、调整顺序）时，重新排列子元素；
+ * - 连接线绑定的元素移动、缩放或删除后，重新计算连接线走线；
+ * - 只修改了文本内容时，让富文本片段与新内容保持一致。
+ *
+ * 撤销/重做、导入等「恢复型」更新不经过此流程，以保证快照原样恢复。
+ */
+export class ReconcileManager {
+  public static reconcile(prev: Element[], next: Element[]): Element[] {
+    const changedIds = getChangedIds(prev, next);
+    if (changedIds.size === 0) return next;
+
+    const synced = ReconcileManager.reconcileRichText(next, changedIds);
+    const constrained = ReconcileManager.reconcileConstraints(prev, synced, changedIds);
+    const constraintChangedIds = constrained === synced ? changedIds : getChangedIds(prev, constrained);
+
+    const grouped = ReconcileManager.reconcileGroups(prev, constrained, constraintChangedIds);
+    const groupChangedIds = grouped === constrained ? constraintChangedIds : getChangedIds(prev, grouped);
+
+    // 贴合内容的 Frame 尺寸变化后，外层的组需要再次贴合（此时不会有组被整体缩放）
+    let laidOut = ReconcileManager.reconcileLayouts(prev, grouped, groupChangedIds);
+    if (laidOut !== grouped) {
+      laidOut = ReconcileManager.reconcileGroups(grouped, laidOut, getChangedIds(grouped, laidOut));
+    }
+
+    // 组与布局的修正可能移动更多元素，连接线需要基于最终位置重新走线
+    const connectorChangedIds = laidOut === synced ? changedIds : getChangedIds(prev, laidOut);
+    return ConnectorManager.reroute(laidOut, connectorChangedIds);
+  }
+
+  /**
+   * 富文本片段拼接后与 content 不一致时（如只修改了 content），按新内容调整片段
+   */
+  private static reconcileRichText(next: Element[], changedIds: Set<string>): Element[] {
+    const store = ElementStore.of(next);
+    const updates: Element[] = [];
+    changedIds.forEach(id => {
+      const el = store.get(id);
+      if (!el?.richText || spansToText(el.richText) === (el.content || '')) return;
+      updates.push({ ...el, richText: toRichText(getTextSpans(el)) });
+    });
+    return updates.length > 0 ? ElementStore.update(next, updates) : next;
+  }
+
+  /**
+   * Frame 尺寸变化且子元素未变（如手动缩放 Frame）时应用约束；
+   * 子元素同时变化（如随外层组整体缩放）说明已被处理过。
+   * 约束缩放了子 Frame（导入的嵌套 Frame）时，自顶向下继续对该子 Frame 应用约束
+   */
+  private static reconcileConstraints(prev: Element[], next: Element[], changedIds: Set<string>): Element[] {
+    const prevStore = ElementStore.of(prev);
+    const nextStore = ElementStore.of(next);
+    let elements = next;
+
+    const queue: { id: string, size: { width: number, height: number } }[] = [];
+    changedIds.forEach(id => {
+      const el = nextStore.get(id);
+      if (el?.type !== 'frame' || el.layout) return;
+      const before = prevStore.get(id);
+      if (!before || !isResized(before, el)) return;
+      if (nextStore.getChildren(id).some(child => changedIds.has(child.id))) return;
+      queue.push({ id, size: { width: before.width, height: before.height } });
+    });
+    queue.sort((a, b) => getDepth(nextStore, a.id) - getDepth(nextStore, b.id));
+
+    for (let i = 0; i < queue.length; i++) {
+      const before = elements;
+      elements = ConstraintManager.applyConstraints(elements, queue[i].id, queue[i].size);
+      if (elements === before) continue;
+
+      const beforeStore = ElementStore.of(before);
+      ElementStore.of(elements).getChildren(queue[i].id).forEach(child => {
+        const old = beforeStore.get(child.id)!;
+        if (child.type === 'frame' && !child.layout && isResized(old, child)) {
+          queue.push({ id: child.id, size: { width: old.width, height: old.height } });
+        }
+      });
+    }
+
+    return elements;
+  }
+
+  private static reconcileLayouts(prev: Element[], next: Element[], changedIds: Set<string>): Element[] {
+    const prevStore = ElementStore.of(prev);
+    const nextStore = ElementStore.of(next);
+
+    const frameIds = new Set<string>();
+    const enqueue = (id: string | undefined) => {
+      if (id && nextStore.get(id)?.layout) frameIds.add(id);
+    };
+    changedIds.forEach(id => {
+      enqueue(id);
+      enqueue(nextStore.get(id)?.parentId);
+      enqueue(prevStore.get(id)?.parentId);
+    });
+
+    // 内层先排列；贴合内容的 Frame 尺寸变化后，外层的自动布局 Frame 需要重新排列
+    const queue = [...frameIds].sort((a, b) => getDepth(nextStore, b) - getDepth(nextStore, a));
+    let elements = next;
+    for (let i = 0; i < queue.length; i++) {
+      const before = ElementStore.of(elements).get(queue[i])!;
+      elements = LayoutManager.applyLayout(elements, queue[i]);
+      const store = ElementStore.of(elements);
+      const after = store.get(queue[i])!;
+      const parentId = after.parentId;
+      if (isResized(before, after) && parentId && store.get(parentId)?.layout && !queue.includes(parentId, i + 1)) {
+        queue.push(parentId);
+      }
+    }
+    return elements;
+  }
+
+  private static reconcileGroups(prev: Element[], next: Element[], changedIds: Set<string>): Element[] {
+    const prevStore = ElementStore.of(prev);
+    const nextStore = ElementStore.of(next);
+    let elements = next;
+
+    // 1. 组本身尺寸变化且成员未变：整体缩放
+    const scaledGroupIds = new Set<string>();
+    changedIds.forEach(id => {
+      const el = nextStore.get(id);
+      if (el?.type !== 'group') return;
+      const before = prevStore.get(id);
+      if (!before || (before.width === el.width && before.height === el.height)) return;
+
+      const membersChanged = nextStore.getChildren(id).some(child => changedIds.has(child.id));
+      if (membersChanged || before.width === 0 || before.height === 0) return;
+
+      elements = GroupManager.scaleDescendants(elements, el.id, el.width / before.width, el.height / before.height);
+      scaledGroupIds.add(el.id);
+    });
+
+    // 2. 成员变化：自底向上让组贴合成员
+    const groupsToFit: string[] = [];
+    const enqueue = (groupId: string | undefined) => {
+      while (groupId) {
+        const group = nextStore.get(groupId);
+        if (!group || group.type !== 'group') return;
+        if (!scaledGroupIds.has(groupId) && !groupsToFit.includes(groupId)) {
+          groupsToFit.push(groupId);
+        }
+        groupId = group.parentId;
+      }
+    };
+    changedIds.forEach(id => {
+      enqueue(nextStore.get(id)?.parentId);
+      enqueue(prevStore.get(id)?.parentId);
+    });
+
+    if (groupsToFit.length === 0) return elements;
+
+    // 内层组先贴合，外层组才能拿到最终尺寸
+    groupsToFit.sort((a, b) => getDepth(nextStore, b) - getDepth(nextStore, a));
+
+    elements = GroupManager.removeEmptyGroups(elements);
+    groupsToFit.forEach(groupId => {
+      elements = GroupManager.fitBounds(elements, groupId);
+    });
+
+    return elements;
+  }
+}
@@ -0,0 +1,279 @@
+import type { ElementType, HorizontalConstraint, VerticalConstraint, SchemaError, SchemaValidationResult } from '../types';
+import { PluginManager } from './PluginManager';
+import { isSafeLink } from '../../utils/richTextUtils';
+
+/** 可以拥有子元素的类型 */
+const CONTAINER_TYPES: ElementType[] = ['frame', 'group'];
+
+const HORIZONTAL_CONSTRAINTS: HorizontalConstraint[] = ['left', 'right', 'left-right', 'center', 'scale'];
+const VERTICAL_CONSTRAINTS: VerticalConstraint[] = ['top', 'bottom', 'top-bottom', 'center', 'scale'];
+
+const NUMERIC_STYLE_KEYS = ['strokeWidth', 'borderRadius', 'fontSize'] as const;
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * SchemaManager - 校验导入的文档结构
+ *
+ * 只做结构与引用完整性检查，不修改数据；旧版本文档应先经过 MigrationManager 升级。
+ * 错误信息包含字段路径（如 elements[3].parentId），便于定位问题数据。
+ */
+export class SchemaManager {
+  public static validate(data: unknown): SchemaValidationResult {
+    const errors: SchemaError[] = [];
+    const report = (path: string, message: string, elementId?: string) => {
+      errors.push(elementId ? { path, message, elementId } : { path, message });
+    };
+
+    if (!isRecord(data)) {
+      report('', 'Document must be an object');
+      return { valid: false, errors };
+    }
+
+    if (typeof data.version !== 'string') {
+      report('version', 'version must be a string');
+    }
+
+    const viewport = data.viewport;
+    if (!isRecord(viewport)) {
+      report('viewport', 'viewport must be an object');
+    } else {
+      (['x', 'y', 'zoom'] as const).forEach(key => {
+        if (!isFiniteNumber(viewport[key])) {
+          report(`viewport.${key}`, `viewport.${key} must be a finite number`);
+        }
+      });
+      if (isFiniteNumber(viewport.zoom) && viewport.zoom <= 0) {
+        report('viewport.zoom', 'viewport.zoom must be greater than 0');
+      }
+    }
+
+    if (!Array.isArray(data.elements)) {
+      report('elements', 'elements must be an array');
+      return { valid: false, errors };
+    }
+
+    const elements = data.elements as unknown[];
+    const byId = new Map<string, { element: UnknownRecord, index: number }>();
+
+    // 1. 逐个元素检查字段
+    elements.forEach((raw, index) => {
+      const path = `elements[${index}]`;
+      if (!isRecord(raw)) {
+        report(path, 'Element must be an object');
+        return;
+      }
+
+      const id = raw.id;
+      if (typeof id !== 'string' || id === '') {
+        report(`${path}.id`, 'id must be a non-empty string');
+        return;
+      }
+      const duplicate = byId.get(id);
+      if (duplicate) {
+        report(`${path}.id`, `Duplicate id "${id}" (first defined at elements[${duplicate.index}])`, id);
+      } else {
+        byId.set(id, { element: raw, index });
+      }
+
+      if (typeof raw.type !== 'string' || !PluginManager.isElementType(raw.type)) {
+        report(`${path}.type`, `Unknown element type ${JSON.stringify(raw.type)}`, id);
+      }
+
+      (['x', 'y', 'width', 'height', 'zIndex'] as const).forEach(key => {
+        if (!isFiniteNumber(raw[key])) {
+          report(`${path}.${key}`, `${key} must be a finite number, got ${typeof raw[key] === 'number' ? raw[key] : JSON.stringify(raw[key])}`, id);
+        }
+      });
+      (['width', 'height'] as const).forEach(key => {
+        const value = raw[key];
+        if (isFiniteNumber(value) && value < 0) {
+          report(`${path}.${key}`, `${key} must not be negative`, id);
+        }
+      });
+      if (raw.rotation !== undefined && !isFiniteNumber(raw.rotation)) {
+        report(`${path}.rotation`, 'rotation must be a finite number', id);
+      }
+
+      if (raw.style !== undefined) {
+        if (!isRecord(raw.style)) {
+          report(`${path}.style`, 'style must be an object', id);
+        } else {
+          const style = raw.style;
+          NUMERIC_STYLE_KEYS.forEach(key => {
+            if (style[key] !== undefined && !isFiniteNumber(style[key])) {
+              report(`${path}.style.${key}`, `style.${key} must be a finite number`, id);
+            }
+          });
+          if (style.opacity !== undefined && (!isFiniteNumber(style.opacity) || style.opacity < 0 || style.opacity > 1)) {
+            report(`${path}.style.opacity`, 'style.opacity must be a number between 0 and 1', id);
+          }
+        }
+      }
+
+      if (raw.points !== undefined) {
+        if (!Array.isArray(raw.points)) {
+          report(`${path}.points`, 'points must be an array', id);
+        } else {
+          raw.points.forEach((point: unknown, i: number) => {
+            if (!isRecord(point) || !isFiniteNumber(point.x) || !isFiniteNumber(point.y)) {
+              report(`${path}.points[${i}]`, 'point must have finite x and y', id);
+            }
+          });
+        }
+      }
+
+      if (raw.richText !== undefined) {
+        if (!Array.isArray(raw.richText)) {
+          report(`${path}.richText`, 'richText must be an array', id);
+        } else {
+          if (raw.type !== 'text') {
+            report(`${path}.richText`, 'Only text elements can have rich text', id);
+          }
+          raw.richText.forEach((span: unknown, i: number) => {
+            const spanPath = `${path}.richText[${i}]`;
+            if (!isRecord(span) || typeof span.text !== 'string') {
+              report(spanPath, 'span must have a string text', id);
+              return;
+            }
+            (['bold', 'italic', 'underline'] as const).forEach(key => {
+              if (span[key] !== undefined && typeof span[key] !== 'boolean') {
+                report(`${spanPath}.${key}`, `${key} must be a boolean`, id);
+              }
+            });
+            (['color', 'link'] as const).forEach(key => {
+              if (span[key] !== undefined && typeof span[key] !== 'string') {
+                report(`${spanPath}.${key}`, `${key} must be a string`, id);
+              }
+            });
+            if (typeof span.link === 'string' && !isSafeLink(span.link)) {
+              report(`${spanPath}.link`, 'link must be an http, https or mailto URL', id);
+            }
+            if (span.fontSize !== undefined && (!isFiniteNumber(span.fontSize) || span.fontSize <= 0)) {
+              report(`${spanPath}.fontSize`, 'fontSize must be a positive number', id);
+            }
+          });
+        }
+      }
+
+      if (raw.layout !== undefined) {
+        const layout = raw.layout;
+        if (!isRecord(layout)) {
+          report(`${path}.layout`, 'layout must be an object', id);
+        } else {
+          if (raw.type !== 'frame') {
+            report(`${path}.layout`, 'Only frames can have a layout', id);
+          }
+          if (layout.direction !== 'horizontal' && layout.direction !== 'vertical') {
+            report(`${path}.layout.direction`, `Unknown layout direction ${JSON.stringify(layout.direction)}`, id);
+          }
+          (['gap', 'padding'] as const).forEach(key => {
+            if (!isFiniteNumber(layout[key]) || layout[key] < 0) {
+              report(`${path}.layout.${key}`, `layout.${key} must be a non-negative number`, id);
+            }
+          });
+          if (layout.align !== undefined && !['start', 'center', 'end'].includes(layout.align as string)) {
+            report(`${path}.layout.align`, `Unknown layout align ${JSON.stringify(layout.align)}`, id);
+          }
+          if (layout.sizing !== undefined && layout.sizing !== 'fixed' && layout.sizing !== 'hug') {
+            report(`${path}.layout.sizing`, `Unknown layout sizing ${JSON.stringify(layout.sizing)}`, id);
+          }
+          if (layout.wrap !== undefined && typeof layout.wrap !== 'boolean') {
+            report(`${path}.layout.wrap`, 'layout.wrap must be a boolean', id);
+          }
+        }
+      }
+
+      if (raw.constraints !== undefined) {
+        const constraints = raw.constraints;
+        if (!isRecord(constraints)) {
+          report(`${path}.constraints`, 'constraints must be an object', id);
+        } else {
+          if (constraints.horizontal !== undefined && !HORIZONTAL_CONSTRAINTS.includes(constraints.horizontal as HorizontalConstraint)) {
+            report(`${path}.constraints.horizontal`, `Unknown horizontal constraint ${JSON.stringify(constraints.horizontal)}`, id);
+          }
+          if (constraints.vertical !== undefined && !VERTICAL_CONSTRAINTS.includes(constraints.vertical as VerticalConstraint)) {
+            report(`${path}.constraints.vertical`, `Unknown vertical constraint ${JSON.stringify(constraints.vertical)}`, id);
+          }
+        }
+      }
+
+      if (raw.parentId !== undefined && typeof raw.parentId !== 'string') {
+        report(`${path}.parentId`, 'parentId must be a string', id);
+      }
+      if (raw.children !== undefined && (!Array.isArray(raw.children) || raw.children.some(child => typeof child !== 'string'))) {
+        report(`${path}.children`, 'children must be an array of ids', id);
+      }
+    });
+
+    // 2. 父子引用完整性
+    byId.forEach(({ element, index }, id) => {
+      const path = `elements[${index}]`;
+      const parentId = element.parentId;
+
+      if (typeof parentId === 'string') {
+        const parent = byId.get(parentId)?.element;
+        if (parentId === id) {
+          report(`${path}.parentId`, 'Element cannot be its own parent', id);
+        } else if (!parent) {
+          report(`${path}.parentId`, `Dangling parentId "${parentId}"`, id);
+        } else {
+          if (!CONTAINER_TYPES.includes(parent.type as ElementType)) {
+            report(`${path}.parentId`, `Parent "${parentId}" of type ${JSON.stringify(parent.type)} cannot contain children`, id);
+          }
+          if (!Array.isArray(parent.children) || !parent.children.includes(id)) {
+            report(`${path}.parentId`, `Parent "${parentId}" does not list "${id}" in its children`, id);
+          }
+        }
+      }
+
+      if (Array.isArray(element.children)) {
+        const seen = new Set<unknown>();
+        element.children.forEach((childId: unknown, i: number) => {
+          if (seen.has(childId)) {
+            report(`${path}.children[${i}]`, `Duplicate child "${String(childId)}"`, id);
+          }
+          seen.add(childId);
+
+          const child = typeof childId === 'string' ? byId.get(childId)?.element : undefined;
+          if (!child) {
+            report(`${path}.children[${i}]`, `Dangling child "${String(childId)}"`, id);
+          } else if (child.parentId !== id) {
+            report(`${path}.children[${i}]`, `Child "${String(childId)}" has parentId ${JSON.stringify(child.parentId)}`, id);
+          }
+        });
+      }
+    });
+
+    // 3. 父级链中不能有环
+    const reported = new Set<string>();
+    byId.forEach(({ index }, id) => {
+      const visited = new Set<string>();
+      let current: string | undefined = id;
+      while (current && !visited.has(current)) {
+        visited.add(current);
+        const parentId: unknown = byId.get(current)?.element.parentId;
+        current = typeof parentId === 'string' ? parentId : undefined;
+      }
+      if (current && current === id && !reported.has(id)) {
+        visited.forEach(member => reported.add(member));
+        report(`elements[${index}].parentId`, `Circular parent chain: ${[...visited].join(' -> ')} -> ${id}`, id);
+      }
+    });
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * 将错误列表格式化为可读文本
+   */
+  public static formatErrors(errors: SchemaError[]): string {
+    return errors.map(error => `${error.path || '(root)'}: ${error.message}`).join('\n');
+  }
+}
@@ -0,0 +1,215 @@
+import type { Bounds, Point } from '../types';
+
+interface IndexEntry {
+  id: string;
+  bounds: Bounds;
+  node: QuadNode;
+}
+
+interface QuadNode {
+  bounds: Bounds;
+  entries: Set<IndexEntry>;
+  children: QuadNode[] | null;
+}
+
+export interface NearestOptions {
+  /** 最多返回的数量，默认 1 */
+  limit?: number;
+  /** 最大距离（世界坐标），超出的不返回 */
+  maxDistance?: number;
+  filter?: (id: string) => boolean;
+}
+
+/** 节点内条目超过该数量时拆分 */
+const NODE_CAPACITY = 16;
+/** 节点边长小于该值时不再拆分 */
+const MIN_NODE_SIZE = 8;
+/** 初始根节点的范围，超出时自动扩展 */
+const INITIAL_ROOT: Bounds = { x: -4096, y: -4096, width: 8192, height: 8192 };
+
+const contains = (outer: Bounds, inner: Bounds) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+const intersects = (a: Bounds, b: Bounds) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+/** 点到矩形的距离，点在矩形内时为 0 */
+const distanceToBounds = (point: Point, b: Bounds) => {
+  const dx = Math.max(b.x - point.x, 0, point.x - (b.x + b.width));
+  const dy = Math.max(b.y - point.y, 0, point.y - (b.y + b.height));
+  return Math.hypot(dx, dy);
+};
+
+const isFiniteBounds = (b: Bounds) =>
+  Number.isFinite(b.x) && Number.isFinite(b.y) && Number.isFinite(b.width) && Number.isFinite(b.height);
+
+const createNode = (bounds: Bounds): QuadNode => ({ bounds, entries: new Set(), children: null });
+
+/**
+ * SpatialIndex - 元素包围盒的空间索引（松散四叉树）
+ *
+ * 存储元素旋转后的世界坐标轴对齐包围盒，用于点选、框选与视口裁剪的粗筛；
+ * 跨越子节点边界的条目留在父节点中。根节点覆盖不到新条目时向对应方向成倍扩展。
+ * 由 ElementManager.updateSpatialIndex 根据元素变化增量维护。
+ */
+export class SpatialIndex {
+  private root: QuadNode = createNode(INITIAL_ROOT);
+  private entries = new Map<string, IndexEntry>();
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public getBounds(id: string): Bounds | undefined {
+    return this.entries.get(id)?.bounds;
+  }
+
+  /**
+   * 插入或更新条目
+   */
+  public set(id: string, bounds: Bounds) {
+    const existing = this.entries.get(id);
+    if (existing) {
+      const b = existing.bounds;
+      if (b.x === bounds.x && b.y === bounds.y && b.width === bounds.width && b.height === bounds.height) return;
+      this.delete(id);
+    }
+    if (!isFiniteBounds(bounds)) return;
+
+    while (!contains(this.root.bounds, bounds)) {
+      this.growRoot(bounds);
+    }
+    const entry = { id, bounds, node: this.root };
+    this.entries.set(id, entry);
+    this.insert(this.root, entry);
+  }
+
+  public delete(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.node.entries.delete(entry);
+    this.entries.delete(id);
+  }
+
+  public clear() {
+    this.root = createNode(INITIAL_ROOT);
+    this.entries.clear();
+  }
+
+  /**
+   * 包围盒与矩形相交（含边界接触）的条目
+   */
+  public search(rect: Bounds): string[] {
+    const result: string[] = [];
+    const visit = (node: QuadNode) => {
+      if (!intersects(node.bounds, rect)) return;
+      node.entries.forEach(entry => {
+        if (intersects(entry.bounds, rect)) result.push(entry.id);
+      });
+      node.children?.forEach(visit);
+    };
+    visit(this.root);
+    return result;
+  }
+
+  /**
+   * 包围盒包含该点的条目（粗筛，旋转元素需要再做精确判断）
+   */
+  public searchPoint(point: Point): string[] {
+    return this.search({ x: point.x, y: point.y, width: 0, height: 0 });
+  }
+
+  /**
+   * 按包围盒到点的距离由近到远返回条目（最佳优先搜索，只展开可能更近的节点）
+   */
+  public nearest(point: Point, options: NearestOptions = {}): string[] {
+    const { limit = 1, maxDistance = Infinity, filter } = options;
+    const result: string[] = [];
+    const queue: { distance: number, node?: QuadNode, entry?: IndexEntry }[] = [
+      { distance: distanceToBounds(point, this.root.bounds), node: this.root },
+    ];
+
+    while (queue.length > 0 && result.length < limit) {
+      let minIndex = 0;
+      for (let i = 1; i < queue.length; i++) {
+        if (queue[i].distance < queue[minIndex].distance) minIndex = i;
+      }
+      const { distance, node, entry } = queue[minIndex];
+      queue.splice(minIndex, 1);
+      if (distance > maxDistance) break;
+
+      if (entry) {
+        result.push(entry.id);
+        continue;
+      }
+      node!.entries.forEach(item => {
+        if (!filter || filter(item.id)) queue.push({ distance: distanceToBounds(point, item.bounds), entry: item });
+      });
+      node!.children?.forEach(child => queue.push({ distance: distanceToBounds(point, child.bounds), node: child }));
+    }
+
+    return result;
+  }
+
+  private insert(node: QuadNode, entry: IndexEntry) {
+    let current = node;
+    while (current.children) {
+      const child = current.children.find(c => contains(c.bounds, entry.bounds));
+      if (!child) break;
+      current = child;
+    }
+
+    current.entries.add(entry);
+    entry.node = current;
+    if (!current.children && current.entries.size > NODE_CAPACITY && current.bounds.width / 2 >= MIN_NODE_SIZE) {
+      this.split(current);
+    }
+  }
+
+  private split(node: QuadNode) {
+    const { x, y } = node.bounds;
+    const width = node.bounds.width / 2;
+    const height = node.bounds.height / 2;
+    node.children = [
+      createNode({ x, y, width, height }),
+      createNode({ x: x + width, y, width, height }),
+      createNode({ x, y: y + height, width, height }),
+      createNode({ x: x + width, y: y + height, width, height }),
+    ];
+
+    const entries = [...node.entries];
+    node.entries.clear();
+    entries.forEach(entry => this.insert(node, entry));
+  }
+
+  /**
+   * 根节点向目标方向扩大一倍，原根节点成为新根的一个象限
+   */
+  private growRoot(target: Bounds) {
+    const old = this.root;
+    const { x, y, width, height } = old.bounds;
+    const growLeft = target.x < x;
+    const growUp = target.y < y;
+    const bounds = {
+      x: growLeft ? x - width : x,
+      y: growUp ? y - height : y,
+      width: width * 2,
+      height: height * 2,
+    };
+
+    const root = createNode(bounds);
+    if (old.entries.size > 0 || old.children) {
+      root.children = [
+        createNode({ x: bounds.x, y: bounds.y, width, height }),
+        createNode({ x: bounds.x + width, y: bounds.y, width, height }),
+        createNode({ x: bounds.x, y: bounds.y + height, width, height }),
+        createNode({ x: bounds.x + width, y: bounds.y + height, width, height }),
+      ];
+      root.children[(growUp ? 2 : 0) + (growLeft ? 1 : 0)] = old;
+    }
+    this.root = root;
+  }
+}
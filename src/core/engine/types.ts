@@ -9,6 +9,11 @@ export interface Point {
   y: number;
 }
 
+/** 手绘笔画采样点，pressure 为指针压力 (0-1) */
+export interface PathPoint extends Point {
+  pressure?: number;
+}
+
 export interface Size {
   width: number;
   height: number;
@@ -34,11 +39,62 @@ export interface Viewport {
 
 // ============ 工具类型 ============
 
-export type ToolType = 'select' | 'hand' | 'rectangle' | 'text' | 'frame';
+/** 内置工具 */
+export type BuiltinToolType =
+  | 'select'
+  | 'hand'
+  | 'rectangle'
+  | 'ellipse'
+  | 'line'
+  | 'arrow'
+  | 'polygon'
+  | 'star'
+  | 'draw'
+  | 'connector'
+  | 'text'
+  | 'frame';
+
+/**
+ * 工具类型：内置工具，或插件注册的创建工具（与插件元素类型同名）
+ */
+export type ToolType = BuiltinToolType | (string & {});
 
 // ============ 元素类型 ============
 
-export type ElementType = 'rectangle' | 'text' | 'image' | 'frame';
+/** 内置元素类型 */
+export type BuiltinElementType =
+  | 'rectangle'
+  | 'ellipse'
+  | 'line'
+  | 'arrow'
+  | 'polygon'
+  | 'star'
+  | 'path'
+  | 'connector'
+  | 'text'
+  | 'image'
+  | 'frame'
+  | 'group';
+
+/**
+ * 元素类型：内置类型，或通过插件注册的自定义类型（见 PluginRegistry）
+ */
+export type ElementType = BuiltinElementType | (string & {});
+
+/** 线段端点的箭头样式 */
+export type ArrowheadType = 'none' | 'triangle' | 'open' | 'diamond' | 'circle';
+
+/** 连接线在目标元素上的锚点 */
+export type ConnectorAnchor = 'top' | 'right' | 'bottom' | 'left' | 'center';
+
+/** 连接线端点与元素的绑定关系 */
+export interface ConnectorBinding {
+  elementId: string;
+  anchor: ConnectorAnchor;
+}
+
+/** 连接线走线方式：直线 / 折线 / 曲线 */
+export type ConnectorRouting = 'straight' | 'elbow' | 'curved';
 
 export interface ElementStyle {
   fill?: string;
@@ -53,6 +109,74 @@ export interface ElementStyle {
   fontStyle?: string;
   textDecoration?: string;
   textAlign?: 'left' | 'center' | 'right';
+  /** 线段起点箭头 (line / arrow) */
+  startArrowhead?: ArrowheadType;
+  /** 线段终点箭头 (line / arrow)，arrow 默认为 triangle */
+  endArrowhead?: ArrowheadType;
+}
+
+/**
+ * 富文本片段的样式，未设置的字段继承元素的 style（链接默认带下划线并使用链接色）
+ */
+export interface TextSpanStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  color?: string;
+  fontSize?: number;
+  /** 链接地址 */
+  link?: string;
+}
+
+/** 富文本片段：一段样式相同的文字 */
+export interface TextSpan extends TextSpanStyle {
+  text: string;
+}
+
+/** 文本元素中选中的字符范围 [start, end) */
+export interface TextSelection {
+  elementId: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Frame 自动布局（类似 flex）：子元素按图层顺序（zIndex 从低到高）依次排列
+ */
+export interface FrameLayout {
+  /** 排列方向 */
+  direction: 'horizontal' | 'vertical';
+  /** 子元素间距；换行时同时作为行间距 */
+  gap: number;
+  /** 内边距 */
+  padding: number;
+  /** 子元素在交叉轴上的对齐方式，默认 start */
+  align?: 'start' | 'center' | 'end';
+  /**
+   * 尺寸模式，默认 fixed
+   * - fixed：Frame 保持当前尺寸；
+   * - hug：Frame 贴合内容；开启换行时主轴尺寸固定，仅交叉轴贴合。
+   */
+  sizing?: 'fixed' | 'hug';
+  /** 主轴放不下时换行 */
+  wrap?: boolean;
+}
+
+/** 水平约束：Frame 宽度变化时子元素如何跟随 */
+export type HorizontalConstraint = 'left' | 'right' | 'left-right' | 'center' | 'scale';
+
+/** 垂直约束：Frame 高度变化时子元素如何跟随 */
+export type VerticalConstraint = 'top' | 'bottom' | 'top-bottom' | 'center' | 'scale';
+
+/**
+ * Frame 子元素的约束，未设置时为 left / top（相对左上角位置不变）
+ * - left-right / top-bottom：与两侧的距离不变，尺寸随之拉伸；
+ * - center：相对 Frame 中心的偏移不变；
+ * - scale：位置与尺寸按比例缩放。
+ */
+export interface ElementConstraints {
+  horizontal?: HorizontalConstraint;
+  vertical?: VerticalConstraint;
 }
 
 export interface Element {
@@ -67,11 +191,37 @@ export interface Element {
   rotation?: number;
   style?: ElementStyle;
   content?: string;      // 文本内容
+  /**
+   * 文本的富文本片段，按顺序拼接即为 content；未设置时整段文字使用 style
+   * 与 content 不一致时以 content 为准（保留首尾未变部分的样式）
+   */
+  richText?: TextSpan[];
   imageUrl?: string;     // 图片URL
-  /** 父元素 ID (用于 Frame 包含关系) */
+  /**
+   * 相对于包围盒的归一化坐标 (0-1)：
+   * - line / arrow：起止点；
+   * - path：手绘笔画采样点；
+   * - connector：走线结果（straight / elbow 为折线顶点，curved 为三次贝塞尔的 4 个控制点）
+   */
+  points?: PathPoint[];
+  /** 多边形边数 / 星形角数 */
+  sides?: number;
+  /** 星形内径与外径的比例 (0-1) */
+  innerRadius?: number;
+  /** 连接线起点绑定 */
+  startBinding?: ConnectorBinding;
+  /** 连接线终点绑定 */
+  endBinding?: ConnectorBinding;
+  /** 连接线走线方式，默认 straight */
+  routing?: ConnectorRouting;
+  /** 父元素 ID (用于 Frame / Group 包含关系) */
   parentId?: string;
-  /** Frame 的子元素 ID 列表 */
+  /** Frame / Group 的子元素 ID 列表 */
   children?: string[];
+  /** Frame 的自动布局，未设置时子元素自由摆放 */
+  layout?: FrameLayout;
+  /** 作为 Frame 子元素时的约束（自动布局的 Frame 中不生效） */
+  constraints?: ElementConstraints;
   zIndex: number;
   locked?: boolean;      // 是否锁定
   visible?: boolean;     // 是否可见
@@ -80,6 +230,51 @@ export interface Element {
   customState?: Record<string, unknown>;
 }
 
+/**
+ * 图层顺序调整方式
+ * - front / back：置顶 / 置底；
+ * - forward / backward：上移 / 下移一层；
+ * - { index }：移动到同级元素（按 zIndex 从低到高排列，不含被移动的元素）中的指定位置。
+ */
+export type ReorderAction = 'front' | 'back' | 'forward' | 'backward' | { index: number };
+
+/** 对齐方式：水平方向 left / center / right，垂直方向 top / middle / bottom */
+export type AlignType = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
+/**
+ * 对齐参照
+ * - selection：所有元素的整体包围盒；
+ * - parent：各自所在的 Frame / 组（位于根画布的元素按整体包围盒对齐）；
+ * - { keyId }：关键对象，其自身保持不动。
+ */
+export type AlignReference = 'selection' | 'parent' | { keyId: string };
+
+/** 分布方向 */
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// ============ 文档结构 ============
+
+/**
+ * 文档结构错误
+ */
+export interface SchemaError {
+  /** 出错字段的路径，如 elements[3].parentId */
+  path: string;
+  message: string;
+  /** 出错元素的 ID（能识别时） */
+  elementId?: string;
+}
+
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaError[];
+}
+
+/** 导入结果：校验结果与导入时依次应用的版本迁移（如 "1 -> 2"） */
+export interface ImportResult extends SchemaValidationResult {
+  migrations: string[];
+}
+
 // ============ 交互状态 ============
 
 export type ResizeHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
@@ -91,6 +286,8 @@ export interface InteractionState {
   isPanning: boolean;
   /** 是否正在缩放元素 */
   isResizing: boolean;
+  /** 是否正在旋转元素 */
+  isRotating: boolean;
   /** 是否正在框选 */
   isMarqueeSelecting: boolean;
   /** 是否正在创建元素 */
@@ -1,37 +1,258 @@
-import type { Element, Point } from './types';
+import type { Element, Point, Bounds } from './types';
+import type { SpatialIndex } from './modules/SpatialIndex';
+import { ElementStore } from './modules/ElementStore';
+import { PluginManager } from './modules/PluginManager';
+import {
+  rotatePoint,
+  normalizeRotation,
+  getRotatedCorners,
+  getPointsBounds,
+  pointInPolygon,
+} from '../../utils/geometry';
 
+/**
+ * 获取元素中心点的世界坐标
+ * 子元素位于父元素（未旋转的）局部坐标系中，父元素绕自身中心旋转时子元素随之旋转
+ */
+export function getElementWorldCenter(elements: Element[], id: string): Point {
+  const store = ElementStore.of(elements);
+  const element = store.get(id);
+  if (!element) return { x: 0, y: 0 };
+
+  const localCenter = { x: element.x + element.width / 2, y: element.y + element.height / 2 };
+  const parent = store.get(element.parentId);
+  if (!parent) return localCenter;
+
+  const parentCenter = getElementWorldCenter(elements, parent.id);
+  const offset = {
+    x: parentCenter.x + localCenter.x - parent.width / 2,
+    y: parentCenter.y + localCenter.y - parent.height / 2,
+  };
+  return rotatePoint(offset, parentCenter, getElementWorldRotation(elements, parent.id));
+}
+
+/**
+ * 获取元素在世界坐标系中的旋转角度（自身与所有祖先的旋转之和）
+ */
+export function getElementWorldRotation(elements: Element[], id: string): number {
+  const store = ElementStore.of(elements);
+  let rotation = 0;
+  for (let el = store.get(id); el; el = store.get(el.parentId)) {
+    rotation += el.rotation || 0;
+  }
+  return rotation;
+}
+
+/**
+ * 获取元素左上角的世界坐标（旋转前的包围盒，以世界中心点为基准）
+ * 祖先都未旋转时即为各级 x / y 之和
+ */
 export function getElementWorldPos(elements: Element[], id: string): Point {
-  const element = elements.find(el => el.id === id);
+  const element = ElementStore.of(elements).get(id);
   if (!element) return { x: 0, y: 0 };
 
   if (!element.parentId) {
     return { x: element.x, y: element.y };
   }
 
-  const parentPos = getElementWorldPos(elements, element.parentId);
+  // 父级在世界坐标中没有旋转时直接累加，避免中心点换算带来的浮点误差
+  if (!getElementWorldRotation(elements, element.parentId)) {
+    const parentPos = getElementWorldPos(elements, element.parentId);
+    return { x: parentPos.x + element.x, y: parentPos.y + element.y };
+  }
+
+  const center = getElementWorldCenter(elements, id);
+  return { x: center.x - element.width / 2, y: center.y - element.height / 2 };
+}
+
+/**
+ * 获取元素旋转后的四个顶点（世界坐标）
+ */
+export function getElementWorldCorners(elements: Element[], id: string): Point[] {
+  const element = ElementStore.of(elements).get(id);
+  if (!element) return [];
+
+  const { x, y } = getElementWorldPos(elements, id);
+  return getRotatedCorners(
+    { x, y, width: element.width, height: element.height },
+    getElementWorldRotation(elements, id)
+  );
+}
+
+/**
+ * 获取元素旋转后的轴对齐包围盒（世界坐标）
+ */
+export function getElementWorldBounds(elements: Element[], id: string): Bounds {
+  const corners = getElementWorldCorners(elements, id);
+  return corners.length > 0 ? getPointsBounds(corners) : { x: 0, y: 0, width: 0, height: 0 };
+}
+
+/**
+ * 判断世界坐标点是否落在元素（考虑旋转）内
+ * 插件元素提供 hitTest 时，再按元素局部坐标交给插件判断
+ */
+export function isPointInElement(elements: Element[], id: string, point: Point): boolean {
+  const corners = getElementWorldCorners(elements, id);
+  if (corners.length === 0 || !pointInPolygon(point, corners)) return false;
+
+  const element = ElementStore.of(elements).get(id)!;
+  const hitTest = PluginManager.get(element.type)?.hitTest;
+  if (!hitTest) return true;
+
+  const center = getElementWorldCenter(elements, id);
+  const unrotated = rotatePoint(point, center, -getElementWorldRotation(elements, id));
+  return hitTest(element, {
+    x: unrotated.x - center.x + element.width / 2,
+    y: unrotated.y - center.y + element.height / 2,
+  });
+}
+
+/**
+ * 计算元素移入新父级（或根画布）后的局部位置与旋转，使其世界位置与朝向保持不变
+ */
+export function getReparentedGeometry(
+  elements: Element[],
+  id: string,
+  parentId: string | undefined
+): Pick<Element, 'x' | 'y' | 'rotation'> {
+  const store = ElementStore.of(elements);
+  const element = store.get(id);
+  if (!element) return { x: 0, y: 0 };
+
+  const worldCenter = getElementWorldCenter(elements, id);
+  const worldRotation = getElementWorldRotation(elements, id);
+  const parent = store.get(parentId);
+
+  let localCenter = worldCenter;
+  let parentRotation = 0;
+  if (parent) {
+    const parentCenter = getElementWorldCenter(elements, parent.id);
+    parentRotation = getElementWorldRotation(elements, parent.id);
+    const unrotated = rotatePoint(worldCenter, parentCenter, -parentRotation);
+    localCenter = {
+      x: unrotated.x - parentCenter.x + parent.width / 2,
+      y: unrotated.y - parentCenter.y + parent.height / 2,
+    };
+  }
+
+  const rotation = normalizeRotation(worldRotation - parentRotation);
   return {
-    x: parentPos.x + element.x,
-    y: parentPos.y + element.y,
+    x: localCenter.x - element.width / 2,
+    y: localCenter.y - element.height / 2,
+    rotation: rotation || undefined,
   };
 }
 
-export function findFrameAtPoint(elements: Element[], x: number, y: number, excludeIds: string[] = []): Element | null {
-  // 找出所有非排除列表中的 Frame，按 zIndex 降序排列（最高层优先）
-  const frames = elements
-    .filter((el) => el.type === 'frame' && !excludeIds.includes(el.id))
+/**
+ * 取出包围盒可能包含该点的元素（保持数组中的顺序）：有空间索引时只取索引命中的候选，否则遍历全部元素
+ */
+function getPointCandidates(elements: Element[], point: Point, index?: SpatialIndex): Element[] {
+  if (!index) return elements;
+  const store = ElementStore.of(elements);
+  return index.searchPoint(point)
+    .filter(id => store.has(id))
+    .sort((a, b) => store.indexOf(a) - store.indexOf(b))
+    .map(id => store.get(id)!);
+}
+
+/**
+ * 查找世界坐标点下最上层的 Frame（隐藏或锁定的 Frame，包括祖先隐藏或锁定的，不作为放置目标）
+ * @param index 与 elements 对应的空间索引，用于快速筛选候选
+ */
+export function findFrameAtPoint(
+  elements: Element[],
+  x: number,
+  y: number,
+  excludeIds: string[] = [],
+  index?: SpatialIndex
+): Element | null {
+  // 找出所有非排除列表中可放置的 Frame，按 zIndex 降序排列（最高层优先）
+  const excluded = new Set(excludeIds);
+  const frames = getPointCandidates(elements, { x, y }, index)
+    .filter((el) =>
+      el.type === 'frame' &&
+      !excluded.has(el.id) &&
+      !isElementHidden(elements, el.id) &&
+      !isElementLocked(elements, el.id)
+    )
     .sort((a, b) => b.zIndex - a.zIndex);
 
-  for (const frame of frames) {
-    const worldPos = getElementWorldPos(elements, frame.id);
-    if (
-      x >= worldPos.x &&
-      x <= worldPos.x + frame.width &&
-      y >= worldPos.y &&
-      y <= worldPos.y + frame.height
-    ) {
-      return frame;
-    }
+  return frames.find(frame => isPointInElement(elements, frame.id, { x, y })) || null;
+}
+
+/**
+ * 获取指定元素的所有后代 ID（不包含自身）
+ */
+export function getDescendantIds(elements: Element[], ids: string[]): string[] {
+  return ElementStore.of(elements).getDescendantIds(ids);
+}
+
+/**
+ * 沿父级链查找：元素自身或任一祖先满足条件
+ */
+function someInAncestry(elements: Element[], id: string, predicate: (el: Element) => boolean): boolean {
+  const store = ElementStore.of(elements);
+  const visited = new Set<string>();
+  for (let el = store.get(id); el && !visited.has(el.id); el = store.get(el.parentId)) {
+    if (predicate(el)) return true;
+    visited.add(el.id);
+    if (!el.parentId) break;
   }
+  return false;
+}
+
+/**
+ * 元素是否被锁定（自身或任一祖先锁定）
+ */
+export function isElementLocked(elements: Element[], id: string): boolean {
+  return someInAncestry(elements, id, el => !!el.locked);
+}
+
+/**
+ * 元素是否被隐藏（自身或任一祖先隐藏）
+ */
+export function isElementHidden(elements: Element[], id: string): boolean {
+  return someInAncestry(elements, id, el => el.visible === false);
+}
+
+/**
+ * 过滤出顶层 ID：祖先已在列表中的元素会被剔除
+ */
+export function getTopLevelIds(elements: Element[], ids: string[]): string[] {
+  const store = ElementStore.of(elements);
+  const idSet = new Set(ids);
+  return ids.filter(id => {
+    for (let current = store.get(id); current?.parentId; current = store.get(current.parentId)) {
+      if (idSet.has(current.parentId)) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * 查找世界坐标点下最上层的元素
+ * 嵌套层级更深的元素优先（Frame 内的子元素优先于 Frame 本身），同层按 zIndex 降序
+ * @param index 与 elements 对应的空间索引，用于快速筛选候选
+ */
+export function findElementAtPoint(
+  elements: Element[],
+  point: Point,
+  filter: (el: Element) => boolean = () => true,
+  index?: SpatialIndex
+): Element | null {
+  const store = ElementStore.of(elements);
+  const getDepth = (el: Element) => {
+    let depth = 0;
+    for (let current = el; current.parentId; depth++) {
+      const parent = store.get(current.parentId);
+      if (!parent) break;
+      current = parent;
+    }
+    return depth;
+  };
+
+  const hits = getPointCandidates(elements, point, index).filter(el => filter(el) && isPointInElement(elements, el.id, point));
 
-  return null;
+  hits.sort((a, b) => getDepth(b) - getDepth(a) || b.zIndex - a.zIndex);
+  return hits[0] || null;
 }
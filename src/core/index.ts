@@ -6,6 +6,12 @@ export { EditorProvider } from './react/context/EditorProvider';
 export { useEngineInstance } from './react/context/useEngineInstance';
 export { useEditorEngine, useEditorEngineShallow } from './react/hooks/useEditorEngine';
 
+// Storage (Persistence)
+export * from './storage';
+
+// Collaboration (CRDT)
+export * from './collab';
+
 // Rendering Layer
 export * from './components/rendering';
 
@@ -13,3 +19,5 @@ export * from './components/rendering';
 export { CoreEditor } from './components/editor/CoreEditor';
 export type { CoreEditorProps } from './components/editor/CoreEditor';
 export { type EditorAPI } from './components/editor/EditorAPI';
+export { LayersPanel } from './components/editor/parts/LayersPanel';
+export { CommandConsole } from './components/editor/parts/CommandConsole';
@@ -1,18 +1,24 @@
 import React, { useState, type ReactNode } from 'react';
 import { EditorEngine, type EditorState } from '../../engine/EditorEngine';
+import { PluginManager, type EditorPlugin } from '../../engine/modules/PluginManager';
 import { EditorContext } from './EditorContext';
 
 interface EditorProviderProps {
   children: ReactNode;
   initialState?: Partial<EditorState>;
+  /** 自定义元素类型插件，在引擎创建前注册（仅在挂载时读取） */
+  plugins?: EditorPlugin[];
 }
 
 /**
  * EditorProvider - 为组件树提供 EditorEngine 实例
  */
-export const EditorProvider: React.FC<EditorProviderProps> = ({ children, initialState }) => {
-  // 核心引擎实例在组件挂载期间只创建一次
-  const [engine] = useState(() => new EditorEngine(initialState));
+export const EditorProvider: React.FC<EditorProviderProps> = ({ children, initialState, plugins }) => {
+  // 核心引擎实例在组件挂载期间只创建一次；插件先注册，初始数据中的插件元素才能通过校验
+  const [engine] = useState(() => {
+    plugins?.forEach(plugin => PluginManager.register(plugin));
+    return new EditorEngine(initialState);
+  });
 
   return (
     <EditorContext.Provider value={engine}>
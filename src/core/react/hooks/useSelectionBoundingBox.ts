@@ -15,7 +15,7 @@ export interface SelectionBoundingBox {
 /**
  * useSelectionBoundingBox - 获取当前选中元素的包围盒
  * 
- * 计算所有选中元素在世界坐标系中的最小包围矩形。
+ * 计算所有选中元素（考虑旋转）在世界坐标系中的最小包围矩形。
  * 使用浅比较优化，仅在选区或元素位置变化时重新计算。
  * 
  * @returns 包围盒对象，如果没有选中元素则返回 null
@@ -42,13 +42,13 @@ export function useSelectionBoundingBox(): SelectionBoundingBox | null {
     let maxY = -Infinity;
 
     selectedIds.forEach(id => {
-      const el = elements.find(e => e.id === id);
-      if (el) {
-        const worldPos = engine.getElementWorldPos(id);
-        minX = Math.min(minX, worldPos.x);
-        minY = Math.min(minY, worldPos.y);
-        maxX = Math.max(maxX, worldPos.x + el.width);
-        maxY = Math.max(maxY, worldPos.y + el.height);
+      if (elements.some(e => e.id === id)) {
+        // 使用旋转后的包围盒，保证浮动工具栏不会压在旋转元素的角上
+        const bounds = engine.getElementWorldBounds(id);
+        minX = Math.min(minX, bounds.x);
+        minY = Math.min(minY, bounds.y);
+        maxX = Math.max(maxX, bounds.x + bounds.width);
+        maxY = Math.max(maxY, bounds.y + bounds.height);
       }
     });
 
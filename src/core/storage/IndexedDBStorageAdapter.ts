@@ -0,0 +1,132 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { EditorDataExport } from '../engine';
+import type { StorageAdapter, StorageRevision, StorageRevisionInfo } from './types';
+
+const DEFAULT_DB_NAME = 'infinite-view-editor';
+const DB_VERSION = 1;
+const STORE_NAME = 'revisions';
+const DOCUMENT_INDEX = 'documentId';
+
+/**
+ * 将 IDBRequest 包装为 Promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 等待事务提交完成
+ */
+function waitForTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('IndexedDB transaction aborted'));
+  });
+}
+
+function toInfo({ id, documentId, savedAt }: StorageRevision): StorageRevisionInfo {
+  return { id, documentId, savedAt };
+}
+
+/**
+ * 按保存时间从旧到新排序
+ */
+function sortBySavedAt(revisions: StorageRevision[]): StorageRevision[] {
+  return [...revisions].sort((a, b) => a.savedAt - b.savedAt);
+}
+
+/**
+ * IndexedDBStorageAdapter - 基于 IndexedDB 的本地持久化存储
+ * 所有文档共用一个对象仓库，每条记录是一个修订版本，通过 documentId 索引查询
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private readonly dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = DEFAULT_DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this environment'));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex(DOCUMENT_INDEX, 'documentId', { unique: false });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        // 打开失败时允许下次重试
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async getRevisions(documentId: string): Promise<StorageRevision[]> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const revisions = await promisify(store.index(DOCUMENT_INDEX).getAll(documentId) as IDBRequest<StorageRevision[]>);
+    return sortBySavedAt(revisions);
+  }
+
+  public async save(documentId: string, data: EditorDataExport, maxRevisions: number): Promise<StorageRevisionInfo> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const completed = waitForTransaction(transaction);
+    const store = transaction.objectStore(STORE_NAME);
+
+    const revision: StorageRevision = { id: uuidv4(), documentId, savedAt: Date.now(), data };
+    store.put(revision);
+
+    // 在同一事务中清理超出数量的旧版本
+    const existing = await promisify(store.index(DOCUMENT_INDEX).getAll(documentId) as IDBRequest<StorageRevision[]>);
+    const stale = sortBySavedAt(existing).slice(0, -Math.max(1, maxRevisions));
+    stale.forEach(rev => store.delete(rev.id));
+
+    await completed;
+    return toInfo(revision);
+  }
+
+  public async loadLatest(documentId: string): Promise<StorageRevision | null> {
+    const revisions = await this.getRevisions(documentId);
+    return revisions[revisions.length - 1] || null;
+  }
+
+  public async loadRevision(documentId: string, revisionId: string): Promise<StorageRevision | null> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const revision = await promisify(store.get(revisionId) as IDBRequest<StorageRevision | undefined>);
+    return revision && revision.documentId === documentId ? revision : null;
+  }
+
+  public async listRevisions(documentId: string): Promise<StorageRevisionInfo[]> {
+    const revisions = await this.getRevisions(documentId);
+    return revisions.map(toInfo).reverse();
+  }
+
+  public async clear(documentId: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const completed = waitForTransaction(transaction);
+    const store = transaction.objectStore(STORE_NAME);
+    const keys = await promisify(store.index(DOCUMENT_INDEX).getAllKeys(documentId));
+    keys.forEach(key => store.delete(key));
+    await completed;
+  }
+}
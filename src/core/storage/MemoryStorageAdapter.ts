@@ -0,0 +1,42 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { EditorDataExport } from '../engine';
+import type { StorageAdapter, StorageRevision, StorageRevisionInfo } from './types';
+
+function toInfo({ id, documentId, savedAt }: StorageRevision): StorageRevisionInfo {
+  return { id, documentId, savedAt };
+}
+
+/**
+ * MemoryStorageAdapter - 内存存储，页面刷新后数据丢失
+ * 适用于测试与不需要持久化的场景；读写时深拷贝，行为与 IndexedDB 保持一致
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private readonly documents = new Map<string, StorageRevision[]>();
+
+  public async save(documentId: string, data: EditorDataExport, maxRevisions: number): Promise<StorageRevisionInfo> {
+    const revisions = this.documents.get(documentId) || [];
+    const revision: StorageRevision = { id: uuidv4(), documentId, savedAt: Date.now(), data: structuredClone(data) };
+    // 按时间从旧到新保存，超出数量时丢弃最旧的版本
+    this.documents.set(documentId, [...revisions, revision].slice(-Math.max(1, maxRevisions)));
+    return toInfo(revision);
+  }
+
+  public async loadLatest(documentId: string): Promise<StorageRevision | null> {
+    const revisions = this.documents.get(documentId) || [];
+    const latest = revisions[revisions.length - 1];
+    return latest ? structuredClone(latest) : null;
+  }
+
+  public async loadRevision(documentId: string, revisionId: string): Promise<StorageRevision | null> {
+    const revision = this.documents.get(documentId)?.find(rev => rev.id === revisionId);
+    return revision ? structuredClone(revision) : null;
+  }
+
+  public async listRevisions(documentId: string): Promise<StorageRevisionInfo[]> {
+    return (this.documents.get(documentId) || []).map(toInfo).reverse();
+  }
+
+  public async clear(documentId: string): Promise<void> {
+    this.documents.delete(documentId);
+  }
+}
@@ -0,0 +1,10 @@
+export { IndexedDBStorageAdapter } from './IndexedDBStorageAdapter';
+export { MemoryStorageAdapter } from './MemoryStorageAdapter';
+export type {
+  StorageAdapter,
+  StorageRevision,
+  StorageRevisionInfo,
+  PersistenceOptions,
+  SaveStatus,
+  SaveState,
+} from './types';
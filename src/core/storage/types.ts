@@ -0,0 +1,67 @@
+import type { EditorDataExport } from '../engine';
+
+/**
+ * 一次保存产生的修订版本
+ */
+export interface StorageRevision {
+  id: string;
+  /** 所属文档 */
+  documentId: string;
+  /** 保存时间戳（毫秒） */
+  savedAt: number;
+  data: EditorDataExport;
+}
+
+/** 修订版本的元信息（列表中不携带文档数据） */
+export type StorageRevisionInfo = Omit<StorageRevision, 'data'>;
+
+/**
+ * 存储适配器：负责文档修订版本的读写
+ * 每次保存都会产生一个新的修订版本，超出 maxRevisions 的旧版本由适配器清理
+ */
+export interface StorageAdapter {
+  /** 保存一个新的修订版本 */
+  save: (documentId: string, data: EditorDataExport, maxRevisions: number) => Promise<StorageRevisionInfo>;
+  /** 读取最新的修订版本，不存在时返回 null */
+  loadLatest: (documentId: string) => Promise<StorageRevision | null>;
+  /** 读取指定的修订版本 */
+  loadRevision: (documentId: string, revisionId: string) => Promise<StorageRevision | null>;
+  /** 列出所有修订版本，按时间从新到旧排列 */
+  listRevisions: (documentId: string) => Promise<StorageRevisionInfo[]>;
+  /** 删除文档的所有修订版本 */
+  clear: (documentId: string) => Promise<void>;
+}
+
+/**
+ * 自动保存配置
+ */
+export interface PersistenceOptions {
+  /** 存储适配器 */
+  adapter: StorageAdapter;
+  /** 文档 ID */
+  documentId: string;
+  /** 保留的修订版本数量，默认 20 */
+  maxRevisions?: number;
+  /** 自动保存的防抖时间（毫秒），默认 1000 */
+  debounce?: number;
+  /** 挂载时是否恢复最新的修订版本，默认 true */
+  restoreOnMount?: boolean;
+}
+
+/**
+ * 保存状态
+ * - idle：尚未保存
+ * - restoring：正在恢复文档
+ * - saving：正在保存
+ * - saved：已保存
+ * - error：保存或恢复失败
+ */
+export type SaveStatus = 'idle' | 'restoring' | 'saving' | 'saved' | 'error';
+
+export interface SaveState {
+  status: SaveStatus;
+  /** 最近一次成功保存（或恢复）的时间戳 */
+  lastSavedAt: number | null;
+  /** 失败原因 */
+  error?: Error;
+}
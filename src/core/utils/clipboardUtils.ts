@@ -0,0 +1,26 @@
+/**
+ * 写入系统剪贴板，失败时（无权限或不支持）返回 false
+ */
+export async function writeSystemClipboard(text: string): Promise<boolean> {
+  try {
+    if (!navigator.clipboard?.writeText) return false;
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (err) {
+    console.warn('Write clipboard failed:', err);
+    return false;
+  }
+}
+
+/**
+ * 读取系统剪贴板文本，失败时（无权限或不支持）返回 null
+ */
+export async function readSystemClipboard(): Promise<string | null> {
+  try {
+    if (!navigator.clipboard?.readText) return null;
+    return await navigator.clipboard.readText();
+  } catch (err) {
+    console.warn('Read clipboard failed:', err);
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+import type { Element, Point, ArrowheadType } from '../engine/types';
+import { getArrowheadShape, type ArrowheadShape } from './shapeUtils';
+
+/**
+ * 连接线走线点在元素局部坐标系中的位置
+ */
+function getLocalPoints(element: Element): Point[] {
+  return (element.points || []).map(p => ({ x: p.x * element.width, y: p.y * element.height }));
+}
+
+/**
+ * 获取连接线在元素局部坐标系中的 SVG 路径
+ * curved 走线的 points 为三次贝塞尔的 4 个控制点，其余为折线顶点
+ */
+export function getConnectorPathData(element: Element): string {
+  const points = getLocalPoints(element);
+  if (points.length < 2) return '';
+
+  if (element.routing === 'curved' && points.length === 4) {
+    const [p0, c1, c2, p3] = points;
+    return `M ${p0.x} ${p0.y} C ${c1.x} ${c1.y} ${c2.x} ${c2.y} ${p3.x} ${p3.y}`;
+  }
+
+  const [first, ...rest] = points;
+  return `M ${first.x} ${first.y} ${rest.map(p => `L ${p.x} ${p.y}`).join(' ')}`;
+}
+
+/**
+ * 获取连接线两端的箭头形状，方向取端点处走线的切线方向
+ */
+export function getConnectorArrowheads(element: Element): ArrowheadShape[] {
+  const points = getLocalPoints(element);
+  if (points.length < 2) return [];
+
+  const strokeWidth = element.style?.strokeWidth || 2;
+  const startType: ArrowheadType = element.style?.startArrowhead ?? 'none';
+  const endType: ArrowheadType = element.style?.endArrowhead ?? 'triangle';
+
+  return [
+    getArrowheadShape(points[0], points[1], startType, strokeWidth),
+    getArrowheadShape(points[points.length - 1], points[points.length - 2], endType, strokeWidth),
+  ].filter((shape): shape is ArrowheadShape => !!shape);
+}
@@ -24,3 +24,14 @@ export function getElementStyles(element: Element): React.CSSProperties {
     textAlign: style.textAlign,
   };
 }
+
+/**
+ * 生成元素的 CSS transform：交互中的位移在前（父级坐标系），旋转在后（绕元素中心）
+ * 拖拽 / 缩放过程中直接写入 DOM，结束后也需要用它恢复旋转，不能简单清空
+ */
+export function getElementTransform(rotation?: number, translate?: number[]): string {
+  const parts: string[] = [];
+  if (translate) parts.push(`translate(${translate[0]}px, ${translate[1]}px)`);
+  if (rotation) parts.push(`rotate(${rotation}deg)`);
+  return parts.join(' ');
+}
@@ -0,0 +1,179 @@
+import type { Element, PathPoint } from '../engine/types';
+
+/** 未提供压感时使用的默认压力值 */
+export const DEFAULT_PRESSURE = 0.5;
+
+/** 每段曲线的采样数，用于生成变宽描边的轮廓 */
+const SEGMENT_SAMPLES = 6;
+
+/**
+ * 点到线段的距离
+ */
+function distanceToSegment(p: PathPoint, a: PathPoint, b: PathPoint): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Ramer–Douglas–Peucker 折线简化
+ * @param tolerance 允许的最大偏离距离，越大保留的点越少
+ */
+export function simplifyPoints(points: PathPoint[], tolerance: number): PathPoint[] {
+  if (points.length <= 2) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // 使用显式栈代替递归，避免长笔画导致调用栈过深
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      stack.push([start, index], [index, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * 沿 Catmull-Rom 样条对简化后的控制点加密采样，压力值线性插值
+ */
+function sampleSpline(points: PathPoint[]): PathPoint[] {
+  if (points.length < 3) return points;
+
+  const samples: PathPoint[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[i - 1] || points[i];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[i + 2] || p2;
+
+    for (let step = 0; step < SEGMENT_SAMPLES; step++) {
+      const t = step / SEGMENT_SAMPLES;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      const interpolate = (a: number, b: number, c: number, d: number) =>
+        0.5 * (2 * b + (-a + c) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (-a + 3 * b - 3 * c + d) * t3);
+
+      samples.push({
+        x: interpolate(p0.x, p1.x, p2.x, p3.x),
+        y: interpolate(p0.y, p1.y, p2.y, p3.y),
+        pressure: (p1.pressure ?? DEFAULT_PRESSURE) * (1 - t) + (p2.pressure ?? DEFAULT_PRESSURE) * t,
+      });
+    }
+  }
+  samples.push(points[points.length - 1]);
+  return samples;
+}
+
+/**
+ * 压力值映射为线宽倍率：默认压力 (0.5) 对应 1 倍线宽
+ */
+function pressureToScale(pressure: number | undefined): number {
+  return 0.25 + 1.5 * (pressure ?? DEFAULT_PRESSURE);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 生成变宽笔画的闭合轮廓路径（以填充方式绘制）
+ * 中心线经 Catmull-Rom 平滑，两侧按压力偏移，首尾以半圆封口
+ * @param points 笔画采样点（元素局部像素坐标）
+ * @param strokeWidth 基础线宽
+ */
+export function getStrokeOutlinePathData(points: PathPoint[], strokeWidth: number): string {
+  if (points.length === 0) return '';
+
+  const samples = sampleSpline(points);
+  const first = samples[0];
+
+  // 单点（或原地点击）：绘制圆点
+  const isDot = samples.every(p => Math.hypot(p.x - first.x, p.y - first.y) < 0.01);
+  if (isDot) {
+    const r = round((strokeWidth * pressureToScale(first.pressure)) / 2);
+    return `M ${round(first.x - r)} ${round(first.y)} A ${r} ${r} 0 1 0 ${round(first.x + r)} ${round(first.y)} A ${r} ${r} 0 1 0 ${round(first.x - r)} ${round(first.y)} Z`;
+  }
+
+  const left: PathPoint[] = [];
+  const right: PathPoint[] = [];
+  const radii: number[] = [];
+  samples.forEach((p, i) => {
+    const prev = samples[Math.max(0, i - 1)];
+    const next = samples[Math.min(samples.length - 1, i + 1)];
+    const length = Math.hypot(next.x - prev.x, next.y - prev.y) || 1;
+    const nx = -(next.y - prev.y) / length;
+    const ny = (next.x - prev.x) / length;
+    const r = (strokeWidth * pressureToScale(p.pressure)) / 2;
+    radii.push(r);
+    left.push({ x: p.x + nx * r, y: p.y + ny * r });
+    right.push({ x: p.x - nx * r, y: p.y - ny * r });
+  });
+
+  const endR = round(radii[radii.length - 1]);
+  const startR = round(radii[0]);
+  const last = right.length - 1;
+
+  return [
+    `M ${round(left[0].x)} ${round(left[0].y)}`,
+    ...left.slice(1).map(p => `L ${round(p.x)} ${round(p.y)}`),
+    `A ${endR} ${endR} 0 0 0 ${round(right[last].x)} ${round(right[last].y)}`,
+    ...right.slice(0, last).reverse().map(p => `L ${round(p.x)} ${round(p.y)}`),
+    `A ${startR} ${startR} 0 0 0 ${round(left[0].x)} ${round(left[0].y)}`,
+    'Z',
+  ].join(' ');
+}
+
+/**
+ * 获取 path 元素在局部坐标系中的笔画轮廓
+ * points 存储的是相对于包围盒的归一化坐标 (0-1)，因此缩放元素时笔画随之缩放
+ */
+export function getPathElementOutline(element: Element): string {
+  const points = (element.points || []).map(p => ({
+    ...p,
+    x: p.x * element.width,
+    y: p.y * element.height,
+  }));
+  return getStrokeOutlinePathData(points, element.style?.strokeWidth || 4);
+}
+
+/**
+ * 将笔画采样点（世界坐标）简化并转换为包围盒 + 归一化坐标
+ */
+export function getPathGeometry(points: PathPoint[], tolerance: number): { x: number, y: number, width: number, height: number, points: PathPoint[] } {
+  const simplified = simplifyPoints(points, tolerance);
+  const xs = simplified.map(p => p.x);
+  const ys = simplified.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  const width = Math.max(...xs) - x;
+  const height = Math.max(...ys) - y;
+
+  return {
+    x,
+    y,
+    width,
+    height,
+    points: simplified.map(p => ({
+      x: width === 0 ? 0 : (p.x - x) / width,
+      y: height === 0 ? 0 : (p.y - y) / height,
+      pressure: p.pressure,
+    })),
+  };
+}
@@ -0,0 +1,146 @@
+import type { Element, TextSpan, TextSpanStyle } from '../engine/types';
+import { getSpanCSS, getSpanStyle, isBoldWeight, isSafeLink, normalizeSpans, spansToText } from './richTextUtils';
+
+/** 产生换行的块级标签（浏览器编辑 contentEditable 时可能插入） */
+const BLOCK_TAGS = new Set(['DIV', 'P', 'LI']);
+
+/**
+ * 将片段渲染到 contentEditable 节点中，每个片段一个 <span>，样式同时记录在 data-span 上，解析时原样读回
+ */
+export function renderSpansToDOM(root: HTMLElement, element: Element, spans: TextSpan[]) {
+  const nodes: Node[] = spans.map(span => {
+    const node = document.createElement('span');
+    Object.assign(node.style, getSpanCSS(element, span));
+    node.dataset.span = JSON.stringify(getSpanStyle(span));
+    node.textContent = span.text;
+    return node;
+  });
+  // 以换行结尾（或没有文字）时补一个占位 <br>，否则浏览器不显示最后的空行
+  if (spans.length === 0 || spansToText(spans).endsWith('\n')) {
+    const placeholder = document.createElement('br');
+    placeholder.dataset.placeholder = '';
+    nodes.push(placeholder);
+  }
+  root.replaceChildren(...nodes);
+}
+
+/**
+ * 读取节点自身的片段样式：优先读取 data-span，其次识别常见标签与行内样式
+ */
+function readNodeStyle(node: HTMLElement): TextSpanStyle {
+  if (node.dataset.span !== undefined) {
+    try {
+      const style = getSpanStyle(JSON.parse(node.dataset.span));
+      if (style.link !== undefined && (typeof style.link !== 'string' || !isSafeLink(style.link))) delete style.link;
+      return style;
+    } catch {
+      return {};
+    }
+  }
+
+  const style: TextSpanStyle = {};
+  const tag = node.tagName;
+  if (tag === 'B' || tag === 'STRONG') style.bold = true;
+  if (tag === 'I' || tag === 'EM') style.italic = true;
+  if (tag === 'U') style.underline = true;
+  const href = tag === 'A' ? node.getAttribute('href') : null;
+  if (href && isSafeLink(href)) style.link = href;
+
+  const css = node.style;
+  if (css.fontWeight) style.bold = isBoldWeight(css.fontWeight);
+  if (css.fontStyle) style.italic = css.fontStyle === 'italic';
+  if (css.textDecorationLine || css.textDecoration) {
+    style.underline = (css.textDecorationLine || css.textDecoration).includes('underline');
+  }
+  if (css.color) style.color = css.color;
+  if (css.fontSize.endsWith('px')) style.fontSize = parseFloat(css.fontSize);
+  return style;
+}
+
+/**
+ * 从 contentEditable 节点解析出片段
+ */
+export function parseSpansFromDOM(root: Node): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const endsWithLine = () => spans.length === 0 || spans[spans.length - 1].text.endsWith('\n');
+
+  const walk = (node: Node, style: TextSpanStyle) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      if (node.textContent) spans.push({ ...style, text: node.textContent });
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    if (node.tagName === 'BR') {
+      if (node.dataset.placeholder === undefined) spans.push({ ...style, text: '\n' });
+      return;
+    }
+    if (BLOCK_TAGS.has(node.tagName) && !endsWithLine()) spans.push({ ...style, text: '\n' });
+    const nodeStyle = { ...style, ...readNodeStyle(node) };
+    node.childNodes.forEach(child => walk(child, nodeStyle));
+  };
+
+  // 浏览器清空内容后可能只留下一个 <br>
+  if (root.childNodes.length === 1 && root.firstChild instanceof HTMLBRElement) return [];
+  root.childNodes.forEach(child => walk(child, {}));
+  return normalizeSpans(spans);
+}
+
+/**
+ * DOM 位置对应的文字偏移
+ */
+function getTextOffset(root: HTMLElement, container: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(container, offset);
+  const wrapper = document.createElement('div');
+  wrapper.appendChild(range.cloneContents());
+  return spansToText(parseSpansFromDOM(wrapper)).length;
+}
+
+/**
+ * 获取当前选区在节点文字中的范围；选区不在节点内时返回 null
+ */
+export function getSelectionOffsets(root: HTMLElement): { start: number; end: number } | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+  return {
+    start: getTextOffset(root, range.startContainer, range.startOffset),
+    end: getTextOffset(root, range.endContainer, range.endOffset),
+  };
+}
+
+/**
+ * 文字偏移对应的 DOM 位置
+ */
+function getDOMPosition(root: HTMLElement, offset: number): { node: Node; offset: number } {
+  let remaining = offset;
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const length = node.textContent?.length ?? 0;
+      if (remaining <= length) return { node, offset: remaining };
+      remaining -= length;
+    } else if (node instanceof HTMLBRElement && node.dataset.placeholder === undefined) {
+      if (remaining === 0) return { node: node.parentNode!, offset: Array.prototype.indexOf.call(node.parentNode!.childNodes, node) };
+      remaining -= 1;
+    }
+  }
+  return { node: root, offset: root.childNodes.length };
+}
+
+/**
+ * 按文字偏移设置选区
+ */
+export function setSelectionOffsets(root: HTMLElement, start: number, end: number) {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const startPosition = getDOMPosition(root, start);
+  const endPosition = getDOMPosition(root, end);
+  const range = document.createRange();
+  range.setStart(startPosition.node, startPosition.offset);
+  range.setEnd(endPosition.node, endPosition.offset);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
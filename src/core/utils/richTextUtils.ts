@@ -0,0 +1,359 @@
+import type React from 'react';
+import type { Element, ElementStyle, TextSpan, TextSpanStyle } from '../engine/types';
+
+/** 片段可设置的样式字段 */
+const SPAN_STYLE_KEYS = ['bold', 'italic', 'underline', 'color', 'fontSize', 'link'] as const;
+/** 未设置颜色的链接使用的颜色 */
+export const LINK_COLOR = '#1677ff';
+/** 链接允许的协议，其余（如 javascript:、data:）一律丢弃 */
+const SAFE_LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+const DEFAULT_FONT_SIZE = 24;
+const DEFAULT_FONT_FAMILY = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+const LINE_HEIGHT = 1.2;
+/** 基线到行顶的距离（相对字号），与 PDF 导出一致 */
+const BASELINE_RATIO = 0.95;
+
+/**
+ * 片段与元素样式合并后的最终样式
+ */
+export interface ResolvedTextStyle {
+  fontSize: number;
+  fontFamily: string;
+  fontWeight: string | number;
+  fontStyle: string;
+  color: string;
+  underline: boolean;
+  link?: string;
+}
+
+/**
+ * 选中范围内文字的样式（用于工具栏显示）：布尔值表示范围内全部文字都满足，其余取第一个字符的值
+ */
+export interface TextRangeStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  color: string;
+  fontSize: number;
+  /** 范围内链接相同时的链接地址 */
+  link?: string;
+}
+
+export interface RichTextRun {
+  text: string;
+  style: ResolvedTextStyle;
+  width: number;
+}
+
+export interface RichTextLine {
+  runs: RichTextRun[];
+  width: number;
+  /** 行顶相对文本框顶部的距离 */
+  top: number;
+  height: number;
+  /** 基线相对文本框顶部的距离 */
+  baseline: number;
+}
+
+export interface RichTextLayout {
+  lines: RichTextLine[];
+  height: number;
+}
+
+/**
+ * 取出片段的样式字段（去掉文字与值为 undefined 的字段）
+ */
+export function getSpanStyle(span: TextSpanStyle): TextSpanStyle {
+  const style: Record<string, unknown> = {};
+  SPAN_STYLE_KEYS.forEach(key => {
+    if (span[key] !== undefined) style[key] = span[key];
+  });
+  return style as TextSpanStyle;
+}
+
+/**
+ * 链接是否为允许的 http / https / mailto 地址
+ */
+export function isSafeLink(link: string): boolean {
+  try {
+    return SAFE_LINK_PROTOCOLS.has(new URL(link.trim()).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export function isSameSpanStyle(a: TextSpanStyle, b: TextSpanStyle): boolean {
+  return SPAN_STYLE_KEYS.every(key => a[key] === b[key]);
+}
+
+export function spansToText(spans: TextSpan[]): string {
+  return spans.map(span => span.text).join('');
+}
+
+/**
+ * 去掉空片段并合并样式相同的相邻片段
+ */
+export function normalizeSpans(spans: TextSpan[]): TextSpan[] {
+  const result: TextSpan[] = [];
+  spans.forEach(span => {
+    if (!span.text) return;
+    const last = result[result.length - 1];
+    if (last && isSameSpanStyle(last, span)) {
+      result[result.length - 1] = { ...last, text: last.text + span.text };
+    } else {
+      result.push({ text: span.text, ...getSpanStyle(span) });
+    }
+  });
+  return result;
+}
+
+/**
+ * 片段转为元素的 richText 字段：没有任何片段样式时返回 undefined（整段文字使用元素样式）
+ */
+export function toRichText(spans: TextSpan[]): TextSpan[] | undefined {
+  const normalized = normalizeSpans(spans);
+  return normalized.some(span => Object.keys(getSpanStyle(span)).length > 0) ? normalized : undefined;
+}
+
+/**
+ * 截取 [start, end) 范围内的片段
+ */
+export function sliceSpans(spans: TextSpan[], start: number, end: number): TextSpan[] {
+  const result: TextSpan[] = [];
+  let offset = 0;
+  spans.forEach(span => {
+    const spanStart = offset;
+    offset += span.text.length;
+    const from = Math.max(start, spanStart);
+    const to = Math.min(end, offset);
+    if (from < to) result.push({ ...span, text: span.text.slice(from - spanStart, to - spanStart) });
+  });
+  return result;
+}
+
+/**
+ * 将 [start, end) 范围内的文字替换为 text，新文字沿用前一个字符的样式（位于开头时沿用后一个字符）
+ */
+export function replaceTextRange(spans: TextSpan[], start: number, end: number, text: string): TextSpan[] {
+  const length = spansToText(spans).length;
+  const neighbor = start > 0 ? sliceSpans(spans, start - 1, start)[0] : sliceSpans(spans, end, end + 1)[0];
+  return normalizeSpans([
+    ...sliceSpans(spans, 0, start),
+    { ...(neighbor ? getSpanStyle(neighbor) : {}), text },
+    ...sliceSpans(spans, end, length),
+  ]);
+}
+
+/**
+ * 对 [start, end) 范围内的文字设置片段样式，值为 undefined 的字段表示清除该设置
+ */
+export function applySpanStyle(spans: TextSpan[], start: number, end: number, style: TextSpanStyle): TextSpan[] {
+  const length = spansToText(spans).length;
+  return normalizeSpans([
+    ...sliceSpans(spans, 0, start),
+    ...sliceSpans(spans, start, end).map(span => ({ ...span, ...style })),
+    ...sliceSpans(spans, end, length),
+  ]);
+}
+
+/**
+ * 使片段与新的文字一致：保留首尾未变部分的样式，中间变化的部分按插入处理
+ */
+export function syncSpansWithContent(spans: TextSpan[], content: string): TextSpan[] {
+  const text = spansToText(spans);
+  if (text === content) return spans;
+
+  const maxCommon = Math.min(text.length, content.length);
+  let prefix = 0;
+  while (prefix < maxCommon && text[prefix] === content[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < maxCommon - prefix && text[text.length - 1 - suffix] === content[content.length - 1 - suffix]) suffix++;
+
+  return replaceTextRange(spans, prefix, text.length - suffix, content.slice(prefix, content.length - suffix));
+}
+
+/**
+ * 获取文本元素的片段；没有 richText 时整段文字为一个片段，与 content 不一致时以 content 为准
+ */
+export function getTextSpans(element: Element): TextSpan[] {
+  const content = element.content || '';
+  if (!element.richText) return content ? [{ text: content }] : [];
+  return normalizeSpans(syncSpansWithContent(element.richText, content));
+}
+
+/**
+ * 按比例缩放片段上设置的字号
+ */
+export function scaleSpanFontSizes(richText: TextSpan[] | undefined, scale: number): TextSpan[] | undefined {
+  if (!richText?.some(span => span.fontSize !== undefined)) return richText;
+  return richText.map(span => span.fontSize === undefined
+    ? span
+    : { ...span, fontSize: span.fontSize * scale });
+}
+
+export function isBoldWeight(weight: string | number): boolean {
+  return weight === 'bold' || weight === 'bolder' || Number(weight) >= 600;
+}
+
+const isUnderline = (textDecoration?: string) => !!textDecoration && textDecoration.includes('underline');
+
+/**
+ * 合并片段样式与元素样式
+ */
+export function resolveSpanStyle(element: Element, span: TextSpanStyle): ResolvedTextStyle {
+  const style = element.style || {};
+  return {
+    fontSize: span.fontSize ?? (style.fontSize || DEFAULT_FONT_SIZE),
+    fontFamily: style.fontFamily || DEFAULT_FONT_FAMILY,
+    fontWeight: span.bold === undefined ? (style.fontWeight || 'normal') : (span.bold ? 'bold' : 'normal'),
+    fontStyle: span.italic === undefined ? (style.fontStyle || 'normal') : (span.italic ? 'italic' : 'normal'),
+    color: span.color ?? (span.link ? LINK_COLOR : (style.fill || '#333')),
+    underline: span.underline ?? (!!span.link || isUnderline(style.textDecoration)),
+    link: span.link,
+  };
+}
+
+/**
+ * Canvas / 测量使用的 font 字符串
+ */
+export function getFontString(style: ResolvedTextStyle): string {
+  return `${style.fontStyle} ${style.fontWeight} ${style.fontSize}px ${style.fontFamily}`;
+}
+
+/**
+ * 片段在 DOM 中的样式：字体、颜色只写片段上的设置（其余继承文本框），
+ * 下划线总是按合并后的结果写入，因为父级的 text-decoration 无法被子元素取消
+ */
+export function getSpanCSS(element: Element, span: TextSpanStyle): React.CSSProperties {
+  const css: React.CSSProperties = {
+    textDecoration: resolveSpanStyle(element, span).underline ? 'underline' : 'none',
+  };
+  if (span.bold !== undefined) css.fontWeight = span.bold ? 'bold' : 'normal';
+  if (span.italic !== undefined) css.fontStyle = span.italic ? 'italic' : 'normal';
+  if (span.fontSize !== undefined) css.fontSize = `${span.fontSize}px`;
+  if (span.color !== undefined || span.link) css.color = span.color ?? LINK_COLOR;
+  return css;
+}
+
+/**
+ * 获取 [start, end) 范围内文字的样式；范围为空时取整段文字
+ */
+export function getTextRangeStyle(element: Element, range?: { start: number; end: number }): TextRangeStyle {
+  const spans = getTextSpans(element);
+  const pieces = range && range.start < range.end ? sliceSpans(spans, range.start, range.end) : spans;
+  const styles = (pieces.length > 0 ? pieces : [{ text: '' }]).map(span => resolveSpanStyle(element, span));
+  const [first] = styles;
+  return {
+    bold: styles.every(style => isBoldWeight(style.fontWeight)),
+    italic: styles.every(style => style.fontStyle === 'italic'),
+    underline: styles.every(style => style.underline),
+    color: first.color,
+    fontSize: first.fontSize,
+    link: styles.every(style => style.link === first.link) ? first.link : undefined,
+  };
+}
+
+/**
+ * 对文本元素设置文字样式，返回需要更新的 style 与 richText
+ * - 指定了部分文字时只修改该范围内的片段；
+ * - 作用于整段文字时写入元素样式，并清除片段上的同名设置（链接没有对应的元素样式，仍写入片段）。
+ */
+export function applyTextStyle(
+  element: Element,
+  style: TextSpanStyle,
+  range?: { start: number; end: number }
+): Pick<Element, 'style' | 'richText'> {
+  const spans = getTextSpans(element);
+  const length = spansToText(spans).length;
+  const start = Math.max(0, Math.min(range?.start ?? 0, length));
+  const end = Math.max(start, Math.min(range?.end ?? length, length));
+
+  if (start > 0 || end < length) {
+    return { style: element.style, richText: toRichText(applySpanStyle(spans, start, end, style)) };
+  }
+
+  const nextStyle: ElementStyle = { ...element.style };
+  if (style.bold !== undefined) nextStyle.fontWeight = style.bold ? 'bold' : 'normal';
+  if (style.italic !== undefined) nextStyle.fontStyle = style.italic ? 'italic' : 'normal';
+  if (style.underline !== undefined) nextStyle.textDecoration = style.underline ? 'underline' : 'none';
+  if (style.color !== undefined) nextStyle.fill = style.color;
+  if (style.fontSize !== undefined) nextStyle.fontSize = style.fontSize;
+
+  const spanStyle: TextSpanStyle = {};
+  (Object.keys(style) as (keyof TextSpanStyle)[]).forEach(key => {
+    if (key !== 'link') spanStyle[key] = undefined;
+  });
+  if ('link' in style) spanStyle.link = style.link;
+
+  return { style: nextStyle, richText: toRichText(applySpanStyle(spans, 0, length, spanStyle)) };
+}
+
+/**
+ * 富文本排版：按换行分段，固定宽度时逐字折行（与纯文本导出的规则一致）；
+ * 每行行高取行内最大字号的 1.2 倍，所有片段共用一条基线
+ * @param measure 按片段样式测量文字宽度
+ */
+export function layoutRichText(element: Element, measure: (text: string, style: ResolvedTextStyle) => number): RichTextLayout {
+  const spans = getTextSpans(element);
+
+  // 按换行拆成段落；空段落记录换行处的样式，用于确定行高
+  const paragraphs: { spans: TextSpan[]; style: TextSpanStyle }[] = [{ spans: [], style: spans[0] ?? {} }];
+  spans.forEach(span => {
+    span.text.split('\n').forEach((part, i) => {
+      if (i > 0) paragraphs.push({ spans: [], style: span });
+      if (part) paragraphs[paragraphs.length - 1].spans.push({ ...span, text: part });
+    });
+  });
+
+  const rawLines: { spans: TextSpan[]; style: TextSpanStyle }[] = [];
+  paragraphs.forEach(paragraph => {
+    if (!element.fixedWidth || paragraph.spans.length === 0) {
+      rawLines.push(paragraph);
+      return;
+    }
+    let current: TextSpan[] = [];
+    let currentWidth = 0;
+    paragraph.spans.forEach(span => {
+      const style = resolveSpanStyle(element, span);
+      for (const char of span.text) {
+        const charWidth = measure(char, style);
+        if (current.length > 0 && currentWidth + charWidth > element.width) {
+          rawLines.push({ spans: current, style: span });
+          current = [];
+          currentWidth = 0;
+        }
+        const last = current[current.length - 1];
+        if (last && isSameSpanStyle(last, span)) {
+          last.text += char;
+        } else {
+          current.push({ ...span, text: char });
+        }
+        currentWidth += charWidth;
+      }
+    });
+    rawLines.push({ spans: current, style: paragraph.style });
+  });
+
+  let top = 0;
+  const lines = rawLines.map(line => {
+    const runs = line.spans.map(span => {
+      const style = resolveSpanStyle(element, span);
+      return { text: span.text, style, width: measure(span.text, style) };
+    });
+    const fontSize = runs.length > 0
+      ? Math.max(...runs.map(run => run.style.fontSize))
+      : resolveSpanStyle(element, line.style).fontSize;
+    const height = fontSize * LINE_HEIGHT;
+    const result: RichTextLine = {
+      runs,
+      width: runs.reduce((sum, run) => sum + run.width, 0),
+      top,
+      height,
+      baseline: top + fontSize * BASELINE_RATIO,
+    };
+    top += height;
+    return result;
+  });
+
+  return { lines, height: top };
+}
@@ -0,0 +1,167 @@
+import type { Element, Point, ArrowheadType } from '../engine/types';
+
+/** 多边形默认边数 */
+export const DEFAULT_POLYGON_SIDES = 6;
+/** 星形默认角数 */
+export const DEFAULT_STAR_POINTS = 5;
+/** 星形默认内径比例 */
+export const DEFAULT_STAR_INNER_RADIUS = 0.5;
+
+/**
+ * 计算内接于元素包围盒的正多边形顶点（从正上方开始顺时针）
+ */
+export function getPolygonPoints(width: number, height: number, sides: number): Point[] {
+  const count = Math.max(3, Math.round(sides));
+  const cx = width / 2;
+  const cy = height / 2;
+  return Array.from({ length: count }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / count;
+    return { x: cx + cx * Math.cos(angle), y: cy + cy * Math.sin(angle) };
+  });
+}
+
+/**
+ * 计算内接于元素包围盒的星形顶点（外顶点与内顶点交替）
+ * @param innerRadius 内径与外径的比例 (0-1)
+ */
+export function getStarPoints(width: number, height: number, points: number, innerRadius: number): Point[] {
+  const count = Math.max(3, Math.round(points));
+  const ratio = Math.min(Math.max(innerRadius, 0.05), 1);
+  const cx = width / 2;
+  const cy = height / 2;
+  return Array.from({ length: count * 2 }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * Math.PI) / count;
+    const r = i % 2 === 0 ? 1 : ratio;
+    return { x: cx + cx * r * Math.cos(angle), y: cy + cy * r * Math.sin(angle) };
+  });
+}
+
+/**
+ * 将点列转换为闭合的 SVG 路径
+ */
+export function pointsToPathData(points: Point[], closed = true): string {
+  if (points.length === 0) return '';
+  const [first, ...rest] = points;
+  return `M ${first.x} ${first.y} ${rest.map(p => `L ${p.x} ${p.y}`).join(' ')}${closed ? ' Z' : ''}`;
+}
+
+/**
+ * 获取闭合形状（椭圆、多边形、星形）在元素局部坐标系中的 SVG 路径
+ * SVG 渲染与 Canvas 导出（Path2D）共用同一份几何数据
+ */
+export function getShapePathData(element: Element): string {
+  const { width, height } = element;
+  switch (element.type) {
+    case 'ellipse': {
+      const rx = width / 2;
+      const ry = height / 2;
+      return `M 0 ${ry} A ${rx} ${ry} 0 1 0 ${width} ${ry} A ${rx} ${ry} 0 1 0 0 ${ry} Z`;
+    }
+    case 'polygon':
+      return pointsToPathData(getPolygonPoints(width, height, element.sides ?? DEFAULT_POLYGON_SIDES));
+    case 'star':
+      return pointsToPathData(getStarPoints(
+        width,
+        height,
+        element.sides ?? DEFAULT_STAR_POINTS,
+        element.innerRadius ?? DEFAULT_STAR_INNER_RADIUS
+      ));
+    default:
+      return `M 0 0 H ${width} V ${height} H 0 Z`;
+  }
+}
+
+/**
+ * 获取线段元素（line / arrow）在元素局部坐标系中的起止点
+ * points 中存储的是相对于包围盒的归一化坐标 (0-1)，因此缩放元素时端点随之缩放
+ */
+export function getLineEndpoints(element: Element): [Point, Point] {
+  const [start = { x: 0, y: 0 }, end = { x: 1, y: 1 }] = element.points || [];
+  return [
+    { x: start.x * element.width, y: start.y * element.height },
+    { x: end.x * element.width, y: end.y * element.height },
+  ];
+}
+
+/**
+ * 根据拖拽的起止点（世界坐标）计算线段的包围盒与归一化端点
+ */
+export function getLineGeometry(start: Point, end: Point): { x: number, y: number, width: number, height: number, points: Point[] } {
+  const x = Math.min(start.x, end.x);
+  const y = Math.min(start.y, end.y);
+  const width = Math.abs(end.x - start.x);
+  const height = Math.abs(end.y - start.y);
+  const normalize = (p: Point): Point => ({
+    x: width === 0 ? 0 : (p.x - x) / width,
+    y: height === 0 ? 0 : (p.y - y) / height,
+  });
+  return { x, y, width, height, points: [normalize(start), normalize(end)] };
+}
+
+export interface ArrowheadShape {
+  /** 箭头路径 */
+  d: string;
+  /** 是否填充（否则仅描边） */
+  filled: boolean;
+}
+
+/**
+ * 计算箭头形状
+ * @param tip 箭头尖端
+ * @param from 线段上指向尖端的前一个点，用于确定方向
+ * @param type 箭头类型
+ * @param strokeWidth 线宽，箭头大小随线宽缩放
+ */
+export function getArrowheadShape(tip: Point, from: Point, type: ArrowheadType, strokeWidth: number): ArrowheadShape | null {
+  if (type === 'none') return null;
+
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+  const size = Math.max(8, strokeWidth * 4);
+  const at = (length: number, offset: number): Point => ({
+    x: tip.x - length * Math.cos(angle + offset),
+    y: tip.y - length * Math.sin(angle + offset),
+  });
+
+  switch (type) {
+    case 'triangle': {
+      const left = at(size, Math.PI / 7);
+      const right = at(size, -Math.PI / 7);
+      return { d: pointsToPathData([tip, left, right]), filled: true };
+    }
+    case 'open': {
+      const left = at(size, Math.PI / 6);
+      const right = at(size, -Math.PI / 6);
+      return { d: `M ${left.x} ${left.y} L ${tip.x} ${tip.y} L ${right.x} ${right.y}`, filled: false };
+    }
+    case 'diamond': {
+      const back = at(size, 0);
+      const left = at(size / 2, Math.PI / 6);
+      const right = at(size / 2, -Math.PI / 6);
+      return { d: pointsToPathData([tip, left, back, right]), filled: true };
+    }
+    case 'circle': {
+      const r = size / 3;
+      const c = at(r, 0);
+      return {
+        d: `M ${c.x - r} ${c.y} A ${r} ${r} 0 1 0 ${c.x + r} ${c.y} A ${r} ${r} 0 1 0 ${c.x - r} ${c.y} Z`,
+        filled: true,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * 获取线段元素两端的箭头形状
+ */
+export function getLineArrowheads(element: Element): ArrowheadShape[] {
+  const [start, end] = getLineEndpoints(element);
+  const strokeWidth = element.style?.strokeWidth || 2;
+  const defaultEnd: ArrowheadType = element.type === 'arrow' ? 'triangle' : 'none';
+
+  return [
+    getArrowheadShape(start, end, element.style?.startArrowhead ?? 'none', strokeWidth),
+    getArrowheadShape(end, start, element.style?.endArrowhead ?? defaultEnd, strokeWidth),
+  ].filter((shape): shape is ArrowheadShape => !!shape);
+}
@@ -1,5 +1,50 @@
 import React, { useRef } from 'react';
-import { EditorProvider, CoreEditor, type EditorAPI, type Element, type EditorDataExport } from '../core';
+import { EditorProvider, CoreEditor, useEngineInstance, type EditorAPI, type Element, type EditorDataExport, type EditorPlugin, type PluginToolbarProps } from '../core';
+
+const STICKY_COLORS = ['#fff3a3', '#ffd6e7', '#bae7ff', '#d9f7be'];
+
+const StickyNoteToolbar: React.FC<PluginToolbarProps> = ({ element }) => {
+  const engine = useEngineInstance();
+  return (
+    <div style={{ display: 'flex', gap: '4px', padding: '0 4px' }}>
+      {STICKY_COLORS.map(color => (
+        <button
+          key={color}
+          title={color}
+          onClick={() => engine.execute('element.update', { id: element.id, updates: { style: { ...element.style, fill: color } } })}
+          style={{ width: '16px', height: '16px', borderRadius: '50%', border: element.style?.fill === color ? '2px solid #1890ff' : '1px solid #4a4a4a', background: color, cursor: 'pointer' }}
+        />
+      ))}
+    </div>
+  );
+};
+
+/**
+ * 演示插件：便利贴
+ */
+const stickyNotePlugin: EditorPlugin = {
+  type: 'demo-sticky',
+  label: 'Sticky note',
+  icon: <span>🗒️</span>,
+  tool: { icon: <span>🗒️</span> },
+  defaultProps: { width: 160, height: 160, content: 'Note', style: { fill: STICKY_COLORS[0] } },
+  render: ({ element }) => (
+    <div style={{ width: '100%', height: '100%', padding: '12px', boxSizing: 'border-box', background: element.style?.fill, boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)', fontSize: '16px', whiteSpace: 'pre-wrap', overflow: 'hidden' }}>
+      {element.content}
+    </div>
+  ),
+  toolbar: StickyNoteToolbar,
+  exportToCanvas: (ctx, element) => {
+    ctx.fillStyle = element.style?.fill || STICKY_COLORS[0];
+    ctx.fillRect(0, 0, element.width, element.height);
+    ctx.fillStyle = '#333333';
+    ctx.font = '16px sans-serif';
+    ctx.textBaseline = 'top';
+    (element.content || '').split('\n').forEach((line, i) => ctx.fillText(line, 12, 12 + i * 20));
+  },
+};
+
+const PLUGINS = [stickyNotePlugin];
 
 /**
  * EngineEditorPage - 演示如何集成核心编辑器并使用其 API
@@ -33,7 +78,7 @@ export const EngineEditorPage: React.FC = () => {
   };
 
   return (
-    <EditorProvider>
+    <EditorProvider plugins={PLUGINS}>
       <div className="engine-editor-page" style={{ width: '100vw', height: '100vh', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}>
         {/* 业务层 Header */}
         <header style={{ 
@@ -78,6 +123,8 @@ export const EngineEditorPage: React.FC = () => {
         <div style={{ flex: 1, position: 'relative' }}>
           <CoreEditor 
             apiRef={apiRef}
+            showLayersPanel
+            showCommandConsole
             slots={{
               toolbarExtra: (
                 <button 
@@ -2,22 +2,51 @@
  * 导出工具 - 将 Frame 或整个视口导出为图片
  */
 
-import type { Element } from '../core/engine/types';
+import type { Element, Size } from '../core/engine/types';
+import { ReconcileManager } from '../core/engine/modules/ReconcileManager';
+import { PluginManager } from '../core/engine/modules/PluginManager';
+import { getShapePathData, getLineEndpoints, getLineArrowheads } from '../core/utils/shapeUtils';
+import { getPathElementOutline } from '../core/utils/pathUtils';
+import { getConnectorPathData, getConnectorArrowheads } from '../core/utils/connectorUtils';
+import { layoutRichText, getFontString } from '../core/utils/richTextUtils';
+
+/** 导出格式：PNG 位图 / SVG 矢量图 */
+export type ExportFormat = 'png' | 'svg';
+
+/**
+ * 将 Frame 调整到指定尺寸，子元素按约束（或自动布局）重新排布，与在编辑器中缩放 Frame 的结果一致
+ * 只用于导出，不修改编辑器中的数据
+ */
+export function resizeFrameForExport(
+  frameElement: Element,
+  allElements: Element[],
+  size: Size
+): { frame: Element, elements: Element[] } {
+  const resized = allElements.map(el => el.id === frameElement.id ? { ...el, width: size.width, height: size.height } : el);
+  const elements = ReconcileManager.reconcile(allElements, resized);
+  return { frame: elements.find(el => el.id === frameElement.id) || frameElement, elements };
+}
 
 /**
  * 导出单个 Frame 为图片
  * @param frameElement Frame 元素
  * @param allElements 所有元素（用于获取子元素）
  * @param scale 导出缩放比例
+ * @param size 导出尺寸，不传时为 Frame 当前尺寸；子元素按约束适配该尺寸
  * @returns Promise<Blob>
  */
 export async function exportFrameAsCanvas(
   frameElement: Element,
   allElements: Element[],
-  scale: number = 2
+  scale: number = 2,
+  size?: Size
 ): Promise<HTMLCanvasElement> {
+  if (size) {
+    ({ frame: frameElement, elements: allElements } = resizeFrameForExport(frameElement, allElements, size));
+  }
+
   // 获取 Frame 的子元素
-  const children = allElements.filter(el => el.parentId === frameElement.id);
+  const children = allElements.filter(el => el.parentId === frameElement.id && el.visible !== false);
   console.log(`[Export] Frame dimensions: ${frameElement.width}x${frameElement.height}, children count: ${children.length}`);
 
   // 创建 canvas
@@ -97,7 +126,7 @@ async function renderElementToCanvas(
       ctx.clip();
 
       // 3. 递归渲染子元素
-      const children = allElements.filter(el => el.parentId === element.id);
+      const children = allElements.filter(el => el.parentId === element.id && el.visible !== false);
       for (const child of children.sort((a, b) => a.zIndex - b.zIndex)) {
         await renderElementToCanvas(ctx, child, allElements, x, y);
       }
@@ -117,6 +146,15 @@ async function renderElementToCanvas(
       break;
     }
 
+    case 'group': {
+      // 编组：无背景、不裁切，直接按层级递归渲染成员
+      const children = allElements.filter(el => el.parentId === element.id && el.visible !== false);
+      for (const child of children.sort((a, b) => a.zIndex - b.zIndex)) {
+        await renderElementToCanvas(ctx, child, allElements, x, y);
+      }
+      break;
+    }
+
     case 'rectangle':
       ctx.fillStyle = element.style?.fill || '#ffffff';
       if (element.style?.borderRadius) {
@@ -138,7 +176,79 @@ async function renderElementToCanvas(
       }
       break;
 
+    case 'ellipse':
+    case 'polygon':
+    case 'star': {
+      // 与 SVG 渲染共用路径数据
+      const path = new Path2D(getShapePathData(element));
+      ctx.translate(x, y);
+      ctx.fillStyle = element.style?.fill || '#ffffff';
+      ctx.fill(path);
+      if (element.style?.stroke) {
+        ctx.strokeStyle = element.style.stroke;
+        ctx.lineWidth = element.style.strokeWidth || 1;
+        ctx.lineJoin = 'round';
+        ctx.stroke(path);
+      }
+      break;
+    }
+
+    case 'line':
+    case 'arrow': {
+      const [start, end] = getLineEndpoints(element);
+      const stroke = element.style?.stroke || '#1f1f1f';
+      ctx.translate(x, y);
+      ctx.strokeStyle = stroke;
+      ctx.fillStyle = stroke;
+      ctx.lineWidth = element.style?.strokeWidth || 2;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+
+      getLineArrowheads(element).forEach(arrowhead => {
+        const path = new Path2D(arrowhead.d);
+        if (arrowhead.filled) ctx.fill(path);
+        ctx.stroke(path);
+      });
+      break;
+    }
+
+    case 'connector': {
+      const stroke = element.style?.stroke || '#1f1f1f';
+      ctx.translate(x, y);
+      ctx.strokeStyle = stroke;
+      ctx.fillStyle = stroke;
+      ctx.lineWidth = element.style?.strokeWidth || 2;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.stroke(new Path2D(getConnectorPathData(element)));
+
+      getConnectorArrowheads(element).forEach(arrowhead => {
+        const path = new Path2D(arrowhead.d);
+        if (arrowhead.filled) ctx.fill(path);
+        ctx.stroke(path);
+      });
+      break;
+    }
+
+    case 'path': {
+      // 手绘笔画：与 SVG 渲染共用变宽轮廓
+      ctx.translate(x, y);
+      ctx.fillStyle = element.style?.stroke || '#1f1f1f';
+      ctx.fill(new Path2D(getPathElementOutline(element)));
+      break;
+    }
+
     case 'text': {
+      if (element.richText) {
+        renderRichTextToCanvas(ctx, element, x, y);
+        break;
+      }
+
       const fontSize = element.style?.fontSize || 24;
       const fontFamily = element.style?.fontFamily || 'sans-serif';
       const lineHeight = fontSize * 1.2;
@@ -216,11 +326,57 @@ async function renderElementToCanvas(
       }
       break;
     }
+
+    default: {
+      // 插件元素：在元素局部坐标系中绘制
+      const exportToCanvas = PluginManager.get(element.type)?.exportToCanvas;
+      if (exportToCanvas) {
+        ctx.translate(x, y);
+        await exportToCanvas(ctx, element);
+      }
+      break;
+    }
   }
 
   ctx.restore();
 }
 
+/**
+ * 绘制富文本：逐行逐片段绘制，各片段共用每行的基线
+ */
+function renderRichTextToCanvas(ctx: CanvasRenderingContext2D, element: Element, x: number, y: number) {
+  const { width, height } = element;
+  const layout = layoutRichText(element, (text, style) => {
+    ctx.font = getFontString(style);
+    return ctx.measureText(text).width;
+  });
+
+  if (element.style?.backgroundColor && element.style.backgroundColor !== 'transparent') {
+    ctx.fillStyle = element.style.backgroundColor;
+    ctx.fillRect(x, y, width, height || layout.height);
+  }
+
+  const alignment = element.style?.textAlign || 'left';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'alphabetic';
+
+  layout.lines.forEach(line => {
+    let runX = x + (alignment === 'center' ? (width - line.width) / 2 : alignment === 'right' ? width - line.width : 0);
+    const baseline = y + line.baseline;
+    line.runs.forEach(run => {
+      const { style } = run;
+      ctx.font = getFontString(style);
+      ctx.fillStyle = style.color;
+      ctx.fillText(run.text, runX, baseline);
+      if (style.underline) {
+        const thickness = Math.max(1, style.fontSize / 15);
+        ctx.fillRect(runX, baseline + style.fontSize * 0.1, run.width, thickness);
+      }
+      runX += run.width;
+    });
+  });
+}
+
 /**
  * 绘制圆角矩形路径
  * 实现 CSS 标准的圆角：半径不能超过宽/高的一半
@@ -268,7 +424,7 @@ function roundRect(
  * 加载图片（通过 fetch 获取 blob，避免跨域污染 canvas）
  * 对于跨域图片，先 fetch 为 blob，再创建 object URL
  */
-async function loadImage(src: string): Promise<HTMLImageElement> {
+export async function loadImage(src: string): Promise<HTMLImageElement> {
   // 检查是否是 data URL 或 blob URL（这些不需要特殊处理）
   if (src.startsWith('data:') || src.startsWith('blob:')) {
     return loadImageDirectly(src);
@@ -328,7 +484,7 @@ function loadImageDirectly(src: string): Promise<HTMLImageElement> {
  * 清理文件名，移除非法字符
  * 非法字符包括: / \ ? % * : | " < > 以及控制字符
  */
-function sanitizeFilename(filename: string): string {
+export function sanitizeFilename(filename: string): string {
   // 移除非法字符
   let sanitized = filename.replace(/[/\\?%*:|"<>]/g, '_');
 
@@ -421,14 +577,40 @@ export function downloadDataURL(dataUrl: string, filename: string): void {
   }, 1000);
 }
 
+/**
+ * 以指定文件名下载 Blob
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const blobUrl = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = blobUrl;
+  a.download = filename;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+
+  a.click();
+
+  setTimeout(() => {
+    URL.revokeObjectURL(blobUrl);
+    document.body.removeChild(a);
+  }, 5000);
+}
+
 /**
  * 导出单个元素为 Canvas（支持 text 类型）
+ * @param size Frame 的导出尺寸，子元素按约束适配
  */
 export async function exportElementAsCanvas(
   element: Element,
   allElements: Element[],
-  scale: number = 2
+  scale: number = 2,
+  size?: Size
 ): Promise<HTMLCanvasElement> {
+  if (size && element.type === 'frame') {
+    ({ frame: element, elements: allElements } = resizeFrameForExport(element, allElements, size));
+  }
+
   const canvas = document.createElement('canvas');
   const ctx = canvas.getContext('2d');
   if (!ctx) throw new Error('Failed to get canvas context');
@@ -446,7 +628,7 @@ export async function exportElementAsCanvas(
     ctx.fillStyle = element.style?.fill || '#ffffff';
     ctx.fillRect(0, 0, element.width, element.height);
 
-    const children = allElements.filter(el => el.parentId === element.id);
+    const children = allElements.filter(el => el.parentId === element.id && el.visible !== false);
     for (const child of children.sort((a, b) => a.zIndex - b.zIndex)) {
       await renderElementToCanvas(ctx, child, allElements, 0, 0);
     }
@@ -459,12 +641,14 @@ export async function exportElementAsCanvas(
 }
 
 /**
- * 导出选中的元素为图片并下载（支持 Frame 和 Text）
+ * 导出选中的元素为图片并下载（支持 Frame、编组和 Text）
+ * @param size Frame 的导出尺寸，子元素按约束适配
  */
 export async function exportSelectedElementAsImage(
   selectedId: string,
   elements: Element[],
-  scale: number = 2
+  scale: number = 2,
+  size?: Size
 ): Promise<void> {
   const element = elements.find(el => el.id === selectedId);
   if (!element) {
@@ -472,15 +656,16 @@ export async function exportSelectedElementAsImage(
     return;
   }
 
-  // 目前只支持 frame 和 text 类型
-  if (element.type !== 'frame' && element.type !== 'text') {
-    alert('目前仅支持导出 Frame 和 Text 元素');
+  // 目前只支持 frame、group、text 类型与提供了 exportToCanvas 的插件元素
+  const isExportablePlugin = !!PluginManager.get(element.type)?.exportToCanvas;
+  if (element.type !== 'frame' && element.type !== 'group' && element.type !== 'text' && !isExportablePlugin) {
+    alert('目前仅支持导出 Frame、编组、Text 与插件元素');
     return;
   }
 
   try {
     console.log(`[Export] Exporting ${element.type}:`, selectedId);
-    const canvas = await exportElementAsCanvas(element, elements, scale);
+    const canvas = await exportElementAsCanvas(element, elements, scale, size);
 
     // 清理文件名中的非法字符
     const sanitizedName = sanitizeFilename(element.name || element.type);
@@ -493,20 +678,7 @@ export async function exportSelectedElementAsImage(
 
     console.log(`[Export] Blob created, size: ${blob.size}, downloading as: ${filename}`);
 
-    const blobUrl = URL.createObjectURL(blob);
-
-    const a = document.createElement('a');
-    a.href = blobUrl;
-    a.download = filename;
-    a.style.display = 'none';
-    document.body.appendChild(a);
-
-    a.click();
-
-    setTimeout(() => {
-      URL.revokeObjectURL(blobUrl);
-      document.body.removeChild(a);
-    }, 5000);
+    downloadBlob(blob, filename);
 
     console.log('[Export] Download triggered successfully');
 
@@ -123,6 +123,86 @@ export function rotatePoint(
   };
 }
 
+/**
+ * 将角度归一化到 [0, 360)
+ */
+export function normalizeRotation(angleDeg: number): number {
+  const normalized = angleDeg % 360;
+  return normalized < 0 ? normalized + 360 : normalized;
+}
+
+/**
+ * 获取矩形绕其中心旋转后的四个顶点（左上、右上、右下、左下）
+ */
+export function getRotatedCorners(bounds: Bounds, angleDeg: number = 0): Point[] {
+  const { x, y, width, height } = bounds;
+  const corners = [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+  ];
+  if (!angleDeg) return corners;
+
+  const center = { x: x + width / 2, y: y + height / 2 };
+  return corners.map(p => rotatePoint(p, center, angleDeg));
+}
+
+/**
+ * 计算点集的轴对齐包围盒
+ */
+export function getPointsBounds(points: Point[]): Bounds {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+}
+
+/**
+ * 判断点是否在凸多边形内（含边界）
+ */
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let sign = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const cross = (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+    if (cross === 0) continue;
+    const current = Math.sign(cross);
+    if (sign === 0) sign = current;
+    else if (sign !== current) return false;
+  }
+  return true;
+}
+
+/**
+ * 判断两个凸多边形是否相交（分离轴定理）
+ */
+export function polygonsIntersect(a: Point[], b: Point[]): boolean {
+  for (const polygon of [a, b]) {
+    for (let i = 0; i < polygon.length; i++) {
+      const p1 = polygon[i];
+      const p2 = polygon[(i + 1) % polygon.length];
+      const axis = { x: p1.y - p2.y, y: p2.x - p1.x };
+
+      const project = (points: Point[]) => {
+        const values = points.map(p => p.x * axis.x + p.y * axis.y);
+        return [Math.min(...values), Math.max(...values)];
+      };
+      const [minA, maxA] = project(a);
+      const [minB, maxB] = project(b);
+      if (maxA < minB || maxB < minA) return false;
+    }
+  }
+  return true;
+}
+
 /**
  * 限制值在范围内
  */
@@ -0,0 +1,427 @@
+/**
+ * PDF 导出工具 - 每个 Frame（画板）导出为一页
+ *
+ * 形状与可用标准字体表达的文本输出为矢量；图片以及包含中文等字符的文本
+ * 先在 canvas 中栅格化，再作为位图嵌入。
+ */
+
+import type { Element } from '../core/engine/types';
+import { getShapePathData, getLineEndpoints, getLineArrowheads } from '../core/utils/shapeUtils';
+import { getPathElementOutline } from '../core/utils/pathUtils';
+import { getConnectorPathData, getConnectorArrowheads } from '../core/utils/connectorUtils';
+import { PluginManager } from '../core/engine/modules/PluginManager';
+import { layoutRichText, isBoldWeight, type ResolvedTextStyle } from '../core/utils/richTextUtils';
+import { exportElementAsCanvas, loadImage, sanitizeFilename, downloadBlob } from './exportUtils';
+import { PdfWriter, PdfPage, parseColor, isWinAnsiEncodable, type PdfColor, type PdfFont } from './pdfWriter';
+
+const LINE_HEIGHT = 1.2;
+/** 行高 1.2 时基线距行顶约 0.95 倍字号（Arial / Helvetica 度量） */
+const BASELINE_RATIO = 0.95;
+/** 栅格化文本与图片时的缩放倍数 */
+const RASTER_SCALE = 2;
+
+/** 与标准字体度量一致的浏览器字体，用于测量行宽 */
+const MEASURE_FONTS: Record<PdfFont['family'], string> = {
+  Helvetica: 'Arial, Helvetica, sans-serif',
+  Times: '"Times New Roman", Times, serif',
+  Courier: '"Courier New", Courier, monospace',
+};
+
+interface RenderContext {
+  writer: PdfWriter;
+  page: PdfPage;
+  elements: Element[];
+  /** 祖先累计的不透明度 */
+  opacity: number;
+}
+
+/**
+ * 将 CSS 字体映射为最接近的标准字体
+ */
+function resolveFont(element: Element): PdfFont {
+  const family = (element.style?.fontFamily || '').toLowerCase();
+  const weight = element.style?.fontWeight;
+  const style = element.style?.fontStyle;
+  return {
+    family: /mono|courier|consol|menlo/.test(family)
+      ? 'Courier'
+      : /serif|times|georgia|song|宋/.test(family) && !family.includes('sans')
+        ? 'Times'
+        : 'Helvetica',
+    bold: weight === 'bold' || weight === 'bolder' || Number(weight) >= 600,
+    italic: style === 'italic' || style === 'oblique',
+  };
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+function measureText(text: string, font: PdfFont, size: number): number {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined'
+      ? document.createElement('canvas').getContext('2d')
+      : null;
+  }
+  if (!measureContext) return text.length * size * (font.family === 'Courier' ? 0.6 : 0.55);
+
+  measureContext.font = `${font.italic ? 'italic ' : ''}${font.bold ? 'bold ' : ''}${size}px ${MEASURE_FONTS[font.family]}`;
+  return measureContext.measureText(text).width;
+}
+
+/**
+ * 按元素宽度逐字折行（与图片导出的规则一致）
+ */
+function getTextLines(element: Element, font: PdfFont, size: number): string[] {
+  const paragraphs = (element.content || 'Double click to edit').split('\n');
+  if (!element.fixedWidth) return paragraphs;
+
+  const lines: string[] = [];
+  paragraphs.forEach(paragraph => {
+    let currentLine = '';
+    for (const char of paragraph) {
+      const testLine = currentLine + char;
+      if (currentLine && measureText(testLine, font, size) > element.width) {
+        lines.push(currentLine);
+        currentLine = char;
+      } else {
+        currentLine = testLine;
+      }
+    }
+    lines.push(currentLine);
+  });
+  return lines;
+}
+
+/**
+ * 设置填充色，返回是否需要填充
+ */
+function applyFill(ctx: RenderContext, color: PdfColor | null): boolean {
+  if (!color) return false;
+  ctx.page.setFillColor(color);
+  ctx.page.setAlpha(color.a * ctx.opacity, ctx.opacity);
+  return true;
+}
+
+/**
+ * 设置描边色与线宽，返回是否需要描边
+ */
+function applyStroke(ctx: RenderContext, color: PdfColor | null, width: number): boolean {
+  if (!color) return false;
+  ctx.page.setStrokeColor(color);
+  ctx.page.setAlpha(ctx.opacity, color.a * ctx.opacity);
+  ctx.page.setLineWidth(width);
+  return true;
+}
+
+/**
+ * 将 canvas 内容作为位图绘制到指定区域
+ */
+function drawCanvas(ctx: RenderContext, canvas: HTMLCanvasElement, width: number, height: number) {
+  const context = canvas.getContext('2d');
+  if (!context || canvas.width === 0 || canvas.height === 0) return;
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const image = ctx.writer.addImage(canvas.width, canvas.height, data);
+  ctx.page.setAlpha(ctx.opacity);
+  ctx.page.image(image, 0, 0, width, height);
+}
+
+async function renderChildren(parent: Element, ctx: RenderContext): Promise<void> {
+  const children = ctx.elements
+    .filter(el => el.parentId === parent.id && el.visible !== false)
+    .sort((a, b) => a.zIndex - b.zIndex);
+  for (const child of children) {
+    await renderElement(child, ctx);
+  }
+}
+
+/**
+ * 富文本：逐行逐片段输出，片段按自身的粗体 / 斜体选择标准字体；链接只保留颜色与下划线
+ */
+async function renderRichText(element: Element, ctx: RenderContext): Promise<void> {
+  const { page } = ctx;
+  const style = element.style || {};
+  const getFont = (runStyle: ResolvedTextStyle): PdfFont => ({
+    ...resolveFont(element),
+    bold: isBoldWeight(runStyle.fontWeight),
+    italic: runStyle.fontStyle === 'italic' || runStyle.fontStyle === 'oblique',
+  });
+  const layout = layoutRichText(element, (text, runStyle) => measureText(text, getFont(runStyle), runStyle.fontSize));
+
+  if (!layout.lines.every(line => line.runs.every(run => isWinAnsiEncodable(run.text)))) {
+    const canvas = await exportElementAsCanvas({ ...element, rotation: 0 }, ctx.elements, RASTER_SCALE);
+    drawCanvas(ctx, canvas, element.width, element.height);
+    return;
+  }
+
+  if (style.backgroundColor && applyFill(ctx, parseColor(style.backgroundColor))) {
+    page.rect(0, 0, element.width, element.height || layout.height);
+    page.fill();
+  }
+
+  layout.lines.forEach(line => {
+    let x = style.textAlign === 'center'
+      ? (element.width - line.width) / 2
+      : style.textAlign === 'right' ? element.width - line.width : 0;
+    line.runs.forEach(run => {
+      const color = parseColor(run.style.color);
+      const { fontSize } = run.style;
+      if (applyFill(ctx, color)) {
+        page.text(run.text, x, line.baseline, getFont(run.style), fontSize);
+        if (run.style.underline && applyStroke(ctx, color, Math.max(1, fontSize / 15))) {
+          page.moveTo(x, line.baseline + fontSize * 0.1);
+          page.lineTo(x + run.width, line.baseline + fontSize * 0.1);
+          page.stroke();
+        }
+      }
+      x += run.width;
+    });
+  });
+}
+
+async function renderText(element: Element, ctx: RenderContext): Promise<void> {
+  if (element.richText) return renderRichText(element, ctx);
+
+  const { page } = ctx;
+  const style = element.style || {};
+  const fontSize = style.fontSize || 24;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const font = resolveFont(element);
+  const lines = getTextLines(element, font, fontSize);
+  const height = element.height || lines.length * lineHeight;
+
+  // 标准字体无法表达的字符（如中文）回退为位图
+  if (!lines.every(isWinAnsiEncodable)) {
+    // 旋转已由外层变换处理
+    const canvas = await exportElementAsCanvas({ ...element, rotation: 0 }, ctx.elements, RASTER_SCALE);
+    drawCanvas(ctx, canvas, element.width, element.height);
+    return;
+  }
+
+  if (style.backgroundColor && applyFill(ctx, parseColor(style.backgroundColor))) {
+    page.rect(0, 0, element.width, height);
+    page.fill();
+  }
+
+  const color = parseColor(style.fill || '#333333');
+  if (!applyFill(ctx, color)) return;
+  const underline = style.textDecoration?.includes('underline') && applyStroke(ctx, color, Math.max(1, fontSize / 15));
+
+  lines.forEach((line, index) => {
+    if (!line) return;
+    const lineWidth = measureText(line, font, fontSize);
+    const x = style.textAlign === 'center'
+      ? (element.width - lineWidth) / 2
+      : style.textAlign === 'right' ? element.width - lineWidth : 0;
+    const baseline = index * lineHeight + fontSize * BASELINE_RATIO;
+    page.text(line, x, baseline, font, fontSize);
+
+    if (underline) {
+      page.moveTo(x, baseline + fontSize * 0.1);
+      page.lineTo(x + lineWidth, baseline + fontSize * 0.1);
+      page.stroke();
+    }
+  });
+}
+
+async function renderImage(element: Element, ctx: RenderContext): Promise<void> {
+  if (!element.imageUrl) return;
+  const { width, height } = element;
+
+  let canvas: HTMLCanvasElement;
+  try {
+    const img = await loadImage(element.imageUrl);
+    canvas = document.createElement('canvas');
+    // 按显示尺寸栅格化，避免嵌入远超所需的原图
+    canvas.width = Math.max(1, Math.round(Math.min(img.naturalWidth || width * RASTER_SCALE, width * RASTER_SCALE)));
+    canvas.height = Math.max(1, Math.round(Math.min(img.naturalHeight || height * RASTER_SCALE, height * RASTER_SCALE)));
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  } catch (error) {
+    console.warn(`[PDF Export] Failed to load image: ${element.imageUrl}`, error);
+    applyFill(ctx, parseColor('#f0f0f0'));
+    ctx.page.rect(0, 0, width, height);
+    ctx.page.fill();
+    return;
+  }
+
+  if (element.style?.borderRadius) {
+    ctx.page.rect(0, 0, width, height, element.style.borderRadius);
+    ctx.page.clip();
+  }
+  drawCanvas(ctx, canvas, width, height);
+}
+
+/**
+ * 在元素局部坐标系中绘制元素自身
+ */
+async function renderElementContent(element: Element, ctx: RenderContext): Promise<void> {
+  const { page } = ctx;
+  const { width, height } = element;
+  const style = element.style || {};
+
+  switch (element.type) {
+    case 'frame': {
+      if (applyFill(ctx, parseColor(style.fill || '#ffffff'))) {
+        page.rect(0, 0, width, height, style.borderRadius);
+        page.fill();
+      }
+
+      page.save();
+      page.rect(0, 0, width, height, style.borderRadius);
+      page.clip();
+      await renderChildren(element, ctx);
+      page.restore();
+
+      // 边框绘制在子元素之上
+      if (applyStroke(ctx, parseColor(style.stroke), style.strokeWidth || 1)) {
+        page.rect(0, 0, width, height, style.borderRadius);
+        page.stroke();
+      }
+      break;
+    }
+
+    case 'group':
+      await renderChildren(element, ctx);
+      break;
+
+    case 'rectangle':
+    case 'ellipse':
+    case 'polygon':
+    case 'star': {
+      const drawShape = () => {
+        if (element.type === 'rectangle') page.rect(0, 0, width, height, style.borderRadius);
+        else page.path(getShapePathData(element));
+      };
+      if (applyFill(ctx, parseColor(style.fill || '#ffffff'))) {
+        drawShape();
+        page.fill();
+      }
+      if (applyStroke(ctx, parseColor(style.stroke), style.strokeWidth || 1)) {
+        page.setRoundLineStyle();
+        drawShape();
+        page.stroke();
+      }
+      break;
+    }
+
+    case 'line':
+    case 'arrow':
+    case 'connector': {
+      const color = parseColor(style.stroke || '#1f1f1f');
+      if (!applyStroke(ctx, color, style.strokeWidth || 2)) break;
+      page.setRoundLineStyle();
+
+      if (element.type === 'connector') {
+        page.path(getConnectorPathData(element));
+      } else {
+        const [start, end] = getLineEndpoints(element);
+        page.moveTo(start.x, start.y);
+        page.lineTo(end.x, end.y);
+      }
+      page.stroke();
+
+      const arrowheads = element.type === 'connector' ? getConnectorArrowheads(element) : getLineArrowheads(element);
+      arrowheads.forEach(arrowhead => {
+        // 图形状态需在构造路径之前设置
+        const filled = arrowhead.filled && applyFill(ctx, color);
+        page.path(arrowhead.d);
+        if (filled) page.fillAndStroke();
+        else page.stroke();
+      });
+      break;
+    }
+
+    case 'path':
+      if (applyFill(ctx, parseColor(style.stroke || '#1f1f1f'))) {
+        page.path(getPathElementOutline(element));
+        page.fill();
+      }
+      break;
+
+    case 'text':
+      await renderText(element, ctx);
+      break;
+
+    case 'image':
+      await renderImage(element, ctx);
+      break;
+
+    default:
+      // 插件元素以 exportToCanvas 的位图嵌入，旋转已由外层变换处理
+      if (PluginManager.get(element.type)?.exportToCanvas) {
+        const canvas = await exportElementAsCanvas({ ...element, rotation: 0 }, ctx.elements, RASTER_SCALE);
+        drawCanvas(ctx, canvas, width, height);
+      }
+      break;
+  }
+}
+
+/**
+ * 绘制元素：位移、绕中心旋转与透明度只作用于当前元素及其子元素
+ */
+async function renderElement(
+  element: Element,
+  ctx: RenderContext,
+  position: { x: number, y: number, rotation?: number } = element
+): Promise<void> {
+  const { page } = ctx;
+  page.save();
+  page.translate(position.x, position.y);
+  if (position.rotation) {
+    page.translate(element.width / 2, element.height / 2);
+    page.rotate(position.rotation);
+    page.translate(-element.width / 2, -element.height / 2);
+  }
+
+  await renderElementContent(element, { ...ctx, opacity: ctx.opacity * (element.style?.opacity ?? 1) });
+  page.restore();
+}
+
+/**
+ * 确定要导出的 Frame：优先使用传入（选中）的 Frame，否则导出所有顶层 Frame；隐藏的 Frame 不导出
+ * 页面顺序按画板位置从上到下、从左到右排列
+ */
+export function getExportFrames(elements: Element[], frameIds?: string[]): Element[] {
+  const selected = (frameIds || [])
+    .map(id => elements.find(el => el.id === id))
+    .filter((el): el is Element => el?.type === 'frame' && el.visible !== false);
+  const frames = selected.length > 0
+    ? selected
+    : elements.filter(el => el.type === 'frame' && !el.parentId && el.visible !== false);
+
+  return [...frames].sort((a, b) => a.y - b.y || a.x - b.x);
+}
+
+/**
+ * 将 Frame 导出为多页 PDF，每个 Frame 一页，页面尺寸等于 Frame 尺寸（1px = 1pt）
+ */
+export async function exportFramesAsPdf(elements: Element[], frameIds?: string[]): Promise<Blob> {
+  const frames = getExportFrames(elements, frameIds);
+  if (frames.length === 0) {
+    throw new Error('No frames to export');
+  }
+
+  const writer = new PdfWriter();
+  for (const frame of frames) {
+    const page = writer.addPage(frame.width, frame.height);
+    // 画板自身作为页面，忽略其在画布上的位置与旋转
+    await renderElement(frame, { writer, page, elements, opacity: 1 }, { x: 0, y: 0 });
+  }
+  return writer.toBlob();
+}
+
+/**
+ * 导出 PDF 并下载
+ */
+export async function downloadFramesAsPdf(elements: Element[], frameIds?: string[]): Promise<Blob | null> {
+  try {
+    const frames = getExportFrames(elements, frameIds);
+    const blob = await exportFramesAsPdf(elements, frameIds);
+    const baseName = frames.length === 1 ? (frames[0].name || 'frame') : 'frames';
+    downloadBlob(blob, `${sanitizeFilename(baseName)}_${Date.now()}.pdf`);
+    return blob;
+  } catch (error) {
+    console.error('[PDF Export] Failed:', error);
+    alert('导出失败，请检查控制台日志');
+    return null;
+  }
+}
@@ -0,0 +1,585 @@
+/**
+ * PDF 写入器 - 不依赖第三方库，在本地生成 PDF 文件
+ *
+ * 只实现导出需要的子集：矢量路径、标准 14 字体的文本、带透明通道的位图以及透明度。
+ * 页面内容使用与画布一致的坐标系（原点在左上角，y 轴向下，单位 1px = 1pt）。
+ */
+
+export interface PdfColor {
+  r: number;
+  g: number;
+  b: number;
+  /** 0 - 1 */
+  a: number;
+}
+
+/** 标准 14 字体中可用于导出的字体族 */
+export type PdfFontFamily = 'Helvetica' | 'Times' | 'Courier';
+
+export interface PdfFont {
+  family: PdfFontFamily;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/** 已写入文档的图片，在页面中通过 name 引用 */
+export interface PdfImage {
+  name: string;
+  width: number;
+  height: number;
+}
+
+interface PdfImageData {
+  image: PdfImage;
+  rgb: Uint8Array;
+  alpha?: Uint8Array;
+}
+
+const STANDARD_FONT_NAMES: Record<PdfFontFamily, [string, string, string, string]> = {
+  // [常规, 粗体, 斜体, 粗斜体]
+  Helvetica: ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique'],
+  Times: ['Times-Roman', 'Times-Bold', 'Times-Italic', 'Times-BoldItalic'],
+  Courier: ['Courier', 'Courier-Bold', 'Courier-Oblique', 'Courier-BoldOblique'],
+};
+
+/** 三次贝塞尔近似四分之一圆弧的控制点系数 */
+const KAPPA = 0.5522847498;
+
+/**
+ * 格式化数字：保留 3 位小数并去掉多余的 0
+ */
+function num(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * 解析 CSS 颜色（#rgb / #rrggbb / #rrggbbaa / rgb() / rgba()），无法解析或透明时返回 null
+ */
+export function parseColor(color: string | undefined): PdfColor | null {
+  if (!color || color === 'transparent' || color === 'none') return null;
+
+  const hex = color.trim().match(/^#([0-9a-f]{3,8})$/i)?.[1];
+  if (hex) {
+    const full = hex.length <= 4 ? hex.split('').map(c => c + c).join('') : hex;
+    const a = full.length === 8 ? parseInt(full.slice(6, 8), 16) / 255 : 1;
+    return a === 0 ? null : {
+      r: parseInt(full.slice(0, 2), 16) / 255,
+      g: parseInt(full.slice(2, 4), 16) / 255,
+      b: parseInt(full.slice(4, 6), 16) / 255,
+      a,
+    };
+  }
+
+  const rgb = color.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/i);
+  if (rgb) {
+    const alpha = rgb[4] === undefined ? 1 : rgb[4].endsWith('%') ? parseFloat(rgb[4]) / 100 : parseFloat(rgb[4]);
+    return alpha === 0 ? null : {
+      r: parseFloat(rgb[1]) / 255,
+      g: parseFloat(rgb[2]) / 255,
+      b: parseFloat(rgb[3]) / 255,
+      a: alpha,
+    };
+  }
+
+  console.warn(`[PDF] Unsupported color, ignored: ${color}`);
+  return null;
+}
+
+/**
+ * 文本能否用标准字体（WinAnsi 编码）直接输出
+ */
+export function isWinAnsiEncodable(text: string): boolean {
+  return /^[\x20-\x7E\xA0-\xFF]*$/.test(text);
+}
+
+/**
+ * 编码为 PDF 字面量字符串
+ */
+function encodeText(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') result += `\\${char}`;
+    else if (code > 126) result += `\\${code.toString(8).padStart(3, '0')}`;
+    else result += char;
+  }
+  return `(${result})`;
+}
+
+/**
+ * 将 SVG 椭圆弧转换为三次贝塞尔曲线段（SVG 规范附录 F.6 的端点参数化换算）
+ */
+function arcToBeziers(
+  x1: number, y1: number,
+  rx: number, ry: number,
+  angleDeg: number,
+  largeArc: boolean, sweep: boolean,
+  x2: number, y2: number
+): number[][] {
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) return [[x1, y1, x2, y2, x2, y2]];
+
+  const phi = (angleDeg * Math.PI) / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.min(1, Math.max(-1, dot)));
+  };
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  // 每段不超过 90°
+  const segments = Math.ceil(Math.abs(delta) / (Math.PI / 2));
+  const step = delta / segments;
+  const t = (4 / 3) * Math.tan(step / 4);
+  const toWorld = (x: number, y: number) => [cx + cosPhi * x - sinPhi * y, cy + sinPhi * x + cosPhi * y];
+
+  const curves: number[][] = [];
+  for (let i = 0; i < segments; i++) {
+    const a1 = theta1 + i * step;
+    const a2 = a1 + step;
+    const [c1x, c1y] = toWorld(rx * (Math.cos(a1) - t * Math.sin(a1)), ry * (Math.sin(a1) + t * Math.cos(a1)));
+    const [c2x, c2y] = toWorld(rx * (Math.cos(a2) + t * Math.sin(a2)), ry * (Math.sin(a2) - t * Math.cos(a2)));
+    const [ex, ey] = toWorld(rx * Math.cos(a2), ry * Math.sin(a2));
+    curves.push([c1x, c1y, c2x, c2y, ex, ey]);
+  }
+  return curves;
+}
+
+/**
+ * 将 SVG 路径数据转换为 PDF 路径构造操作符
+ * 仅支持绝对坐标命令（M L H V C Q A Z），编辑器内部生成的路径均为绝对坐标
+ */
+export function svgPathToPdf(d: string): string {
+  const tokens = d.match(/[MLHVCQAZ]|-?\d*\.?\d+(?:e[-+]?\d+)?/gi) || [];
+  const ops: string[] = [];
+  let i = 0;
+  let command = '';
+  let current = { x: 0, y: 0 };
+  let start = { x: 0, y: 0 };
+  const next = () => parseFloat(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (/[a-z]/i.test(tokens[i])) {
+      command = tokens[i++];
+      if (command !== command.toUpperCase()) {
+        console.warn(`[PDF] Relative path command "${command}" is not supported`);
+        return '';
+      }
+    }
+
+    switch (command) {
+      case 'M':
+        current = { x: next(), y: next() };
+        start = current;
+        ops.push(`${num(current.x)} ${num(current.y)} m`);
+        // M 之后的坐标对按 L 处理
+        command = 'L';
+        break;
+      case 'L':
+        current = { x: next(), y: next() };
+        ops.push(`${num(current.x)} ${num(current.y)} l`);
+        break;
+      case 'H':
+        current = { x: next(), y: current.y };
+        ops.push(`${num(current.x)} ${num(current.y)} l`);
+        break;
+      case 'V':
+        current = { x: current.x, y: next() };
+        ops.push(`${num(current.x)} ${num(current.y)} l`);
+        break;
+      case 'C': {
+        const values = [next(), next(), next(), next(), next(), next()];
+        ops.push(`${values.map(num).join(' ')} c`);
+        current = { x: values[4], y: values[5] };
+        break;
+      }
+      case 'Q': {
+        // 二次贝塞尔升阶为三次
+        const [qx, qy, x, y] = [next(), next(), next(), next()];
+        const c1 = [current.x + (2 / 3) * (qx - current.x), current.y + (2 / 3) * (qy - current.y)];
+        const c2 = [x + (2 / 3) * (qx - x), y + (2 / 3) * (qy - y)];
+        ops.push(`${[...c1, ...c2, x, y].map(num).join(' ')} c`);
+        current = { x, y };
+        break;
+      }
+      case 'A': {
+        const [rx, ry, angle, largeArc, sweep, x, y] = [next(), next(), next(), next(), next(), next(), next()];
+        arcToBeziers(current.x, current.y, rx, ry, angle, !!largeArc, !!sweep, x, y)
+          .forEach(curve => ops.push(`${curve.map(num).join(' ')} c`));
+        current = { x, y };
+        break;
+      }
+      case 'Z':
+        ops.push('h');
+        current = start;
+        break;
+      default:
+        // 无法识别的数据，跳过
+        i++;
+    }
+  }
+
+  return ops.join('\n');
+}
+
+/**
+ * 使用浏览器内置的 CompressionStream 进行 zlib 压缩（即 PDF 的 FlateDecode），不可用时返回 null
+ */
+async function deflate(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+  try {
+    const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (error) {
+    console.warn('[PDF] Compression failed, writing uncompressed stream', error);
+    return null;
+  }
+}
+
+/**
+ * PdfPage - 单个页面的内容流
+ */
+export class PdfPage {
+  public readonly width: number;
+  public readonly height: number;
+  /** 页面使用到的资源名称 */
+  public readonly fonts = new Set<string>();
+  public readonly extGStates = new Set<string>();
+  public readonly images = new Set<string>();
+
+  private readonly writer: PdfWriter;
+  private readonly ops: string[] = [];
+
+  constructor(writer: PdfWriter, width: number, height: number) {
+    this.writer = writer;
+    this.width = width;
+    this.height = height;
+    // 翻转 y 轴，使页面坐标与画布一致
+    this.ops.push(`1 0 0 -1 0 ${num(height)} cm`);
+  }
+
+  public save() {
+    this.ops.push('q');
+  }
+
+  public restore() {
+    this.ops.push('Q');
+  }
+
+  /**
+   * 追加变换矩阵 [a b c d e f]
+   */
+  public transform(a: number, b: number, c: number, d: number, e: number, f: number) {
+    this.ops.push(`${[a, b, c, d, e, f].map(num).join(' ')} cm`);
+  }
+
+  public translate(x: number, y: number) {
+    if (x !== 0 || y !== 0) this.transform(1, 0, 0, 1, x, y);
+  }
+
+  /**
+   * 顺时针旋转（y 轴向下时与 CSS rotate 方向一致）
+   */
+  public rotate(angleDeg: number) {
+    if (!angleDeg) return;
+    const rad = (angleDeg * Math.PI) / 180;
+    this.transform(Math.cos(rad), Math.sin(rad), -Math.sin(rad), Math.cos(rad), 0, 0);
+  }
+
+  public setFillColor({ r, g, b }: PdfColor) {
+    this.ops.push(`${num(r)} ${num(g)} ${num(b)} rg`);
+  }
+
+  public setStrokeColor({ r, g, b }: PdfColor) {
+    this.ops.push(`${num(r)} ${num(g)} ${num(b)} RG`);
+  }
+
+  /**
+   * 设置填充 / 描边的不透明度
+   */
+  public setAlpha(fill: number, stroke: number = fill) {
+    const name = this.writer.getExtGState(fill, stroke);
+    this.extGStates.add(name);
+    this.ops.push(`/${name} gs`);
+  }
+
+  public setLineWidth(width: number) {
+    this.ops.push(`${num(width)} w`);
+  }
+
+  /**
+   * 设置圆头端点与圆角连接
+   */
+  public setRoundLineStyle() {
+    this.ops.push('1 J 1 j');
+  }
+
+  public rect(x: number, y: number, width: number, height: number, radius: number = 0) {
+    const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+    if (!r) {
+      this.ops.push(`${num(x)} ${num(y)} ${num(width)} ${num(height)} re`);
+      return;
+    }
+
+    const k = r * (1 - KAPPA);
+    const right = x + width;
+    const bottom = y + height;
+    this.ops.push(
+      `${num(x + r)} ${num(y)} m`,
+      `${num(right - r)} ${num(y)} l`,
+      `${num(right - k)} ${num(y)} ${num(right)} ${num(y + k)} ${num(right)} ${num(y + r)} c`,
+      `${num(right)} ${num(bottom - r)} l`,
+      `${num(right)} ${num(bottom - k)} ${num(right - k)} ${num(bottom)} ${num(right - r)} ${num(bottom)} c`,
+      `${num(x + r)} ${num(bottom)} l`,
+      `${num(x + k)} ${num(bottom)} ${num(x)} ${num(bottom - k)} ${num(x)} ${num(bottom - r)} c`,
+      `${num(x)} ${num(y + r)} l`,
+      `${num(x)} ${num(y + k)} ${num(x + k)} ${num(y)} ${num(x + r)} ${num(y)} c`,
+      'h'
+    );
+  }
+
+  /**
+   * 追加 SVG 路径数据
+   */
+  public path(d: string) {
+    const ops = svgPathToPdf(d);
+    if (ops) this.ops.push(ops);
+  }
+
+  public moveTo(x: number, y: number) {
+    this.ops.push(`${num(x)} ${num(y)} m`);
+  }
+
+  public lineTo(x: number, y: number) {
+    this.ops.push(`${num(x)} ${num(y)} l`);
+  }
+
+  public fill() {
+    this.ops.push('f');
+  }
+
+  public stroke() {
+    this.ops.push('S');
+  }
+
+  public fillAndStroke() {
+    this.ops.push('B');
+  }
+
+  /**
+   * 以当前路径裁剪后续绘制
+   */
+  public clip() {
+    this.ops.push('W n');
+  }
+
+  /**
+   * 绘制单行文本，(x, baseline) 为文本起点
+   * 文本需满足 isWinAnsiEncodable
+   */
+  public text(content: string, x: number, baseline: number, font: PdfFont, size: number) {
+    const name = this.writer.getFont(font);
+    this.fonts.add(name);
+    // 文本矩阵再次翻转 y 轴，避免字形倒置
+    this.ops.push(`BT /${name} ${num(size)} Tf 1 0 0 -1 ${num(x)} ${num(baseline)} Tm ${encodeText(content)} Tj ET`);
+  }
+
+  /**
+   * 将图片绘制到指定区域
+   */
+  public image(image: PdfImage, x: number, y: number, width: number, height: number) {
+    this.images.add(image.name);
+    // 图片空间为单位正方形且 y 轴向上，需要再翻转一次
+    this.ops.push(`q ${num(width)} 0 0 ${num(-height)} ${num(x)} ${num(y + height)} cm /${image.name} Do Q`);
+  }
+
+  public getContent(): string {
+    return this.ops.join('\n');
+  }
+}
+
+/**
+ * PdfWriter - 组装页面与共享资源，输出 PDF 文件
+ */
+export class PdfWriter {
+  private readonly pages: PdfPage[] = [];
+  private readonly fonts = new Map<string, string>();
+  private readonly extGStates = new Map<string, { fill: number, stroke: number }>();
+  private readonly images: PdfImageData[] = [];
+
+  public addPage(width: number, height: number): PdfPage {
+    const page = new PdfPage(this, width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  /**
+   * 获取标准字体的资源名称
+   */
+  public getFont({ family, bold = false, italic = false }: PdfFont): string {
+    const baseFont = STANDARD_FONT_NAMES[family][(bold ? 1 : 0) + (italic ? 2 : 0)];
+    let name = this.fonts.get(baseFont);
+    if (!name) {
+      name = `F${this.fonts.size + 1}`;
+      this.fonts.set(baseFont, name);
+    }
+    return name;
+  }
+
+  /**
+   * 获取透明度图形状态的资源名称
+   */
+  public getExtGState(fill: number, stroke: number): string {
+    const key = `${num(fill)}-${num(stroke)}`;
+    const index = [...this.extGStates.keys()].indexOf(key);
+    if (index >= 0) return `GS${index + 1}`;
+    this.extGStates.set(key, { fill, stroke });
+    return `GS${this.extGStates.size}`;
+  }
+
+  /**
+   * 添加 RGBA 位图（如 canvas 的 ImageData），返回可在页面中引用的图片
+   */
+  public addImage(width: number, height: number, rgba: Uint8ClampedArray | Uint8Array): PdfImage {
+    const pixels = width * height;
+    const rgb = new Uint8Array(pixels * 3);
+    const alpha = new Uint8Array(pixels);
+    let opaque = true;
+    for (let i = 0; i < pixels; i++) {
+      rgb[i * 3] = rgba[i * 4];
+      rgb[i * 3 + 1] = rgba[i * 4 + 1];
+      rgb[i * 3 + 2] = rgba[i * 4 + 2];
+      alpha[i] = rgba[i * 4 + 3];
+      if (alpha[i] !== 255) opaque = false;
+    }
+
+    const image: PdfImage = { name: `Im${this.images.length + 1}`, width, height };
+    this.images.push({ image, rgb, alpha: opaque ? undefined : alpha });
+    return image;
+  }
+
+  /**
+   * 生成 PDF 文件
+   */
+  public async toBlob(): Promise<Blob> {
+    const encoder = new TextEncoder();
+    const objects: Uint8Array[][] = [];
+    const reserve = () => objects.push([]);
+    const setObject = (id: number, ...parts: (string | Uint8Array)[]) => {
+      objects[id - 1] = parts.map(part => typeof part === 'string' ? encoder.encode(part) : part);
+    };
+    const setStream = async (id: number, dict: string, data: Uint8Array) => {
+      const compressed = await deflate(data);
+      const body = compressed || data;
+      const filter = compressed ? ' /Filter /FlateDecode' : '';
+      setObject(id, `<< ${dict}${filter} /Length ${body.length} >>\nstream\n`, body, '\nendstream');
+    };
+
+    // 1: Catalog，2: Pages
+    const catalogId = reserve();
+    const pagesId = reserve();
+
+    const fontIds = new Map<string, number>();
+    this.fonts.forEach((name, baseFont) => {
+      const id = reserve();
+      fontIds.set(name, id);
+      setObject(id, `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`);
+    });
+
+    const gsIds = new Map<string, number>();
+    [...this.extGStates.values()].forEach(({ fill, stroke }, index) => {
+      const id = reserve();
+      gsIds.set(`GS${index + 1}`, id);
+      setObject(id, `<< /Type /ExtGState /ca ${num(fill)} /CA ${num(stroke)} >>`);
+    });
+
+    const imageIds = new Map<string, number>();
+    for (const { image, rgb, alpha } of this.images) {
+      const id = reserve();
+      imageIds.set(image.name, id);
+      const common = `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /BitsPerComponent 8`;
+      let smask = '';
+      if (alpha) {
+        const maskId = reserve();
+        await setStream(maskId, `${common} /ColorSpace /DeviceGray`, alpha);
+        smask = ` /SMask ${maskId} 0 R`;
+      }
+      await setStream(id, `${common} /ColorSpace /DeviceRGB${smask}`, rgb);
+    }
+
+    const pageIds: number[] = [];
+    for (const page of this.pages) {
+      const pageId = reserve();
+      const contentId = reserve();
+      pageIds.push(pageId);
+
+      const refs = (names: Set<string>, ids: Map<string, number>) =>
+        [...names].map(name => `/${name} ${ids.get(name)} 0 R`).join(' ');
+      const resources = [
+        page.fonts.size > 0 ? `/Font << ${refs(page.fonts, fontIds)} >>` : '',
+        page.extGStates.size > 0 ? `/ExtGState << ${refs(page.extGStates, gsIds)} >>` : '',
+        page.images.size > 0 ? `/XObject << ${refs(page.images, imageIds)} >>` : '',
+      ].filter(Boolean).join(' ');
+
+      setObject(pageId, `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources << ${resources} >> /Contents ${contentId} 0 R >>`);
+      await setStream(contentId, '', encoder.encode(page.getContent()));
+    }
+
+    setObject(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+    setObject(pagesId, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+
+    // 拼接文件并记录每个对象的字节偏移，用于交叉引用表
+    const chunks: Uint8Array[] = [encoder.encode('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((parts, index) => {
+      offsets.push(offset);
+      const wrapped = [encoder.encode(`${index + 1} 0 obj\n`), ...parts, encoder.encode('\nendobj\n')];
+      wrapped.forEach(chunk => {
+        chunks.push(chunk);
+        offset += chunk.length;
+      });
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n');
+    chunks.push(encoder.encode(xref));
+
+    return new Blob(chunks as Uint8Array<ArrayBuffer>[], { type: 'application/pdf' });
+  }
+}
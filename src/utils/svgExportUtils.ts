@@ -0,0 +1,402 @@
+/**
+ * SVG 导出工具 - 将 Frame 或选中的元素导出为矢量图
+ *
+ * 元素树按父子关系递归输出为嵌套的 <g>：每个元素的 transform 只包含自身的
+ * 位移与旋转，子元素的 x / y 本就相对于父元素，与画布渲染保持一致。
+ */
+
+import type { Element, Bounds } from '../core/engine/types';
+import { getElementWorldBounds, getElementWorldPos, getElementWorldRotation, getTopLevelIds } from '../core/engine/utils';
+import { getShapePathData, getLineEndpoints, getLineArrowheads } from '../core/utils/shapeUtils';
+import { getPathElementOutline } from '../core/utils/pathUtils';
+import { getConnectorPathData, getConnectorArrowheads } from '../core/utils/connectorUtils';
+import { PluginManager } from '../core/engine/modules/PluginManager';
+import { layoutRichText, getFontString, isSafeLink } from '../core/utils/richTextUtils';
+import { exportElementAsCanvas, sanitizeFilename, downloadBlob } from './exportUtils';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const DEFAULT_FONT_FAMILY = 'Inter, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+const LINE_HEIGHT = 1.2;
+/** 插件元素回退为位图时的缩放倍数 */
+const RASTER_SCALE = 2;
+
+/**
+ * 转义 XML 文本与属性值
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * 拼接属性，忽略 undefined / null
+ */
+function attrs(values: Record<string, string | number | undefined | null>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(' ');
+}
+
+/**
+ * 圆角半径不能超过宽 / 高的一半（CSS 标准）
+ */
+function clampRadius(element: Element): number | undefined {
+  const radius = element.style?.borderRadius;
+  if (!radius) return undefined;
+  return Math.max(0, Math.min(radius, element.width / 2, element.height / 2));
+}
+
+/**
+ * 将图片读取为 Data URI，保证导出的 SVG 可以脱离原图地址独立使用
+ */
+async function imageToDataURI(src: string): Promise<string> {
+  if (src.startsWith('data:')) return src;
+
+  try {
+    const response = await fetch(src);
+    if (!response.ok) throw new Error(`Failed to fetch image: ${response.status}`);
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch (error) {
+    // 读取失败时保留原地址，至少在能访问该地址的环境中可以显示
+    console.warn(`[SVG Export] Failed to embed image, keeping original url: ${src}`, error);
+    return src;
+  }
+}
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+/**
+ * 测量文本宽度；非浏览器环境下按字号粗略估算
+ */
+function measureText(text: string, font: string, fontSize: number): number {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined'
+      ? document.createElement('canvas').getContext('2d')
+      : null;
+  }
+  if (!measureContext) return text.length * fontSize * 0.6;
+
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+}
+
+/**
+ * 按元素宽度折行（与画布导出的逐字折行规则一致）
+ */
+function getTextLines(element: Element, font: string, fontSize: number): string[] {
+  const content = element.content || 'Double click to edit';
+  const paragraphs = content.split('\n');
+  if (!element.fixedWidth) return paragraphs;
+
+  const lines: string[] = [];
+  paragraphs.forEach(paragraph => {
+    let currentLine = '';
+    for (const char of paragraph) {
+      const testLine = currentLine + char;
+      if (currentLine && measureText(testLine, font, fontSize) > element.width) {
+        lines.push(currentLine);
+        currentLine = char;
+      } else {
+        currentLine = testLine;
+      }
+    }
+    lines.push(currentLine);
+  });
+  return lines;
+}
+
+/**
+ * 富文本：每个片段输出为一个 <text>，按排版结果定位到每行的基线；带链接的片段包在 <a> 中
+ */
+function renderRichText(element: Element): string {
+  const { width, height } = element;
+  const style = element.style || {};
+  const layout = layoutRichText(element, (text, runStyle) => measureText(text, getFontString(runStyle), runStyle.fontSize));
+  const alignment = style.textAlign || 'left';
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const background = style.backgroundColor && style.backgroundColor !== 'transparent'
+    ? `<rect ${attrs({ width, height: height || layout.height, fill: style.backgroundColor })}/>`
+    : '';
+  const runs = layout.lines.flatMap(line => {
+    let x = alignment === 'center' ? (width - line.width) / 2 : alignment === 'right' ? width - line.width : 0;
+    return line.runs.map(run => {
+      const text = `<text ${attrs({
+        x: round(x),
+        y: round(line.baseline),
+        'font-family': run.style.fontFamily,
+        'font-size': run.style.fontSize,
+        'font-weight': run.style.fontWeight,
+        'font-style': run.style.fontStyle,
+        'text-decoration': run.style.underline ? 'underline' : undefined,
+        fill: run.style.color,
+      })} xml:space="preserve">${escapeXml(run.text)}</text>`;
+      x += run.width;
+      return run.style.link && isSafeLink(run.style.link) ? `<a ${attrs({ href: run.style.link })}>${text}</a>` : text;
+    });
+  });
+  return background + runs.join('');
+}
+
+/**
+ * 导出过程中的上下文：收集 <defs> 并生成唯一 ID
+ */
+interface SVGContext {
+  elements: Element[];
+  defs: string[];
+  nextId: (prefix: string) => string;
+}
+
+function renderStrokeAttrs(element: Element, defaultWidth: number) {
+  return {
+    stroke: element.style?.stroke,
+    'stroke-width': element.style?.stroke ? (element.style.strokeWidth || defaultWidth) : undefined,
+  };
+}
+
+/**
+ * 插件元素：优先使用插件的 SVG 片段，否则以 exportToCanvas 的位图嵌入
+ */
+async function renderPluginContent(element: Element): Promise<string> {
+  const plugin = PluginManager.get(element.type);
+  if (plugin?.exportToSVG) return plugin.exportToSVG(element);
+  if (!plugin?.exportToCanvas) return '';
+
+  // 旋转与透明度已由外层 <g> 处理
+  const canvas = await exportElementAsCanvas({ ...element, rotation: 0 }, [], RASTER_SCALE);
+  return `<image ${attrs({ href: canvas.toDataURL('image/png'), width: element.width, height: element.height, preserveAspectRatio: 'none' })}/>`;
+}
+
+/**
+ * 渲染元素自身的内容（局部坐标系，原点为元素左上角）
+ */
+async function renderElementContent(element: Element, ctx: SVGContext): Promise<string> {
+  const { width, height } = element;
+  const rx = clampRadius(element);
+
+  switch (element.type) {
+    case 'frame': {
+      const clipId = ctx.nextId('clip');
+      ctx.defs.push(`<clipPath id="${clipId}"><rect ${attrs({ width, height, rx })}/></clipPath>`);
+
+      const children = await renderChildren(element, ctx);
+      const background = `<rect ${attrs({ width, height, rx, fill: element.style?.fill || '#ffffff' })}/>`;
+      // 边框绘制在子元素之上
+      const border = element.style?.stroke
+        ? `<rect ${attrs({ width, height, rx, fill: 'none', ...renderStrokeAttrs(element, 1) })}/>`
+        : '';
+      return `${background}<g clip-path="url(#${clipId})">${children}</g>${border}`;
+    }
+
+    case 'group':
+      return renderChildren(element, ctx);
+
+    case 'rectangle':
+      return `<rect ${attrs({ width, height, rx, fill: element.style?.fill || '#ffffff', ...renderStrokeAttrs(element, 1) })}/>`;
+
+    case 'ellipse':
+    case 'polygon':
+    case 'star':
+      return `<path ${attrs({
+        d: getShapePathData(element),
+        fill: element.style?.fill || '#ffffff',
+        'stroke-linejoin': 'round',
+        ...renderStrokeAttrs(element, 1),
+      })}/>`;
+
+    case 'line':
+    case 'arrow':
+    case 'connector': {
+      const stroke = element.style?.stroke || '#1f1f1f';
+      const strokeWidth = element.style?.strokeWidth || 2;
+      const d = element.type === 'connector'
+        ? getConnectorPathData(element)
+        : (() => {
+          const [start, end] = getLineEndpoints(element);
+          return `M ${start.x} ${start.y} L ${end.x} ${end.y}`;
+        })();
+      const arrowheads = element.type === 'connector' ? getConnectorArrowheads(element) : getLineArrowheads(element);
+
+      const common = { stroke, 'stroke-width': strokeWidth, 'stroke-linecap': 'round', 'stroke-linejoin': 'round' };
+      return [
+        `<path ${attrs({ d, fill: 'none', ...common })}/>`,
+        ...arrowheads.map(arrowhead => `<path ${attrs({ d: arrowhead.d, fill: arrowhead.filled ? stroke : 'none', ...common })}/>`),
+      ].join('');
+    }
+
+    case 'path':
+      return `<path ${attrs({ d: getPathElementOutline(element), fill: element.style?.stroke || '#1f1f1f' })}/>`;
+
+    case 'text': {
+      if (element.richText) return renderRichText(element);
+
+      const style = element.style || {};
+      const fontSize = style.fontSize || 24;
+      const fontFamily = style.fontFamily || DEFAULT_FONT_FAMILY;
+      const fontWeight = style.fontWeight || 'normal';
+      const fontStyle = style.fontStyle || 'normal';
+      const lineHeight = fontSize * LINE_HEIGHT;
+      const lines = getTextLines(element, `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`, fontSize);
+
+      const alignment = style.textAlign || 'left';
+      const anchorX = alignment === 'center' ? width / 2 : alignment === 'right' ? width : 0;
+      const textAnchor = alignment === 'center' ? 'middle' : alignment === 'right' ? 'end' : 'start';
+
+      const background = style.backgroundColor && style.backgroundColor !== 'transparent'
+        ? `<rect ${attrs({ width, height: height || lines.length * lineHeight, fill: style.backgroundColor })}/>`
+        : '';
+      // 行高 1.2 时文字在行内垂直居中，以每行中线作为基线参考
+      const tspans = lines
+        .map((line, index) => `<tspan ${attrs({ x: anchorX, y: Math.round((index + 0.5) * lineHeight * 100) / 100 })}>${escapeXml(line)}</tspan>`)
+        .join('');
+      const text = `<text ${attrs({
+        'font-family': fontFamily,
+        'font-size': fontSize,
+        'font-weight': fontWeight,
+        'font-style': fontStyle,
+        'text-decoration': style.textDecoration && style.textDecoration !== 'none' ? style.textDecoration : undefined,
+        'text-anchor': textAnchor,
+        'dominant-baseline': 'central',
+        fill: style.fill || '#333333',
+      })} xml:space="preserve">${tspans}</text>`;
+      return background + text;
+    }
+
+    case 'image': {
+      if (!element.imageUrl) return '';
+      const href = await imageToDataURI(element.imageUrl);
+      let clip: string | undefined;
+      if (rx) {
+        const clipId = ctx.nextId('clip');
+        ctx.defs.push(`<clipPath id="${clipId}"><rect ${attrs({ width, height, rx })}/></clipPath>`);
+        clip = `url(#${clipId})`;
+      }
+      return `<image ${attrs({ href, width, height, preserveAspectRatio: 'none', 'clip-path': clip })}/>`;
+    }
+
+    default:
+      return renderPluginContent(element);
+  }
+}
+
+async function renderChildren(parent: Element, ctx: SVGContext): Promise<string> {
+  const children = ctx.elements
+    .filter(el => el.parentId === parent.id && el.visible !== false)
+    .sort((a, b) => a.zIndex - b.zIndex);
+  const rendered = await Promise.all(children.map(child => renderElement(child, ctx)));
+  return rendered.join('');
+}
+
+/**
+ * 渲染元素：位移、绕中心旋转与透明度作用在外层 <g> 上
+ */
+async function renderElement(
+  element: Element,
+  ctx: SVGContext,
+  position: { x: number, y: number, rotation?: number } = element
+): Promise<string> {
+  const transforms = [`translate(${position.x} ${position.y})`];
+  if (position.rotation) {
+    transforms.push(`rotate(${position.rotation} ${element.width / 2} ${element.height / 2})`);
+  }
+
+  const content = await renderElementContent(element, ctx);
+  return `<g ${attrs({
+    'data-name': element.name,
+    transform: transforms.join(' '),
+    opacity: element.style?.opacity !== undefined && element.style.opacity < 1 ? element.style.opacity : undefined,
+  })}>${content}</g>`;
+}
+
+/**
+ * 将指定元素导出为 SVG 文本
+ * - 单个 Frame：画板大小即为 Frame 尺寸（与 PNG 导出一致，忽略 Frame 自身的旋转）；
+ * - 其他情况：画板为所有选中元素（考虑旋转）的世界包围盒。
+ */
+export async function exportElementsAsSVG(ids: string[], allElements: Element[]): Promise<string> {
+  const topLevelIds = getTopLevelIds(allElements, ids).filter(id => allElements.some(el => el.id === id && el.visible !== false));
+  if (topLevelIds.length === 0) {
+    throw new Error('No elements to export');
+  }
+
+  let counter = 0;
+  const ctx: SVGContext = {
+    elements: allElements,
+    defs: [],
+    nextId: (prefix) => `${prefix}-${++counter}`,
+  };
+
+  let bounds: Bounds;
+  let body: string;
+  const single = allElements.find(el => el.id === topLevelIds[0])!;
+
+  if (topLevelIds.length === 1 && single.type === 'frame') {
+    bounds = { x: 0, y: 0, width: single.width, height: single.height };
+    body = await renderElement(single, ctx, { x: 0, y: 0 });
+  } else {
+    const worldBounds = topLevelIds.map(id => getElementWorldBounds(allElements, id));
+    const minX = Math.min(...worldBounds.map(b => b.x));
+    const minY = Math.min(...worldBounds.map(b => b.y));
+    bounds = {
+      x: minX,
+      y: minY,
+      width: Math.max(...worldBounds.map(b => b.x + b.width)) - minX,
+      height: Math.max(...worldBounds.map(b => b.y + b.height)) - minY,
+    };
+
+    const ordered = topLevelIds
+      .map(id => allElements.find(el => el.id === id)!)
+      .sort((a, b) => a.zIndex - b.zIndex);
+    const rendered = await Promise.all(ordered.map(element => {
+      // 嵌套在 Frame 中的元素脱离父级单独导出，使用世界坐标与世界旋转
+      const { x, y } = getElementWorldPos(allElements, element.id);
+      return renderElement(element, ctx, { x, y, rotation: getElementWorldRotation(allElements, element.id) });
+    }));
+    body = rendered.join('');
+  }
+
+  const width = Math.ceil(bounds.width);
+  const height = Math.ceil(bounds.height);
+  return [
+    `<svg ${attrs({ xmlns: SVG_NS, width, height, viewBox: `${bounds.x} ${bounds.y} ${width} ${height}` })}>`,
+    ctx.defs.length > 0 ? `<defs>${ctx.defs.join('')}</defs>` : '',
+    body,
+    '</svg>',
+  ].join('');
+}
+
+/**
+ * 导出选中的元素为 SVG 并下载，返回 SVG 文本
+ */
+export async function exportSelectionAsSVG(
+  selectedIds: string[],
+  elements: Element[]
+): Promise<string | null> {
+  if (selectedIds.length === 0) {
+    alert('请先选中一个元素');
+    return null;
+  }
+
+  try {
+    const svg = await exportElementsAsSVG(selectedIds, elements);
+    const first = elements.find(el => el.id === selectedIds[0]);
+    const baseName = selectedIds.length === 1 && first ? (first.name || first.type) : 'selection';
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${sanitizeFilename(baseName)}_${Date.now()}.svg`);
+    return svg;
+  } catch (error) {
+    console.error('[SVG Export] Failed:', error);
+    alert('导出失败，请检查控制台日志');
+    return null;
+  }
+}